@@ -9,10 +9,16 @@ import { CalculatorProvider } from "./contexts/CalculatorContext";
 import AuthPage from "./pages/auth-page";
 import DashboardPage from "./pages/dashboard-page";
 import InvoicesPage from "./pages/invoices-page";
+import EstimatesPage from "./pages/estimates-page";
+import RecurringInvoicesPage from "./pages/recurring-invoices-page";
 import PaymentsPage from "./pages/payments-page";
+import ExpensesPage from "./pages/expenses-page";
+import BillsPage from "./pages/bills-page";
+import BankingPage from "./pages/banking-page";
 import ReportsPage from "./pages/reports-page";
 import ProfilePage from "./pages/profile-page";
 import UsersPage from "./pages/users-page";
+import AuditLogPage from "./pages/audit-log-page";
 import ClientsPage from "./pages/clients-page";
 
 function Router() {
@@ -20,12 +26,18 @@ function Router() {
     <Switch>
       <Route path="/auth" component={AuthPage} />
       <ProtectedRoute path="/" component={DashboardPage} />
-      <ProtectedRoute path="/invoices" component={InvoicesPage} />
-      <ProtectedRoute path="/payments" component={PaymentsPage} />
-      <ProtectedRoute path="/clients" component={ClientsPage} />
-      <ProtectedRoute path="/reports" component={ReportsPage} />
+      <ProtectedRoute path="/estimates" component={EstimatesPage} permission="invoices:read" />
+      <ProtectedRoute path="/invoices" component={InvoicesPage} permission="invoices:read" />
+      <ProtectedRoute path="/recurring-invoices" component={RecurringInvoicesPage} permission="invoices:read" />
+      <ProtectedRoute path="/payments" component={PaymentsPage} permission="payments:read" />
+      <ProtectedRoute path="/expenses" component={ExpensesPage} permission="purchases:read" />
+      <ProtectedRoute path="/bills" component={BillsPage} permission="purchases:read" />
+      <ProtectedRoute path="/banking" component={BankingPage} permission="banking:read" />
+      <ProtectedRoute path="/clients" component={ClientsPage} permission="clients:read" />
+      <ProtectedRoute path="/reports" component={ReportsPage} permission="reports:read" />
       <ProtectedRoute path="/profile" component={ProfilePage} />
       <ProtectedRoute path="/users" component={UsersPage} />
+      <ProtectedRoute path="/audit-log" component={AuditLogPage} permission="audit:read" />
       <Route path="/:rest*">
         <NotFound />
       </Route>
@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import { AuditChanges, AuditLogEntryWithUser, getAuditActionLabel } from "@shared/schema";
+import { Loader2 } from "lucide-react";
+
+// "dueDate" is shown as "Due date"
+export const formatFieldName = (field: string) => {
+  const words = field.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+export const formatFieldValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "none";
+  if (Array.isArray(value)) return value.length > 0 ? value.map(formatFieldValue).join("; ") : "none";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// Who made a change and when, as shown next to it
+export const describeActor = (entry: AuditLogEntryWithUser) => {
+  return entry.userId === null ? "System" : entry.userName ?? `User ${entry.userId}`;
+};
+
+export function AuditChangeList({ changes }: { changes: AuditChanges }) {
+  const fields = Object.keys(changes);
+  if (fields.length === 0) return null;
+
+  return (
+    <ul className="text-xs text-gray-500 space-y-0.5">
+      {fields.map(field => (
+        <li key={field}>
+          <span className="font-medium text-gray-600">{formatFieldName(field)}:</span>{" "}
+          {changes[field].before !== null && (
+            <>
+              <span className="line-through">{formatFieldValue(changes[field].before)}</span>
+              {changes[field].after !== null && " → "}
+            </>
+          )}
+          {changes[field].after !== null && formatFieldValue(changes[field].after)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface ActivityHistoryProps {
+  // Endpoint returning the audit log entries of one record
+  url: string;
+}
+
+// Who changed a record, when and what they changed, latest first
+export function ActivityHistory({ url }: ActivityHistoryProps) {
+  // Records change from many pages, so the history is fetched each time it
+  // is shown rather than kept in the cache
+  const { data: entries, isLoading } = useQuery<AuditLogEntryWithUser[]>({
+    queryKey: [url],
+    staleTime: 0,
+  });
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <h3 className="text-sm font-medium">Activity History</h3>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      ) : entries && entries.length > 0 ? (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {entries.map(entry => (
+            <li key={entry.id} className="text-sm">
+              <p className="text-gray-600">
+                {new Date(entry.createdAt).toLocaleString()}: {getAuditActionLabel(entry.action)} by {describeActor(entry)}
+              </p>
+              {entry.action !== "create" && entry.action !== "delete" && <AuditChangeList changes={entry.changes} />}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No changes recorded yet</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { BankAccount, BankCsvMapping, bankCsvMappingSchema, insertBankAccountSchema } from "@shared/schema";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface BankAccountFormProps {
+  bankAccount?: BankAccount | null;
+  onSuccess?: () => void;
+}
+
+// The CSV mapping is edited as plain text fields, where an empty field
+// means the column is not used
+const csvMappingFieldsSchema = z.object({
+  dateColumn: z.string(),
+  dateFormat: z.enum(["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY"]),
+  descriptionColumn: z.string(),
+  amountColumn: z.string(),
+  debitColumn: z.string(),
+  creditColumn: z.string(),
+  payeeColumn: z.string(),
+  referenceColumn: z.string(),
+  delimiter: z.string(),
+  decimalSeparator: z.enum([".", ","]),
+});
+
+type CsvMappingFields = z.infer<typeof csvMappingFieldsSchema>;
+
+const toCsvMapping = (fields: CsvMappingFields): BankCsvMapping => ({
+  ...fields,
+  amountColumn: fields.amountColumn.trim() || undefined,
+  debitColumn: fields.debitColumn.trim() || undefined,
+  creditColumn: fields.creditColumn.trim() || undefined,
+  payeeColumn: fields.payeeColumn.trim() || undefined,
+  referenceColumn: fields.referenceColumn.trim() || undefined,
+  delimiter: fields.delimiter || undefined,
+});
+
+const bankAccountFormSchema = insertBankAccountSchema.omit({ csvMapping: true }).extend({
+  name: z.string().min(1, "A name is required"),
+  institution: z.string(),
+  accountNumber: z.string(),
+  currency: z.string().length(3, "Use a three-letter currency code"),
+  openingBalance: z.string().refine(value => value !== "" && !isNaN(Number(value)), "Enter the opening balance"),
+  useCsvMapping: z.boolean(),
+  csvMapping: csvMappingFieldsSchema,
+}).superRefine((values, ctx) => {
+  if (!values.useCsvMapping) return;
+
+  const result = bankCsvMappingSchema.safeParse(toCsvMapping(values.csvMapping));
+  if (!result.success) {
+    result.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: ["csvMapping", ...issue.path] }));
+  }
+});
+
+type BankAccountFormValues = z.infer<typeof bankAccountFormSchema>;
+
+const CSV_COLUMN_FIELDS: { name: keyof CsvMappingFields; label: string; placeholder: string }[] = [
+  { name: "dateColumn", label: "Date column", placeholder: "e.g. Date" },
+  { name: "descriptionColumn", label: "Description column", placeholder: "e.g. Description" },
+  { name: "amountColumn", label: "Amount column", placeholder: "Signed amount" },
+  { name: "payeeColumn", label: "Payee column", placeholder: "Optional" },
+  { name: "debitColumn", label: "Debit column", placeholder: "Instead of an amount column" },
+  { name: "creditColumn", label: "Credit column", placeholder: "Instead of an amount column" },
+  { name: "referenceColumn", label: "Reference column", placeholder: "Optional" },
+  { name: "delimiter", label: "Delimiter", placeholder: "Detected when empty" },
+];
+
+export function BankAccountForm({ bankAccount, onSuccess }: BankAccountFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!bankAccount;
+  const mapping = bankAccount?.csvMapping;
+
+  const form = useForm<BankAccountFormValues>({
+    resolver: zodResolver(bankAccountFormSchema),
+    defaultValues: {
+      name: bankAccount?.name || "",
+      institution: bankAccount?.institution || "",
+      accountNumber: bankAccount?.accountNumber || "",
+      currency: bankAccount?.currency || "USD",
+      openingBalance: bankAccount?.openingBalance || "0",
+      userId: bankAccount?.userId || 0, // This will be set by the server
+      useCsvMapping: !!mapping,
+      csvMapping: {
+        dateColumn: mapping?.dateColumn || "",
+        dateFormat: mapping?.dateFormat || "YYYY-MM-DD",
+        descriptionColumn: mapping?.descriptionColumn || "",
+        amountColumn: mapping?.amountColumn || "",
+        debitColumn: mapping?.debitColumn || "",
+        creditColumn: mapping?.creditColumn || "",
+        payeeColumn: mapping?.payeeColumn || "",
+        referenceColumn: mapping?.referenceColumn || "",
+        delimiter: mapping?.delimiter || "",
+        decimalSeparator: mapping?.decimalSeparator || ".",
+      },
+    },
+  });
+
+  const useCsvMapping = form.watch("useCsvMapping");
+
+  const mutation = useMutation({
+    mutationFn: async ({ useCsvMapping, csvMapping, ...values }: BankAccountFormValues) => {
+      const data = {
+        ...values,
+        institution: values.institution || null,
+        accountNumber: values.accountNumber || null,
+        currency: values.currency.toUpperCase(),
+        csvMapping: useCsvMapping ? toCsvMapping(csvMapping) : null,
+      };
+
+      const res = isEditing && bankAccount
+        ? await apiRequest("PUT", `/api/bank-accounts/${bankAccount.id}`, data)
+        : await apiRequest("POST", "/api/bank-accounts", data);
+      return await res.json();
+    },
+    onSuccess: (data: BankAccount) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-accounts"] });
+      toast({
+        title: isEditing ? "Bank account updated" : "Bank account added",
+        description: `${data.name} has been ${isEditing ? "updated" : "added"} successfully.`,
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to ${isEditing ? "update" : "add"} bank account: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: BankAccountFormValues) {
+    mutation.mutate(values);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Account Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Business Checking" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="institution"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Bank</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. First National" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="accountNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Account Number</FormLabel>
+                <FormControl>
+                  <Input placeholder="IBAN or last digits" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="currency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Currency</FormLabel>
+                <FormControl>
+                  <Input placeholder="USD" maxLength={3} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="openingBalance"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Opening Balance</FormLabel>
+              <FormControl>
+                <Input type="number" step="0.01" placeholder="0.00" {...field} />
+              </FormControl>
+              <FormDescription>The balance before the first statement line you load</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="useCsvMapping"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <FormLabel>CSV Import</FormLabel>
+                <FormDescription>Say which columns of the bank's CSV export hold each field</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        {useCsvMapping && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {CSV_COLUMN_FIELDS.map(column => (
+                <FormField
+                  key={column.name}
+                  control={form.control}
+                  name={`csvMapping.${column.name}`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{column.label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={column.placeholder}
+                          maxLength={column.name === "delimiter" ? 1 : undefined}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="csvMapping.dateFormat"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date Format</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="YYYY-MM-DD">YYYY-MM-DD</SelectItem>
+                        <SelectItem value="MM/DD/YYYY">MM/DD/YYYY</SelectItem>
+                        <SelectItem value="DD/MM/YYYY">DD/MM/YYYY</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="csvMapping.decimalSeparator"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Decimal Separator</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value=".">Point (1,234.56)</SelectItem>
+                        <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={mutation.isPending}>
+            {mutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isEditing ? "Updating..." : "Saving..."}
+              </>
+            ) : (
+              <>{isEditing ? "Update Bank Account" : "Add Bank Account"}</>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
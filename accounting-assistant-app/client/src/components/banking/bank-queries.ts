@@ -0,0 +1,10 @@
+import { queryClient } from "@/lib/queryClient";
+
+// Refetch everything loaded for a bank account (transactions, match
+// suggestions and reconciliation reports), whose keys all start with the
+// account's URL
+export const invalidateBankAccountQueries = (bankAccountId: number) => {
+  queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith(`/api/bank-accounts/${bankAccountId}/`),
+  });
+};
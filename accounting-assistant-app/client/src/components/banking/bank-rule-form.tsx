@@ -0,0 +1,400 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FlaskConical, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BankAccount,
+  BankRule,
+  BankRuleTestResult,
+  ExpenseCategory,
+  Vendor,
+  EXPENSE_CATEGORIES,
+} from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface BankRuleFormProps {
+  rule?: BankRule | null;
+  onSuccess?: () => void;
+}
+
+const optionalAmount = z.string().refine(value => value === "" || !isNaN(Number(value)), "Enter an amount");
+
+// Mirrors the checks the server makes before saving a rule
+const bankRuleFormSchema = z.object({
+  name: z.string().min(1, "A name is required"),
+  priority: z.string().refine(value => Number.isInteger(Number(value)), "Enter a whole number"),
+  bankAccountId: z.number().nullable(),
+  descriptionContains: z.string(),
+  amountMin: optionalAmount,
+  amountMax: optionalAmount,
+  category: z.string().nullable(),
+  vendorId: z.number().nullable(),
+  active: z.boolean(),
+}).superRefine((values, ctx) => {
+  if (!values.descriptionContains.trim() && values.amountMin === "" && values.amountMax === "") {
+    ctx.addIssue({ code: "custom", message: "Give the rule a description or amount condition", path: ["descriptionContains"] });
+  }
+  if (values.amountMin !== "" && values.amountMax !== "" && Number(values.amountMin) > Number(values.amountMax)) {
+    ctx.addIssue({ code: "custom", message: "The minimum is larger than the maximum", path: ["amountMax"] });
+  }
+  if (!values.category && !values.vendorId) {
+    ctx.addIssue({ code: "custom", message: "Choose a category or vendor to set", path: ["category"] });
+  }
+});
+
+type BankRuleFormValues = z.infer<typeof bankRuleFormSchema>;
+
+const toRule = (values: BankRuleFormValues) => ({
+  name: values.name,
+  priority: Number(values.priority),
+  bankAccountId: values.bankAccountId,
+  descriptionContains: values.descriptionContains.trim() || null,
+  amountMin: values.amountMin === "" ? null : Number(values.amountMin).toFixed(2),
+  amountMax: values.amountMax === "" ? null : Number(values.amountMax).toFixed(2),
+  category: values.category as ExpenseCategory | null,
+  vendorId: values.vendorId,
+  active: values.active,
+});
+
+export function BankRuleForm({ rule, onSuccess }: BankRuleFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!rule;
+
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ["/api/bank-accounts"],
+  });
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+  });
+
+  const form = useForm<BankRuleFormValues>({
+    resolver: zodResolver(bankRuleFormSchema),
+    defaultValues: {
+      name: rule?.name || "",
+      priority: (rule?.priority ?? 0).toString(),
+      bankAccountId: rule?.bankAccountId ?? null,
+      descriptionContains: rule?.descriptionContains || "",
+      amountMin: rule?.amountMin ?? "",
+      amountMax: rule?.amountMax ?? "",
+      category: rule?.category ?? null,
+      vendorId: rule?.vendorId ?? null,
+      active: rule?.active ?? true,
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (values: BankRuleFormValues) => {
+      const res = isEditing && rule
+        ? await apiRequest("PUT", `/api/bank-rules/${rule.id}`, toRule(values))
+        : await apiRequest("POST", "/api/bank-rules", toRule(values));
+      return await res.json();
+    },
+    onSuccess: (data: BankRule) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-rules"] });
+      toast({
+        title: isEditing ? "Bank rule updated" : "Bank rule added",
+        description: `${data.name} will categorize new bank transactions.`,
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to ${isEditing ? "update" : "add"} bank rule: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (values: BankRuleFormValues): Promise<BankRuleTestResult> => {
+      const res = await apiRequest("POST", "/api/bank-rules/test", { ...toRule(values), id: rule?.id });
+      return await res.json();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to test bank rule: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const testResult = testMutation.data;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(values => mutation.mutate(values))} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_8rem] gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rule Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Office rent" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="priority"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Priority</FormLabel>
+                <FormControl>
+                  <Input type="number" step="1" {...field} />
+                </FormControl>
+                <FormDescription>Lowest is tried first</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-4 rounded-md border p-4">
+          <div>
+            <div className="text-sm font-medium">When a transaction</div>
+            <p className="text-sm text-muted-foreground">Leave a condition empty to ignore it</p>
+          </div>
+
+          <FormField
+            control={form.control}
+            name="bankAccountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Is in</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === "all" ? null : Number(value))}
+                  value={field.value ? field.value.toString() : "all"}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="all">Any bank account</SelectItem>
+                    {bankAccounts.map(account => (
+                      <SelectItem key={account.id} value={account.id.toString()}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="descriptionContains"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description contains</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. ACME PROPERTIES" {...field} />
+                </FormControl>
+                <FormDescription>Also looked for in the payee; upper and lower case are the same</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="amountMin"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount from</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" placeholder="No minimum" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="amountMax"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Amount to</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" placeholder="No maximum" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Money going out is negative, so a rent payment of 1500 falls between -1600 and -1400.
+          </p>
+        </div>
+
+        <div className="space-y-4 rounded-md border p-4">
+          <div className="text-sm font-medium">Then set</div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                    value={field.value ?? "none"}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Leave unset</SelectItem>
+                      {EXPENSE_CATEGORIES.map(category => (
+                        <SelectItem key={category.value} value={category.value}>
+                          {category.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="vendorId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Vendor</FormLabel>
+                  <Select
+                    onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))}
+                    value={field.value ? field.value.toString() : "none"}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Leave unset</SelectItem>
+                      {vendors.map(vendor => (
+                        <SelectItem key={vendor.id} value={vendor.id.toString()}>
+                          {vendor.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="active"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <FormLabel>Active</FormLabel>
+                <FormDescription>Inactive rules are skipped when transactions come in</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        {testResult && (
+          <div className="bg-blue-50 p-3 rounded-md text-sm space-y-2">
+            <p>
+              <strong>
+                Matches {testResult.matchCount} past transaction{testResult.matchCount === 1 ? "" : "s"}
+              </strong>
+              {testResult.takenByEarlierRules > 0 &&
+                `, ${testResult.takenByEarlierRules} of which a rule with higher priority categorizes first`}
+            </p>
+            {testResult.transactions.length > 0 && (
+              <ul className="divide-y divide-blue-100">
+                {testResult.transactions.map(transaction => (
+                  <li key={transaction.id} className="py-1 flex justify-between gap-4">
+                    <span>
+                      <span className="text-gray-500 mr-2">{new Date(transaction.date).toLocaleDateString()}</span>
+                      {transaction.description}
+                    </span>
+                    <span className="whitespace-nowrap">{Number(transaction.amount).toFixed(2)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={testMutation.isPending}
+            onClick={form.handleSubmit(values => testMutation.mutate(values))}
+          >
+            {testMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FlaskConical className="mr-2 h-4 w-4" />
+            )}
+            Test Against Past Transactions
+          </Button>
+          <Button type="submit" disabled={mutation.isPending}>
+            {mutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isEditing ? "Updating..." : "Saving..."}
+              </>
+            ) : (
+              <>{isEditing ? "Update Rule" : "Add Rule"}</>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
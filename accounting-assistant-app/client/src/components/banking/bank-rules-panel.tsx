@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { BankRuleForm } from "@/components/banking/bank-rule-form";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { BankAccount, BankRule, Vendor, getExpenseCategoryLabel } from "@shared/schema";
+import { Plus, Edit, Trash2, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+// The conditions of a rule in one line, e.g. "Description contains "rent",
+// from -1600.00 to -1400.00"
+const describeConditions = (rule: BankRule, bankAccounts: BankAccount[]): string => {
+  const parts: string[] = [];
+  if (rule.descriptionContains) {
+    parts.push(`Description contains "${rule.descriptionContains}"`);
+  }
+  if (rule.amountMin !== null && rule.amountMax !== null) {
+    parts.push(`from ${rule.amountMin} to ${rule.amountMax}`);
+  } else if (rule.amountMin !== null) {
+    parts.push(`${rule.amountMin} or more`);
+  } else if (rule.amountMax !== null) {
+    parts.push(`${rule.amountMax} or less`);
+  }
+  if (rule.bankAccountId !== null) {
+    parts.push(`in ${bankAccounts.find(account => account.id === rule.bankAccountId)?.name ?? "a deleted account"}`);
+  }
+  return parts.join(", ");
+};
+
+// The user's bank rules in the order they are tried
+export function BankRulesPanel() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<BankRule | null>(null);
+
+  const { data: rules, isLoading } = useQuery<BankRule[]>({
+    queryKey: ["/api/bank-rules"],
+  });
+
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ["/api/bank-accounts"],
+  });
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (rule: BankRule) => {
+      await apiRequest("DELETE", `/api/bank-rules/${rule.id}`);
+      return rule;
+    },
+    onSuccess: (rule) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-rules"] });
+      toast({
+        title: "Bank rule deleted",
+        description: `${rule.name} has been deleted. Transactions it categorized keep their category.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+      <div className="p-5 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <p className="text-sm text-gray-500">
+          New statement lines get the category and vendor of the first active rule they match.
+        </p>
+        {can("banking:write") && (
+          <Button
+            className="flex items-center"
+            onClick={() => {
+              setEditingRule(null);
+              setIsFormOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            New Rule
+          </Button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              {["Priority", "Name", "Conditions", "Category", "Vendor", "Status", ""].map(heading => (
+                <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-center">
+                  <div className="flex justify-center">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  </div>
+                </td>
+              </tr>
+            ) : !rules || rules.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No bank rules yet
+                </td>
+              </tr>
+            ) : (
+              rules.map(rule => (
+                <tr key={rule.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{rule.priority}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{rule.name}</td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{describeConditions(rule, bankAccounts)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {rule.category ? getExpenseCategoryLabel(rule.category) : "-"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {rule.vendorId ? vendors.find(vendor => vendor.id === rule.vendorId)?.name ?? "-" : "-"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <Badge variant="outline">{rule.active ? "Active" : "Inactive"}</Badge>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                    {can("banking:write") && (
+                      <div className="flex justify-end space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Edit"
+                          onClick={() => {
+                            setEditingRule(rule);
+                            setIsFormOpen(true);
+                          }}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm" title="Delete" className="text-gray-500 hover:text-red-600">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete Bank Rule</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Are you sure you want to delete {rule.name}? Transactions it has already
+                                categorized keep their category and vendor.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => deleteMutation.mutate(rule)}
+                                className="bg-red-600 hover:bg-red-700"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <Dialog
+        open={isFormOpen}
+        onOpenChange={(open) => {
+          setIsFormOpen(open);
+          if (!open) setEditingRule(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-[650px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Bank Rule" : "Add Bank Rule"}</DialogTitle>
+          </DialogHeader>
+          <BankRuleForm
+            key={editingRule?.id ?? "new"}
+            rule={editingRule}
+            onSuccess={() => {
+              setIsFormOpen(false);
+              setEditingRule(null);
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
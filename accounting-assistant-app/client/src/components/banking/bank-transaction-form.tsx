@@ -0,0 +1,173 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { BankAccount, BankTransaction } from "@shared/schema";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { invalidateBankAccountQueries } from "@/components/banking/bank-queries";
+
+interface BankTransactionFormProps {
+  bankAccount: BankAccount;
+  onSuccess?: () => void;
+}
+
+const bankTransactionFormSchema = z.object({
+  date: z.string().min(1, "A date is required"),
+  amount: z.string().refine(value => value !== "" && Number(value) !== 0, "Enter a non-zero amount"),
+  description: z.string().min(1, "A description is required"),
+  payee: z.string(),
+  reference: z.string(),
+});
+
+type BankTransactionFormValues = z.infer<typeof bankTransactionFormSchema>;
+
+// A statement line entered by hand, for banks without a usable export
+export function BankTransactionForm({ bankAccount, onSuccess }: BankTransactionFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<BankTransactionFormValues>({
+    resolver: zodResolver(bankTransactionFormSchema),
+    defaultValues: {
+      date: new Date().toISOString().slice(0, 10),
+      amount: "",
+      description: "",
+      payee: "",
+      reference: "",
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (values: BankTransactionFormValues) => {
+      const res = await apiRequest("POST", `/api/bank-accounts/${bankAccount.id}/transactions`, {
+        ...values,
+        payee: values.payee || null,
+        reference: values.reference || null,
+      });
+      return await res.json();
+    },
+    onSuccess: (data: BankTransaction) => {
+      invalidateBankAccountQueries(bankAccount.id);
+      toast({
+        title: "Statement line added",
+        description: `${data.description} has been added to ${bankAccount.name}.`,
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to add statement line: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(values => mutation.mutate(values))} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" placeholder="0.00" {...field} />
+                </FormControl>
+                <FormDescription>Negative for money going out</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Input placeholder="As printed on the statement" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="payee"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Payee</FormLabel>
+                <FormControl>
+                  <Input placeholder="Optional" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="reference"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reference</FormLabel>
+                <FormControl>
+                  <Input placeholder="Optional" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={mutation.isPending}>
+            {mutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Add Line"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
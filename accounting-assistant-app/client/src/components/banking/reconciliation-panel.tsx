@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle, Loader2, Lock, Undo2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest } from "@/lib/queryClient";
+import { invalidateBankAccountQueries } from "@/components/banking/bank-queries";
+import {
+  BankAccount,
+  BankReconciliation,
+  ReconciliationReport,
+  getPaymentMethodLabel,
+  getSignedPaymentAmount,
+} from "@shared/schema";
+
+interface ReconciliationPanelProps {
+  bankAccount: BankAccount;
+}
+
+// Compare the loaded statement lines with the balance printed on a bank
+// statement, list what still separates them from the books, and lock the
+// period once they agree
+export function ReconciliationPanel({ bankAccount }: ReconciliationPanelProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().slice(0, 10));
+  const [statementBalance, setStatementBalance] = useState("");
+
+  const params = new URLSearchParams({ asOf: statementDate, statementBalance });
+  const { data: report, isLoading: isLoadingReport } = useQuery<ReconciliationReport>({
+    queryKey: [`/api/bank-accounts/${bankAccount.id}/reconciliation?${params}`],
+    enabled: !!statementDate,
+  });
+
+  const { data: reconciliations = [] } = useQuery<BankReconciliation[]>({
+    queryKey: [`/api/bank-accounts/${bankAccount.id}/reconciliations`],
+  });
+
+  const formatAmount = (amount: number) => {
+    return `${amount < 0 ? "-" : ""}${Math.abs(amount).toFixed(2)} ${bankAccount.currency}`;
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const completeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/bank-accounts/${bankAccount.id}/reconciliations`, {
+        statementDate,
+        statementBalance: Number(statementBalance).toFixed(2),
+      });
+      return await res.json();
+    },
+    onSuccess: (reconciliation: BankReconciliation) => {
+      invalidateBankAccountQueries(bankAccount.id);
+      toast({
+        title: "Reconciliation completed",
+        description: `${bankAccount.name} is reconciled through ${new Date(reconciliation.statementDate).toLocaleDateString()}.`,
+      });
+    },
+    onError,
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async (reconciliation: BankReconciliation) => {
+      await apiRequest("DELETE", `/api/bank-reconciliations/${reconciliation.id}`);
+      return reconciliation;
+    },
+    onSuccess: (reconciliation) => {
+      invalidateBankAccountQueries(bankAccount.id);
+      toast({
+        title: "Reconciliation undone",
+        description: `Transactions up to ${new Date(reconciliation.statementDate).toLocaleDateString()} can be changed again.`,
+      });
+    },
+    onError,
+  });
+
+  const isAlreadyLocked = !!report?.lockedThrough && statementDate <= report.lockedThrough;
+  const canComplete = !!report && statementBalance !== "" && report.difference === 0 && !isAlreadyLocked;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-5">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="grid gap-2">
+            <Label htmlFor="statement-date">Statement Date</Label>
+            <Input
+              id="statement-date"
+              type="date"
+              value={statementDate}
+              onChange={(e) => setStatementDate(e.target.value)}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="statement-balance">Statement Ending Balance</Label>
+            <Input
+              id="statement-balance"
+              type="number"
+              step="0.01"
+              placeholder="As printed on the statement"
+              value={statementBalance}
+              onChange={(e) => setStatementBalance(e.target.value)}
+            />
+          </div>
+          <div className="flex md:justify-end">
+            <Button disabled={!can("banking:write") || !canComplete || completeMutation.isPending} onClick={() => completeMutation.mutate()}>
+              {completeMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Completing...
+                </>
+              ) : (
+                <>
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                  Complete Reconciliation
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+        {report?.lockedThrough && (
+          <p className={`mt-3 text-sm flex items-center ${isAlreadyLocked ? "text-red-600" : "text-gray-500"}`}>
+            <Lock className="h-4 w-4 mr-1" />
+            Reconciled through {new Date(report.lockedThrough).toLocaleDateString()}
+            {isAlreadyLocked && "; choose a later statement date"}
+          </p>
+        )}
+      </div>
+
+      {isLoadingReport || !report ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {[
+              { label: "Statement Balance", value: report.statementBalance },
+              { label: "Cleared Balance", value: report.clearedBalance },
+              { label: "Book Balance", value: report.bookBalance },
+              { label: "Difference", value: report.difference },
+            ].map(item => (
+              <div key={item.label} className="bg-white rounded-lg shadow-sm p-5">
+                <div className="text-sm text-gray-500">{item.label}</div>
+                <div className={`text-xl font-semibold ${
+                  item.label === "Difference" && item.value !== null
+                    ? item.value === 0 ? "text-green-600" : "text-red-600"
+                    : "text-gray-800"
+                }`}>
+                  {item.value === null ? "-" : formatAmount(item.value)}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-lg shadow-sm p-5">
+              <div className="flex justify-between mb-3">
+                <h2 className="font-semibold text-gray-800">Statement Lines Not in the Books</h2>
+                <span className="text-sm font-medium">{formatAmount(report.unmatchedTotal)}</span>
+              </div>
+              {report.unmatchedTransactions.length === 0 ? (
+                <p className="text-sm text-gray-500">Every statement line is matched</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {report.unmatchedTransactions.map(transaction => (
+                    <li key={transaction.id} className="py-2 flex justify-between gap-4 text-sm">
+                      <span>
+                        <span className="text-gray-500 mr-2">{new Date(transaction.date).toLocaleDateString()}</span>
+                        {transaction.description}
+                      </span>
+                      <span className="whitespace-nowrap">
+                        {formatAmount(Number(transaction.amount) - transaction.matchedAmount)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-5">
+              <div className="flex justify-between mb-3">
+                <h2 className="font-semibold text-gray-800">Payments Not on the Statement</h2>
+                <span className="text-sm font-medium">{formatAmount(report.outstandingTotal)}</span>
+              </div>
+              {report.outstandingPayments.length === 0 ? (
+                <p className="text-sm text-gray-500">Every payment has cleared</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {report.outstandingPayments.map(payment => (
+                    <li key={payment.id} className="py-2 flex justify-between gap-4 text-sm">
+                      <span>
+                        <span className="text-gray-500 mr-2">{new Date(payment.date).toLocaleDateString()}</span>
+                        {getPaymentMethodLabel(payment.method)}
+                        {payment.reference && `, ref. ${payment.reference}`}
+                      </span>
+                      <span className="whitespace-nowrap">{formatAmount(getSignedPaymentAmount(payment))}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm p-5">
+        <h2 className="font-semibold text-gray-800 mb-3">Completed Reconciliations</h2>
+        {reconciliations.length === 0 ? (
+          <p className="text-sm text-gray-500">This account has not been reconciled yet</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {reconciliations.map((reconciliation, index) => (
+              <li key={reconciliation.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                <span>
+                  Through {new Date(reconciliation.statementDate).toLocaleDateString()}: statement{" "}
+                  {formatAmount(Number(reconciliation.statementBalance))}, books{" "}
+                  {formatAmount(Number(reconciliation.bookBalance))}
+                </span>
+                {can("banking:write") && index === 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={undoMutation.isPending}
+                    onClick={() => undoMutation.mutate(reconciliation)}
+                  >
+                    <Undo2 className="h-4 w-4 mr-1" />
+                    Undo
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateBankAccountQueries } from "@/components/banking/bank-queries";
+import {
+  BankAccount,
+  BankImportResult,
+  BankStatementFormat,
+  BANK_STATEMENT_FORMATS,
+  MAX_STATEMENT_BYTES,
+} from "@shared/schema";
+
+interface StatementImportProps {
+  bankAccount: BankAccount;
+  onSuccess?: () => void;
+}
+
+// The statement goes up as the raw request body and is parsed on the server
+async function uploadStatement(
+  bankAccountId: number,
+  file: File,
+  format: BankStatementFormat | "detect"
+): Promise<BankImportResult> {
+  const params = new URLSearchParams({ fileName: file.name });
+  if (format !== "detect") {
+    params.set("format", format);
+  }
+
+  const res = await fetch(`/api/bank-accounts/${bankAccountId}/import?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return await res.json();
+}
+
+export function StatementImport({ bankAccount, onSuccess }: StatementImportProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<BankStatementFormat | "detect">("detect");
+
+  const mutation = useMutation({
+    mutationFn: async () => uploadStatement(bankAccount.id, file!, format),
+    onSuccess: (result) => {
+      invalidateBankAccountQueries(bankAccount.id);
+      toast({
+        title: "Statement imported",
+        description: `${result.imported} new transaction${result.imported === 1 ? "" : "s"} imported` +
+          (result.skipped > 0 ? `, ${result.skipped} already imported skipped` : "") +
+          (result.locked > 0 ? `, ${result.locked} in reconciled periods skipped` : "") + ".",
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to import statement: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-2">
+        <Label htmlFor="statement-file">Statement File</Label>
+        <Input
+          id="statement-file"
+          type="file"
+          accept=".ofx,.qfx,.qif,.xml,.csv,.txt"
+          onChange={(e) => {
+            const selected = e.target.files?.[0] ?? null;
+            if (selected && selected.size > MAX_STATEMENT_BYTES) {
+              toast({
+                title: "Statement too large",
+                description: `Statements can be up to ${MAX_STATEMENT_BYTES / (1024 * 1024)} MB.`,
+                variant: "destructive",
+              });
+              e.target.value = "";
+              setFile(null);
+              return;
+            }
+            setFile(selected);
+          }}
+        />
+        <p className="text-sm text-muted-foreground">
+          Transactions that were imported before are skipped, so overlapping statements are safe to import.
+        </p>
+      </div>
+
+      <div className="grid gap-2">
+        <Label>Format</Label>
+        <Select value={format} onValueChange={(value) => setFormat(value as BankStatementFormat | "detect")}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="detect">Detect from the file</SelectItem>
+            {BANK_STATEMENT_FORMATS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {format === "csv" && !bankAccount.csvMapping && (
+          <p className="text-sm text-red-600">
+            Set up the CSV columns of this bank account before importing a CSV file.
+          </p>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={() => mutation.mutate()} disabled={!file || mutation.isPending}>
+          {mutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Importing...
+            </>
+          ) : (
+            <>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { invalidateBankAccountQueries } from "@/components/banking/bank-queries";
+import { BankTransaction, ExpenseCategory, Vendor, EXPENSE_CATEGORIES } from "@shared/schema";
+
+interface TransactionCategoryFormProps {
+  transaction: BankTransaction;
+  onSuccess?: () => void;
+}
+
+// Set the category and vendor of a statement line by hand, replacing what
+// a bank rule set
+export function TransactionCategoryForm({ transaction, onSuccess }: TransactionCategoryFormProps) {
+  const { toast } = useToast();
+  const [category, setCategory] = useState<ExpenseCategory | null>(transaction.category);
+  const [vendorId, setVendorId] = useState<number | null>(transaction.vendorId);
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+  });
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/bank-transactions/${transaction.id}`, { category, vendorId });
+      return await res.json();
+    },
+    onSuccess: (data: BankTransaction) => {
+      invalidateBankAccountQueries(data.bankAccountId);
+      toast({
+        title: "Statement line categorized",
+        description: `${data.description} has been categorized.`,
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to categorize statement line: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-blue-50 p-3 rounded-md text-sm">
+        <p><strong>Date:</strong> {new Date(transaction.date).toLocaleDateString()}</p>
+        <p><strong>Description:</strong> {transaction.description}</p>
+        <p><strong>Amount:</strong> {Number(transaction.amount).toFixed(2)}</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label>Category</Label>
+          <Select
+            value={category ?? "none"}
+            onValueChange={(value) => setCategory(value === "none" ? null : value as ExpenseCategory)}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Uncategorized</SelectItem>
+              {EXPENSE_CATEGORIES.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="grid gap-2">
+          <Label>Vendor</Label>
+          <Select
+            value={vendorId ? vendorId.toString() : "none"}
+            onValueChange={(value) => setVendorId(value === "none" ? null : Number(value))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No vendor</SelectItem>
+              {vendors.map(vendor => (
+                <SelectItem key={vendor.id} value={vendor.id.toString()}>
+                  {vendor.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={() => mutation.mutate()} disabled={mutation.isPending}>
+          {mutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save Category"
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
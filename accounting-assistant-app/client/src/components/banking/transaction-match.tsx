@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Check, Loader2, Plus, Trash2 } from "lucide-react";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { invalidateBankAccountQueries } from "@/components/banking/bank-queries";
+import {
+  BankAccount,
+  BankMatchSuggestion,
+  BankTransactionWithMatches,
+  InvoiceWithAmounts,
+  getInvoiceNumber,
+  getPaymentMethodLabel,
+} from "@shared/schema";
+
+interface TransactionMatchProps {
+  transaction: BankTransactionWithMatches;
+  onSuccess?: () => void;
+}
+
+interface Allocation {
+  invoiceId: number | null;
+  amount: string;
+}
+
+const money = (amount: number) => amount.toFixed(2);
+
+// Match a statement line to the books: accept a suggested payment, or record
+// new payments from it, split across as many invoices as it settles
+export function TransactionMatch({ transaction, onSuccess }: TransactionMatchProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const remaining = Math.round((Number(transaction.amount) - transaction.matchedAmount) * 100) / 100;
+  const [allocations, setAllocations] = useState<Allocation[]>([{ invoiceId: null, amount: money(remaining) }]);
+
+  const { data: suggestions, isLoading: isLoadingSuggestions } = useQuery<BankMatchSuggestion[]>({
+    queryKey: [`/api/bank-accounts/${transaction.bankAccountId}/suggestions/${transaction.id}`],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/bank-transactions/${transaction.id}/suggestions`);
+      return await res.json();
+    },
+  });
+
+  const { data: invoices = [] } = useQuery<InvoiceWithAmounts[]>({
+    queryKey: ["/api/invoices"],
+    enabled: remaining > 0 && can("payments:write"),
+  });
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ["/api/bank-accounts"],
+  });
+
+  // Only invoices in the account's currency can be paid from it
+  const currency = bankAccounts.find(account => account.id === transaction.bankAccountId)?.currency;
+  const openInvoices = invoices.filter(invoice => (
+    invoice.status !== "void" && invoice.amountDue > 0 && invoice.currency === currency
+  ));
+
+  const allocated = Math.round(allocations.reduce((sum, allocation) => sum + (Number(allocation.amount) || 0), 0) * 100) / 100;
+  const canRecord = allocations.every(allocation => allocation.invoiceId !== null && Number(allocation.amount) > 0)
+    && allocated > 0
+    && allocated <= remaining;
+
+  const onMatched = (title: string, description: string) => {
+    invalidateBankAccountQueries(transaction.bankAccountId);
+    queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+    toast({ title, description });
+    if (onSuccess) {
+      onSuccess();
+    }
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async (suggestion: BankMatchSuggestion) => {
+      await apiRequest("POST", `/api/bank-transactions/${transaction.id}/matches`, {
+        paymentIds: [suggestion.payment.id],
+      });
+      return suggestion;
+    },
+    onSuccess: (suggestion) => onMatched(
+      "Match accepted",
+      `Payment #${suggestion.payment.id} on invoice ${suggestion.invoiceNumber} is matched to this statement line.`
+    ),
+    onError,
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/bank-transactions/${transaction.id}/payments`, {
+        allocations: allocations.map(allocation => ({
+          invoiceId: allocation.invoiceId,
+          amount: Number(allocation.amount).toFixed(2),
+        })),
+      });
+    },
+    onSuccess: () => onMatched(
+      allocations.length === 1 ? "Payment recorded" : "Payments recorded",
+      `${allocations.length} payment${allocations.length === 1 ? "" : "s"} recorded from this statement line.`
+    ),
+    onError,
+  });
+
+  const updateAllocation = (index: number, change: Partial<Allocation>) => {
+    setAllocations(current => current.map((allocation, i) => (i === index ? { ...allocation, ...change } : allocation)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-blue-50 p-3 rounded-md text-sm">
+        <p><strong>Date:</strong> {new Date(transaction.date).toLocaleDateString()}</p>
+        <p><strong>Description:</strong> {transaction.description}</p>
+        {transaction.payee && <p><strong>Payee:</strong> {transaction.payee}</p>}
+        {transaction.reference && <p><strong>Reference:</strong> {transaction.reference}</p>}
+        <p><strong>Amount:</strong> {money(Number(transaction.amount))}</p>
+        <p><strong>Left to match:</strong> {money(remaining)}</p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium">Suggested Matches</div>
+        {isLoadingSuggestions ? (
+          <Loader2 className="h-4 w-4 animate-spin text-primary" />
+        ) : suggestions && suggestions.length > 0 ? (
+          <ul className="space-y-2">
+            {suggestions.map(suggestion => (
+              <li key={suggestion.payment.id} className="flex items-center justify-between gap-2 rounded-md border p-3 text-sm">
+                <div>
+                  <div className="font-medium">
+                    {money(Number(suggestion.payment.amount))} on invoice {suggestion.invoiceNumber}
+                    {suggestion.clientName && ` (${suggestion.clientName})`}
+                  </div>
+                  <div className="text-gray-500">
+                    {new Date(suggestion.payment.date).toLocaleDateString()} by {getPaymentMethodLabel(suggestion.payment.method)}
+                    {suggestion.payment.reference && `, ref. ${suggestion.payment.reference}`}
+                  </div>
+                  <div className="text-xs text-gray-400">{suggestion.reasons.join(" · ")}</div>
+                </div>
+                <Button
+                  size="sm"
+                  disabled={acceptMutation.isPending}
+                  onClick={() => acceptMutation.mutate(suggestion)}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Accept
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No recorded payments look like this statement line</p>
+        )}
+      </div>
+
+      {remaining > 0 && can("payments:write") && (
+        <div className="space-y-3 border-t pt-4">
+          <div className="text-sm font-medium">Record Payments from This Deposit</div>
+          {allocations.map((allocation, index) => (
+            <div key={index} className="grid grid-cols-[1fr_8rem_auto] gap-2 items-end">
+              <div className="grid gap-1">
+                {index === 0 && <Label>Invoice</Label>}
+                <Select
+                  value={allocation.invoiceId ? allocation.invoiceId.toString() : undefined}
+                  onValueChange={(value) => updateAllocation(index, { invoiceId: Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an invoice" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {openInvoices.map(invoice => (
+                      <SelectItem key={invoice.id} value={invoice.id.toString()}>
+                        {getInvoiceNumber(invoice)} - {invoice.clientName} ({money(invoice.amountDue)} due)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1">
+                {index === 0 && <Label>Amount</Label>}
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={allocation.amount}
+                  onChange={(e) => updateAllocation(index, { amount: e.target.value })}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Remove"
+                className="text-gray-500 hover:text-red-600"
+                disabled={allocations.length === 1}
+                onClick={() => setAllocations(current => current.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setAllocations(current => [
+                ...current,
+                { invoiceId: null, amount: money(Math.max(0, remaining - allocated)) },
+              ])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Split Across Another Invoice
+            </Button>
+            <span className={`text-sm ${allocated > remaining ? "text-red-600" : "text-gray-500"}`}>
+              Allocated {money(allocated)} of {money(remaining)}
+            </span>
+          </div>
+
+          <div className="flex justify-end">
+            <Button disabled={!canRecord || recordMutation.isPending} onClick={() => recordMutation.mutate()}>
+              {recordMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Recording...
+                </>
+              ) : (
+                allocations.length === 1 ? "Record Payment" : "Record Payments"
+              )}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Bill, BillLineItem, Vendor, calculateInvoiceTotal } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LineItemsEditor, lineItemFormSchema, emptyLineItem } from "@/components/invoices/line-items-editor";
+
+interface BillFormProps {
+  bill?: Bill | null;
+  onSuccess?: () => void;
+}
+
+const billFormSchema = z.object({
+  number: z.string().min(1, "The vendor's bill number is required"),
+  vendorId: z.number({ required_error: "Select a vendor" }),
+  date: z.string().min(1, "A date is required"),
+  dueDate: z.string().min(1, "A due date is required"),
+  notes: z.string(),
+  lineItems: z.array(lineItemFormSchema).min(1, "Add at least one line item"),
+}).refine(values => values.dueDate >= values.date, {
+  message: "The due date must be on or after the bill date",
+  path: ["dueDate"],
+});
+
+type BillFormValues = z.infer<typeof billFormSchema>;
+
+// Bills are due in 30 days unless another date is chosen
+const defaultDueDate = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 30);
+  return date.toISOString().slice(0, 10);
+};
+
+export function BillForm({ bill, onSuccess }: BillFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!bill;
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+  });
+
+  // Fetch existing line items when editing
+  const { data: existingLineItems } = useQuery<BillLineItem[]>({
+    queryKey: [`/api/bills/${bill?.id}/line-items`],
+    enabled: isEditing,
+  });
+
+  const form = useForm<BillFormValues>({
+    resolver: zodResolver(billFormSchema),
+    defaultValues: {
+      number: bill?.number || "",
+      vendorId: bill?.vendorId ?? undefined,
+      date: bill?.date || new Date().toISOString().slice(0, 10),
+      dueDate: bill?.dueDate || defaultDueDate(),
+      notes: bill?.notes || "",
+      lineItems: [emptyLineItem()],
+    },
+  });
+
+  // Load the saved line items into the form
+  useEffect(() => {
+    if (!bill || !existingLineItems) return;
+
+    form.setValue("lineItems", existingLineItems.length > 0
+      ? existingLineItems.map((item) => ({
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          taxRate: item.taxRate,
+          discount: item.discount,
+        }))
+      : [{ ...emptyLineItem(), description: `Bill ${bill.number}`, unitPrice: bill.amount }]);
+  }, [existingLineItems, bill, form]);
+
+  const mutation = useMutation({
+    mutationFn: async (values: BillFormValues) => {
+      const data = {
+        ...values,
+        notes: values.notes || null,
+        amount: calculateInvoiceTotal(values.lineItems).toFixed(2),
+      };
+
+      const res = isEditing && bill
+        ? await apiRequest("PUT", `/api/bills/${bill.id}`, data)
+        : await apiRequest("POST", "/api/bills", data);
+      return await res.json();
+    },
+    onSuccess: (data: Bill) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/bills/${data.id}/line-items`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      toast({
+        title: isEditing ? "Bill updated" : "Bill entered",
+        description: `Bill ${data.number} from ${data.vendorName} has been ${isEditing ? "updated" : "entered"} successfully.`,
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to ${isEditing ? "update" : "enter"} bill: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: BillFormValues) {
+    mutation.mutate(values);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="vendorId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Vendor</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(Number(value))}
+                  value={field.value ? field.value.toString() : undefined}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a vendor" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {vendors.map((vendor) => (
+                      <SelectItem key={vendor.id} value={vendor.id.toString()}>
+                        {vendor.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="number"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Bill Number</FormLabel>
+                <FormControl>
+                  <Input placeholder="As printed on the bill" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <LineItemsEditor namedTaxes={false} />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Bill Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="dueDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Due Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Any notes about this bill" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={mutation.isPending}>
+            {mutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isEditing ? "Updating..." : "Saving..."}
+              </>
+            ) : (
+              <>{isEditing ? "Update Bill" : "Enter Bill"}</>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,266 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  BillPayment,
+  BillWithAmounts,
+  PAYMENT_METHODS,
+  getPaymentMethodLabel,
+  insertBillPaymentSchema,
+} from "@shared/schema";
+
+interface BillPaymentsProps {
+  bill: BillWithAmounts;
+}
+
+const billPaymentFormSchema = insertBillPaymentSchema.omit({ billId: true, userId: true }).extend({
+  amount: z.string().refine(value => Number(value) > 0, "The payment amount must be greater than zero"),
+  date: z.string().min(1, "A date is required"),
+  reference: z.string(),
+});
+
+type BillPaymentFormValues = z.infer<typeof billPaymentFormSchema>;
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+
+// Payments made on a bill, with a form to record the next instalment
+export function BillPayments({ bill }: BillPaymentsProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  const { data: payments, isLoading } = useQuery<BillPayment[]>({
+    queryKey: [`/api/bills/${bill.id}/payments`],
+  });
+
+  // Default to paying off whatever is still due
+  const form = useForm<BillPaymentFormValues>({
+    resolver: zodResolver(billPaymentFormSchema),
+    defaultValues: {
+      amount: bill.amountDue.toFixed(2),
+      date: new Date().toISOString().slice(0, 10),
+      method: "bank_transfer",
+      reference: "",
+    },
+  });
+
+  // Keep suggesting the remaining balance as instalments are recorded
+  useEffect(() => {
+    form.setValue("amount", bill.amountDue.toFixed(2));
+  }, [bill.amountDue, form]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/bills/${bill.id}/payments`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (values: BillPaymentFormValues) => {
+      const res = await apiRequest("POST", "/api/bill-payments", {
+        ...values,
+        reference: values.reference || null,
+        billId: bill.id,
+      });
+      return await res.json();
+    },
+    onSuccess: (payment: BillPayment) => {
+      invalidate();
+      form.setValue("reference", "");
+      toast({
+        title: "Bill payment recorded",
+        description: `${money(Number(payment.amount))} paid on bill ${bill.number}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to record bill payment: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/bill-payments/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Bill payment deleted",
+        description: `The payment has been removed from bill ${bill.number}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete bill payment: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-blue-50 p-3 rounded-md text-sm">
+        <p><strong>Bill:</strong> {bill.number} from {bill.vendorName}</p>
+        <p><strong>Due Date:</strong> {new Date(bill.dueDate).toLocaleDateString()}</p>
+        <p><strong>Total:</strong> {money(Number(bill.amount))}</p>
+        <p><strong>Paid:</strong> {money(bill.amountPaid)}</p>
+        <p><strong>Amount Due:</strong> {money(bill.amountDue)}</p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium">Payments</div>
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-primary" />
+        ) : payments && payments.length > 0 ? (
+          <ul className="text-sm text-gray-600 space-y-1">
+            {payments.map(payment => (
+              <li key={payment.id} className="flex items-center justify-between gap-2">
+                <span>
+                  {new Date(payment.date).toLocaleDateString()}: {money(Number(payment.amount))} by {getPaymentMethodLabel(payment.method)}
+                  {payment.reference && ` (${payment.reference})`}
+                </span>
+                {can("purchases:write") && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Delete payment"
+                    className="text-gray-500 hover:text-red-600"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(payment.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No payments made yet</p>
+        )}
+      </div>
+
+      {can("purchases:write") && bill.amountDue > 0 && (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => createMutation.mutate(values))} className="space-y-4 border-t pt-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <div className="relative">
+                        <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">
+                          $
+                        </span>
+                        <Input type="number" step="0.01" placeholder="0.00" className="pl-8" {...field} />
+                      </div>
+                    </FormControl>
+                    <FormDescription>Up to the amount due on the bill</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payment Date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="method"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payment Method</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select method" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PAYMENT_METHODS.map((method) => (
+                          <SelectItem key={method.value} value={method.value}>
+                            {method.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="reference"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reference</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Transfer ID" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" disabled={createMutation.isPending}>
+                {createMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Recording...
+                  </>
+                ) : (
+                  "Record Payment"
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      )}
+    </div>
+  );
+}
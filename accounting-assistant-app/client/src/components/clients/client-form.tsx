@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -13,10 +14,17 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { Client, insertClientSchema } from "@shared/schema";
-import { useMutation } from "@tanstack/react-query";
+import { Client, TaxTable, insertClientSchema, DEFAULT_REMINDER_DAYS, PAYMENT_TERMS } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
 interface ClientFormProps {
@@ -30,14 +38,28 @@ const clientFormSchema = insertClientSchema.extend({
   taxRate: z.string().transform((val) => {
     return val === "" ? "0" : val;
   }),
+  // Comma-separated days after the due date, e.g. "3, 7, 14"
+  reminderDays: z.string().regex(/^\s*(\d+\s*(,\s*\d+\s*)*)?$/, {
+    message: "Enter whole numbers of days separated by commas",
+  }),
 });
 
 type ClientFormValues = z.infer<typeof clientFormSchema>;
 
+// An empty schedule turns reminders off for the client
+const parseReminderDays = (value: string): number[] => {
+  const days = value.split(",").map(day => day.trim()).filter(Boolean).map(Number);
+  return Array.from(new Set(days)).sort((a, b) => a - b);
+};
+
 export function ClientForm({ client, onSuccess }: ClientFormProps) {
   const { toast } = useToast();
   const isEditing = !!client;
 
+  const { data: taxes } = useQuery<TaxTable>({
+    queryKey: ["/api/taxes"],
+  });
+
   // Create form with default values
   const form = useForm<ClientFormValues>({
     resolver: zodResolver(clientFormSchema),
@@ -53,13 +75,21 @@ export function ClientForm({ client, onSuccess }: ClientFormProps) {
       notes: client?.notes || "",
       currency: client?.currency || "USD",
       taxRate: client?.taxRate ? client.taxRate.toString() : "0",
+      taxRateId: client?.taxRateId ?? null,
+      taxGroupId: client?.taxGroupId ?? null,
+      paymentTerms: client?.paymentTerms || "net_30",
+      reminderDays: (client?.reminderDays ?? DEFAULT_REMINDER_DAYS).join(", "),
       userId: client?.userId || 0, // This will be set by the server
     },
   });
 
+  const taxRateId = form.watch("taxRateId");
+  const taxGroupId = form.watch("taxGroupId");
+
   // Create or update client mutation
   const mutation = useMutation({
-    mutationFn: async (data: ClientFormValues) => {
+    mutationFn: async (values: ClientFormValues) => {
+      const data = { ...values, reminderDays: parseReminderDays(values.reminderDays) };
       if (isEditing && client) {
         const res = await apiRequest("PUT", `/api/clients/${client.id}`, data);
         return await res.json();
@@ -237,24 +267,107 @@ export function ClientForm({ client, onSuccess }: ClientFormProps) {
           )}
         />
 
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <FormItem>
+              <FormLabel>Default Tax</FormLabel>
+              <Select
+                value={taxGroupId ? `group:${taxGroupId}` : taxRateId ? `rate:${taxRateId}` : "custom"}
+                onValueChange={(choice) => {
+                  const [kind, id] = choice.split(":");
+                  form.setValue("taxRateId", kind === "rate" ? Number(id) : null);
+                  form.setValue("taxGroupId", kind === "group" ? Number(id) : null);
+                  if (kind !== "custom") {
+                    form.setValue("taxRate", "0");
+                  }
+                }}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="custom">Custom rate</SelectItem>
+                  {taxes?.rates.filter(rate => rate.active || rate.id === taxRateId).map(rate => (
+                    <SelectItem key={`rate:${rate.id}`} value={`rate:${rate.id}`}>
+                      {rate.name} ({Number(rate.rate)}%)
+                    </SelectItem>
+                  ))}
+                  {taxes?.groups.filter(group => group.active || group.id === taxGroupId).map(group => (
+                    <SelectItem key={`group:${group.id}`} value={`group:${group.id}`}>
+                      {group.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Applied to new invoice and estimate lines for this client</FormDescription>
+            </FormItem>
+
+            {!taxRateId && !taxGroupId && (
+              <FormField
+                control={form.control}
+                name="taxRate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tax Rate (%)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        step="0.01" 
+                        placeholder="0.00" 
+                        {...field} 
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          field.onChange(value === "" ? "0" : value);
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+
+          <FormField
+            control={form.control}
+            name="paymentTerms"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Payment Terms</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select payment terms" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {PAYMENT_TERMS.map(terms => (
+                      <SelectItem key={terms.value} value={terms.value}>
+                        {terms.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
         <FormField
           control={form.control}
-          name="taxRate"
+          name="reminderDays"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Tax Rate (%)</FormLabel>
+              <FormLabel>Payment Reminders (days after due date)</FormLabel>
               <FormControl>
-                <Input 
-                  type="number" 
-                  step="0.01" 
-                  placeholder="0.00" 
-                  {...field} 
-                  onChange={(e) => {
-                    const value = e.target.value;
-                    field.onChange(value === "" ? "0" : value);
-                  }}
-                />
+                <Input placeholder="3, 7, 14" {...field} />
               </FormControl>
+              <FormDescription>
+                Overdue invoices are reminded on these days. Leave empty to send no reminders.
+              </FormDescription>
               <FormMessage />
             </FormItem>
           )}
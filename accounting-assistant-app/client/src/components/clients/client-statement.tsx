@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Client, ClientStatement, ClientWithCreditBalance } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { generateClientStatementPdf } from "@/lib/pdf-service";
+import { formatCurrency } from "@/lib/currency-service";
+import { Download, Loader2 } from "lucide-react";
+
+interface ClientStatementViewProps {
+  client: Client;
+}
+
+// A client's invoices, payments and credit notes over a period, with the
+// running balance and a PDF download
+export function ClientStatementView({ client }: ClientStatementViewProps) {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState(new Date().toISOString().slice(0, 10));
+
+  const params = new URLSearchParams({ to });
+  if (from) params.set("from", from);
+
+  const { data: statement, isLoading } = useQuery<ClientStatement>({
+    queryKey: [`/api/clients/${client.id}/statement?${params.toString()}`],
+  });
+
+  const money = (amount: number) => formatCurrency(amount, statement?.currency);
+
+  const { data: clientWithCredit } = useQuery<ClientWithCreditBalance>({
+    queryKey: [`/api/clients/${client.id}`],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="statement-from">From</Label>
+          <Input id="statement-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="statement-to">To</Label>
+          <Input id="statement-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <Button
+          variant="outline"
+          className="sm:ml-auto"
+          disabled={!statement}
+          onClick={() => statement && generateClientStatementPdf(statement).save(`statement_${client.name}_${statement.periodEnd}.pdf`)}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          PDF
+        </Button>
+      </div>
+
+      {isLoading || !statement ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase">
+              <th className="py-1 text-left">Date</th>
+              <th className="py-1 text-left">Reference</th>
+              <th className="py-1 text-left">Description</th>
+              <th className="py-1 text-right">Charges</th>
+              <th className="py-1 text-right">Credits</th>
+              <th className="py-1 text-right">Balance</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {statement.periodStart && (
+              <tr>
+                <td className="py-1" colSpan={5}>Opening balance</td>
+                <td className="py-1 text-right">{money(statement.openingBalance)}</td>
+              </tr>
+            )}
+            {statement.entries.length === 0 ? (
+              <tr>
+                <td className="py-4 text-center text-gray-500" colSpan={6}>
+                  No activity in this period
+                </td>
+              </tr>
+            ) : (
+              statement.entries.map(entry => (
+                <tr key={`${entry.type}-${entry.id}`}>
+                  <td className="py-1">{new Date(entry.date).toLocaleDateString()}</td>
+                  <td className="py-1">{entry.reference}</td>
+                  <td className="py-1">{entry.description}</td>
+                  <td className="py-1 text-right">{entry.debit ? money(entry.debit) : ""}</td>
+                  <td className="py-1 text-right">{entry.credit ? money(entry.credit) : ""}</td>
+                  <td className="py-1 text-right">{money(entry.balance)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+          <tfoot>
+            <tr className="font-medium border-t">
+              <td className="py-2" colSpan={5}>Balance due</td>
+              <td className="py-2 text-right">{money(statement.closingBalance)}</td>
+            </tr>
+            {clientWithCredit && clientWithCredit.creditBalance > 0 && (
+              <tr className="text-green-700">
+                <td className="py-1" colSpan={5}>Credit from overpayments</td>
+                <td className="py-1 text-right">{money(clientWithCredit.creditBalance)}</td>
+              </tr>
+            )}
+          </tfoot>
+        </table>
+      )}
+    </div>
+  );
+}
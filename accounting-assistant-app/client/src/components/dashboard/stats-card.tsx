@@ -5,7 +5,7 @@ import { ArrowUp, ArrowDown } from "lucide-react";
 interface StatsCardProps {
   title: string;
   value: number;
-  change: number;
+  change?: number; // Left out when there is nothing to compare with
   icon: React.ReactNode;
   color: "primary" | "secondary" | "accent" | "warning";
   valuePrefix?: string;
@@ -22,7 +22,7 @@ export function StatsCard({
   negative = false,
 }: StatsCardProps) {
   // Determine change direction
-  const isPositiveChange = negative ? change < 0 : change > 0;
+  const isPositiveChange = change !== undefined && (negative ? change < 0 : change > 0);
   
   // Function to format monetary values
   const formatValue = (val: number) => {
@@ -68,20 +68,22 @@ export function StatsCard({
           <div>
             <p className="text-gray-500 text-sm">{title}</p>
             <h3 className="text-2xl font-bold mt-1">{formatValue(value)}</h3>
-            <div className="flex items-center mt-2">
-              <span className={cn(
-                "text-sm flex items-center",
-                isPositiveChange ? "text-green-500" : "text-red-500"
-              )}>
-                {isPositiveChange ? (
-                  <ArrowUp className="h-4 w-4 mr-1" />
-                ) : (
-                  <ArrowDown className="h-4 w-4 mr-1" />
-                )}
-                {Math.abs(change)}%
-              </span>
-              <span className="text-xs text-gray-500 ml-2">vs last month</span>
-            </div>
+            {change !== undefined && (
+              <div className="flex items-center mt-2">
+                <span className={cn(
+                  "text-sm flex items-center",
+                  isPositiveChange ? "text-green-500" : "text-red-500"
+                )}>
+                  {isPositiveChange ? (
+                    <ArrowUp className="h-4 w-4 mr-1" />
+                  ) : (
+                    <ArrowDown className="h-4 w-4 mr-1" />
+                  )}
+                  {Math.abs(change)}%
+                </span>
+                <span className="text-xs text-gray-500 ml-2">vs last month</span>
+              </div>
+            )}
           </div>
           <div className={cn("p-3 rounded-full", selectedColorStyle.bg)}>
             <div className={selectedColorStyle.text}>{icon}</div>
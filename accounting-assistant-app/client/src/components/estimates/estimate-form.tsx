@@ -0,0 +1,243 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Client, Estimate, EstimateLineItem, TaxTable, calculateInvoiceTotal } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LineItemsEditor, lineItemFormSchema, emptyLineItem, getClientDefaultTax } from "@/components/invoices/line-items-editor";
+
+interface EstimateFormProps {
+  estimate?: Estimate | null;
+  onSuccess?: () => void;
+}
+
+const estimateFormSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  clientId: z.number({ required_error: "Select a client" }),
+  date: z.string().min(1, "A date is required"),
+  expiryDate: z.string(),
+  taxInclusive: z.boolean(),
+  lineItems: z.array(lineItemFormSchema).min(1, "Add at least one line item"),
+}).refine(values => !values.expiryDate || values.expiryDate >= values.date, {
+  message: "The expiry date must be on or after the estimate date",
+  path: ["expiryDate"],
+});
+
+type EstimateFormValues = z.infer<typeof estimateFormSchema>;
+
+// Estimates are valid for 30 days unless another date is chosen
+const defaultExpiryDate = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 30);
+  return date.toISOString().slice(0, 10);
+};
+
+export function EstimateForm({ estimate, onSuccess }: EstimateFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!estimate;
+
+  const { data: clients = [] } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+  });
+
+  const { data: taxes } = useQuery<TaxTable>({
+    queryKey: ["/api/taxes"],
+  });
+
+  // Fetch existing line items when editing
+  const { data: existingLineItems } = useQuery<EstimateLineItem[]>({
+    queryKey: [`/api/estimates/${estimate?.id}/line-items`],
+    enabled: isEditing,
+  });
+
+  const form = useForm<EstimateFormValues>({
+    resolver: zodResolver(estimateFormSchema),
+    defaultValues: {
+      title: estimate?.title || "",
+      clientId: estimate?.clientId ?? undefined,
+      date: estimate?.date || new Date().toISOString().slice(0, 10),
+      expiryDate: estimate ? estimate.expiryDate ?? "" : defaultExpiryDate(),
+      taxInclusive: estimate?.taxInclusive ?? false,
+      lineItems: [emptyLineItem()],
+    },
+  });
+
+  // Load the saved line items into the form
+  useEffect(() => {
+    if (!estimate || !existingLineItems) return;
+
+    form.setValue("lineItems", existingLineItems.length > 0
+      ? existingLineItems.map((item) => ({
+          description: item.description,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          taxRate: item.taxRate,
+          taxRateId: item.taxRateId,
+          taxGroupId: item.taxGroupId,
+          discount: item.discount,
+        }))
+      : [{ ...emptyLineItem(), description: estimate.title, unitPrice: estimate.amount }]);
+  }, [existingLineItems, estimate, form]);
+
+  const selectedClient = clients.find(client => client.id === form.watch("clientId"));
+
+  const mutation = useMutation({
+    mutationFn: async (values: EstimateFormValues) => {
+      const client = clients.find(c => c.id === values.clientId);
+      const data = {
+        title: values.title,
+        clientId: values.clientId,
+        clientName: client?.name ?? estimate?.clientName ?? "",
+        date: values.date,
+        expiryDate: values.expiryDate || null,
+        taxInclusive: values.taxInclusive,
+        lineItems: values.lineItems,
+        amount: calculateInvoiceTotal(values.lineItems, taxes, values.taxInclusive).toFixed(2),
+      };
+
+      const res = isEditing && estimate
+        ? await apiRequest("PUT", `/api/estimates/${estimate.id}`, data)
+        : await apiRequest("POST", "/api/estimates", data);
+      return await res.json();
+    },
+    onSuccess: (data: Estimate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/estimates/${data.id}/line-items`] });
+      toast({
+        title: isEditing ? "Estimate updated" : "Estimate created",
+        description: `Estimate ${data.number} has been ${isEditing ? "updated" : "created"} successfully.`,
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to ${isEditing ? "update" : "create"} estimate: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: EstimateFormValues) {
+    mutation.mutate(values);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Estimate Title</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Website redesign" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="clientId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Client</FormLabel>
+              <Select
+                onValueChange={(value) => field.onChange(Number(value))}
+                value={field.value ? field.value.toString() : undefined}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a client" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {clients.map((client) => (
+                    <SelectItem key={client.id} value={client.id.toString()}>
+                      {client.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <LineItemsEditor
+          defaultTax={getClientDefaultTax(selectedClient)}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Estimate Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="expiryDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Valid Until</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormDescription>Sent estimates expire after this date</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={mutation.isPending}>
+            {mutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isEditing ? "Updating..." : "Creating..."}
+              </>
+            ) : (
+              <>{isEditing ? "Update Estimate" : "Create Estimate"}</>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,380 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Expense,
+  Vendor,
+  EXPENSE_CATEGORIES,
+  PAYMENT_METHODS,
+  MAX_RECEIPT_BYTES,
+  RECEIPT_CONTENT_TYPES,
+  insertExpenseSchema,
+} from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface ExpenseFormProps {
+  expense?: Expense | null;
+  onSuccess?: () => void;
+}
+
+// Extend the expense schema for the form. The vendor name is filled in by
+// the server when a saved vendor is picked.
+const expenseFormSchema = insertExpenseSchema.extend({
+  vendorId: z.number().nullable(),
+  vendorName: z.string(),
+  description: z.string().min(1, "A description is required"),
+  amount: z.string().refine(value => Number(value) > 0, "The amount must be greater than zero"),
+  taxAmount: z.string().refine(value => value === "" || Number(value) >= 0, "The tax cannot be negative"),
+  date: z.string().min(1, "A date is required"),
+  reference: z.string(),
+}).refine(values => values.vendorId !== null || values.vendorName.trim() !== "", {
+  message: "Select a vendor or enter who was paid",
+  path: ["vendorName"],
+});
+
+type ExpenseFormValues = z.infer<typeof expenseFormSchema>;
+
+// The receipt goes up as the raw request body once the expense is saved
+async function uploadReceipt(expenseId: number, file: File): Promise<Expense> {
+  const res = await fetch(`/api/expenses/${expenseId}/receipt?fileName=${encodeURIComponent(file.name)}`, {
+    method: "PUT",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return await res.json();
+}
+
+export function ExpenseForm({ expense, onSuccess }: ExpenseFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!expense;
+  const [receiptFile, setReceiptFile] = useState<File | null>(null);
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+  });
+
+  const form = useForm<ExpenseFormValues>({
+    resolver: zodResolver(expenseFormSchema),
+    defaultValues: {
+      vendorId: expense?.vendorId ?? null,
+      vendorName: expense?.vendorName || "",
+      category: expense?.category || "other",
+      description: expense?.description || "",
+      amount: expense?.amount || "",
+      taxAmount: expense?.taxAmount || "0",
+      date: expense?.date || new Date().toISOString().slice(0, 10),
+      paymentMethod: expense?.paymentMethod || "bank_transfer",
+      reference: expense?.reference || "",
+      userId: expense?.userId || 0, // This will be set by the server
+    },
+  });
+
+  const selectedVendorId = form.watch("vendorId");
+
+  const mutation = useMutation({
+    mutationFn: async (values: ExpenseFormValues) => {
+      const data = {
+        ...values,
+        taxAmount: values.taxAmount || "0",
+        reference: values.reference || null,
+      };
+
+      const res = isEditing && expense
+        ? await apiRequest("PUT", `/api/expenses/${expense.id}`, data)
+        : await apiRequest("POST", "/api/expenses", data);
+      const saved: Expense = await res.json();
+
+      return receiptFile ? await uploadReceipt(saved.id, receiptFile) : saved;
+    },
+    onSuccess: (data: Expense) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      toast({
+        title: isEditing ? "Expense updated" : "Expense recorded",
+        description: `Expense #${data.id} has been ${isEditing ? "updated" : "recorded"} successfully.`,
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to ${isEditing ? "update" : "record"} expense: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: ExpenseFormValues) {
+    mutation.mutate(values);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="vendorId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Vendor</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))}
+                  value={field.value ? field.value.toString() : "none"}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a vendor" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">Other (enter name)</SelectItem>
+                    {vendors.map((vendor) => (
+                      <SelectItem key={vendor.id} value={vendor.id.toString()}>
+                        {vendor.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {selectedVendorId === null && (
+            <FormField
+              control={form.control}
+              name="vendorName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Paid To</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Corner Cafe" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {EXPENSE_CATEGORIES.map(category => (
+                      <SelectItem key={category.value} value={category.value}>
+                        {category.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Printer paper" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount (before tax)</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">
+                      $
+                    </span>
+                    <Input type="number" step="0.01" placeholder="0.00" className="pl-8" {...field} />
+                  </div>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="taxAmount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tax</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">
+                      $
+                    </span>
+                    <Input type="number" step="0.01" placeholder="0.00" className="pl-8" {...field} />
+                  </div>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="paymentMethod"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Payment Method</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a method" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(method => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="reference"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reference</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Card slip or transfer ID" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="expense-receipt">Receipt</Label>
+          <Input
+            id="expense-receipt"
+            type="file"
+            accept={RECEIPT_CONTENT_TYPES.join(",")}
+            onChange={(e) => {
+              const file = e.target.files?.[0] ?? null;
+              if (file && !RECEIPT_CONTENT_TYPES.some(type => type === file.type)) {
+                toast({
+                  title: "Unsupported receipt",
+                  description: "Receipts must be a PNG or JPEG image or a PDF.",
+                  variant: "destructive",
+                });
+                e.target.value = "";
+                setReceiptFile(null);
+                return;
+              }
+              if (file && file.size > MAX_RECEIPT_BYTES) {
+                toast({
+                  title: "Receipt too large",
+                  description: `Receipts can be up to ${MAX_RECEIPT_BYTES / (1024 * 1024)} MB.`,
+                  variant: "destructive",
+                });
+                e.target.value = "";
+                setReceiptFile(null);
+                return;
+              }
+              setReceiptFile(file);
+            }}
+          />
+          <p className="text-sm text-muted-foreground">
+            {expense?.receiptFileName
+              ? `Attached: ${expense.receiptFileName}. Choosing a file replaces it.`
+              : "A PNG or JPEG image or a PDF of the receipt"}
+          </p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={mutation.isPending}>
+            {mutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isEditing ? "Updating..." : "Saving..."}
+              </>
+            ) : (
+              <>{isEditing ? "Update Expense" : "Record Expense"}</>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
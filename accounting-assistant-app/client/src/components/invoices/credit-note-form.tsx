@@ -0,0 +1,155 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { CreditNote, InvoiceWithAmounts, getInvoiceNumber } from "@shared/schema";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/currency-service";
+
+interface CreditNoteFormProps {
+  invoice: InvoiceWithAmounts;
+  onSuccess?: () => void;
+}
+
+const creditNoteFormSchema = z.object({
+  amount: z.string().refine(value => Number(value) > 0, "The credit amount must be greater than zero"),
+  date: z.string().min(1, "A date is required"),
+  reason: z.string().min(1, "A reason is required"),
+});
+
+type CreditNoteFormValues = z.infer<typeof creditNoteFormSchema>;
+
+export function CreditNoteForm({ invoice, onSuccess }: CreditNoteFormProps) {
+  const { toast } = useToast();
+
+  // Default to crediting everything the client still owes, which is the
+  // most that can be credited
+  const form = useForm<CreditNoteFormValues>({
+    resolver: zodResolver(creditNoteFormSchema),
+    defaultValues: {
+      amount: invoice.amountDue.toFixed(2),
+      date: new Date().toISOString().slice(0, 10),
+      reason: "",
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (values: CreditNoteFormValues) => {
+      const res = await apiRequest("POST", "/api/credit-notes", { ...values, invoiceId: invoice.id });
+      return await res.json();
+    },
+    onSuccess: (creditNote: CreditNote) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoice.id}/credit-notes`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      toast({
+        title: "Credit note issued",
+        description: `Credit note ${creditNote.number} for ${formatCurrency(Number(creditNote.amount), invoice.currency)} has been issued against invoice ${getInvoiceNumber(invoice)}.`,
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to issue credit note: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: CreditNoteFormValues) {
+    mutation.mutate(values);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="bg-blue-50 p-3 rounded-md text-sm">
+          <p><strong>Invoice:</strong> {getInvoiceNumber(invoice)} - {invoice.title}</p>
+          <p><strong>Client:</strong> {invoice.clientName}</p>
+          <p><strong>Total Amount:</strong> {formatCurrency(Number(invoice.amount), invoice.currency)}</p>
+          <p><strong>Amount Due:</strong> {formatCurrency(invoice.amountDue, invoice.currency)}</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Credit Amount</FormLabel>
+                <FormControl>
+                  <div className="relative">
+                    <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">
+                      {invoice.currency}
+                    </span>
+                    <Input type="number" step="0.01" placeholder="0.00" className="pl-14" {...field} />
+                  </div>
+                </FormControl>
+                <FormDescription>Up to the amount due on the invoice</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Credit Note Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="reason"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Reason</FormLabel>
+              <FormControl>
+                <Textarea placeholder="e.g. Discount agreed for late delivery" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={mutation.isPending || invoice.amountDue <= 0}>
+            {mutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Issuing...
+              </>
+            ) : (
+              "Issue Credit Note"
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,47 @@
+import { useQuery } from "@tanstack/react-query";
+import { CreditNote, Invoice } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { generateCreditNotePdf } from "@/lib/pdf-service";
+import { formatCurrency } from "@/lib/currency-service";
+import { Download, Loader2 } from "lucide-react";
+
+interface InvoiceCreditNotesProps {
+  invoice: Invoice;
+}
+
+// Credit notes issued against an invoice, each with a PDF download
+export function InvoiceCreditNotes({ invoice }: InvoiceCreditNotesProps) {
+  const { data: creditNotes, isLoading } = useQuery<CreditNote[]>({
+    queryKey: [`/api/invoices/${invoice.id}/credit-notes`],
+  });
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="text-sm font-medium">Credit Notes</div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      ) : creditNotes && creditNotes.length > 0 ? (
+        <ul className="text-sm text-gray-600 space-y-1">
+          {creditNotes.map(creditNote => (
+            <li key={creditNote.id} className="flex items-center justify-between gap-2">
+              <span>
+                {creditNote.number} ({new Date(creditNote.date).toLocaleDateString()}): {formatCurrency(Number(creditNote.amount), invoice.currency)} - {creditNote.reason}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Download PDF"
+                onClick={() => generateCreditNotePdf(creditNote, invoice).save(`credit_note_${creditNote.number}.pdf`)}
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No credit notes issued</p>
+      )}
+    </div>
+  );
+}
@@ -39,14 +39,27 @@ import {
   CommandInput,
   CommandItem,
 } from "@/components/ui/command";
-import { format } from "date-fns";
+import { format, parseISO, startOfDay } from "date-fns";
 import { Calendar as CalendarIcon, Check, ChevronsUpDown, Plus, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { Invoice, insertInvoiceSchema, Client } from "@shared/schema";
+import {
+  Invoice,
+  InvoiceLineItem,
+  insertInvoiceSchema,
+  calculateInvoiceTotal,
+  calculateDueDate,
+  getInvoiceNumber,
+  Client,
+  ExchangeRateSummary,
+  TaxTable,
+  DEFAULT_BASE_CURRENCY
+} from "@shared/schema";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { ClientForm } from "@/components/clients/client-form";
+import { LineItemsEditor, lineItemFormSchema, emptyLineItem, getClientDefaultTax } from "@/components/invoices/line-items-editor";
+import { getCurrencyOptions } from "@/lib/currency-service";
 
 interface InvoiceFormProps {
   invoice?: Invoice | null;
@@ -58,10 +71,12 @@ const invoiceFormSchema = insertInvoiceSchema.extend({
   date: z.date({
     required_error: "A date is required",
   }),
-  // Accept string input for amount
-  amount: z.string().transform((val) => {
-    return val === "" ? "0" : val;
+  dueDate: z.date({
+    required_error: "A due date is required",
   }),
+  // The amount is derived from the line items
+  amount: z.string().optional(),
+  lineItems: z.array(lineItemFormSchema).min(1, "Add at least one line item"),
 });
 
 type InvoiceFormValues = z.infer<typeof invoiceFormSchema>;
@@ -81,6 +96,21 @@ export function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
     queryKey: ["/api/clients"],
   });
 
+  const { data: exchangeRates } = useQuery<ExchangeRateSummary>({
+    queryKey: ["/api/exchange-rates"],
+  });
+  const baseCurrency = exchangeRates?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+
+  const { data: taxes } = useQuery<TaxTable>({
+    queryKey: ["/api/taxes"],
+  });
+
+  // Fetch existing line items when editing
+  const { data: existingLineItems } = useQuery<InvoiceLineItem[]>({
+    queryKey: [`/api/invoices/${invoice?.id}/line-items`],
+    enabled: isEditing,
+  });
+
   // Create form with default values
   const form = useForm<InvoiceFormValues>({
     resolver: zodResolver(invoiceFormSchema),
@@ -89,17 +119,59 @@ export function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
       clientName: invoice?.clientName || "",
       amount: invoice?.amount ? invoice.amount : "0",
       date: invoice?.date ? new Date(invoice.date) : new Date(),
+      dueDate: invoice ? new Date(invoice.dueDate ?? invoice.date) : new Date(),
       status: invoice?.status || "pending",
+      currency: invoice?.currency,
+      taxInclusive: invoice?.taxInclusive ?? false,
       userId: invoice?.userId || 0, // This will be set by the server
       clientId: invoice?.clientId || undefined,
+      lineItems: [emptyLineItem()],
     },
   });
+
+  // Load the saved line items into the form; invoices created before
+  // line items existed are shown as a single line for their full amount
+  useEffect(() => {
+    if (!invoice || !existingLineItems) return;
+
+    if (existingLineItems.length > 0) {
+      form.setValue("lineItems", existingLineItems.map((item) => ({
+        description: item.description,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        taxRate: item.taxRate,
+        taxRateId: item.taxRateId,
+        taxGroupId: item.taxGroupId,
+        discount: item.discount,
+      })));
+    } else {
+      form.setValue("lineItems", [{
+        ...emptyLineItem(),
+        description: invoice.title,
+        unitPrice: invoice.amount,
+      }]);
+    }
+  }, [existingLineItems, invoice, form]);
+  
+  // Keep the due date in step with the client's payment terms until it is
+  // changed by hand
+  const applyPaymentTerms = (issueDate: Date | undefined, client: Client | null) => {
+    if (!issueDate || form.getFieldState("dueDate").isDirty) return;
+    
+    const terms = (client ?? clients.find(c => c.id === form.getValues("clientId")))?.paymentTerms;
+    const dueDate = calculateDueDate(format(issueDate, "yyyy-MM-dd"), terms ?? "due_on_receipt");
+    form.setValue("dueDate", parseISO(dueDate));
+  };
   
-  // Update client name and client ID when a client is selected
+  // Update client name and client ID when a client is selected, and bill in
+  // the client's currency unless one was chosen by hand
   useEffect(() => {
     if (selectedClient) {
       form.setValue("clientName", selectedClient.name);
       form.setValue("clientId", selectedClient.id);
+      if (!form.getFieldState("currency").isDirty && selectedClient.currency) {
+        form.setValue("currency", selectedClient.currency);
+      }
     }
   }, [selectedClient, form]);
 
@@ -120,17 +192,18 @@ export function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${data.id}/line-items`] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
       
       if (!isEditing) {
         toast({
           title: "Invoice created and sent",
-          description: `Invoice #${data.id} has been created and sent to the client's email.`,
+          description: `Invoice ${getInvoiceNumber(data)} has been created and sent to the client's email.`,
         });
       } else {
         toast({
           title: "Invoice updated",
-          description: `Invoice #${data.id} has been updated successfully.`,
+          description: `Invoice ${getInvoiceNumber(data)} has been updated successfully.`,
         });
       }
       
@@ -148,7 +221,7 @@ export function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
   });
 
   function onSubmit(data: InvoiceFormValues) {
-    mutation.mutate(data);
+    mutation.mutate({ ...data, amount: calculateInvoiceTotal(data.lineItems, taxes, data.taxInclusive === true).toFixed(2) });
   }
 
   const handleClientFormSuccess = () => {
@@ -245,6 +318,7 @@ export function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
                                 form.setValue("clientName", client.name);
                                 form.setValue("clientId", client.id);
                                 setSelectedClient(client);
+                                applyPaymentTerms(form.getValues("date"), client);
                                 setClientSearchOpen(false);
                               }}
                             >
@@ -280,101 +354,161 @@ export function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
             )}
           />
 
-          <FormField
-            control={form.control}
-            name="amount"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Amount</FormLabel>
-                <FormControl>
-                  <div className="relative">
-                    <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">
-                      $
-                    </span>
-                    <Input
-                      type="number"
-                      placeholder="0.00"
-                      className="pl-8"
-                      {...field}
-                      onChange={(e) => {
-                        const value = e.target.value;
-                        field.onChange(value === "" ? "0" : value);
-                      }}
-                    />
-                  </div>
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
+          <LineItemsEditor
+            defaultTax={getClientDefaultTax(selectedClient)}
           />
 
-          <FormField
-            control={form.control}
-            name="date"
-            render={({ field }) => (
-              <FormItem className="flex flex-col">
-                <FormLabel>Invoice Date</FormLabel>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <FormControl>
-                      <Button
-                        variant={"outline"}
-                        className={cn(
-                          "w-full pl-3 text-left font-normal",
-                          !field.value && "text-muted-foreground"
-                        )}
-                      >
-                        {field.value ? (
-                          format(field.value, "PPP")
-                        ) : (
-                          <span>Pick a date</span>
-                        )}
-                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                      </Button>
-                    </FormControl>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={field.value}
-                      onSelect={field.onChange}
-                      disabled={(date) =>
-                        date > new Date() || date < new Date("1900-01-01")
-                      }
-                      initialFocus
-                    />
-                  </PopoverContent>
-                </Popover>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Invoice Date</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant={"outline"}
+                          className={cn(
+                            "w-full pl-3 text-left font-normal",
+                            !field.value && "text-muted-foreground"
+                          )}
+                        >
+                          {field.value ? (
+                            format(field.value, "PPP")
+                          ) : (
+                            <span>Pick a date</span>
+                          )}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value}
+                        onSelect={(date) => {
+                          field.onChange(date);
+                          applyPaymentTerms(date, selectedClient);
+                        }}
+                        disabled={(date) =>
+                          date > new Date() || date < new Date("1900-01-01")
+                        }
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
 
-          <FormField
-            control={form.control}
-            name="status"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Status</FormLabel>
-                <Select
-                  onValueChange={field.onChange}
-                  value={field.value}
-                >
-                  <FormControl>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select status" />
-                    </SelectTrigger>
-                  </FormControl>
-                  <SelectContent>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="paid">Paid</SelectItem>
-                    <SelectItem value="overdue">Overdue</SelectItem>
-                  </SelectContent>
-                </Select>
-                <FormMessage />
-              </FormItem>
+            <FormField
+              control={form.control}
+              name="dueDate"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Due Date</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant={"outline"}
+                          className={cn(
+                            "w-full pl-3 text-left font-normal",
+                            !field.value && "text-muted-foreground"
+                          )}
+                        >
+                          {field.value ? (
+                            format(field.value, "PPP")
+                          ) : (
+                            <span>Pick a date</span>
+                          )}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value}
+                        onSelect={field.onChange}
+                        disabled={(date) => date < startOfDay(form.getValues("date"))}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* New invoices start pending; the status then follows payments */}
+            {isEditing && (
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Status</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select status" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="pending">Pending</SelectItem>
+                        <SelectItem value="partially_paid">Partially Paid</SelectItem>
+                        <SelectItem value="paid">Paid</SelectItem>
+                        <SelectItem value="overdue">Overdue</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             )}
-          />
+
+            <FormField
+              control={form.control}
+              name="currency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Currency</FormLabel>
+                  <Select
+                    onValueChange={field.onChange}
+                    value={field.value ?? baseCurrency}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {getCurrencyOptions(exchangeRates).map(option => (
+                        <SelectItem key={option.code} value={option.code}>
+                          {option.code} - {option.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {field.value && field.value !== baseCurrency && (
+                    <p className="text-xs text-gray-500">
+                      Converted to {baseCurrency} at the rate on the invoice date
+                    </p>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
 
           <div className="flex justify-end">
             <Button type="submit" disabled={mutation.isPending}>
@@ -0,0 +1,71 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Invoice, InvoiceReminder, getInvoiceNumber } from "@shared/schema";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+interface InvoiceRemindersProps {
+  invoice: Invoice;
+}
+
+// Pause switch and history of the payment reminders sent for an invoice
+export function InvoiceReminders({ invoice }: InvoiceRemindersProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  const { data: reminders, isLoading } = useQuery<InvoiceReminder[]>({
+    queryKey: [`/api/invoices/${invoice.id}/reminders`],
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: async (paused: boolean) => {
+      const res = await apiRequest("PUT", `/api/invoices/${invoice.id}/reminders`, { paused });
+      return await res.json();
+    },
+    onSuccess: (updated: Invoice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      toast({
+        title: updated.remindersPaused ? "Reminders paused" : "Reminders resumed",
+        description: `Payment reminders for invoice ${getInvoiceNumber(invoice)} have been ${updated.remindersPaused ? "paused" : "resumed"}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update reminders: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={`reminders-${invoice.id}`}>Send payment reminders</Label>
+        <Switch
+          id={`reminders-${invoice.id}`}
+          checked={!invoice.remindersPaused}
+          disabled={!can("invoices:write") || pauseMutation.isPending}
+          onCheckedChange={(checked) => pauseMutation.mutate(!checked)}
+        />
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-primary" />
+      ) : reminders && reminders.length > 0 ? (
+        <ul className="text-sm text-gray-600 space-y-1">
+          {reminders.map(reminder => (
+            <li key={reminder.id}>
+              {new Date(reminder.sentAt).toLocaleDateString()}: {reminder.daysAfterDue}-day reminder sent to {reminder.recipient}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">No reminders sent yet</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Client,
+  TaxTable,
+  invoiceLineItemInputSchema,
+  calculateLineItemTotal,
+  calculateInvoiceTaxes,
+} from "@shared/schema";
+
+// Line items are edited as strings and sent as decimals
+export const lineItemFormSchema = invoiceLineItemInputSchema.extend({
+  description: z.string().min(1, "Description is required"),
+  quantity: z.string().min(1, "Quantity is required"),
+  unitPrice: z.string().min(1, "Unit price is required"),
+  taxRate: z.string(),
+  discount: z.string(),
+});
+
+export type LineItemFormValues = z.infer<typeof lineItemFormSchema>;
+
+// How a line is taxed: a named rate, a group, or its own percentage
+export type LineItemTax = Pick<LineItemFormValues, "taxRate" | "taxRateId" | "taxGroupId">;
+
+const noTax: LineItemTax = { taxRate: "0", taxRateId: null, taxGroupId: null };
+
+export const emptyLineItem = (tax: LineItemTax = noTax): LineItemFormValues => ({
+  description: "",
+  quantity: "1",
+  unitPrice: "0",
+  ...tax,
+  discount: "0",
+});
+
+// New lines are taxed the way the client is by default
+export const getClientDefaultTax = (client: Client | null | undefined): LineItemTax => ({
+  taxRate: client?.taxRate ? client.taxRate.toString() : "0",
+  taxRateId: client?.taxRateId ?? null,
+  taxGroupId: client?.taxGroupId ?? null,
+});
+
+// The tax select encodes the choice as "rate:<id>", "group:<id>" or "custom"
+const taxChoice = (item: LineItemTax | undefined): string => {
+  if (item?.taxGroupId) return `group:${item.taxGroupId}`;
+  if (item?.taxRateId) return `rate:${item.taxRateId}`;
+  return "custom";
+};
+
+interface LineItemsEditorProps {
+  defaultTax?: LineItemTax;
+  // Bills are taxed by a percentage on each line only
+  namedTaxes?: boolean;
+}
+
+// Editable list of line items with live totals, for use inside a form
+// whose values have a `lineItems` array and, with named taxes, a
+// `taxInclusive` flag
+export function LineItemsEditor({ defaultTax = noTax, namedTaxes = true }: LineItemsEditorProps) {
+  const form = useFormContext<{ lineItems: LineItemFormValues[]; taxInclusive?: boolean }>();
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "lineItems",
+  });
+
+  const { data: fetchedTaxes } = useQuery<TaxTable>({
+    queryKey: ["/api/taxes"],
+    enabled: namedTaxes,
+  });
+  const taxes = namedTaxes ? fetchedTaxes : undefined;
+
+  const watchedLineItems = form.watch("lineItems");
+  const inclusive = namedTaxes && form.watch("taxInclusive") === true;
+  const totals = calculateInvoiceTaxes(watchedLineItems, taxes, inclusive);
+
+  const setTaxChoice = (index: number, choice: string) => {
+    const [kind, id] = choice.split(":");
+    form.setValue(`lineItems.${index}.taxRateId`, kind === "rate" ? Number(id) : null);
+    form.setValue(`lineItems.${index}.taxGroupId`, kind === "group" ? Number(id) : null);
+    if (kind !== "custom") {
+      form.setValue(`lineItems.${index}.taxRate`, "0");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <FormLabel>Line Items</FormLabel>
+      {fields.map((lineItem, index) => (
+        <div key={lineItem.id} className="rounded-md border p-3 space-y-3">
+          <div className="flex items-start gap-2">
+            <FormField
+              control={form.control}
+              name={`lineItems.${index}.description`}
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl>
+                    <Input placeholder="Description of the service or product" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="text-gray-500 hover:text-red-600"
+              onClick={() => remove(index)}
+              disabled={fields.length === 1}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <FormField
+              control={form.control}
+              name={`lineItems.${index}.quantity`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs text-gray-500">Quantity</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" placeholder="1" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`lineItems.${index}.unitPrice`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs text-gray-500">Unit Price ($)</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" placeholder="0.00" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name={`lineItems.${index}.discount`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-xs text-gray-500">Discount (%)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      placeholder="0.00"
+                      {...field}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        field.onChange(value === "" ? "0" : value);
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="space-y-2">
+              {namedTaxes && (
+                <FormItem>
+                  <FormLabel className="text-xs text-gray-500">Tax</FormLabel>
+                  <Select
+                    value={taxChoice(watchedLineItems[index])}
+                    onValueChange={(choice) => setTaxChoice(index, choice)}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="custom">Custom rate</SelectItem>
+                      {/* Inactive taxes stay listed on the lines that already use them */}
+                      {taxes && taxes.rates.some(rate => rate.active || rate.id === watchedLineItems[index]?.taxRateId) && (
+                        <SelectGroup>
+                          <SelectLabel>Tax Rates</SelectLabel>
+                          {taxes.rates
+                            .filter(rate => rate.active || rate.id === watchedLineItems[index]?.taxRateId)
+                            .map(rate => (
+                              <SelectItem key={rate.id} value={`rate:${rate.id}`}>
+                                {rate.name} ({Number(rate.rate)}%)
+                              </SelectItem>
+                            ))}
+                        </SelectGroup>
+                      )}
+                      {taxes && taxes.groups.some(group => group.active || group.id === watchedLineItems[index]?.taxGroupId) && (
+                        <SelectGroup>
+                          <SelectLabel>Tax Groups</SelectLabel>
+                          {taxes.groups
+                            .filter(group => group.active || group.id === watchedLineItems[index]?.taxGroupId)
+                            .map(group => (
+                              <SelectItem key={group.id} value={`group:${group.id}`}>
+                                {group.name}
+                              </SelectItem>
+                            ))}
+                        </SelectGroup>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+              {taxChoice(watchedLineItems[index]) === "custom" && (
+                <FormField
+                  control={form.control}
+                  name={`lineItems.${index}.taxRate`}
+                  render={({ field }) => (
+                    <FormItem>
+                      {!namedTaxes && <FormLabel className="text-xs text-gray-500">Tax Rate (%)</FormLabel>}
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          placeholder="Tax rate (%)"
+                          {...field}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            field.onChange(value === "" ? "0" : value);
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+          </div>
+          <div className="text-right text-sm text-gray-500">
+            Line total: ${calculateLineItemTotal(watchedLineItems[index] ?? lineItem, taxes, inclusive).toFixed(2)}
+          </div>
+        </div>
+      ))}
+      <div className="flex items-start justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append(emptyLineItem(defaultTax))}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add line
+        </Button>
+        <div className="text-sm text-right space-y-1">
+          <p className="text-gray-500">Subtotal: ${totals.subtotal.toFixed(2)}</p>
+          {totals.taxBreakdown.map(tax => (
+            <p key={`${tax.taxRateId ?? "custom"}:${tax.rate}`} className="text-gray-500">
+              {tax.name} ({tax.rate}%): ${tax.amount.toFixed(2)}
+            </p>
+          ))}
+          <p className="font-medium">Total: ${totals.total.toFixed(2)}</p>
+        </div>
+      </div>
+      {namedTaxes && (
+        <FormField
+          control={form.control}
+          name="taxInclusive"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <FormLabel>Prices include tax</FormLabel>
+                <FormDescription>Unit prices are taken as gross and the tax is worked out of them</FormDescription>
+              </div>
+              <FormControl>
+                <Switch checked={field.value === true} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+      )}
+      {form.formState.errors.lineItems?.message && (
+        <p className="text-sm font-medium text-destructive">
+          {form.formState.errors.lineItems.message}
+        </p>
+      )}
+    </div>
+  );
+}
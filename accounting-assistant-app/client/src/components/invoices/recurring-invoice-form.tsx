@@ -0,0 +1,275 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Client, RecurringInvoice, RECURRING_FREQUENCIES, TaxTable, calculateInvoiceTotal } from "@shared/schema";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LineItemsEditor, lineItemFormSchema, emptyLineItem, getClientDefaultTax } from "@/components/invoices/line-items-editor";
+
+interface RecurringInvoiceFormProps {
+  template?: RecurringInvoice | null;
+  onSuccess?: () => void;
+}
+
+const recurringInvoiceFormSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  clientId: z.number({ required_error: "Select a client" }),
+  frequency: z.enum(["weekly", "monthly", "quarterly", "yearly"]),
+  startDate: z.string().min(1, "A start date is required"),
+  endDate: z.string(),
+  nextRunDate: z.string(),
+  taxInclusive: z.boolean(),
+  lineItems: z.array(lineItemFormSchema).min(1, "Add at least one line item"),
+}).refine(values => !values.endDate || values.endDate >= values.startDate, {
+  message: "The end date must be on or after the start date",
+  path: ["endDate"],
+});
+
+type RecurringInvoiceFormValues = z.infer<typeof recurringInvoiceFormSchema>;
+
+export function RecurringInvoiceForm({ template, onSuccess }: RecurringInvoiceFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!template;
+
+  const { data: clients = [] } = useQuery<Client[]>({
+    queryKey: ["/api/clients"],
+  });
+
+  const { data: taxes } = useQuery<TaxTable>({
+    queryKey: ["/api/taxes"],
+  });
+
+  const form = useForm<RecurringInvoiceFormValues>({
+    resolver: zodResolver(recurringInvoiceFormSchema),
+    defaultValues: {
+      title: template?.title || "",
+      clientId: template?.clientId ?? undefined,
+      frequency: template?.frequency || "monthly",
+      startDate: template?.startDate || new Date().toISOString().slice(0, 10),
+      endDate: template?.endDate || "",
+      nextRunDate: template?.nextRunDate || "",
+      taxInclusive: template?.taxInclusive ?? false,
+      lineItems: template?.lineItems.length
+        ? template.lineItems.map((item) => ({
+            description: item.description,
+            quantity: String(item.quantity ?? "1"),
+            unitPrice: String(item.unitPrice),
+            taxRate: String(item.taxRate ?? "0"),
+            taxRateId: item.taxRateId ?? null,
+            taxGroupId: item.taxGroupId ?? null,
+            discount: String(item.discount ?? "0"),
+          }))
+        : template
+          ? [{ ...emptyLineItem(), description: template.title, unitPrice: template.amount }]
+          : [emptyLineItem()],
+    },
+  });
+
+  const selectedClient = clients.find(client => client.id === form.watch("clientId"));
+
+  const mutation = useMutation({
+    mutationFn: async (values: RecurringInvoiceFormValues) => {
+      const client = clients.find(c => c.id === values.clientId);
+      const data = {
+        title: values.title,
+        clientId: values.clientId,
+        clientName: client?.name ?? template?.clientName ?? "",
+        frequency: values.frequency,
+        startDate: values.startDate,
+        endDate: values.endDate || null,
+        taxInclusive: values.taxInclusive,
+        lineItems: values.lineItems,
+        amount: calculateInvoiceTotal(values.lineItems, taxes, values.taxInclusive).toFixed(2),
+        // The next run date is only editable on existing templates
+        ...(isEditing && values.nextRunDate ? { nextRunDate: values.nextRunDate } : {}),
+      };
+
+      const res = isEditing && template
+        ? await apiRequest("PUT", `/api/recurring-invoices/${template.id}`, data)
+        : await apiRequest("POST", "/api/recurring-invoices", data);
+      return await res.json();
+    },
+    onSuccess: (data: RecurringInvoice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-invoices"] });
+      toast({
+        title: isEditing ? "Recurring invoice updated" : "Recurring invoice created",
+        description: isEditing
+          ? `Future invoices for "${data.title}" will use the new details.`
+          : `The first invoice for "${data.title}" will be issued on ${new Date(data.nextRunDate).toLocaleDateString()}.`,
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to ${isEditing ? "update" : "create"} recurring invoice: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(values: RecurringInvoiceFormValues) {
+    mutation.mutate(values);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="title"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Invoice Title</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Monthly retainer" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="clientId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Client</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(Number(value))}
+                  value={field.value ? field.value.toString() : undefined}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a client" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {clients.map((client) => (
+                      <SelectItem key={client.id} value={client.id.toString()}>
+                        {client.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="frequency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Frequency</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select frequency" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {RECURRING_FREQUENCIES.map((frequency) => (
+                      <SelectItem key={frequency.value} value={frequency.value}>
+                        {frequency.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <LineItemsEditor
+          defaultTax={getClientDefaultTax(selectedClient)}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="startDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Start Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} disabled={isEditing} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="endDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>End Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormDescription>Leave empty to repeat indefinitely</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {isEditing && (
+            <FormField
+              control={form.control}
+              name="nextRunDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Next Invoice</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={mutation.isPending}>
+            {mutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isEditing ? "Updating..." : "Creating..."}
+              </>
+            ) : (
+              <>{isEditing ? "Update Schedule" : "Create Schedule"}</>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
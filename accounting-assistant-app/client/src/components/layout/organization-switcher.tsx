@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { AuthUser, DEFAULT_BASE_CURRENCY, InvitationWithOrganization, OrganizationWithRole } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { supportedCurrencies } from "@/lib/currency-service";
+import { Building2, Loader2, Mail } from "lucide-react";
+
+const NEW_ORGANIZATION = "new";
+
+// Everything cached belongs to the organization being left, so it is
+// dropped and fetched again for the new one
+const enterOrganization = (user: AuthUser) => {
+  queryClient.setQueryData(["/api/user"], user);
+  queryClient.resetQueries({ predicate: (query) => query.queryKey[0] !== "/api/user" });
+};
+
+// Shows the organization the user is working in and lets them switch to
+// another they belong to, start a new one or answer invitations to join one
+export function OrganizationSwitcher() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isInvitationsOpen, setIsInvitationsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_BASE_CURRENCY);
+
+  const { data: organizations = [] } = useQuery<OrganizationWithRole[]>({
+    queryKey: ["/api/organizations"],
+  });
+
+  const { data: invitations = [] } = useQuery<InvitationWithOrganization[]>({
+    queryKey: ["/api/user/invitations"],
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: async (organizationId: number) => {
+      const res = await apiRequest("PUT", "/api/user/organization", { organizationId });
+      return await res.json();
+    },
+    onSuccess: (updated: AuthUser) => {
+      enterOrganization(updated);
+      setLocation("/");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to switch organization: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (organizationName: string) => {
+      const res = await apiRequest("POST", "/api/organizations", { name: organizationName, baseCurrency });
+      return await res.json();
+    },
+    onSuccess: () => {
+      // The new organization becomes the active one
+      queryClient.resetQueries();
+      setIsCreateOpen(false);
+      setName("");
+      setLocation("/");
+      toast({
+        title: "Organization created",
+        description: `You are now working in ${name.trim()}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to create the organization: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (invitation: InvitationWithOrganization) => {
+      const res = await apiRequest("POST", `/api/user/invitations/${invitation.id}/accept`);
+      return await res.json();
+    },
+    onSuccess: (updated: AuthUser, invitation) => {
+      // The organization joined becomes the active one
+      enterOrganization(updated);
+      setIsInvitationsOpen(false);
+      setLocation("/");
+      toast({
+        title: "Invitation accepted",
+        description: `You are now working in ${invitation.organizationName}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to accept the invitation: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (invitation: InvitationWithOrganization) => {
+      await apiRequest("DELETE", `/api/user/invitations/${invitation.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/invitations"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to decline the invitation: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleChange = (value: string) => {
+    if (value === NEW_ORGANIZATION) {
+      // New books are usually kept in the same currency as the current ones
+      const current = organizations.find(organization => organization.id === user?.activeOrganizationId);
+      setBaseCurrency(current?.baseCurrency ?? DEFAULT_BASE_CURRENCY);
+      setIsCreateOpen(true);
+    } else if (Number(value) !== user?.activeOrganizationId) {
+      switchMutation.mutate(Number(value));
+    }
+  };
+
+  return (
+    <>
+      <Select
+        value={user?.activeOrganizationId ? String(user.activeOrganizationId) : undefined}
+        onValueChange={handleChange}
+        disabled={switchMutation.isPending}
+      >
+        <SelectTrigger className="mb-4 bg-gray-700 border-gray-600 text-white">
+          <div className="flex items-center gap-2 truncate">
+            {switchMutation.isPending ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Building2 className="h-4 w-4" />
+            )}
+            <SelectValue placeholder="No organization" />
+          </div>
+        </SelectTrigger>
+        <SelectContent>
+          {organizations.map(organization => (
+            <SelectItem key={organization.id} value={String(organization.id)}>
+              {organization.name}
+            </SelectItem>
+          ))}
+          {organizations.length > 0 && <SelectSeparator />}
+          <SelectItem value={NEW_ORGANIZATION}>New organization…</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {invitations.length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mb-4 -mt-2 w-full justify-start text-gray-300 hover:text-white hover:bg-gray-700"
+          onClick={() => setIsInvitationsOpen(true)}
+        >
+          <Mail className="mr-2 h-4 w-4" />
+          {invitations.length === 1 ? "1 invitation" : `${invitations.length} invitations`}
+        </Button>
+      )}
+
+      <Dialog open={isInvitationsOpen} onOpenChange={setIsInvitationsOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Invitations</DialogTitle>
+            <DialogDescription>
+              Organizations that asked you to join them. You become a member only if you accept.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="divide-y">
+            {invitations.map(invitation => (
+              <li key={invitation.id} className="py-3 space-y-2">
+                <div>
+                  <p className="font-medium">{invitation.organizationName}</p>
+                  <p className="text-sm text-gray-500">
+                    Invited by {invitation.invitedByName} as {invitation.roleName}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={acceptMutation.isPending || declineMutation.isPending}
+                    onClick={() => acceptMutation.mutate(invitation)}
+                  >
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={acceptMutation.isPending || declineMutation.isPending}
+                    onClick={() => declineMutation.mutate(invitation)}
+                  >
+                    Decline
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>New Organization</DialogTitle>
+            <DialogDescription>
+              Start a separate set of books. You will be its owner and can add other users to it.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4 mt-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate(name);
+            }}
+          >
+            <div className="grid gap-2">
+              <Label htmlFor="organization-name">Name</Label>
+              <Input
+                id="organization-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="organization-base-currency">Base currency</Label>
+              <Select value={baseCurrency} onValueChange={setBaseCurrency}>
+                <SelectTrigger id="organization-base-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {supportedCurrencies.map(currency => (
+                    <SelectItem key={currency.code} value={currency.code}>
+                      {currency.code} - {currency.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-500">
+                The books are kept in this currency. It cannot be changed later.
+              </p>
+            </div>
+            <DialogFooter>
+              <Button type="submit" className="w-full" disabled={!name.trim() || createMutation.isPending}>
+                {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Organization
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
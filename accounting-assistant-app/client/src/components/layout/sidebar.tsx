@@ -1,11 +1,13 @@
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { CalculatorButton } from "@/components/ui/CalculatorButton";
 import { useCalculator } from "@/contexts/CalculatorContext";
+import { OrganizationSwitcher } from "@/components/layout/organization-switcher";
 import {
   LayoutDashboard,
   File,
@@ -16,12 +18,20 @@ import {
   Menu,
   X,
   Calculator,
-  Users
+  Users,
+  Repeat,
+  FileText,
+  Wallet,
+  Receipt,
+  Landmark,
+  History
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { Permission } from "@shared/schema";
 
 export function Sidebar() {
   const { user, logoutMutation } = useAuth();
+  const { can } = usePermissions();
   const [location] = useLocation();
   const { toast } = useToast();
   const isMobile = useIsMobile();
@@ -46,8 +56,8 @@ export function Sidebar() {
     logoutMutation.mutate();
   };
 
-  // Base navigation links for all users
-  const baseNavLinks = [
+  // Links to the pages the user's role lets them see
+  const allNavLinks: { href: string; label: string; icon: JSX.Element; permission?: Permission }[] = [
     {
       href: "/",
       label: "Dashboard",
@@ -55,21 +65,55 @@ export function Sidebar() {
     },
     {
       href: "/clients",
+      permission: "clients:read",
       label: "Clients",
       icon: <Users className="h-5 w-5" />,
     },
+    {
+      href: "/estimates",
+      permission: "invoices:read",
+      label: "Estimates",
+      icon: <FileText className="h-5 w-5" />,
+    },
     {
       href: "/invoices",
+      permission: "invoices:read",
       label: "Invoices",
       icon: <File className="h-5 w-5" />,
     },
+    {
+      href: "/recurring-invoices",
+      permission: "invoices:read",
+      label: "Recurring Invoices",
+      icon: <Repeat className="h-5 w-5" />,
+    },
     {
       href: "/payments",
+      permission: "payments:read",
       label: "Payments",
       icon: <CreditCard className="h-5 w-5" />,
     },
+    {
+      href: "/expenses",
+      permission: "purchases:read",
+      label: "Expenses",
+      icon: <Wallet className="h-5 w-5" />,
+    },
+    {
+      href: "/bills",
+      permission: "purchases:read",
+      label: "Bills",
+      icon: <Receipt className="h-5 w-5" />,
+    },
+    {
+      href: "/banking",
+      permission: "banking:read",
+      label: "Banking",
+      icon: <Landmark className="h-5 w-5" />,
+    },
     {
       href: "/reports",
+      permission: "reports:read",
       label: "Reports",
       icon: <BarChart2 className="h-5 w-5" />,
     },
@@ -78,21 +122,21 @@ export function Sidebar() {
       label: "Profile",
       icon: <User className="h-5 w-5" />,
     },
-  ];
-  
-  // Admin-only links
-  const adminLinks = [
     {
       href: "/users",
       label: "Users Management",
       icon: <User className="h-5 w-5" />,
+      permission: "users:manage",
+    },
+    {
+      href: "/audit-log",
+      label: "Audit Log",
+      icon: <History className="h-5 w-5" />,
+      permission: "audit:read",
     },
   ];
   
-  // Combine links based on user role
-  const navLinks = user?.role === "admin" 
-    ? [...baseNavLinks, ...adminLinks] 
-    : baseNavLinks;
+  const navLinks = allNavLinks.filter(link => !link.permission || can(link.permission));
 
   // Mobile menu toggle button
   const mobileMenuButton = (
@@ -148,10 +192,12 @@ export function Sidebar() {
             </div>
             <div>
               <p className="text-sm font-medium">{user.name}</p>
-              <p className="text-xs text-gray-400 capitalize">{user.role}</p>
+              <p className="text-xs text-gray-400">{user.roleName}</p>
             </div>
           </div>
           
+          <OrganizationSwitcher />
+          
           <nav>
             {navLinks.map((link) => (
               <div key={link.href}>
@@ -13,6 +13,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -29,12 +30,15 @@ import { format } from "date-fns";
 import { Calendar as CalendarIcon, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { Payment, insertPaymentSchema, Invoice } from "@shared/schema";
+import { BankAccount, Payment, insertPaymentSchema, InvoiceWithAmounts, PAYMENT_METHODS, getInvoiceNumber } from "@shared/schema";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCurrency, supportedCurrencies } from "@/lib/currency-service";
 
 interface PaymentFormProps {
   payment?: Payment | null;
+  // Record a refund of this payment instead of a new payment
+  refundOf?: Payment | null;
   onSuccess?: () => void;
 }
 
@@ -53,23 +57,46 @@ const paymentFormSchema = insertPaymentSchema.extend({
 
 type PaymentFormValues = z.infer<typeof paymentFormSchema>;
 
-export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
+export function PaymentForm({ payment, refundOf, onSuccess }: PaymentFormProps) {
   const { toast } = useToast();
   const isEditing = !!payment;
+  const isRefund = !!refundOf || payment?.type === "refund";
+  const label = isRefund ? "Refund" : "Payment";
   
   // Fetch invoices for the select dropdown
-  const { data: invoices, isLoading: isLoadingInvoices } = useQuery<Invoice[]>({
+  const { data: invoices, isLoading: isLoadingInvoices } = useQuery<InvoiceWithAmounts[]>({
     queryKey: ["/api/invoices"],
   });
 
+  const { data: bankAccounts = [] } = useQuery<BankAccount[]>({
+    queryKey: ["/api/bank-accounts"],
+  });
+
+  // Earlier refunds limit how much of a payment is left to refund
+  const { data: payments } = useQuery<Payment[]>({
+    queryKey: ["/api/payments"],
+    enabled: !!refundOf,
+  });
+  const refundable = refundOf && payments
+    ? Number(refundOf.amount) - payments
+        .filter(other => other.type === "refund" && other.refundOfId === refundOf.id)
+        .reduce((sum, refund) => sum + Number(refund.amount), 0)
+    : undefined;
+
   // Create form with default values
   const form = useForm<PaymentFormValues>({
     resolver: zodResolver(paymentFormSchema),
     defaultValues: {
-      invoiceId: payment?.invoiceId || 0,
+      invoiceId: payment?.invoiceId || refundOf?.invoiceId || 0,
+      type: payment?.type ?? (refundOf ? "refund" : "payment"),
+      refundOfId: payment?.refundOfId ?? refundOf?.id ?? null,
       amount: payment?.amount || "0",
       date: payment?.date ? new Date(payment.date) : new Date(),
+      method: payment?.method ?? refundOf?.method ?? "bank_transfer",
+      reference: payment?.reference ?? "",
+      notes: payment?.notes ?? "",
       receiptGenerated: payment?.receiptGenerated ?? false,
+      bankAccountId: payment?.bankAccountId ?? refundOf?.bankAccountId ?? null,
       userId: payment?.userId || 0, // This will be set by the server
     },
   });
@@ -80,6 +107,9 @@ export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
       if (isEditing && payment) {
         const res = await apiRequest("PUT", `/api/payments/${payment.id}`, data);
         return await res.json();
+      } else if (refundOf) {
+        const res = await apiRequest("POST", `/api/payments/${refundOf.id}/refund`, data);
+        return await res.json();
       } else {
         const res = await apiRequest("POST", "/api/payments", data);
         return await res.json();
@@ -90,10 +120,10 @@ export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
       toast({
-        title: isEditing ? "Payment updated" : "Payment recorded",
+        title: isEditing ? `${label} updated` : `${label} recorded`,
         description: isEditing
-          ? `Payment #${data.id} has been updated successfully.`
-          : `Payment #${data.id} has been recorded successfully.`,
+          ? `${label} #${data.id} has been updated successfully.`
+          : `${label} #${data.id} has been recorded successfully.`,
       });
       if (onSuccess) {
         onSuccess();
@@ -102,7 +132,7 @@ export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
     onError: (error) => {
       toast({
         title: "Error",
-        description: `Failed to ${isEditing ? "update" : "record"} payment: ${error.message}`,
+        description: `Failed to ${isEditing ? "update" : "record"} ${label.toLowerCase()}: ${error.message}`,
         variant: "destructive",
       });
     },
@@ -112,12 +142,24 @@ export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
   const selectedInvoiceId = form.watch("invoiceId");
   const selectedInvoice = invoices?.find(inv => inv.id === selectedInvoiceId);
   
-  // When selecting an invoice, pre-fill the amount field with the invoice amount
+  // Payments are in the currency of their invoice
+  const currencySymbol = selectedInvoice
+    ? supportedCurrencies.find(currency => currency.code === selectedInvoice.currency)?.symbol ?? selectedInvoice.currency
+    : "$";
+  
+  // When selecting an invoice, pre-fill the amount field with what is still due
   useEffect(() => {
-    if (selectedInvoice && !isEditing) {
-      form.setValue("amount", selectedInvoice.amount);
+    if (selectedInvoice && !isEditing && !refundOf) {
+      form.setValue("amount", selectedInvoice.amountDue.toFixed(2));
     }
-  }, [selectedInvoiceId, selectedInvoice, form, isEditing]);
+  }, [selectedInvoiceId, selectedInvoice, form, isEditing, refundOf]);
+
+  // A refund defaults to everything that is left to refund
+  useEffect(() => {
+    if (refundable !== undefined) {
+      form.setValue("amount", refundable.toFixed(2));
+    }
+  }, [refundable, form]);
 
   function onSubmit(data: PaymentFormValues) {
     mutation.mutate(data);
@@ -135,7 +177,7 @@ export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
               <Select
                 onValueChange={(value) => field.onChange(parseInt(value))}
                 value={field.value ? field.value.toString() : undefined}
-                disabled={isLoadingInvoices}
+                disabled={isLoadingInvoices || isRefund}
               >
                 <FormControl>
                   <SelectTrigger>
@@ -148,11 +190,14 @@ export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
                       Loading invoices...
                     </SelectItem>
                   ) : invoices?.length ? (
-                    invoices.map((invoice) => (
-                      <SelectItem key={invoice.id} value={invoice.id.toString()}>
-                        #{invoice.id} - {invoice.clientName} (${Number(invoice.amount).toFixed(2)})
-                      </SelectItem>
-                    ))
+                    invoices
+                      // Void invoices cannot take payments
+                      .filter((invoice) => invoice.status !== "void" || invoice.id === payment?.invoiceId)
+                      .map((invoice) => (
+                        <SelectItem key={invoice.id} value={invoice.id.toString()}>
+                          {getInvoiceNumber(invoice)} - {invoice.clientName} ({formatCurrency(invoice.amountDue, invoice.currency)} due)
+                        </SelectItem>
+                      ))
                   ) : (
                     <SelectItem value="none" disabled>
                       No invoices found
@@ -169,7 +214,13 @@ export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
           <div className="bg-blue-50 p-3 rounded-md text-sm">
             <p><strong>Invoice:</strong> {selectedInvoice.title}</p>
             <p><strong>Client:</strong> {selectedInvoice.clientName}</p>
-            <p><strong>Total Amount:</strong> ${Number(selectedInvoice.amount).toFixed(2)}</p>
+            <p><strong>Total Amount:</strong> {formatCurrency(Number(selectedInvoice.amount), selectedInvoice.currency)}</p>
+            {refundOf && (
+              <p>
+                <strong>Refundable:</strong>{" "}
+                {refundable === undefined ? "..." : `${formatCurrency(refundable, selectedInvoice.currency)} of payment #${refundOf.id}`}
+              </p>
+            )}
             <p><strong>Status:</strong> {selectedInvoice.status.charAt(0).toUpperCase() + selectedInvoice.status.slice(1)}</p>
           </div>
         )}
@@ -179,17 +230,17 @@ export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
           name="amount"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Payment Amount</FormLabel>
+              <FormLabel>{label} Amount</FormLabel>
               <FormControl>
                 <div className="relative">
                   <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">
-                    $
+                    {currencySymbol}
                   </span>
                   <Input
                     type="number"
                     step="0.01"
                     placeholder="0.00"
-                    className="pl-8"
+                    className="pl-12"
                     {...field}
                     onChange={(e) => {
                       const value = e.target.value;
@@ -208,7 +259,7 @@ export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
           name="date"
           render={({ field }) => (
             <FormItem className="flex flex-col">
-              <FormLabel>Payment Date</FormLabel>
+              <FormLabel>{label} Date</FormLabel>
               <Popover>
                 <PopoverTrigger asChild>
                   <FormControl>
@@ -245,6 +296,98 @@ export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
           )}
         />
 
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="method"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Method</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select method" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map((method) => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="reference"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{form.watch("method") === "cheque" ? "Cheque Number" : "Reference"}</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. bank or transaction reference" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {bankAccounts.length > 0 && (
+          <FormField
+            control={form.control}
+            name="bankAccountId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Bank Account</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === "none" ? null : Number(value))}
+                  value={field.value ? field.value.toString() : "none"}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a bank account" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="none">Not specified</SelectItem>
+                    {bankAccounts
+                      .filter((account) => !selectedInvoice || account.currency === selectedInvoice.currency || account.id === field.value)
+                      .map((account) => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder={isRefund ? "e.g. Reason for the refund" : "Optional notes"}
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {isEditing && (
           <FormField
             control={form.control}
@@ -262,7 +405,7 @@ export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
                 <div className="space-y-1 leading-none">
                   <FormLabel>Receipt Generated</FormLabel>
                   <p className="text-sm text-muted-foreground">
-                    Mark if a receipt has been generated for this payment
+                    Mark if a receipt has been generated for this {label.toLowerCase()}
                   </p>
                 </div>
               </FormItem>
@@ -278,7 +421,7 @@ export function PaymentForm({ payment, onSuccess }: PaymentFormProps) {
                 {isEditing ? "Updating..." : "Recording..."}
               </>
             ) : (
-              <>{isEditing ? "Update Payment" : "Record Payment"}</>
+              <>{isEditing ? `Update ${label}` : `Record ${label}`}</>
             )}
           </Button>
         </div>
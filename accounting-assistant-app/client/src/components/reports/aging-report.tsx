@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AgingReport as AgingReportData, AgingBucket, AGING_BUCKETS } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { FileDown, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { generateAgingReportPdf } from "@/lib/pdf-service";
+import { exportAgingReportToCSV } from "@/lib/export-service";
+import { formatCurrency } from "@/lib/currency-service";
+
+interface AgingReportProps {
+  endpoint: string;
+  title: string;
+  partyLabel: string;
+  filename: string;
+}
+
+// Aging table by counterparty and bucket; clicking an amount lists the
+// documents that make it up
+export function AgingReport({ endpoint, title, partyLabel, filename }: AgingReportProps) {
+  const [asOf, setAsOf] = useState(new Date().toISOString().slice(0, 10));
+  const [selection, setSelection] = useState<{ partyName: string | null; bucket: AgingBucket | null } | null>(null);
+
+  const { data: aging, isLoading } = useQuery<AgingReportData>({
+    queryKey: [`${endpoint}?asOf=${asOf}`],
+  });
+
+  const selectedDocuments = aging && selection
+    ? aging.documents.filter(document =>
+        (selection.partyName === null || document.partyName === selection.partyName) &&
+        (selection.bucket === null || document.bucket === selection.bucket)
+      )
+    : [];
+
+  const money = (amount: number) => formatCurrency(amount, aging?.currency);
+
+  const cellButton = (amount: number, partyName: string | null, bucket: AgingBucket | null) => (
+    <button
+      className={cn(
+        "hover:underline",
+        amount === 0 && "text-gray-400 pointer-events-none",
+        selection?.partyName === partyName && selection?.bucket === bucket && "font-semibold text-primary"
+      )}
+      onClick={() => setSelection({ partyName, bucket })}
+    >
+      {money(amount)}
+    </button>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-500">As of</span>
+          <Input
+            type="date"
+            className="w-[160px]"
+            value={asOf}
+            onChange={(e) => {
+              setAsOf(e.target.value);
+              setSelection(null);
+            }}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!aging}
+            onClick={() => aging && generateAgingReportPdf(aging, title).save(`${filename}_${aging.asOf}.pdf`)}
+          >
+            <FileDown className="h-4 w-4 mr-2" /> PDF
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!aging}
+            onClick={() => aging && exportAgingReportToCSV(aging, filename)}
+          >
+            <FileDown className="h-4 w-4 mr-2" /> CSV
+          </Button>
+        </div>
+      </div>
+
+      {isLoading || !aging ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  {partyLabel}
+                </th>
+                {AGING_BUCKETS.map(bucket => (
+                  <th key={bucket.key} className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {bucket.label}
+                  </th>
+                ))}
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {aging.rows.length === 0 ? (
+                <tr>
+                  <td colSpan={AGING_BUCKETS.length + 2} className="px-4 py-6 text-center text-gray-500">
+                    No open balances as of this date
+                  </td>
+                </tr>
+              ) : (
+                aging.rows.map(row => (
+                  <tr key={`${row.partyId}-${row.partyName}`}>
+                    <td className="px-4 py-2 font-medium">{row.partyName}</td>
+                    {AGING_BUCKETS.map(bucket => (
+                      <td key={bucket.key} className="px-4 py-2 text-right">
+                        {cellButton(row.buckets[bucket.key], row.partyName, bucket.key)}
+                      </td>
+                    ))}
+                    <td className="px-4 py-2 text-right">
+                      {cellButton(row.total, row.partyName, null)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+            <tfoot className="bg-gray-50 font-semibold">
+              <tr>
+                <td className="px-4 py-2">Total</td>
+                {AGING_BUCKETS.map(bucket => (
+                  <td key={bucket.key} className="px-4 py-2 text-right">
+                    {cellButton(aging.totals[bucket.key], null, bucket.key)}
+                  </td>
+                ))}
+                <td className="px-4 py-2 text-right">{cellButton(aging.total, null, null)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      {selection && (
+        <div className="border rounded-md p-4">
+          <div className="flex justify-between items-center mb-3">
+            <h4 className="font-semibold text-sm">
+              {selection.partyName ?? `All ${partyLabel.toLowerCase()}s`}
+              {selection.bucket && (
+                <Badge variant="outline" className="ml-2">
+                  {AGING_BUCKETS.find(bucket => bucket.key === selection.bucket)?.label}
+                </Badge>
+              )}
+            </h4>
+            <Button variant="ghost" size="sm" onClick={() => setSelection(null)}>
+              Close
+            </Button>
+          </div>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase">
+                <th className="py-1 text-left">Document</th>
+                <th className="py-1 text-left">{partyLabel}</th>
+                <th className="py-1 text-left">Date</th>
+                <th className="py-1 text-left">Due Date</th>
+                <th className="py-1 text-right">Days Past Due</th>
+                <th className="py-1 text-right">Amount</th>
+                <th className="py-1 text-right">Paid</th>
+                <th className="py-1 text-right">Credited</th>
+                <th className="py-1 text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {selectedDocuments.map(document => (
+                <tr key={document.id}>
+                  <td className="py-1">{document.reference}</td>
+                  <td className="py-1">{document.partyName}</td>
+                  <td className="py-1">{new Date(document.date).toLocaleDateString()}</td>
+                  <td className="py-1">{new Date(document.dueDate).toLocaleDateString()}</td>
+                  <td className="py-1 text-right">{document.daysPastDue}</td>
+                  <td className="py-1 text-right">{money(document.amount)}</td>
+                  <td className="py-1 text-right">{money(document.paid)}</td>
+                  <td className="py-1 text-right">{money(document.credited)}</td>
+                  <td className="py-1 text-right font-medium">
+                    {money(document.balance)}
+                    {document.currency !== aging?.currency && (
+                      <div className="text-xs font-normal text-gray-500">
+                        {formatCurrency(document.currencyBalance, document.currency)}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
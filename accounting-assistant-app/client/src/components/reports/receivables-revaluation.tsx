@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { ReceivablesRevaluation as RevaluationData } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/currency-service";
+import { cn } from "@/lib/utils";
+import { Loader2, RefreshCw } from "lucide-react";
+
+// Period-end revaluation of open foreign-currency invoices. Running it posts
+// the unrealized exchange gain or loss as of the date, which then shows on
+// income statements covering it.
+export function ReceivablesRevaluation() {
+  const { toast } = useToast();
+  const [asOf, setAsOf] = useState(new Date().toISOString().slice(0, 10));
+  const [revaluation, setRevaluation] = useState<RevaluationData | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/reports/revaluation", { asOf });
+      return await res.json();
+    },
+    onSuccess: (data: RevaluationData) => {
+      setRevaluation(data);
+      toast({
+        title: "Receivables revalued",
+        description: data.lines.length === 0
+          ? `No foreign-currency invoices were open on ${new Date(data.asOf).toLocaleDateString()}.`
+          : `An unrealized ${data.total < 0 ? "loss" : "gain"} of ${formatCurrency(Math.abs(data.total), data.currency)} has been posted.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to revalue receivables: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const money = (amount: number) => formatCurrency(amount, revaluation?.currency);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-500">As of</span>
+          <Input
+            type="date"
+            className="w-[160px]"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+          />
+        </div>
+        <Button size="sm" disabled={!asOf || mutation.isPending} onClick={() => mutation.mutate()}>
+          {mutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          )}
+          Revalue
+        </Button>
+      </div>
+
+      {!revaluation ? (
+        <p className="py-6 text-center text-sm text-gray-500">
+          Open invoices in other currencies are valued at the rate on the chosen date. The gain or loss is
+          posted as of that date and reversed the day after; revaluing the same date again replaces it.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Invoice", "Client", "Open Balance", "Booked Rate", "Rate", "Booked", "Revalued", "Gain/Loss"].map(heading => (
+                  <th
+                    key={heading}
+                    className={cn(
+                      "px-4 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider",
+                      heading === "Invoice" || heading === "Client" ? "text-left" : "text-right"
+                    )}
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {revaluation.lines.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-center text-gray-500">
+                    No open foreign-currency invoices as of this date
+                  </td>
+                </tr>
+              ) : (
+                revaluation.lines.map(line => (
+                  <tr key={line.invoiceId}>
+                    <td className="px-4 py-2 font-medium">{line.reference}</td>
+                    <td className="px-4 py-2">{line.clientName}</td>
+                    <td className="px-4 py-2 text-right">{formatCurrency(line.balance, line.currency)}</td>
+                    <td className="px-4 py-2 text-right">{line.bookedRate}</td>
+                    <td className="px-4 py-2 text-right">{line.rate}</td>
+                    <td className="px-4 py-2 text-right">{money(line.bookedAmount)}</td>
+                    <td className="px-4 py-2 text-right">{money(line.revaluedAmount)}</td>
+                    <td className={cn("px-4 py-2 text-right", line.gainLoss < 0 && "text-red-600")}>
+                      {money(line.gainLoss)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+            <tfoot className="bg-gray-50 font-semibold">
+              <tr>
+                <td colSpan={7} className="px-4 py-2">Total</td>
+                <td className={cn("px-4 py-2 text-right", revaluation.total < 0 && "text-red-600")}>
+                  {money(revaluation.total)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  TaxBreakdownLine,
+  TaxReturn,
+  TaxReturnDocument,
+  TaxReturnReport as TaxReturnData,
+  getTaxReturnDocumentLabel,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeTax, generateTaxReturnPdf } from "@/lib/pdf-service";
+import { exportTaxReturnToCSV } from "@/lib/export-service";
+import { formatCurrency } from "@/lib/currency-service";
+import { cn } from "@/lib/utils";
+import { FileDown, Loader2, Lock, Unlock } from "lucide-react";
+
+const toDateInput = (date: Date) => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+};
+
+// Returns are usually filed for the last full quarter
+const lastQuarter = () => {
+  const today = new Date();
+  const quarterStart = Math.floor(today.getMonth() / 3) * 3;
+  return {
+    from: toDateInput(new Date(today.getFullYear(), quarterStart - 3, 1)),
+    to: toDateInput(new Date(today.getFullYear(), quarterStart, 0)),
+  };
+};
+
+// VAT/GST return for a period: output tax on sales and input tax on
+// purchases by rate, the net amount and the documents behind it. Members
+// allowed to file returns can file it, which locks the documents dated in
+// the period.
+export function TaxReturnReport() {
+  const { can } = usePermissions();
+  const { toast } = useToast();
+  const [period, setPeriod] = useState(lastQuarter);
+
+  const { data: taxReturn, isLoading } = useQuery<TaxReturnData>({
+    queryKey: [`/api/reports/tax-return?from=${period.from}&to=${period.to}`],
+    enabled: !!period.from && !!period.to && period.from <= period.to,
+  });
+
+  const { data: filedReturns = [] } = useQuery<TaxReturn[]>({
+    queryKey: ["/api/tax-returns"],
+  });
+  const lockedThrough = filedReturns[0]?.periodEnd ?? null;
+
+  const fileMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/tax-returns", { periodStart: period.from, periodEnd: period.to });
+      return await res.json();
+    },
+    onSuccess: (data: TaxReturn) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-returns"] });
+      toast({
+        title: "Tax return filed",
+        description: `Documents dated up to ${new Date(data.periodEnd).toLocaleDateString()} can no longer be changed.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to file the tax return: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tax-returns/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-returns"] });
+      toast({
+        title: "Tax return reopened",
+        description: "Documents in its period can be changed again.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to reopen the tax return: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const money = (amount: number) => formatCurrency(amount, taxReturn?.currency);
+
+  const taxTable = (title: string, lines: TaxBreakdownLine[], total: number) => (
+    <table className="min-w-full text-sm">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{title}</th>
+          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Taxable Amount</th>
+          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Tax</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {lines.length === 0 ? (
+          <tr>
+            <td colSpan={3} className="px-4 py-4 text-center text-gray-500">No tax in this period</td>
+          </tr>
+        ) : (
+          lines.map(tax => (
+            <tr key={`${tax.taxRateId ?? "custom"}:${tax.rate}`}>
+              <td className="px-4 py-2">{describeTax(tax)}</td>
+              <td className="px-4 py-2 text-right">{money(tax.taxableAmount)}</td>
+              <td className="px-4 py-2 text-right">{money(tax.amount)}</td>
+            </tr>
+          ))
+        )}
+      </tbody>
+      <tfoot className="bg-gray-50 font-semibold">
+        <tr>
+          <td colSpan={2} className="px-4 py-2">Total</td>
+          <td className="px-4 py-2 text-right">{money(total)}</td>
+        </tr>
+      </tfoot>
+    </table>
+  );
+
+  const documentTable = (title: string, documents: TaxReturnDocument[]) => documents.length > 0 && (
+    <div className="overflow-x-auto">
+      <h3 className="text-sm font-medium mb-2">{title}</h3>
+      <table className="min-w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            {["Date", "Type", "Reference", "Name", "Taxable Amount", "Tax"].map(heading => (
+              <th
+                key={heading}
+                className={cn(
+                  "px-4 py-2 text-xs font-medium text-gray-500 uppercase tracking-wider",
+                  heading === "Taxable Amount" || heading === "Tax" ? "text-right" : "text-left"
+                )}
+              >
+                {heading}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-200">
+          {documents.map(document => (
+            <tr key={`${document.type}-${document.id}`}>
+              <td className="px-4 py-2">{new Date(document.date).toLocaleDateString()}</td>
+              <td className="px-4 py-2">{getTaxReturnDocumentLabel(document.type)}</td>
+              <td className="px-4 py-2 font-medium">{document.reference}</td>
+              <td className="px-4 py-2">{document.partyName}</td>
+              <td className={cn("px-4 py-2 text-right", document.taxableAmount < 0 && "text-red-600")}>
+                {money(document.taxableAmount)}
+              </td>
+              <td className={cn("px-4 py-2 text-right", document.taxAmount < 0 && "text-red-600")}>
+                {money(document.taxAmount)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const overlapsFiled = lockedThrough !== null && period.from <= lockedThrough;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-gray-500">From</span>
+          <Input
+            type="date"
+            className="w-[160px]"
+            value={period.from}
+            onChange={(e) => setPeriod({ ...period, from: e.target.value })}
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <Input
+            type="date"
+            className="w-[160px]"
+            value={period.to}
+            onChange={(e) => setPeriod({ ...period, to: e.target.value })}
+          />
+        </div>
+        <div className="flex gap-2">
+          {can("reports:export") && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!taxReturn}
+                onClick={() => taxReturn && generateTaxReturnPdf(taxReturn).save(`tax_return_${taxReturn.periodStart}_${taxReturn.periodEnd}.pdf`)}
+              >
+                <FileDown className="h-4 w-4 mr-2" /> PDF
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!taxReturn}
+                onClick={() => taxReturn && exportTaxReturnToCSV(taxReturn)}
+              >
+                <FileDown className="h-4 w-4 mr-2" /> CSV
+              </Button>
+            </>
+          )}
+          {can("taxes:file") && (
+            <Button
+              size="sm"
+              disabled={!taxReturn || overlapsFiled || fileMutation.isPending}
+              onClick={() => fileMutation.mutate()}
+            >
+              {fileMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Lock className="h-4 w-4 mr-2" />
+              )}
+              File Return
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {lockedThrough && (
+        <p className="text-sm text-gray-500">
+          Returns have been filed through {new Date(lockedThrough).toLocaleDateString()}. Invoices, credit notes, bills
+          and expenses dated up to then can no longer be changed.
+        </p>
+      )}
+
+      {isLoading || !taxReturn ? (
+        <div className="flex items-center justify-center py-12">
+          {isLoading ? (
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          ) : (
+            <p className="text-sm text-gray-500">Choose a period that ends on or after its start</p>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="overflow-x-auto">{taxTable("Output Tax", taxReturn.outputTax, taxReturn.totalOutputTax)}</div>
+            <div className="overflow-x-auto">{taxTable("Input Tax", taxReturn.inputTax, taxReturn.totalInputTax)}</div>
+          </div>
+
+          <div className="flex justify-end">
+            <p className={cn("text-lg font-semibold", taxReturn.netTax < 0 && "text-green-600")}>
+              {taxReturn.netTax < 0 ? "Net tax refundable" : "Net tax payable"}: {money(Math.abs(taxReturn.netTax))}
+            </p>
+          </div>
+
+          {documentTable("Sales", taxReturn.sales)}
+          {documentTable("Purchases", taxReturn.purchases)}
+        </>
+      )}
+
+      {filedReturns.length > 0 && (
+        <div className="overflow-x-auto">
+          <h3 className="text-sm font-medium mb-2">Filed Returns</h3>
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Filed</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net Tax</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filedReturns.map((filed, index) => (
+                <tr key={filed.id}>
+                  <td className="px-4 py-2">
+                    {new Date(filed.periodStart).toLocaleDateString()} - {new Date(filed.periodEnd).toLocaleDateString()}
+                  </td>
+                  <td className="px-4 py-2">{new Date(filed.filedAt).toLocaleDateString()}</td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(filed.data.netTax, filed.data.currency)}</td>
+                  <td className="px-4 py-2 text-right space-x-2">
+                    {can("reports:export") && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => generateTaxReturnPdf(filed.data, filed.filedAt).save(`tax_return_${filed.periodStart}_${filed.periodEnd}.pdf`)}
+                      >
+                        <FileDown className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {can("taxes:file") && index === 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={reopenMutation.isPending}
+                        onClick={() => reopenMutation.mutate(filed.id)}
+                      >
+                        <Unlock className="h-4 w-4 mr-2" /> Reopen
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
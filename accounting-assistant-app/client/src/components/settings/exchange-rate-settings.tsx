@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ExchangeRateImportResult, ExchangeRateSummary, MAX_EXCHANGE_RATE_BYTES } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { Loader2, Upload } from "lucide-react";
+
+// The rates file goes up as the raw request body and is parsed on the server
+async function uploadRates(file: File): Promise<ExchangeRateImportResult> {
+  const res = await fetch("/api/exchange-rates/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+  return await res.json();
+}
+
+// Admin settings for the exchange rates invoices and payments are
+// converted at: the latest loaded rates and a file import
+export function ExchangeRateSettingsCard() {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+
+  const { data: summary, isLoading } = useQuery<ExchangeRateSummary>({
+    queryKey: ["/api/exchange-rates"],
+  });
+
+  const mutation = useMutation({
+    mutationFn: async () => uploadRates(file!),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+      toast({
+        title: "Exchange rates imported",
+        description: `${result.imported} rate${result.imported === 1 ? "" : "s"} for ${result.currencies.join(", ")}` +
+          (result.from ? ` from ${result.from} to ${result.to}` : "") + ".",
+      });
+      setFile(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to import exchange rates: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Exchange Rates</CardTitle>
+        <CardDescription>
+          The books are kept in {summary?.baseCurrency ?? "the base currency"}. Invoices and payments in other
+          currencies are converted at the latest rate on or before their date. Import a CSV file with date,
+          currency and rate columns (units of the currency per one {summary?.baseCurrency}), or the ECB
+          reference rates XML.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !summary || summary.rates.length === 0 ? (
+          <p className="text-sm text-gray-500">No exchange rates have been loaded yet</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase">
+                  <th className="py-1 text-left">Currency</th>
+                  <th className="py-1 text-right">Rate</th>
+                  <th className="py-1 text-right">As Of</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {summary.rates.map(rate => (
+                  <tr key={rate.currency}>
+                    <td className="py-1">{rate.currency}</td>
+                    <td className="py-1 text-right">{Number(rate.rate)}</td>
+                    <td className="py-1 text-right">{new Date(rate.date).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <form
+          className="flex items-end gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            mutation.mutate();
+          }}
+        >
+          <div className="grid gap-2 flex-1">
+            <Label htmlFor="exchange-rate-file">Rates File</Label>
+            <Input
+              id="exchange-rate-file"
+              type="file"
+              accept=".csv,.txt,.xml"
+              onChange={(e) => {
+                const selected = e.target.files?.[0] ?? null;
+                if (selected && selected.size > MAX_EXCHANGE_RATE_BYTES) {
+                  toast({
+                    title: "File too large",
+                    description: `Rates files can be up to ${MAX_EXCHANGE_RATE_BYTES / (1024 * 1024)} MB.`,
+                    variant: "destructive",
+                  });
+                  e.target.value = "";
+                  setFile(null);
+                  return;
+                }
+                setFile(selected);
+              }}
+            />
+          </div>
+          <Button type="submit" disabled={!file || mutation.isPending}>
+            {mutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-2 h-4 w-4" />
+            )}
+            Import
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
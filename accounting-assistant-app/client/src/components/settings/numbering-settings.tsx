@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { DocumentType, InsertDocumentSequence, formatDocumentNumber, hasYearToken } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+type NumberingSettings = InsertDocumentSequence & { nextNumber: string };
+
+interface NumberingSettingsCardProps {
+  documentType: DocumentType;
+  title: string;
+}
+
+// Admin settings for the number sequence of one document type
+export function NumberingSettingsCard({ documentType, title }: NumberingSettingsCardProps) {
+  const { toast } = useToast();
+  const [pattern, setPattern] = useState("");
+  const [resetYearly, setResetYearly] = useState(true);
+
+  const { data: settings, isLoading } = useQuery<NumberingSettings>({
+    queryKey: [`/api/numbering/${documentType}`],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setPattern(settings.pattern);
+      setResetYearly(settings.resetYearly ?? true);
+    }
+  }, [settings]);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/numbering/${documentType}`, { pattern, resetYearly });
+      return await res.json();
+    },
+    onSuccess: (data: NumberingSettings) => {
+      queryClient.setQueryData([`/api/numbering/${documentType}`], data);
+      toast({
+        title: "Numbering updated",
+        description: `The next number will be ${data.nextNumber}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update numbering: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isValidPattern = /\{N+\}/.test(pattern);
+  const canResetYearly = hasYearToken(pattern);
+  const example = isValidPattern ? formatDocumentNumber(pattern, new Date().getFullYear(), 1) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>
+          Use {"{YYYY}"} or {"{YY}"} for the year and {"{NNNN}"} for the counter, zero-padded to the number of Ns.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              mutation.mutate();
+            }}
+          >
+            <div className="grid gap-2">
+              <Label htmlFor={`${documentType}-pattern`}>Pattern</Label>
+              <Input
+                id={`${documentType}-pattern`}
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+              />
+              <p className={isValidPattern ? "text-sm text-gray-500" : "text-sm text-red-600"}>
+                {isValidPattern ? `Example: ${example}` : "The pattern must contain a counter such as {NNNN}"}
+              </p>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`${documentType}-reset`}>Restart the counter every year</Label>
+              <Switch
+                id={`${documentType}-reset`}
+                checked={resetYearly}
+                onCheckedChange={setResetYearly}
+              />
+            </div>
+            {resetYearly && !canResetYearly && (
+              <p className="text-sm text-red-600">
+                Add {"{YYYY}"} or {"{YY}"} to the pattern to restart the counter every year
+              </p>
+            )}
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-500">Next number: {settings?.nextNumber}</p>
+              <Button type="submit" disabled={!isValidPattern || (resetYearly && !canResetYearly) || mutation.isPending}>
+                {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
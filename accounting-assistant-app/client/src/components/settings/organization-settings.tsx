@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { OrganizationWithRole } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+// Admin settings for the organization the user is working in
+export function OrganizationSettingsCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+
+  const { data: organizations = [] } = useQuery<OrganizationWithRole[]>({
+    queryKey: ["/api/organizations"],
+  });
+  const organization = organizations.find(item => item.id === user?.activeOrganizationId);
+
+  useEffect(() => {
+    if (organization) {
+      setName(organization.name);
+    }
+  }, [organization]);
+
+  const mutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/organizations/${organization?.id}`, { name });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      toast({
+        title: "Organization updated",
+        description: `The organization is now named ${name.trim()}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update the organization: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (requireTwoFactor: boolean) => {
+      const res = await apiRequest("PUT", `/api/organizations/${organization?.id}`, { requireTwoFactor });
+      return await res.json();
+    },
+    onSuccess: (_data, requireTwoFactor) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organizations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: requireTwoFactor ? "Two-factor authentication required" : "Two-factor authentication optional",
+        description: requireTwoFactor
+          ? "Members without it are asked to turn it on before they can continue."
+          : "Members can choose whether to sign in with a code.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to update the organization: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Organization</CardTitle>
+        <CardDescription>
+          Clients, documents, taxes, exchange rates and the ledger belong to this organization, and only
+          its members can see them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            mutation.mutate();
+          }}
+        >
+          <div className="grid gap-2">
+            <Label htmlFor="organization-settings-name">Name</Label>
+            <Input
+              id="organization-settings-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={!organization || !name.trim() || mutation.isPending}>
+            {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </form>
+
+        <div className="flex items-center justify-between gap-4 border-t pt-4 mt-6">
+          <div>
+            <Label htmlFor="organization-require-two-factor">Require two-factor authentication</Label>
+            <p className="text-sm text-gray-500">
+              Every member must sign in with a code from an authenticator app. Turn it on for yourself first.
+            </p>
+          </div>
+          <Switch
+            id="organization-require-two-factor"
+            checked={organization?.requireTwoFactor ?? false}
+            disabled={!organization || twoFactorMutation.isPending || (!organization.requireTwoFactor && !user?.twoFactorEnabled)}
+            onCheckedChange={(checked) => twoFactorMutation.mutate(checked)}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  BUILT_IN_ROLES,
+  CustomRole,
+  InsertCustomRole,
+  MemberRole,
+  MemberRoleData,
+  PERMISSIONS,
+  Permission,
+} from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react";
+
+// Built-in and custom roles are picked from one list, custom roles as "custom:<id>"
+const toRoleValue = (member: MemberRoleData) => {
+  return member.role === "custom" ? `custom:${member.customRoleId}` : member.role;
+};
+
+const fromRoleValue = (value: string): MemberRoleData => {
+  return value.startsWith("custom:")
+    ? { role: "custom", customRoleId: Number(value.slice("custom:".length)) }
+    : { role: value as MemberRole, customRoleId: null };
+};
+
+export function MemberRoleSelect({
+  id,
+  value,
+  onChange,
+}: {
+  id?: string;
+  value: MemberRoleData;
+  onChange: (value: MemberRoleData) => void;
+}) {
+  const { user } = useAuth();
+  const { can } = usePermissions();
+  const { data: roles = [] } = useQuery<CustomRole[]>({
+    queryKey: ["/api/roles"],
+  });
+
+  // Roles granting more than the user's own are shown but cannot be given,
+  // and only owners make other owners
+  const canGrant = (permissions: Permission[]) => permissions.every(can);
+
+  return (
+    <Select value={toRoleValue(value)} onValueChange={(selected) => onChange(fromRoleValue(selected))}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select role" />
+      </SelectTrigger>
+      <SelectContent>
+        {BUILT_IN_ROLES.map(role => (
+          <SelectItem
+            key={role.value}
+            value={role.value}
+            disabled={(role.value === "owner" && user?.role !== "owner") || !canGrant(role.permissions)}
+          >
+            {role.label}
+          </SelectItem>
+        ))}
+        {roles.length > 0 && <SelectSeparator />}
+        {roles.map(role => (
+          <SelectItem key={role.id} value={`custom:${role.id}`} disabled={!canGrant(role.permissions)}>
+            {role.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+const emptyRole: InsertCustomRole = { name: "", permissions: [] };
+
+// Admin settings for the roles members can be given: what each built-in
+// role allows, and roles the organization defines with the permissions it
+// chooses
+export function RoleSettingsCard() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<InsertCustomRole>(emptyRole);
+
+  const { data: roles = [], isLoading } = useQuery<CustomRole[]>({
+    queryKey: ["/api/roles"],
+  });
+
+  // Users can only add permissions they have themselves. Those the role
+  // being edited already grants can stay.
+  const savedPermissions = roles.find(role => role.id === editingId)?.permissions ?? [];
+
+  const resetDraft = () => {
+    setEditingId(null);
+    setDraft(emptyRole);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = editingId
+        ? await apiRequest("PUT", `/api/roles/${editingId}`, draft)
+        : await apiRequest("POST", "/api/roles", draft);
+      return await res.json();
+    },
+    onSuccess: (role: CustomRole) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      toast({
+        title: editingId ? "Role updated" : "Role added",
+        description: editingId
+          ? `Members with the ${role.name} role have its new permissions from their next page load.`
+          : `${role.name} can now be given to users.`,
+      });
+      resetDraft();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save the role: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/roles/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/roles"] });
+      if (id === editingId) resetDraft();
+      toast({
+        title: "Role deleted",
+        description: "The role can no longer be given to users.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete the role: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setDraft(current => ({
+      ...current,
+      permissions: checked
+        ? [...current.permissions, permission]
+        : current.permissions.filter(other => other !== permission),
+    }));
+  };
+
+  const describePermissions = (permissions: Permission[]) => {
+    return permissions.length === PERMISSIONS.length
+      ? "Everything"
+      : `${permissions.length} of ${PERMISSIONS.length} permissions`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Roles</CardTitle>
+        <CardDescription>
+          A user's role decides what they can see and do in this organization. Custom roles grant exactly the
+          permissions ticked for them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase">
+                <th className="py-1 text-left">Role</th>
+                <th className="py-1 text-left">Allows</th>
+                <th className="py-1"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {BUILT_IN_ROLES.map(role => (
+                <tr key={role.value}>
+                  <td className="py-1">{role.label}</td>
+                  <td className="py-1 text-gray-500">{describePermissions(role.permissions)}</td>
+                  <td className="py-1"></td>
+                </tr>
+              ))}
+              {roles.map(role => (
+                <tr key={role.id}>
+                  <td className="py-1">{role.name}</td>
+                  <td className="py-1 text-gray-500">{describePermissions(role.permissions)}</td>
+                  <td className="py-1 text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingId(role.id);
+                        setDraft({ name: role.name, permissions: role.permissions });
+                      }}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-gray-500 hover:text-red-600"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(role.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveMutation.mutate();
+          }}
+        >
+          <h3 className="text-sm font-medium">{editingId ? "Edit Role" : "New Role"}</h3>
+          <div className="grid gap-2">
+            <Label htmlFor="custom-role-name">Name</Label>
+            <Input
+              id="custom-role-name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            />
+          </div>
+          <div className="grid gap-2">
+            {PERMISSIONS.map(permission => (
+              <div key={permission.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`custom-role-${permission.value}`}
+                  checked={draft.permissions.includes(permission.value)}
+                  disabled={!can(permission.value) && !savedPermissions.includes(permission.value)}
+                  onCheckedChange={(checked) => togglePermission(permission.value, checked === true)}
+                />
+                <Label htmlFor={`custom-role-${permission.value}`} className="font-normal">
+                  {permission.label}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={!draft.name.trim() || saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                !editingId && <Plus className="mr-2 h-4 w-4" />
+              )}
+              {editingId ? "Save Role" : "Add Role"}
+            </Button>
+            {editingId && (
+              <Button type="button" variant="outline" onClick={resetDraft}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
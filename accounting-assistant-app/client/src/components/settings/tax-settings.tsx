@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { InsertTaxGroup, InsertTaxRate, TAX_KINDS, TaxKind, TaxTable } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Plus } from "lucide-react";
+
+type TaxChange =
+  | { kind: "rate"; id?: number; data: Partial<InsertTaxRate> }
+  | { kind: "group"; id?: number; data: Partial<InsertTaxGroup> };
+
+// Admin settings for the named tax rates and groups line items are taxed
+// with. Taxes are never deleted, since documents refer to them; they are
+// made inactive instead so they can no longer be chosen.
+export function TaxSettingsCard() {
+  const { toast } = useToast();
+  const [rateName, setRateName] = useState("");
+  const [rate, setRate] = useState("");
+  const [rateKind, setRateKind] = useState<TaxKind>("standard");
+  const [compound, setCompound] = useState(false);
+  const [groupName, setGroupName] = useState("");
+  const [groupRateIds, setGroupRateIds] = useState<number[]>([]);
+
+  const { data: taxes, isLoading } = useQuery<TaxTable>({
+    queryKey: ["/api/taxes"],
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (change: TaxChange) => {
+      const path = change.kind === "rate" ? "/api/tax-rates" : "/api/tax-groups";
+      const res = change.id
+        ? await apiRequest("PUT", `${path}/${change.id}`, change.data)
+        : await apiRequest("POST", path, change.data);
+      return await res.json();
+    },
+    onSuccess: (_data, change) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/taxes"] });
+      if (change.id) return;
+
+      toast({
+        title: change.kind === "rate" ? "Tax rate added" : "Tax group added",
+        description: `${change.data.name} can now be chosen on line items.`,
+      });
+      if (change.kind === "rate") {
+        setRateName("");
+        setRate("");
+        setRateKind("standard");
+        setCompound(false);
+      } else {
+        setGroupName("");
+        setGroupRateIds([]);
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save the tax: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rateNames = (ids: number[]) => {
+    return ids.map(id => taxes?.rates.find(rate => rate.id === id)?.name ?? `#${id}`).join(" + ");
+  };
+
+  // Rates are charged in the order they are ticked
+  const toggleGroupRate = (id: number, checked: boolean) => {
+    setGroupRateIds(ids => checked ? [...ids, id] : ids.filter(other => other !== id));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Taxes</CardTitle>
+        <CardDescription>
+          Named tax rates and groups of rates charged together, such as GST and PST. Compound rates are
+          charged on the amount plus the taxes before them in a group. Exempt and reverse-charge rates charge
+          no tax but are shown on documents and tax reports.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium">Tax Rates</h3>
+              {!taxes || taxes.rates.length === 0 ? (
+                <p className="text-sm text-gray-500">No tax rates have been added yet</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 uppercase">
+                      <th className="py-1 text-left">Name</th>
+                      <th className="py-1 text-right">Rate</th>
+                      <th className="py-1 text-left pl-4">Kind</th>
+                      <th className="py-1 text-right">Active</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {taxes.rates.map(taxRate => (
+                      <tr key={taxRate.id}>
+                        <td className="py-1">{taxRate.name}{taxRate.compound && " (compound)"}</td>
+                        <td className="py-1 text-right">{Number(taxRate.rate)}%</td>
+                        <td className="py-1 pl-4">{TAX_KINDS.find(kind => kind.value === taxRate.kind)?.label}</td>
+                        <td className="py-1 text-right">
+                          <Switch
+                            checked={taxRate.active}
+                            disabled={mutation.isPending}
+                            onCheckedChange={(active) => mutation.mutate({ kind: "rate", id: taxRate.id, data: { active } })}
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              <form
+                className="grid grid-cols-2 md:grid-cols-5 items-end gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  mutation.mutate({ kind: "rate", data: { name: rateName, rate, kind: rateKind, compound } });
+                }}
+              >
+                <div className="grid gap-2 col-span-2">
+                  <Label htmlFor="tax-rate-name">Name</Label>
+                  <Input id="tax-rate-name" value={rateName} onChange={(e) => setRateName(e.target.value)} />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="tax-rate-rate">Rate (%)</Label>
+                  <Input
+                    id="tax-rate-rate"
+                    type="number"
+                    step="0.001"
+                    value={rateKind === "standard" ? rate : "0"}
+                    disabled={rateKind !== "standard"}
+                    onChange={(e) => setRate(e.target.value)}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label>Kind</Label>
+                  <Select
+                    value={rateKind}
+                    onValueChange={(kind) => {
+                      setRateKind(kind as TaxKind);
+                      if (kind !== "standard") setRate("0");
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TAX_KINDS.map(kind => (
+                        <SelectItem key={kind.value} value={kind.value}>{kind.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="submit" disabled={!rateName.trim() || rate === "" || mutation.isPending}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add
+                </Button>
+                <div className="flex items-center gap-2 col-span-2 md:col-span-5">
+                  <Switch id="tax-rate-compound" checked={compound} onCheckedChange={setCompound} />
+                  <Label htmlFor="tax-rate-compound">Compound (charged on top of earlier taxes in a group)</Label>
+                </div>
+              </form>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium">Tax Groups</h3>
+              {!taxes || taxes.groups.length === 0 ? (
+                <p className="text-sm text-gray-500">No tax groups have been added yet</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-gray-500 uppercase">
+                      <th className="py-1 text-left">Name</th>
+                      <th className="py-1 text-left">Rates</th>
+                      <th className="py-1 text-right">Active</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {taxes.groups.map(group => (
+                      <tr key={group.id}>
+                        <td className="py-1">{group.name}</td>
+                        <td className="py-1">{rateNames(group.taxRateIds)}</td>
+                        <td className="py-1 text-right">
+                          <Switch
+                            checked={group.active}
+                            disabled={mutation.isPending}
+                            onCheckedChange={(active) => mutation.mutate({ kind: "group", id: group.id, data: { active } })}
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {taxes && taxes.rates.length >= 2 && (
+                <form
+                  className="space-y-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    mutation.mutate({ kind: "group", data: { name: groupName, taxRateIds: groupRateIds } });
+                  }}
+                >
+                  <div className="flex items-end gap-2">
+                    <div className="grid gap-2 flex-1">
+                      <Label htmlFor="tax-group-name">Name</Label>
+                      <Input id="tax-group-name" value={groupName} onChange={(e) => setGroupName(e.target.value)} />
+                    </div>
+                    <Button type="submit" disabled={!groupName.trim() || groupRateIds.length < 2 || mutation.isPending}>
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-2">
+                    {taxes.rates.filter(taxRate => taxRate.active).map(taxRate => (
+                      <div key={taxRate.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`tax-group-rate-${taxRate.id}`}
+                          checked={groupRateIds.includes(taxRate.id)}
+                          onCheckedChange={(checked) => toggleGroupRate(taxRate.id, checked === true)}
+                        />
+                        <Label htmlFor={`tax-group-rate-${taxRate.id}`}>{taxRate.name}</Label>
+                      </div>
+                    ))}
+                  </div>
+                  {groupRateIds.length > 0 && (
+                    <p className="text-sm text-gray-500">Charged in this order: {rateNames(groupRateIds)}</p>
+                  )}
+                </form>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { TwoFactorRecoveryCodes, TwoFactorSetup } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { CardDescription, CardTitle } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+
+function CodeInput({ id, value, onChange }: { id: string; value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP id={id} maxLength={6} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Profile section where users turn two-factor authentication on or off. A
+// new authenticator is confirmed with a code before it is used, and the
+// recovery codes are shown once, when they are generated.
+export function TwoFactorSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+
+  const showError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${error.message}`,
+      variant: "destructive",
+    });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/setup");
+      return await res.json();
+    },
+    onSuccess: (data: TwoFactorSetup) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: showError("set up two-factor authentication"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/enable", { code });
+      return await res.json();
+    },
+    onSuccess: (data: TwoFactorRecoveryCodes) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      toast({
+        title: "Two-factor authentication on",
+        description: "You will be asked for a code from your authenticator app when you sign in.",
+      });
+    },
+    onError: showError("turn on two-factor authentication"),
+  });
+
+  const recoveryCodesMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/two-factor/recovery-codes", { code });
+      return await res.json();
+    },
+    onSuccess: (data: TwoFactorRecoveryCodes) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      toast({
+        title: "New recovery codes",
+        description: "Your previous recovery codes no longer work.",
+      });
+    },
+    onError: showError("generate recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/user/two-factor", { code });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      setCode("");
+      setRecoveryCodes(null);
+      toast({
+        title: "Two-factor authentication off",
+        description: "You will sign in with your password only.",
+      });
+    },
+    onError: showError("turn off two-factor authentication"),
+  });
+
+  if (!user) return null;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <CardTitle className="text-xl mb-2">Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Signing in also asks for a code from an authenticator app on your phone, so your password alone is not
+          enough to reach the organization's books.
+        </CardDescription>
+      </div>
+
+      {user.twoFactorRequired && !user.twoFactorEnabled && (
+        <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">
+          Your organization requires two-factor authentication. Turn it on to continue working in it.
+        </p>
+      )}
+
+      {recoveryCodes && (
+        <div className="space-y-2 rounded-md border p-4">
+          <p className="text-sm font-medium">Recovery codes</p>
+          <p className="text-sm text-gray-500">
+            Keep these somewhere safe. Each one signs you in once if you lose your phone, and they are not shown again.
+          </p>
+          <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+            {recoveryCodes.map(recoveryCode => (
+              <li key={recoveryCode}>{recoveryCode}</li>
+            ))}
+          </ul>
+          <Button variant="outline" size="sm" onClick={() => setRecoveryCodes(null)}>
+            I have saved them
+          </Button>
+        </div>
+      )}
+
+      {user.twoFactorEnabled ? (
+        <div className="space-y-3">
+          <p className="flex items-center text-sm text-green-700">
+            <ShieldCheck className="mr-2 h-4 w-4" /> On
+          </p>
+          <div className="grid gap-2">
+            <Label htmlFor="two-factor-confirm-code">Code from your authenticator app</Label>
+            <CodeInput id="two-factor-confirm-code" value={code} onChange={setCode} />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              disabled={code.length < 6 || recoveryCodesMutation.isPending}
+              onClick={() => recoveryCodesMutation.mutate()}
+            >
+              {recoveryCodesMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <KeyRound className="mr-2 h-4 w-4" />
+              )}
+              New Recovery Codes
+            </Button>
+            {!user.twoFactorRequired && (
+              <Button
+                variant="outline"
+                className="text-red-600"
+                disabled={code.length < 6 || disableMutation.isPending}
+                onClick={() => disableMutation.mutate()}
+              >
+                {disableMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <ShieldOff className="mr-2 h-4 w-4" />
+                )}
+                Turn Off
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : setup ? (
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            enableMutation.mutate();
+          }}
+        >
+          <p className="text-sm text-gray-600">
+            Scan the QR code with your authenticator app, or enter the key by hand, then enter the code it shows.
+          </p>
+          <img src={setup.qrCode} alt="QR code for your authenticator app" className="h-44 w-44 border rounded-md" />
+          <p className="font-mono text-sm break-all">{setup.secret}</p>
+          <div className="grid gap-2">
+            <Label htmlFor="two-factor-setup-code">Code</Label>
+            <CodeInput id="two-factor-setup-code" value={code} onChange={setCode} />
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={code.length < 6 || enableMutation.isPending}>
+              {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Turn On
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+          {setupMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <ShieldCheck className="mr-2 h-4 w-4" />
+          )}
+          Set Up Two-Factor Authentication
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Vendor, insertVendorSchema } from "@shared/schema";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface VendorFormProps {
+  vendor?: Vendor | null;
+  onSuccess?: () => void;
+}
+
+type VendorFormValues = z.infer<typeof insertVendorSchema>;
+
+export function VendorForm({ vendor, onSuccess }: VendorFormProps) {
+  const { toast } = useToast();
+  const isEditing = !!vendor;
+
+  const form = useForm<VendorFormValues>({
+    resolver: zodResolver(insertVendorSchema),
+    defaultValues: {
+      name: vendor?.name || "",
+      email: vendor?.email || "",
+      phone: vendor?.phone || "",
+      address: vendor?.address || "",
+      taxNumber: vendor?.taxNumber || "",
+      notes: vendor?.notes || "",
+      userId: vendor?.userId || 0, // This will be set by the server
+    },
+  });
+
+  // Create or update vendor mutation
+  const mutation = useMutation({
+    mutationFn: async (values: VendorFormValues) => {
+      if (isEditing && vendor) {
+        const res = await apiRequest("PUT", `/api/vendors/${vendor.id}`, values);
+        return await res.json();
+      }
+
+      try {
+        const res = await apiRequest("POST", "/api/vendors", values);
+        return await res.json();
+      } catch (error) {
+        if (error instanceof Error && error.message.startsWith("409")) {
+          throw new Error(`A vendor with the name "${values.name}" already exists.`);
+        }
+        throw error;
+      }
+    },
+    onSuccess: (data: Vendor) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vendors"] });
+      toast({
+        title: isEditing ? "Vendor updated" : "Vendor created",
+        description: `Vendor ${data.name} has been ${isEditing ? "updated" : "created"} successfully.`,
+      });
+      if (onSuccess) {
+        onSuccess();
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  function onSubmit(data: VendorFormValues) {
+    mutation.mutate(data);
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Vendor Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Enter vendor name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input type="email" placeholder="Enter vendor email" {...field} value={field.value ?? ''} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter phone number" {...field} value={field.value ?? ''} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="address"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Address</FormLabel>
+                <FormControl>
+                  <Input placeholder="Enter address" {...field} value={field.value ?? ''} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="taxNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tax Number</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. VAT or EIN" {...field} value={field.value ?? ''} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Enter any additional notes about this vendor" {...field} value={field.value ?? ''} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={mutation.isPending}>
+            {mutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isEditing ? "Updating..." : "Creating..."}
+              </>
+            ) : (
+              <>{isEditing ? "Update Vendor" : "Create Vendor"}</>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -1,21 +1,28 @@
-import { createContext, ReactNode, useContext } from "react";
+import { createContext, ReactNode, useContext, useState } from "react";
 import {
   useQuery,
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User, InsertUser, LoginCredentials } from "@shared/schema";
+import { insertUserSchema, AuthUser, InsertUser, LoginCredentials, TwoFactorChallenge, TwoFactorCode } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 
+// Registering also creates the user's first organization
+export type RegisterData = InsertUser & { organizationName?: string };
+
 type AuthContextType = {
-  user: User | null;
+  user: AuthUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<User, Error, LoginCredentials>;
+  loginMutation: UseMutationResult<AuthUser | TwoFactorChallenge, Error, LoginCredentials>;
+  // Set once the password was accepted but a code is still needed
+  isTwoFactorPending: boolean;
+  cancelTwoFactor: () => void;
+  twoFactorMutation: UseMutationResult<AuthUser, Error, TwoFactorCode>;
   logoutMutation: UseMutationResult<void, Error, void>;
-  registerMutation: UseMutationResult<User, Error, InsertUser>;
+  registerMutation: UseMutationResult<AuthUser, Error, RegisterData>;
 };
 
 export const AuthContext = createContext<AuthContextType | null>(null);
@@ -23,29 +30,56 @@ export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
+  const [isTwoFactorPending, setIsTwoFactorPending] = useState(false);
 
   const {
     data: user,
     error,
     isLoading,
-  } = useQuery<User | undefined, Error>({
+  } = useQuery<AuthUser | undefined, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
 
+  const signedIn = (user: AuthUser) => {
+    queryClient.setQueryData(["/api/user"], user);
+    setLocation("/");
+    toast({
+      title: "Login successful",
+      description: `Welcome back, ${user.name}!`,
+    });
+  };
+
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginCredentials) => {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: User) => {
-      queryClient.setQueryData(["/api/user"], user);
-      setLocation("/");
+    onSuccess: (result: AuthUser | TwoFactorChallenge) => {
+      if ("codeRequired" in result) {
+        setIsTwoFactorPending(true);
+      } else {
+        signedIn(result);
+      }
+    },
+    onError: (error: Error) => {
       toast({
-        title: "Login successful",
-        description: `Welcome back, ${user.name}!`,
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
       });
     },
+  });
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (code: TwoFactorCode) => {
+      const res = await apiRequest("POST", "/api/login/two-factor", code);
+      return await res.json();
+    },
+    onSuccess: (user: AuthUser) => {
+      setIsTwoFactorPending(false);
+      signedIn(user);
+    },
     onError: (error: Error) => {
       toast({
         title: "Login failed",
@@ -56,11 +90,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const registerMutation = useMutation({
-    mutationFn: async (userData: InsertUser) => {
+    mutationFn: async (userData: RegisterData) => {
       const res = await apiRequest("POST", "/api/register", userData);
       return await res.json();
     },
-    onSuccess: (user: User) => {
+    onSuccess: (user: AuthUser) => {
       queryClient.setQueryData(["/api/user"], user);
       setLocation("/");
       toast({
@@ -105,6 +139,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        isTwoFactorPending,
+        cancelTwoFactor: () => setIsTwoFactorPending(false),
+        twoFactorMutation,
         logoutMutation,
         registerMutation,
       }}
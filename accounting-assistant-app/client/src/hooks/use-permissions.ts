@@ -0,0 +1,14 @@
+import { Permission } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+
+// What the signed-in user's role allows in the organization they are
+// working in. Actions the user can't perform are hidden rather than left
+// to fail on the server.
+export function usePermissions() {
+  const { user } = useAuth();
+  const permissions = user?.permissions ?? [];
+
+  const can = (permission: Permission) => permissions.includes(permission);
+
+  return { permissions, can };
+}
@@ -1,6 +1,7 @@
 import * as currencyFormatter from 'currency-formatter';
 import { Dinero, dinero, toDecimal, add, subtract, multiply } from 'dinero.js';
 import { USD } from '@dinero.js/currencies';
+import { ExchangeRateSummary } from '@shared/schema';
 
 // List of supported currencies
 export const supportedCurrencies = [
@@ -65,53 +66,43 @@ export const multiplyAmount = (amount: number | string, factor: number): string
   return dineroToDecimal(result);
 };
 
-// Hard-coded exchange rates for demo purposes
-// In a real application, these would be fetched from an API
-const exchangeRates: Record<string, number> = {
-  USD: 1.0,
-  EUR: 0.92,
-  GBP: 0.79,
-  CAD: 1.36,
-  AUD: 1.51,
-  JPY: 151.89,
-  CNY: 7.21,
-  INR: 83.56,
-  BRL: 5.10,
-  CHF: 0.91,
-};
-
-// Convert amount from one currency to another
+// Convert an amount from one currency to another at the latest rates
+// loaded on the server (GET /api/exchange-rates). Rates are quoted per one
+// unit of the base currency. Returns null when either currency has no rate.
+// Amounts on documents are converted at their own stored rate instead.
 export const convertCurrency = (
   amount: number | string,
-  fromCurrency = 'USD',
-  toCurrency = 'USD'
-): string => {
+  fromCurrency: string,
+  toCurrency: string,
+  exchangeRates: ExchangeRateSummary
+): string | null => {
   if (fromCurrency === toCurrency) return amount.toString();
   
   const numericAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
+  const rateOf = (currency: string) => {
+    if (currency === exchangeRates.baseCurrency) return 1;
+    const rate = exchangeRates.rates.find(r => r.currency === currency);
+    return rate ? Number(rate.rate) : null;
+  };
   
-  // Convert to USD first (base currency)
-  const amountInUSD = numericAmount / exchangeRates[fromCurrency];
+  const fromRate = rateOf(fromCurrency);
+  const toRate = rateOf(toCurrency);
+  if (fromRate === null || toRate === null) return null;
   
-  // Then convert to target currency
-  const amountInTargetCurrency = amountInUSD * exchangeRates[toCurrency];
-  
-  return amountInTargetCurrency.toFixed(2);
+  // Convert to the base currency first, then to the target currency
+  return ((numericAmount / fromRate) * toRate).toFixed(2);
 };
 
-// Calculate tax based on amount and tax rate
-export const calculateTax = (amount: number | string, taxRate: number): string => {
-  const numericAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
-  const taxAmount = numericAmount * (taxRate / 100);
+// Currencies that documents can be issued in: the supported list plus any
+// other currency rates have been loaded for
+export const getCurrencyOptions = (exchangeRates?: ExchangeRateSummary) => {
+  const options: { code: string; name: string }[] = [...supportedCurrencies];
+  const extraCodes = [exchangeRates?.baseCurrency, ...(exchangeRates?.rates ?? []).map(rate => rate.currency)];
   
-  return taxAmount.toFixed(2);
+  for (const code of extraCodes) {
+    if (code && !options.some(option => option.code === code)) {
+      options.push({ code, name: code });
+    }
+  }
+  return options;
 };
-
-// Calculate total with tax
-export const calculateTotalWithTax = (amount: number | string, taxRate: number): string => {
-  const numericAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
-  const tax = numericAmount * (taxRate / 100);
-  const total = numericAmount + tax;
-  
-  return total.toFixed(2);
-};
\ No newline at end of file
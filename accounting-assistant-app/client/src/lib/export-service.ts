@@ -1,8 +1,8 @@
 import * as XLSX from 'xlsx';
 import { utils, write } from 'xlsx';
 import * as Papa from 'papaparse';
-import { Invoice, Payment, Report } from '@shared/schema';
-import { invoiceToCSV, reportToCSV } from './pdf-service';
+import { Invoice, InvoiceLineItem, Payment, Report, AgingReport, TaxReturnReport, TaxTable } from '@shared/schema';
+import { invoiceToCSV, paymentsToCSV, reportToCSV, agingReportToCSV, taxReturnToCSV } from './pdf-service';
 
 // Export data to Excel
 export const exportToExcel = (data: any[][], filename: string) => {
@@ -33,15 +33,37 @@ export const exportToCSV = (data: any[][], filename: string) => {
 };
 
 // Export invoice to Excel
-export const exportInvoiceToExcel = (invoice: Invoice, payments: Payment[] = []) => {
-  const data = invoiceToCSV(invoice, payments);
-  exportToExcel(data, `invoice_${invoice.id}`);
+export const exportInvoiceToExcel = (
+  invoice: Invoice,
+  lineItems: InvoiceLineItem[] = [],
+  payments: Payment[] = [],
+  taxes?: TaxTable
+) => {
+  const data = invoiceToCSV(invoice, lineItems, payments, taxes);
+  exportToExcel(data, `invoice_${invoice.number ?? invoice.id}`);
 };
 
 // Export invoice to CSV
-export const exportInvoiceToCSV = (invoice: Invoice, payments: Payment[] = []) => {
-  const data = invoiceToCSV(invoice, payments);
-  exportToCSV(data, `invoice_${invoice.id}`);
+export const exportInvoiceToCSV = (
+  invoice: Invoice,
+  lineItems: InvoiceLineItem[] = [],
+  payments: Payment[] = [],
+  taxes?: TaxTable
+) => {
+  const data = invoiceToCSV(invoice, lineItems, payments, taxes);
+  exportToCSV(data, `invoice_${invoice.number ?? invoice.id}`);
+};
+
+// Export payments and refunds to Excel
+export const exportPaymentsToExcel = (payments: Payment[], invoices: Invoice[] = []) => {
+  const data = paymentsToCSV(payments, invoices);
+  exportToExcel(data, 'payments');
+};
+
+// Export payments and refunds to CSV
+export const exportPaymentsToCSV = (payments: Payment[], invoices: Invoice[] = []) => {
+  const data = paymentsToCSV(payments, invoices);
+  exportToCSV(data, 'payments');
 };
 
 // Export report to Excel
@@ -56,6 +78,18 @@ export const exportReportToCSV = (report: Report, reportData: any[] = []) => {
   exportToCSV(data, `report_${report.id}_${report.type}`);
 };
 
+// Export aging report to CSV
+export const exportAgingReportToCSV = (aging: AgingReport, filename = 'ar_aging') => {
+  const data = agingReportToCSV(aging);
+  exportToCSV(data, `${filename}_${aging.asOf}`);
+};
+
+// Export tax return to CSV
+export const exportTaxReturnToCSV = (taxReturn: TaxReturnReport) => {
+  const data = taxReturnToCSV(taxReturn);
+  exportToCSV(data, `tax_return_${taxReturn.periodStart}_${taxReturn.periodEnd}`);
+};
+
 // Generic data import from CSV
 export const importFromCSV = (file: File): Promise<any[]> => {
   return new Promise((resolve, reject) => {
@@ -144,6 +178,9 @@ export const importPayments = async (file: File): Promise<Partial<Payment>[]> =>
       invoiceId: parseInt(item.invoiceId || item.InvoiceId || '0'),
       amount: (parseFloat(item.amount || item.Amount || '0')).toString(),
       date: new Date(item.date || item.Date || new Date()).toISOString(),
+      method: (item.method || item.Method || 'other') as Payment['method'],
+      reference: item.reference || item.Reference || null,
+      notes: item.notes || item.Notes || null,
       receiptGenerated: item.receiptGenerated === 'true' || item.receiptGenerated === true || item.ReceiptGenerated === 'true' || item.ReceiptGenerated === true,
       userId: parseInt(item.userId || item.UserId || '1'),
     }));
@@ -1,7 +1,31 @@
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { toPng } from 'html-to-image';
-import { Invoice, Payment, Report } from '@shared/schema';
+import {
+  Invoice,
+  InvoiceLineItem,
+  Payment,
+  CreditNote,
+  ClientStatement,
+  Estimate,
+  EstimateLineItem,
+  Report,
+  FinancialStatement,
+  AgingReport,
+  AGING_BUCKETS,
+  TaxBreakdownLine,
+  TaxReturnDocument,
+  TaxReturnReport,
+  TaxTable,
+  calculateInvoiceTaxes,
+  calculateLineItemTaxes,
+  describeLineItemTax,
+  getInvoiceDueDate,
+  getInvoiceNumber,
+  getPaymentMethodLabel,
+  getSignedPaymentAmount,
+  getTaxReturnDocumentLabel
+} from '@shared/schema';
 
 // Initialize autoTable plugin
 (jsPDF as any).API.autoTable = autoTable;
@@ -15,6 +39,12 @@ declare module 'jspdf' {
   }
 }
 
+// jsPDF's standard fonts lack most currency symbols, so amounts in
+// currencies other than dollars are written with the currency code
+const formatPdfAmount = (amount: number, currency: string) => {
+  return currency === 'USD' ? `$${amount.toFixed(2)}` : `${currency} ${amount.toFixed(2)}`;
+};
+
 // Helper to convert an HTML element to an image for embedding in PDF
 export const elementToImage = async (element: HTMLElement): Promise<string> => {
   try {
@@ -30,15 +60,113 @@ interface InvoicePdfOptions {
   includeLogo?: boolean;
   includeHeader?: boolean;
   includeFooter?: boolean;
+  taxes?: TaxTable; // Names the tax rate or group of each line
 }
 
+type TaxedDocument = Pick<Invoice, 'amount' | 'taxInclusive' | 'taxBreakdown'>;
+
+// The tax breakdown stored with a document. Documents saved before taxes
+// were broken down get one worked out from their line items.
+const getTaxBreakdown = (
+  document: TaxedDocument,
+  lineItems: (InvoiceLineItem | EstimateLineItem)[],
+  taxes?: TaxTable
+): TaxBreakdownLine[] => {
+  if (document.taxBreakdown.length > 0) {
+    return document.taxBreakdown;
+  }
+  return calculateInvoiceTaxes(lineItems, taxes, document.taxInclusive).taxBreakdown;
+};
+
+// A tax as labelled on documents and reports, e.g. "GST (5%)"
+export const describeTax = (tax: TaxBreakdownLine) => {
+  switch (tax.kind) {
+    case 'exempt':
+      return `${tax.name} (exempt)`;
+    case 'reverse_charge':
+      return `${tax.name} (reverse charge)`;
+    default:
+      return `${tax.name} (${tax.rate}%)`;
+  }
+};
+
+// Line items with their tax, followed by the subtotal, each tax and the
+// total. With tax-inclusive prices the lines are shown as entered and the
+// taxes as what the total includes.
+const addLineItemsTable = (
+  doc: jsPDF,
+  startY: number,
+  document: TaxedDocument,
+  lineItems: (InvoiceLineItem | EstimateLineItem)[],
+  currency: string,
+  taxes?: TaxTable
+) => {
+  const breakdown = getTaxBreakdown(document, lineItems, taxes);
+  const totalTax = breakdown.reduce((sum, tax) => sum + tax.amount, 0);
+  const summaryRow = (label: string, amount: number) => [
+    { content: label, colSpan: 5, styles: { halign: 'right' } },
+    formatPdfAmount(amount, currency)
+  ];
+
+  const foot = document.taxInclusive
+    ? [
+        summaryRow('Total', Number(document.amount)),
+        ...breakdown.map(tax => summaryRow(`Includes ${describeTax(tax)}`, tax.amount))
+      ]
+    : [
+        summaryRow('Subtotal', Number(document.amount) - totalTax),
+        ...breakdown.map(tax => summaryRow(describeTax(tax), tax.amount)),
+        summaryRow('Total', Number(document.amount))
+      ];
+
+  doc.autoTable({
+    startY,
+    head: [['Description', 'Qty', 'Unit Price', 'Discount', 'Tax', 'Amount']],
+    body: lineItems.map(item => {
+      const line = calculateLineItemTaxes(item, taxes, document.taxInclusive);
+      return [
+        item.description,
+        Number(item.quantity),
+        formatPdfAmount(Number(item.unitPrice), currency),
+        `${Number(item.discount).toFixed(2)}%`,
+        describeLineItemTax(item, taxes),
+        formatPdfAmount(document.taxInclusive ? line.total : line.net, currency)
+      ];
+    }),
+    foot,
+    theme: 'grid',
+    styles: { fontSize: 10 },
+    columnStyles: {
+      1: { halign: 'right' },
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' }
+    }
+  });
+
+  let nextY = doc.lastAutoTable.finalY;
+  if (breakdown.some(tax => tax.kind === 'reverse_charge')) {
+    doc.setFontSize(10);
+    doc.text('Reverse charge: the customer is liable for the tax on the reverse-charge items.', 20, nextY + 8);
+    nextY += 8;
+  }
+  return nextY;
+};
+
 // Generate invoice PDF
-export const generateInvoicePdf = (invoice: Invoice, payments: Payment[] = [], options: InvoicePdfOptions = {}) => {
+export const generateInvoicePdf = (
+  invoice: Invoice,
+  lineItems: InvoiceLineItem[] = [],
+  payments: Payment[] = [],
+  options: InvoicePdfOptions = {}
+) => {
   const {
     includePayments = true,
     includeLogo = true,
     includeHeader = true,
-    includeFooter = true
+    includeFooter = true,
+    taxes
   } = options;
 
   const doc = new jsPDF();
@@ -57,32 +185,44 @@ export const generateInvoicePdf = (invoice: Invoice, payments: Payment[] = [], o
 
   // Invoice details
   doc.setFontSize(12);
-  doc.text(`Invoice #: ${invoice.id}`, 20, 50);
+  doc.text(`Invoice Number: ${getInvoiceNumber(invoice)}`, 20, 50);
   doc.text(`Title: ${invoice.title}`, 20, 60);
   doc.text(`Client: ${invoice.clientName}`, 20, 70);
   doc.text(`Date: ${new Date(invoice.date).toLocaleDateString()}`, 20, 80);
+  doc.text(`Due Date: ${new Date(getInvoiceDueDate(invoice)).toLocaleDateString()}`, 110, 80);
   doc.text(`Status: ${invoice.status}`, 20, 90);
-  doc.text(`Amount: $${Number(invoice.amount).toFixed(2)}`, 20, 100);
+  doc.text(`Amount: ${formatPdfAmount(Number(invoice.amount), invoice.currency)}`, 20, 100);
+
+  let nextY = 120;
+
+  // Add line items
+  if (lineItems.length > 0) {
+    nextY = addLineItemsTable(doc, 110, invoice, lineItems, invoice.currency, taxes) + 15;
+  }
 
   // Add payments if requested
   if (includePayments && payments.length > 0) {
-    doc.text('Payment History', 20, 120);
+    doc.text('Payment History', 20, nextY);
     
-    const tableColumn = ["ID", "Date", "Amount", "Receipt"];
+    const tableColumn = ["ID", "Type", "Date", "Method", "Reference", "Amount", "Receipt"];
     const tableRows: any[] = [];
 
+    // Refunds are shown as negative amounts
     payments.forEach(payment => {
       const paymentData = [
         payment.id,
+        payment.type === "refund" ? "Refund" : "Payment",
         new Date(payment.date).toLocaleDateString(),
-        `$${Number(payment.amount).toFixed(2)}`,
+        getPaymentMethodLabel(payment.method),
+        payment.reference ?? "",
+        formatPdfAmount(getSignedPaymentAmount(payment), payment.currency),
         payment.receiptGenerated ? "Yes" : "No"
       ];
       tableRows.push(paymentData);
     });
 
     doc.autoTable({
-      startY: 125,
+      startY: nextY + 5,
       head: [tableColumn],
       body: tableRows,
     });
@@ -144,21 +284,30 @@ export const generateReportPdf = async (
     doc.setFontSize(12);
     doc.text(`Generated on: ${new Date(report.generatedAt).toLocaleDateString()}`, 105, 55, { align: 'center' });
     doc.text(`Report Type: ${report.type.replace('_', ' ').toUpperCase()}`, 105, 65, { align: 'center' });
+    if (report.data) {
+      doc.text(formatStatementPeriod(report.data), 105, 75, { align: 'center' });
+    }
     console.log('Cover page metadata added');
 
     // Add basic financial summary
     doc.addPage();
     doc.setFontSize(16);
-    doc.text('Financial Summary', 20, 20);
+    doc.text(report.data ? formatStatementTitle(report.data) : 'Financial Summary', 20, 20);
     console.log('Summary page added');
 
     // Add a simple table with the data
     try {
       console.log('Attempting to add table...');
-      const tableData = reportData.map(item => [
-        item.name || item.description || 'N/A',
-        `$${Number(item.amount || item.revenue || 0).toFixed(2)}`
-      ]);
+      // Reports with a stored snapshot are rendered from it, section by section
+      const tableData = report.data
+        ? statementToRows(report.data).map(([name, amount]) => [
+            name,
+            amount === '' ? '' : `$${Number(amount).toFixed(2)}`
+          ])
+        : reportData.map(item => [
+            item.name || item.description || 'N/A',
+            `$${Number(item.amount || item.revenue || 0).toFixed(2)}`
+          ]);
 
       doc.autoTable({
         startY: 30,
@@ -200,26 +349,376 @@ export const generateReportPdf = async (
   }
 };
 
+// Generate aging report PDF (summary by counterparty, then the open documents)
+export const generateAgingReportPdf = (aging: AgingReport, title = 'Accounts Receivable Aging') => {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.width;
+  
+  doc.setFontSize(20);
+  doc.setTextColor(0, 0, 128);
+  doc.text('Accounting Assistant', pageWidth / 2, 20, { align: 'center' });
+  doc.setFontSize(14);
+  doc.setTextColor(0, 0, 0);
+  doc.text(title, pageWidth / 2, 30, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(`As of ${new Date(aging.asOf).toLocaleDateString()}`, pageWidth / 2, 37, { align: 'center' });
+  
+  const money = (amount: number) => formatPdfAmount(amount, aging.currency);
+  
+  doc.autoTable({
+    startY: 45,
+    head: [['Name', ...AGING_BUCKETS.map(bucket => bucket.label), 'Total']],
+    body: aging.rows.map(row => [
+      row.partyName,
+      ...AGING_BUCKETS.map(bucket => money(row.buckets[bucket.key])),
+      money(row.total)
+    ]),
+    foot: [['Total', ...AGING_BUCKETS.map(bucket => money(aging.totals[bucket.key])), money(aging.total)]],
+    theme: 'grid',
+    styles: { fontSize: 9, halign: 'right' },
+    columnStyles: { 0: { halign: 'left' } }
+  });
+  
+  if (aging.documents.length > 0) {
+    doc.autoTable({
+      startY: doc.lastAutoTable.finalY + 10,
+      head: [['Document', 'Name', 'Date', 'Due Date', 'Days Past Due', 'Amount', 'Paid', 'Credited', 'Balance']],
+      body: aging.documents.map(document => [
+        document.reference,
+        document.partyName,
+        new Date(document.date).toLocaleDateString(),
+        new Date(document.dueDate).toLocaleDateString(),
+        document.daysPastDue,
+        money(document.amount),
+        money(document.paid),
+        money(document.credited),
+        money(document.balance)
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 9 }
+    });
+  }
+  
+  return doc;
+};
+
+// Convert aging report to CSV
+export const agingReportToCSV = (aging: AgingReport) => {
+  const data: any[][] = [
+    ['As Of', aging.asOf],
+    [],
+    ['Name', ...AGING_BUCKETS.map(bucket => bucket.label), 'Total']
+  ];
+  
+  aging.rows.forEach(row => {
+    data.push([row.partyName, ...AGING_BUCKETS.map(bucket => row.buckets[bucket.key].toFixed(2)), row.total.toFixed(2)]);
+  });
+  data.push(['Total', ...AGING_BUCKETS.map(bucket => aging.totals[bucket.key].toFixed(2)), aging.total.toFixed(2)]);
+  
+  if (aging.documents.length > 0) {
+    data.push([]);
+    data.push(['Document', 'Name', 'Date', 'Due Date', 'Days Past Due', 'Bucket', 'Amount', 'Paid', 'Credited', 'Balance']);
+    aging.documents.forEach(document => {
+      data.push([
+        document.reference,
+        document.partyName,
+        document.date,
+        document.dueDate,
+        document.daysPastDue,
+        AGING_BUCKETS.find(bucket => bucket.key === document.bucket)?.label,
+        document.amount.toFixed(2),
+        document.paid.toFixed(2),
+        document.credited.toFixed(2),
+        document.balance.toFixed(2)
+      ]);
+    });
+  }
+  
+  return data;
+};
+
+const taxReturnPeriod = (taxReturn: TaxReturnReport) => {
+  return `${new Date(taxReturn.periodStart).toLocaleDateString()} - ${new Date(taxReturn.periodEnd).toLocaleDateString()}`;
+};
+
+// Generate tax return PDF: output and input tax by rate, the net amount,
+// then the documents they come from
+export const generateTaxReturnPdf = (taxReturn: TaxReturnReport, filedAt?: Date | string) => {
+  const doc = new jsPDF();
+  const money = (amount: number) => formatPdfAmount(amount, taxReturn.currency);
+  const taxRows = (lines: TaxBreakdownLine[]) => lines.map(tax => [describeTax(tax), money(tax.taxableAmount), money(tax.amount)]);
+  const documentRows = (documents: TaxReturnDocument[]) => documents.map(document => [
+    new Date(document.date).toLocaleDateString(),
+    getTaxReturnDocumentLabel(document.type),
+    document.reference,
+    document.partyName,
+    money(document.taxableAmount),
+    money(document.taxAmount)
+  ]);
+  const amountColumns = { 1: { halign: 'right' }, 2: { halign: 'right' } };
+  
+  doc.setFontSize(20);
+  doc.setTextColor(0, 0, 128);
+  doc.text('Accounting Assistant', 105, 20, { align: 'center' });
+  doc.setFontSize(14);
+  doc.setTextColor(0, 0, 0);
+  doc.text('TAX RETURN', 105, 30, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(`Period: ${taxReturnPeriod(taxReturn)}`, 105, 37, { align: 'center' });
+  if (filedAt) {
+    doc.text(`Filed ${new Date(filedAt).toLocaleDateString()}`, 105, 43, { align: 'center' });
+  }
+  
+  doc.autoTable({
+    startY: 50,
+    head: [['Output Tax', 'Taxable Amount', 'Tax']],
+    body: taxRows(taxReturn.outputTax),
+    foot: [['Total output tax', '', money(taxReturn.totalOutputTax)]],
+    theme: 'grid',
+    styles: { fontSize: 9 },
+    columnStyles: amountColumns
+  });
+  
+  doc.autoTable({
+    startY: doc.lastAutoTable.finalY + 8,
+    head: [['Input Tax', 'Taxable Amount', 'Tax']],
+    body: taxRows(taxReturn.inputTax),
+    foot: [['Total input tax', '', money(taxReturn.totalInputTax)]],
+    theme: 'grid',
+    styles: { fontSize: 9 },
+    columnStyles: amountColumns
+  });
+  
+  doc.setFontSize(12);
+  doc.text(
+    `${taxReturn.netTax < 0 ? 'Net tax refundable' : 'Net tax payable'}: ${money(Math.abs(taxReturn.netTax))}`,
+    20,
+    doc.lastAutoTable.finalY + 12
+  );
+  
+  const documentSections: [string, TaxReturnDocument[]][] = [['Sales', taxReturn.sales], ['Purchases', taxReturn.purchases]];
+  documentSections.forEach(([title, documents]) => {
+    if (documents.length === 0) return;
+    doc.autoTable({
+      startY: doc.lastAutoTable.finalY + 20,
+      head: [['Date', title, 'Reference', 'Name', 'Taxable Amount', 'Tax']],
+      body: documentRows(documents),
+      theme: 'grid',
+      styles: { fontSize: 8 },
+      columnStyles: { 4: { halign: 'right' }, 5: { halign: 'right' } }
+    });
+  });
+  
+  return doc;
+};
+
+// Convert tax return to CSV
+export const taxReturnToCSV = (taxReturn: TaxReturnReport) => {
+  const data: any[][] = [
+    ['Period Start', taxReturn.periodStart],
+    ['Period End', taxReturn.periodEnd],
+    ['Currency', taxReturn.currency],
+    []
+  ];
+  
+  const addTaxes = (title: string, lines: TaxBreakdownLine[], total: number) => {
+    data.push([title, 'Rate', 'Kind', 'Taxable Amount', 'Tax']);
+    lines.forEach(tax => data.push([tax.name, tax.rate, tax.kind, tax.taxableAmount.toFixed(2), tax.amount.toFixed(2)]));
+    data.push(['Total', '', '', '', total.toFixed(2)]);
+    data.push([]);
+  };
+  addTaxes('Output Tax', taxReturn.outputTax, taxReturn.totalOutputTax);
+  addTaxes('Input Tax', taxReturn.inputTax, taxReturn.totalInputTax);
+  data.push(['Net Tax', '', '', '', taxReturn.netTax.toFixed(2)]);
+  
+  data.push([]);
+  data.push(['Date', 'Type', 'Reference', 'Name', 'Taxable Amount', 'Tax']);
+  [...taxReturn.sales, ...taxReturn.purchases].forEach(document => {
+    data.push([
+      document.date,
+      getTaxReturnDocumentLabel(document.type),
+      document.reference,
+      document.partyName,
+      document.taxableAmount.toFixed(2),
+      document.taxAmount.toFixed(2)
+    ]);
+  });
+  
+  return data;
+};
+
+// Generate estimate PDF
+export const generateEstimatePdf = (estimate: Estimate, lineItems: EstimateLineItem[] = [], taxes?: TaxTable) => {
+  const doc = new jsPDF();
+  
+  doc.setFontSize(20);
+  doc.setTextColor(0, 0, 128);
+  doc.text('Accounting Assistant', 105, 20, { align: 'center' });
+  doc.setFontSize(14);
+  doc.setTextColor(0, 0, 0);
+  doc.text('ESTIMATE', 105, 30, { align: 'center' });
+  
+  doc.setFontSize(12);
+  doc.text(`Estimate Number: ${estimate.number}`, 20, 50);
+  doc.text(`Title: ${estimate.title}`, 20, 60);
+  doc.text(`Client: ${estimate.clientName}`, 20, 70);
+  doc.text(`Date: ${new Date(estimate.date).toLocaleDateString()}`, 20, 80);
+  if (estimate.expiryDate) {
+    doc.text(`Valid Until: ${new Date(estimate.expiryDate).toLocaleDateString()}`, 110, 80);
+  }
+  doc.text(`Amount: $${Number(estimate.amount).toFixed(2)}`, 20, 90);
+  
+  if (lineItems.length > 0) {
+    addLineItemsTable(doc, 100, estimate, lineItems, 'USD', taxes);
+  }
+  
+  doc.setFontSize(10);
+  doc.text(
+    'This estimate is not an invoice. Prices are valid until the date shown above.',
+    105,
+    doc.internal.pageSize.height - 20,
+    { align: 'center' }
+  );
+  
+  return doc;
+};
+
+// Generate credit note PDF
+export const generateCreditNotePdf = (creditNote: CreditNote, invoice: Invoice) => {
+  const doc = new jsPDF();
+  
+  doc.setFontSize(20);
+  doc.setTextColor(0, 0, 128);
+  doc.text('Accounting Assistant', 105, 20, { align: 'center' });
+  doc.setFontSize(14);
+  doc.setTextColor(0, 0, 0);
+  doc.text('CREDIT NOTE', 105, 30, { align: 'center' });
+  
+  doc.setFontSize(12);
+  doc.text(`Credit Note Number: ${creditNote.number}`, 20, 50);
+  doc.text(`Client: ${creditNote.clientName}`, 20, 60);
+  doc.text(`Date: ${new Date(creditNote.date).toLocaleDateString()}`, 20, 70);
+  doc.text(`Original Invoice: ${getInvoiceNumber(invoice)} (${new Date(invoice.date).toLocaleDateString()})`, 20, 80);
+  
+  doc.autoTable({
+    startY: 95,
+    head: [['Description', 'Amount']],
+    body: [
+      [`Credit against invoice ${getInvoiceNumber(invoice)}: ${invoice.title}`, formatPdfAmount(Number(creditNote.amount), invoice.currency)],
+    ],
+    foot: [['Total Credit', formatPdfAmount(Number(creditNote.amount), invoice.currency)]],
+    theme: 'grid',
+    styles: { fontSize: 10 },
+    columnStyles: { 1: { halign: 'right' } }
+  });
+  
+  doc.setFontSize(10);
+  doc.text(`Reason: ${creditNote.reason}`, 20, doc.lastAutoTable.finalY + 15, { maxWidth: 170 });
+  
+  return doc;
+};
+
+// Generate client statement PDF
+export const generateClientStatementPdf = (statement: ClientStatement) => {
+  const doc = new jsPDF();
+  const money = (amount: number) => formatPdfAmount(amount, statement.currency);
+  const end = new Date(statement.periodEnd).toLocaleDateString();
+  
+  doc.setFontSize(20);
+  doc.setTextColor(0, 0, 128);
+  doc.text('Accounting Assistant', 105, 20, { align: 'center' });
+  doc.setFontSize(14);
+  doc.setTextColor(0, 0, 0);
+  doc.text('STATEMENT OF ACCOUNT', 105, 30, { align: 'center' });
+  
+  doc.setFontSize(12);
+  doc.text(`Client: ${statement.clientName}`, 20, 45);
+  doc.text(
+    statement.periodStart
+      ? `Period: ${new Date(statement.periodStart).toLocaleDateString()} - ${end}`
+      : `As of ${end}`,
+    20,
+    52
+  );
+  
+  doc.autoTable({
+    startY: 60,
+    head: [['Date', 'Reference', 'Description', 'Charges', 'Credits', 'Balance']],
+    body: [
+      ...(statement.periodStart ? [['', '', 'Opening balance', '', '', money(statement.openingBalance)]] : []),
+      ...statement.entries.map(entry => [
+        new Date(entry.date).toLocaleDateString(),
+        entry.reference,
+        entry.description,
+        entry.debit ? money(entry.debit) : '',
+        entry.credit ? money(entry.credit) : '',
+        money(entry.balance)
+      ]),
+    ],
+    foot: [['', '', 'Balance due', '', '', money(statement.closingBalance)]],
+    theme: 'grid',
+    styles: { fontSize: 9 },
+    columnStyles: {
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+      5: { halign: 'right' }
+    }
+  });
+  
+  return doc;
+};
+
 // Export PDF functions
 export const exportPdf = (doc: jsPDF, filename: string) => {
   doc.save(filename);
 };
 
 // Convert invoice to CSV data
-export const invoiceToCSV = (invoice: Invoice, payments: Payment[] = []) => {
-  const invoiceData = [
-    ['Invoice ID', 'Title', 'Client', 'Amount', 'Date', 'Status'],
-    [invoice.id, invoice.title, invoice.clientName, invoice.amount, new Date(invoice.date).toLocaleDateString(), invoice.status]
+export const invoiceToCSV = (
+  invoice: Invoice,
+  lineItems: InvoiceLineItem[] = [],
+  payments: Payment[] = [],
+  taxes?: TaxTable
+) => {
+  const invoiceData: any[][] = [
+    ['Invoice Number', 'Title', 'Client', 'Amount', 'Currency', 'Date', 'Due Date', 'Status'],
+    [getInvoiceNumber(invoice), invoice.title, invoice.clientName, invoice.amount, invoice.currency, new Date(invoice.date).toLocaleDateString(), new Date(getInvoiceDueDate(invoice)).toLocaleDateString(), invoice.status]
   ];
   
+  if (lineItems.length > 0) {
+    invoiceData.push([]);
+    invoiceData.push(['Description', 'Quantity', 'Unit Price', 'Discount (%)', 'Tax', 'Net', 'Total']);
+    lineItems.forEach(item => {
+      const line = calculateLineItemTaxes(item, taxes, invoice.taxInclusive);
+      invoiceData.push([
+        item.description,
+        item.quantity,
+        item.unitPrice,
+        item.discount,
+        describeLineItemTax(item, taxes),
+        line.net.toFixed(2),
+        line.total.toFixed(2)
+      ]);
+    });
+    
+    invoiceData.push([]);
+    invoiceData.push(['Tax', 'Rate (%)', 'Taxable Amount', 'Tax Amount']);
+    getTaxBreakdown(invoice, lineItems, taxes).forEach(tax => {
+      invoiceData.push([describeTax(tax), tax.rate, tax.taxableAmount.toFixed(2), tax.amount.toFixed(2)]);
+    });
+  }
+  
   if (payments.length > 0) {
     invoiceData.push([]);
-    invoiceData.push(['Payment ID', 'Date', 'Amount', 'Receipt Generated']);
+    invoiceData.push(['Payment ID', 'Type', 'Date', 'Method', 'Reference', 'Amount', 'Receipt Generated']);
     payments.forEach(payment => {
       invoiceData.push([
         payment.id, 
+        payment.type === 'refund' ? 'Refund' : 'Payment',
         new Date(payment.date).toLocaleDateString(), 
-        payment.amount, 
+        getPaymentMethodLabel(payment.method),
+        payment.reference ?? '',
+        getSignedPaymentAmount(payment).toFixed(2), 
         payment.receiptGenerated ? 'Yes' : 'No'
       ]);
     });
@@ -228,14 +727,93 @@ export const invoiceToCSV = (invoice: Invoice, payments: Payment[] = []) => {
   return invoiceData;
 };
 
+// Convert a list of payments and refunds to CSV data. Refunds are
+// negative and name the payment they return money from.
+export const paymentsToCSV = (payments: Payment[], invoices: Invoice[] = []) => {
+  const data: any[][] = [
+    ['Payment ID', 'Type', 'Refund Of', 'Invoice', 'Client', 'Date', 'Method', 'Reference', 'Amount', 'Currency', 'Notes']
+  ];
+  
+  payments.forEach(payment => {
+    const invoice = invoices.find(inv => inv.id === payment.invoiceId);
+    data.push([
+      payment.id,
+      payment.type === 'refund' ? 'Refund' : 'Payment',
+      payment.refundOfId ?? '',
+      invoice ? getInvoiceNumber(invoice) : `#${payment.invoiceId}`,
+      invoice?.clientName ?? '',
+      payment.date,
+      getPaymentMethodLabel(payment.method),
+      payment.reference ?? '',
+      getSignedPaymentAmount(payment).toFixed(2),
+      payment.currency,
+      payment.notes ?? ''
+    ]);
+  });
+  
+  return data;
+};
+
+// Title of a financial statement, e.g. for the PDF summary page
+export const formatStatementTitle = (statement: FinancialStatement) => {
+  return statement.kind === 'balance_sheet' ? 'Balance Sheet' : 'Income Statement';
+};
+
+// Human-readable period of a financial statement
+export const formatStatementPeriod = (statement: FinancialStatement) => {
+  const end = new Date(statement.periodEnd).toLocaleDateString();
+  if (!statement.periodStart) {
+    return `As of ${end}`;
+  }
+  return `${new Date(statement.periodStart).toLocaleDateString()} - ${end}`;
+};
+
+const TOTAL_LABELS: Record<string, string> = {
+  totalAssets: 'Total Assets',
+  totalLiabilities: 'Total Liabilities',
+  totalEquity: 'Total Equity',
+  totalLiabilitiesAndEquity: 'Total Liabilities and Equity',
+  totalRevenue: 'Total Revenue',
+  totalExpenses: 'Total Expenses',
+  totalExchangeGainLoss: 'Total Foreign Exchange Gain/Loss',
+  netIncome: 'Net Income',
+};
+
+// Flatten a financial statement into [label, amount] rows
+export const statementToRows = (statement: FinancialStatement): [string, string][] => {
+  const rows: [string, string][] = [];
+  
+  statement.sections.forEach(section => {
+    rows.push([section.title, '']);
+    section.lines.forEach(line => {
+      rows.push([`  ${line.code ? `${line.code} ` : ''}${line.name}`, line.amount.toFixed(2)]);
+    });
+    rows.push([`Total ${section.title}`, section.total.toFixed(2)]);
+  });
+  
+  // Statement-level totals not already shown as a section total
+  Object.entries(statement.totals)
+    .filter(([key]) => !statement.sections.some(section => TOTAL_LABELS[key] === `Total ${section.title}`))
+    .forEach(([key, amount]) => {
+      rows.push([TOTAL_LABELS[key] || key, amount.toFixed(2)]);
+    });
+  
+  return rows;
+};
+
 // Convert report data to CSV
 export const reportToCSV = (report: Report, reportData: any[] = []) => {
-  const headerData = [
+  const headerData: any[][] = [
     ['Report ID', 'Title', 'Type', 'Generated At'],
     [report.id, report.title, report.type, new Date(report.generatedAt).toLocaleDateString()]
   ];
   
-  if (reportData.length > 0) {
+  if (report.data) {
+    headerData.push(['Period', formatStatementPeriod(report.data)]);
+    headerData.push([]);
+    headerData.push(['Account', 'Amount']);
+    statementToRows(report.data).forEach(row => headerData.push(row));
+  } else if (reportData.length > 0) {
     headerData.push([]);
     const dataHeaders = Object.keys(reportData[0]);
     headerData.push(dataHeaders);
@@ -1,13 +1,16 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Loader2 } from "lucide-react";
 import { Route, Redirect, useLocation } from "wouter";
+import { Permission } from "@shared/schema";
 
 export function ProtectedRoute({
   path,
   component: Component,
+  permission,
 }: {
   path: string;
   component: React.ComponentType;
+  permission?: Permission;
 }) {
   const { user, isLoading } = useAuth();
 
@@ -26,6 +29,17 @@ export function ProtectedRoute({
           return <Redirect to="/auth" />;
         }
 
+        // Members of an organization that requires two-factor authentication
+        // turn it on in their profile before anything else
+        if (user.twoFactorRequired && !user.twoFactorEnabled && path !== "/profile") {
+          return <Redirect to="/profile" />;
+        }
+
+        // Pages the user's role doesn't allow lead back to the dashboard
+        if (permission && !user.permissions.includes(permission)) {
+          return <Redirect to="/" />;
+        }
+
         // Only render the component if user is authenticated
         return <Component {...params} />;
       }}
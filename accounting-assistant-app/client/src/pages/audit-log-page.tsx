@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { AuditChangeList, describeActor } from "@/components/audit/activity-history";
+import {
+  AUDIT_ENTITY_TYPES,
+  AuditLogEntryWithUser,
+  getAuditActionLabel,
+  getAuditEntityTypeLabel,
+} from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+const ALL = "all";
+const SYSTEM = "system";
+
+// Every change made to the organization's records, with who made it, when
+// and from which address. Entries cannot be edited or removed.
+export default function AuditLogPage() {
+  const [entityType, setEntityType] = useState(ALL);
+  const [actor, setActor] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const params = new URLSearchParams();
+  if (entityType !== ALL) params.set("entityType", entityType);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  // New entries are written by every change, so the log is fetched each
+  // time the page is opened
+  const { data: entries = [], isLoading } = useQuery<AuditLogEntryWithUser[]>({
+    queryKey: [`/api/audit-log?${params.toString()}`],
+    staleTime: 0,
+  });
+
+  // Users are offered from the entries shown, including those who have
+  // since left the organization
+  const actors = Array.from(new Map(
+    entries
+      .filter(entry => entry.userId !== null)
+      .map(entry => [entry.userId, describeActor(entry)] as const)
+  ));
+
+  const filteredEntries = entries.filter(entry => {
+    if (actor === ALL) return true;
+    if (actor === SYSTEM) return entry.userId === null;
+    return entry.userId === Number(actor);
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      <Sidebar />
+
+      <main className="flex-1 ml-0 md:ml-64 transition-all duration-200">
+        <div className="px-6 py-8 pt-24 md:pt-20">
+          <div className="flex flex-col xl:flex-row justify-between items-start xl:items-center mb-6 gap-4">
+            <h1 className="text-2xl font-bold text-gray-800">Audit Log</h1>
+            <div className="flex flex-col sm:flex-row flex-wrap gap-3 w-full xl:w-auto">
+              <Select value={entityType} onValueChange={setEntityType}>
+                <SelectTrigger className="w-full sm:w-[180px]">
+                  <SelectValue placeholder="Record type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All records</SelectItem>
+                  {AUDIT_ENTITY_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Select value={actor} onValueChange={setActor}>
+                <SelectTrigger className="w-full sm:w-[180px]">
+                  <SelectValue placeholder="User" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All users</SelectItem>
+                  <SelectItem value={SYSTEM}>System</SelectItem>
+                  {actors.map(([userId, name]) => (
+                    <SelectItem key={userId} value={String(userId)}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-500">From</span>
+                <Input
+                  type="date"
+                  className="w-[160px]"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                />
+                <span className="text-sm text-gray-500">to</span>
+                <Input
+                  type="date"
+                  className="w-[160px]"
+                  value={to}
+                  onChange={(e) => setTo(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {["When", "User", "Action", "Record", "Changes", "IP Address"].map(heading => (
+                      <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {isLoading ? (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-4 text-center">
+                        <div className="flex justify-center">
+                          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                        </div>
+                      </td>
+                    </tr>
+                  ) : filteredEntries.length === 0 ? (
+                    <tr>
+                      <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                        No changes found
+                      </td>
+                    </tr>
+                  ) : (
+                    filteredEntries.map(entry => (
+                      <tr key={entry.id} className="align-top">
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {describeActor(entry)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {getAuditActionLabel(entry.action)}
+                        </td>
+                        <td className="px-6 py-4 text-sm text-gray-900">
+                          <div className="text-xs text-gray-500">{getAuditEntityTypeLabel(entry.entityType)}</div>
+                          {entry.entityLabel}
+                        </td>
+                        <td className="px-6 py-4 text-sm max-w-md">
+                          <AuditChangeList changes={entry.changes} />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {entry.ipAddress ?? ""}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {entries.length >= 500 && (
+            <p className="mt-4 text-sm text-gray-500">
+              Only the latest 500 changes are shown. Narrow the dates or record type to see earlier ones.
+            </p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
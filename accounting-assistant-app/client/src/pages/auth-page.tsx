@@ -5,12 +5,13 @@ import { z } from "zod";
 import { insertUserSchema } from "@shared/schema";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Calculator, Loader2 } from "lucide-react";
 
 // Login form schema
@@ -21,6 +22,7 @@ const loginSchema = z.object({
 
 // Registration form schema
 const registerSchema = insertUserSchema.extend({
+  organizationName: z.string().optional(),
   confirmPassword: z.string().min(6, "Password must be at least 6 characters"),
 }).refine(data => data.password === data.confirmPassword, {
   message: "Passwords do not match",
@@ -30,9 +32,95 @@ const registerSchema = insertUserSchema.extend({
 type LoginFormValues = z.infer<typeof loginSchema>;
 type RegisterFormValues = z.infer<typeof registerSchema>;
 
+// Second sign-in step for users with two-factor authentication: the code
+// their authenticator app shows, or one of their recovery codes
+function TwoFactorLoginStep() {
+  const { twoFactorMutation, cancelTwoFactor } = useAuth();
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const submit = (entered = code) => {
+    twoFactorMutation.mutate(useRecoveryCode ? { recoveryCode } : { code: entered }, {
+      onError: () => setCode(""),
+    });
+  };
+
+  return (
+    <>
+      <CardHeader>
+        <CardTitle className="text-2xl">Two-factor authentication</CardTitle>
+        <CardDescription>
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you turned on two-factor authentication. Each code works once."
+            : "Enter the 6-digit code from your authenticator app."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+        >
+          {useRecoveryCode ? (
+            <Input
+              placeholder="xxxxx-xxxxx"
+              autoComplete="off"
+              value={recoveryCode}
+              onChange={(e) => setRecoveryCode(e.target.value)}
+              autoFocus
+            />
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={6}
+                value={code}
+                onChange={setCode}
+                onComplete={(entered: string) => submit(entered)}
+                disabled={twoFactorMutation.isPending}
+                autoFocus
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={twoFactorMutation.isPending || (useRecoveryCode ? !recoveryCode.trim() : code.length < 6)}
+          >
+            {twoFactorMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Verifying...
+              </>
+            ) : (
+              "Verify"
+            )}
+          </Button>
+          <div className="flex justify-between">
+            <Button type="button" variant="link" className="px-0" onClick={() => setUseRecoveryCode(!useRecoveryCode)}>
+              {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+            </Button>
+            <Button type="button" variant="link" className="px-0" onClick={cancelTwoFactor}>
+              Back to sign in
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </>
+  );
+}
+
 export default function AuthPage() {
   const [activeTab, setActiveTab] = useState<string>("login");
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, registerMutation, isTwoFactorPending } = useAuth();
   const [, setLocation] = useLocation();
 
   // If user is already logged in, redirect to dashboard
@@ -59,6 +147,7 @@ export default function AuthPage() {
       email: "",
       password: "",
       confirmPassword: "",
+      organizationName: "",
       // All new users are accountants by default
       role: "accountant",
     },
@@ -118,78 +207,84 @@ export default function AuthPage() {
 
               {/* Login Tab */}
               <TabsContent value="login">
-                <CardHeader>
-                  <CardTitle className="text-2xl">Sign in to your account</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <Form {...loginForm}>
-                    <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
-                      <FormField
-                        control={loginForm.control}
-                        name="email"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Email Address</FormLabel>
-                            <FormControl>
-                              <Input 
-                                placeholder="you@example.com" 
-                                type="email" 
-                                {...field} 
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <FormField
-                        control={loginForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Password</FormLabel>
-                            <FormControl>
-                              <Input 
-                                placeholder="••••••••" 
-                                type="password" 
-                                {...field} 
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <div className="flex justify-between items-center">
-                        <div className="flex items-center space-x-2">
-                          <input 
-                            type="checkbox" 
-                            id="remember" 
-                            className="h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
+                {isTwoFactorPending ? (
+                  <TwoFactorLoginStep />
+                ) : (
+                  <>
+                    <CardHeader>
+                      <CardTitle className="text-2xl">Sign in to your account</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <Form {...loginForm}>
+                        <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
+                          <FormField
+                            control={loginForm.control}
+                            name="email"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Email Address</FormLabel>
+                                <FormControl>
+                                  <Input 
+                                    placeholder="you@example.com" 
+                                    type="email" 
+                                    {...field} 
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
                           />
-                          <label htmlFor="remember" className="text-sm text-gray-700">
-                            Remember me
-                          </label>
-                        </div>
-                        <a href="#" className="text-sm text-primary hover:underline">
-                          Forgot password?
-                        </a>
-                      </div>
-                      <Button
-                        type="submit"
-                        className="w-full"
-                        disabled={loginMutation.isPending}
-                      >
-                        {loginMutation.isPending ? (
-                          <>
-                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                            Signing in...
-                          </>
-                        ) : (
-                          "Sign In"
-                        )}
-                      </Button>
-                    </form>
-                  </Form>
-                </CardContent>
+                          <FormField
+                            control={loginForm.control}
+                            name="password"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Password</FormLabel>
+                                <FormControl>
+                                  <Input 
+                                    placeholder="••••••••" 
+                                    type="password" 
+                                    {...field} 
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <div className="flex justify-between items-center">
+                            <div className="flex items-center space-x-2">
+                              <input 
+                                type="checkbox" 
+                                id="remember" 
+                                className="h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
+                              />
+                              <label htmlFor="remember" className="text-sm text-gray-700">
+                                Remember me
+                              </label>
+                            </div>
+                            <a href="#" className="text-sm text-primary hover:underline">
+                              Forgot password?
+                            </a>
+                          </div>
+                          <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={loginMutation.isPending}
+                          >
+                            {loginMutation.isPending ? (
+                              <>
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                Signing in...
+                              </>
+                            ) : (
+                              "Sign In"
+                            )}
+                          </Button>
+                        </form>
+                      </Form>
+                    </CardContent>
+                  </>
+                )}
               </TabsContent>
 
               {/* Register Tab */}
@@ -213,6 +308,22 @@ export default function AuthPage() {
                           </FormItem>
                         )}
                       />
+                      <FormField
+                        control={registerForm.control}
+                        name="organizationName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Organization</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Acme Inc." {...field} />
+                            </FormControl>
+                            <FormDescription>
+                              The company whose books you will keep. You can add more later.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                       <FormField
                         control={registerForm.control}
                         name="email"
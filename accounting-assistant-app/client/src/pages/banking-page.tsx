@@ -0,0 +1,523 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { BankAccountForm } from "@/components/banking/bank-account-form";
+import { StatementImport } from "@/components/banking/statement-import";
+import { BankTransactionForm } from "@/components/banking/bank-transaction-form";
+import { TransactionMatch } from "@/components/banking/transaction-match";
+import { ReconciliationPanel } from "@/components/banking/reconciliation-panel";
+import { BankRulesPanel } from "@/components/banking/bank-rules-panel";
+import { TransactionCategoryForm } from "@/components/banking/transaction-category-form";
+import { invalidateBankAccountQueries } from "@/components/banking/bank-queries";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  BankAccount,
+  BankTransactionMatchState,
+  BankTransactionWithMatches,
+  Vendor,
+  getBankTransactionSourceLabel,
+  getExpenseCategoryLabel,
+} from "@shared/schema";
+import { Plus, Edit, Trash2, Upload, Loader2, Link2, Unlink, Lock, Tag } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+export default function BankingPage() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<BankAccount | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isLineFormOpen, setIsLineFormOpen] = useState(false);
+  const [matchingTransaction, setMatchingTransaction] = useState<BankTransactionWithMatches | null>(null);
+  const [categorizingTransaction, setCategorizingTransaction] = useState<BankTransactionWithMatches | null>(null);
+  const [selectedAccountId, setSelectedAccountId] = useState<number | null>(null);
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  const { data: bankAccounts, isLoading: isLoadingAccounts } = useQuery<BankAccount[]>({
+    queryKey: ["/api/bank-accounts"],
+  });
+
+  // Show the first account until another one is picked
+  const selectedAccount = bankAccounts?.find(account => account.id === selectedAccountId) ?? bankAccounts?.[0];
+
+  const { data: transactions, isLoading: isLoadingTransactions } = useQuery<BankTransactionWithMatches[]>({
+    queryKey: [`/api/bank-accounts/${selectedAccount?.id}/transactions`],
+    enabled: !!selectedAccount,
+  });
+
+  const { data: vendors = [] } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (account: BankAccount) => {
+      await apiRequest("DELETE", `/api/bank-accounts/${account.id}`);
+      return account;
+    },
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-rules"] });
+      setSelectedAccountId(null);
+      toast({
+        title: "Bank account deleted",
+        description: `${account.name} and its transactions have been deleted.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unmatchMutation = useMutation({
+    mutationFn: async (transaction: BankTransactionWithMatches) => {
+      await apiRequest("DELETE", `/api/bank-transactions/${transaction.id}/matches`);
+      return transaction;
+    },
+    onSuccess: (transaction) => {
+      invalidateBankAccountQueries(transaction.bankAccountId);
+      queryClient.invalidateQueries({ queryKey: ["/api/payments"] });
+      toast({
+        title: "Match removed",
+        description: `${transaction.description} is no longer matched to any payment.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTransactionMutation = useMutation({
+    mutationFn: async (transaction: BankTransactionWithMatches) => {
+      await apiRequest("DELETE", `/api/bank-transactions/${transaction.id}`);
+      return transaction;
+    },
+    onSuccess: (transaction) => {
+      invalidateBankAccountQueries(transaction.bankAccountId);
+      toast({
+        title: "Statement line deleted",
+        description: `${transaction.description} has been deleted.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatAmount = (amount: string) => {
+    const value = Number(amount);
+    return `${value < 0 ? "-" : ""}${Math.abs(value).toFixed(2)} ${selectedAccount?.currency ?? ""}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      <Sidebar />
+
+      <main className="flex-1 ml-0 md:ml-64 transition-all duration-200">
+        <div className="px-6 py-8 pt-24 md:pt-20">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+            <h1 className="text-2xl font-bold text-gray-800">Banking</h1>
+            <Dialog
+              open={isFormOpen}
+              onOpenChange={(open) => {
+                setIsFormOpen(open);
+                if (!open) setEditingAccount(null);
+              }}
+            >
+              {can("banking:write") && (
+                <DialogTrigger asChild>
+                  <Button className="flex items-center">
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Bank Account
+                  </Button>
+                </DialogTrigger>
+              )}
+              <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{editingAccount ? "Edit Bank Account" : "Add Bank Account"}</DialogTitle>
+                </DialogHeader>
+                <BankAccountForm
+                  key={editingAccount?.id ?? "new"}
+                  bankAccount={editingAccount}
+                  onSuccess={() => {
+                    setIsFormOpen(false);
+                    setEditingAccount(null);
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+
+          {isLoadingAccounts ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : !selectedAccount ? (
+            <div className="bg-white rounded-lg shadow-sm p-8 text-center text-sm text-gray-500">
+              Add a bank account to import its statements
+            </div>
+          ) : (
+            <>
+              <div className="bg-white rounded-lg shadow-sm p-5 mb-6 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <div className="flex items-center gap-4">
+                  <Select
+                    value={selectedAccount.id.toString()}
+                    onValueChange={(value) => setSelectedAccountId(Number(value))}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {bankAccounts?.map(account => (
+                        <SelectItem key={account.id} value={account.id.toString()}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="text-sm text-gray-500">
+                    {[selectedAccount.institution, selectedAccount.accountNumber].filter(Boolean).join(" · ")}
+                  </div>
+                </div>
+
+                {can("banking:write") && (
+                  <div className="flex space-x-2">
+                    <Dialog open={isLineFormOpen} onOpenChange={setIsLineFormOpen}>
+                      <DialogTrigger asChild>
+                        <Button variant="outline" className="flex items-center">
+                          <Plus className="h-4 w-4 mr-2" />
+                          Add Line
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="sm:max-w-[600px]">
+                        <DialogHeader>
+                          <DialogTitle>Add Statement Line to {selectedAccount.name}</DialogTitle>
+                        </DialogHeader>
+                        <BankTransactionForm
+                          key={selectedAccount.id}
+                          bankAccount={selectedAccount}
+                          onSuccess={() => setIsLineFormOpen(false)}
+                        />
+                      </DialogContent>
+                    </Dialog>
+
+                    <Dialog open={isImportOpen} onOpenChange={setIsImportOpen}>
+                      <DialogTrigger asChild>
+                        <Button variant="outline" className="flex items-center">
+                          <Upload className="h-4 w-4 mr-2" />
+                          Import Statement
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent className="sm:max-w-[500px]">
+                        <DialogHeader>
+                          <DialogTitle>Import Statement into {selectedAccount.name}</DialogTitle>
+                        </DialogHeader>
+                        <StatementImport
+                          key={selectedAccount.id}
+                          bankAccount={selectedAccount}
+                          onSuccess={() => setIsImportOpen(false)}
+                        />
+                      </DialogContent>
+                    </Dialog>
+
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Edit"
+                      onClick={() => {
+                        setEditingAccount(selectedAccount);
+                        setIsFormOpen(true);
+                      }}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm" className="text-gray-500 hover:text-red-600">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Bank Account</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete {selectedAccount.name}? Its statement lines and
+                            reconciliations are deleted with it. This action cannot be undone.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction
+                            onClick={() => deleteMutation.mutate(selectedAccount)}
+                            className="bg-red-600 hover:bg-red-700"
+                          >
+                            Delete
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
+              </div>
+
+              <Tabs defaultValue="transactions">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="transactions">Transactions</TabsTrigger>
+                  <TabsTrigger value="reconcile">Reconcile</TabsTrigger>
+                  <TabsTrigger value="rules">Rules</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="transactions">
+                  <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+                    <div className="overflow-x-auto">
+                      <table className="min-w-full">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            {["Date", "Description", "Payee", "Reference", "Amount", "Category", "Source", "Status", ""].map(heading => (
+                              <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                                {heading}
+                              </th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {isLoadingTransactions ? (
+                            <tr>
+                              <td colSpan={9} className="px-6 py-4 text-center">
+                                <div className="flex justify-center">
+                                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                                </div>
+                              </td>
+                            </tr>
+                          ) : !transactions || transactions.length === 0 ? (
+                            <tr>
+                              <td colSpan={9} className="px-6 py-4 text-center text-sm text-gray-500">
+                                No statement lines yet
+                              </td>
+                            </tr>
+                          ) : (
+                            transactions.map(transaction => (
+                              <tr key={transaction.id}>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                  {new Date(transaction.date).toLocaleDateString()}
+                                </td>
+                                <td className="px-6 py-4 text-sm text-gray-900">
+                                  {transaction.description}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                  {transaction.payee || "-"}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                  {transaction.reference || "-"}
+                                </td>
+                                <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium ${Number(transaction.amount) < 0 ? "text-red-600" : "text-green-600"}`}>
+                                  {formatAmount(transaction.amount)}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                                  {transaction.category ? getExpenseCategoryLabel(transaction.category) : "-"}
+                                  {transaction.vendorId && (
+                                    <div className="text-xs text-gray-400">
+                                      {vendors.find(vendor => vendor.id === transaction.vendorId)?.name}
+                                    </div>
+                                  )}
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                  <Badge variant="outline">
+                                    {getBankTransactionSourceLabel(transaction.source)}
+                                  </Badge>
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap">
+                                  <MatchStatusBadge status={transaction.status} />
+                                </td>
+                                <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                                  {can("banking:write") && (
+                                    <div className="flex justify-end space-x-2">
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        title="Categorize"
+                                        onClick={() => setCategorizingTransaction(transaction)}
+                                      >
+                                        <Tag className="h-4 w-4" />
+                                      </Button>
+                                      {transaction.locked ? (
+                                        <span className="inline-flex items-center px-3 text-gray-400" title="In a reconciled period">
+                                          <Lock className="h-4 w-4" />
+                                        </span>
+                                      ) : (
+                                        <>
+                                          {transaction.status !== "matched" && (
+                                            <Button
+                                              variant="ghost"
+                                              size="sm"
+                                              title="Match"
+                                              onClick={() => setMatchingTransaction(transaction)}
+                                            >
+                                              <Link2 className="h-4 w-4" />
+                                            </Button>
+                                          )}
+                                          {transaction.status !== "unmatched" && (
+                                            <Button
+                                              variant="ghost"
+                                              size="sm"
+                                              title="Unmatch"
+                                              disabled={unmatchMutation.isPending}
+                                              onClick={() => unmatchMutation.mutate(transaction)}
+                                            >
+                                              <Unlink className="h-4 w-4" />
+                                            </Button>
+                                          )}
+                                          <AlertDialog>
+                                            <AlertDialogTrigger asChild>
+                                              <Button variant="ghost" size="sm" title="Delete" className="text-gray-500 hover:text-red-600">
+                                                <Trash2 className="h-4 w-4" />
+                                              </Button>
+                                            </AlertDialogTrigger>
+                                            <AlertDialogContent>
+                                              <AlertDialogHeader>
+                                                <AlertDialogTitle>Delete Statement Line</AlertDialogTitle>
+                                                <AlertDialogDescription>
+                                                  Are you sure you want to delete {transaction.description}? Its matches are
+                                                  removed; the matched payments are kept.
+                                                </AlertDialogDescription>
+                                              </AlertDialogHeader>
+                                              <AlertDialogFooter>
+                                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                                <AlertDialogAction
+                                                  onClick={() => deleteTransactionMutation.mutate(transaction)}
+                                                  className="bg-red-600 hover:bg-red-700"
+                                                >
+                                                  Delete
+                                                </AlertDialogAction>
+                                              </AlertDialogFooter>
+                                            </AlertDialogContent>
+                                          </AlertDialog>
+                                        </>
+                                      )}
+                                    </div>
+                                  )}
+                                </td>
+                              </tr>
+                            ))
+                          )}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="reconcile">
+                  <ReconciliationPanel key={selectedAccount.id} bankAccount={selectedAccount} />
+                </TabsContent>
+
+                <TabsContent value="rules">
+                  <BankRulesPanel />
+                </TabsContent>
+              </Tabs>
+
+              <Dialog
+                open={!!matchingTransaction}
+                onOpenChange={(open) => {
+                  if (!open) setMatchingTransaction(null);
+                }}
+              >
+                <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>Match Statement Line</DialogTitle>
+                  </DialogHeader>
+                  {matchingTransaction && (
+                    <TransactionMatch
+                      key={matchingTransaction.id}
+                      transaction={matchingTransaction}
+                      onSuccess={() => setMatchingTransaction(null)}
+                    />
+                  )}
+                </DialogContent>
+              </Dialog>
+
+              <Dialog
+                open={!!categorizingTransaction}
+                onOpenChange={(open) => {
+                  if (!open) setCategorizingTransaction(null);
+                }}
+              >
+                <DialogContent className="sm:max-w-[500px]">
+                  <DialogHeader>
+                    <DialogTitle>Categorize Statement Line</DialogTitle>
+                  </DialogHeader>
+                  {categorizingTransaction && (
+                    <TransactionCategoryForm
+                      key={categorizingTransaction.id}
+                      transaction={categorizingTransaction}
+                      onSuccess={() => setCategorizingTransaction(null)}
+                    />
+                  )}
+                </DialogContent>
+              </Dialog>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+const MATCH_STATUS_STYLES: Record<BankTransactionMatchState["status"], string> = {
+  unmatched: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  partially_matched: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  matched: "bg-green-100 text-green-800 hover:bg-green-100",
+};
+
+const MATCH_STATUS_LABELS: Record<BankTransactionMatchState["status"], string> = {
+  unmatched: "Unmatched",
+  partially_matched: "Partially Matched",
+  matched: "Matched",
+};
+
+function MatchStatusBadge({ status }: { status: BankTransactionMatchState["status"] }) {
+  return (
+    <Badge variant="outline" className={MATCH_STATUS_STYLES[status]}>
+      {MATCH_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { BillForm } from "@/components/bills/bill-form";
+import { BillPayments } from "@/components/bills/bill-payments";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Bill, BillStatus, BillWithAmounts, BILL_STATUSES } from "@shared/schema";
+import { Plus, Edit, Trash2, Banknote, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+export default function BillsPage() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingBill, setEditingBill] = useState<Bill | null>(null);
+  const [payingBillId, setPayingBillId] = useState<number | null>(null);
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  const { data: bills, isLoading } = useQuery<BillWithAmounts[]>({
+    queryKey: ["/api/bills"],
+  });
+
+  // Read from the list so the payments dialog follows each new instalment
+  const payingBill = bills?.find(bill => bill.id === payingBillId);
+  const today = new Date().toISOString().slice(0, 10);
+
+  const deleteMutation = useMutation({
+    mutationFn: async (bill: Bill) => {
+      await apiRequest("DELETE", `/api/bills/${bill.id}`);
+      return bill;
+    },
+    onSuccess: (bill) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/bills"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      toast({
+        title: "Bill deleted",
+        description: `Bill ${bill.number} from ${bill.vendorName} has been deleted successfully.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sortedBills = bills
+    ? [...bills].sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      <Sidebar />
+
+      <main className="flex-1 ml-0 md:ml-64 transition-all duration-200">
+        <div className="px-6 py-8 pt-24 md:pt-20">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+            <h1 className="text-2xl font-bold text-gray-800">Bills</h1>
+            <Dialog
+              open={isFormOpen}
+              onOpenChange={(open) => {
+                setIsFormOpen(open);
+                if (!open) setEditingBill(null);
+              }}
+            >
+              {can("purchases:write") && (
+                <DialogTrigger asChild>
+                  <Button className="flex items-center">
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Bill
+                  </Button>
+                </DialogTrigger>
+              )}
+              <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{editingBill ? "Edit Bill" : "Enter New Bill"}</DialogTitle>
+                </DialogHeader>
+                <BillForm
+                  key={editingBill?.id ?? "new"}
+                  bill={editingBill}
+                  onSuccess={() => {
+                    setIsFormOpen(false);
+                    setEditingBill(null);
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {["Bill #", "Vendor", "Date", "Due Date", "Amount", "Paid", "Due", "Status", "Actions"].map(heading => (
+                      <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {isLoading ? (
+                    <tr>
+                      <td colSpan={9} className="px-6 py-4 text-center">
+                        <div className="flex justify-center">
+                          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                        </div>
+                      </td>
+                    </tr>
+                  ) : sortedBills.length === 0 ? (
+                    <tr>
+                      <td colSpan={9} className="px-6 py-4 text-center text-sm text-gray-500">
+                        No bills yet
+                      </td>
+                    </tr>
+                  ) : (
+                    sortedBills.map((bill) => {
+                      const isOverdue = bill.amountDue > 0 && bill.dueDate < today;
+
+                      return (
+                        <tr key={bill.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            {bill.number}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {bill.vendorName}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {new Date(bill.date).toLocaleDateString()}
+                          </td>
+                          <td className={`px-6 py-4 whitespace-nowrap text-sm ${isOverdue ? "text-red-600" : "text-gray-500"}`}>
+                            {new Date(bill.dueDate).toLocaleDateString()}
+                            {isOverdue && <div className="text-xs">Overdue</div>}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            ${Number(bill.amount).toFixed(2)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            ${bill.amountPaid.toFixed(2)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            ${bill.amountDue.toFixed(2)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <BillStatusBadge status={bill.status} />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            <div className="flex space-x-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Payments"
+                                className="text-primary hover:text-blue-700"
+                                onClick={() => setPayingBillId(bill.id)}
+                              >
+                                <Banknote className="h-4 w-4" />
+                              </Button>
+
+                              {can("purchases:write") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Edit"
+                                  onClick={() => {
+                                    setEditingBill(bill);
+                                    setIsFormOpen(true);
+                                  }}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              )}
+
+                              {can("purchases:write") && bill.amountPaid === 0 && (
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button variant="ghost" size="sm" className="text-gray-500 hover:text-red-600">
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Delete Bill</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Are you sure you want to delete bill {bill.number} from {bill.vendorName}?
+                                        This action cannot be undone.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={() => deleteMutation.mutate(bill)}
+                                        className="bg-red-600 hover:bg-red-700"
+                                      >
+                                        Delete
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <Dialog open={!!payingBill} onOpenChange={(open) => !open && setPayingBillId(null)}>
+            <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Payments for Bill {payingBill?.number}</DialogTitle>
+              </DialogHeader>
+              {payingBill && <BillPayments bill={payingBill} />}
+            </DialogContent>
+          </Dialog>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+const BILL_STATUS_STYLES: Record<BillStatus, string> = {
+  open: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  partially_paid: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  paid: "bg-green-100 text-green-800 hover:bg-green-100",
+};
+
+function BillStatusBadge({ status }: { status: BillStatus }) {
+  return (
+    <Badge variant="outline" className={BILL_STATUS_STYLES[status]}>
+      {BILL_STATUSES.find(option => option.value === status)?.label ?? status}
+    </Badge>
+  );
+}
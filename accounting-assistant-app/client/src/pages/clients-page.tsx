@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Client } from "@shared/schema";
+import { Client, TaxTable, describeLineItemTax } from "@shared/schema";
+import { getClientDefaultTax } from "@/components/invoices/line-items-editor";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -42,18 +43,24 @@ import {
 } from "@/components/ui/pagination";
 import { Input } from "@/components/ui/input";
 import { ClientForm } from "@/components/clients/client-form";
+import { ClientStatementView } from "@/components/clients/client-statement";
+import { ActivityHistory } from "@/components/audit/activity-history";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { PlusCircle, MoreVertical, Loader2, Search, ArrowLeft } from "lucide-react";
 
 export default function ClientsPage() {
   const { toast } = useToast();
+  const { can } = usePermissions();
   const [currentPage, setCurrentPage] = useState(1);
   const [searchQuery, setSearchQuery] = useState("");
   const [clientToEdit, setClientToEdit] = useState<Client | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [clientToDelete, setClientToDelete] = useState<Client | null>(null);
+  const [statementClient, setStatementClient] = useState<Client | null>(null);
+  const [activityClient, setActivityClient] = useState<Client | null>(null);
   const itemsPerPage = 10;
 
   // Fetch clients
@@ -65,6 +72,10 @@ export default function ClientsPage() {
     queryKey: ["/api/clients"],
   });
 
+  const { data: taxes } = useQuery<TaxTable>({
+    queryKey: ["/api/taxes"],
+  });
+
   // Filter clients based on search query
   const filteredClients = clients.filter(
     (client) =>
@@ -129,12 +140,14 @@ export default function ClientsPage() {
           <h1 className="text-3xl font-bold">Clients</h1>
         </div>
         <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => setClientToEdit(null)}>
-              <PlusCircle className="h-4 w-4 mr-2" />
-              Add Client
-            </Button>
-          </DialogTrigger>
+          {can("clients:write") && (
+            <DialogTrigger asChild>
+              <Button onClick={() => setClientToEdit(null)}>
+                <PlusCircle className="h-4 w-4 mr-2" />
+                Add Client
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
@@ -198,7 +211,7 @@ export default function ClientsPage() {
                       <TableHead>Email</TableHead>
                       <TableHead>Phone</TableHead>
                       <TableHead>Location</TableHead>
-                      <TableHead>Tax Rate</TableHead>
+                      <TableHead>Default Tax</TableHead>
                       <TableHead className="w-[80px]">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -215,7 +228,7 @@ export default function ClientsPage() {
                             ? `${client.city}, ${client.country || ""}`
                             : client.country || "—"}
                         </TableCell>
-                        <TableCell>{Number(client.taxRate).toFixed(2)}%</TableCell>
+                        <TableCell>{describeLineItemTax({ ...getClientDefaultTax(client), unitPrice: 0 }, taxes)}</TableCell>
                         <TableCell>
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
@@ -225,18 +238,28 @@ export default function ClientsPage() {
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
                               <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                              <DropdownMenuItem onClick={() => handleEdit(client)}>
-                                Edit
+                              {can("clients:write") && (
+                                <DropdownMenuItem onClick={() => handleEdit(client)}>
+                                  Edit
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuItem onClick={() => setStatementClient(client)}>
+                                Statement
                               </DropdownMenuItem>
-                              <DropdownMenuItem
-                                className="text-red-600"
-                                onClick={() => {
-                                  setClientToDelete(client);
-                                  setIsDeleteDialogOpen(true);
-                                }}
-                              >
-                                Delete
+                              <DropdownMenuItem onClick={() => setActivityClient(client)}>
+                                Activity
                               </DropdownMenuItem>
+                              {can("clients:write") && (
+                                <DropdownMenuItem
+                                  className="text-red-600"
+                                  onClick={() => {
+                                    setClientToDelete(client);
+                                    setIsDeleteDialogOpen(true);
+                                  }}
+                                >
+                                  Delete
+                                </DropdownMenuItem>
+                              )}
                             </DropdownMenuContent>
                           </DropdownMenu>
                         </TableCell>
@@ -280,6 +303,32 @@ export default function ClientsPage() {
         </CardContent>
       </Card>
 
+      {/* Statement Dialog */}
+      <Dialog open={!!statementClient} onOpenChange={(open) => !open && setStatementClient(null)}>
+        <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Statement for {statementClient?.name}</DialogTitle>
+            <DialogDescription>
+              Invoices, payments and credit notes with the running balance owed.
+            </DialogDescription>
+          </DialogHeader>
+          {statementClient && <ClientStatementView client={statementClient} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Activity Dialog */}
+      <Dialog open={!!activityClient} onOpenChange={(open) => !open && setActivityClient(null)}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Activity for {activityClient?.name}</DialogTitle>
+            <DialogDescription>
+              Changes made to the client, with who made them and when.
+            </DialogDescription>
+          </DialogHeader>
+          {activityClient && <ActivityHistory url={`/api/clients/${activityClient.id}/activity`} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
@@ -1,6 +1,7 @@
 import React, { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Sidebar } from "@/components/layout/sidebar";
 import { StatsCard } from "@/components/dashboard/stats-card";
 import { RevenueChart } from "@/components/dashboard/revenue-chart";
@@ -12,6 +13,9 @@ import {
   File, 
   CreditCard, 
   AlertTriangle,
+  Wallet,
+  TrendingUp,
+  Receipt,
   Plus, 
   Search,
   Eye,
@@ -21,6 +25,8 @@ import {
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { Badge } from "@/components/ui/badge";
+import { BillWithAmounts, DEFAULT_BASE_CURRENCY, getInvoiceNumber } from "@shared/schema";
+import { formatCurrency, supportedCurrencies } from "@/lib/currency-service";
 import { 
   Dialog,
   DialogContent,
@@ -33,37 +39,54 @@ import {
 
 export default function DashboardPage() {
   const { user } = useAuth();
+  const { can } = usePermissions();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedInvoice, setSelectedInvoice] = useState<any>(null);
   const [timePeriod, setTimePeriod] = useState("30");
   const [location, setLocation] = useLocation();
 
+  // The figures are a report on the organization's books
   const { data: dashboardData, isLoading } = useQuery({
     queryKey: ["/api/dashboard"],
     staleTime: 1000 * 60, // 1 minute
+    enabled: can("reports:read"),
   });
   
   // Define types for dashboard data
   interface Invoice {
     id: number;
+    number: string | null;
     title: string;
     clientName: string;
     amount: string | number;
+    currency: string;
     date: string;
     status: string;
     userId: number;
   }
   
   interface DashboardData {
+    baseCurrency: string;
     stats: {
       totalRevenue: number;
       pendingInvoices: number;
       totalPayments: number;
       outstandingBalance: number;
+      totalExpenses: number;
+      netProfit: number;
+      billsDueThisWeek: number;
     };
     recentInvoices: Invoice[];
+    billsDueThisWeek: BillWithAmounts[];
   }
   
+  const billsDueThisWeek = (dashboardData as DashboardData)?.billsDueThisWeek ?? [];
+  
+  // Totals are in the base currency
+  const baseCurrency = (dashboardData as DashboardData)?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+  const moneyPrefix = supportedCurrencies.find(currency => currency.code === baseCurrency)?.symbol ?? `${baseCurrency} `;
+  const today = new Date().toISOString().slice(0, 10);
+  
   // Filter invoices based on search term
   const filteredInvoices = dashboardData 
     ? (dashboardData as DashboardData).recentInvoices.filter(invoice => 
@@ -94,20 +117,23 @@ export default function DashboardPage() {
                   onChange={(e) => setSearchTerm(e.target.value)}
                 />
               </div>
-              <Link href="/invoices?new=true">
-                <Button className="flex items-center">
-                  <Plus className="h-4 w-4 mr-2" />
-                  New Invoice
-                </Button>
-              </Link>
+              {can("invoices:write") && (
+                <Link href="/invoices?new=true">
+                  <Button className="flex items-center">
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Invoice
+                  </Button>
+                </Link>
+              )}
             </div>
           </div>
           
           {/* Stats Cards */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
             <StatsCard
               title="Total Revenue"
               value={(dashboardData as DashboardData)?.stats?.totalRevenue ?? 0}
+              valuePrefix={moneyPrefix}
               change={12.5}
               icon={<DollarSign className="h-5 w-5" />}
               color="primary"
@@ -126,6 +152,7 @@ export default function DashboardPage() {
             <StatsCard
               title="Total Payments"
               value={(dashboardData as DashboardData)?.stats?.totalPayments ?? 0}
+              valuePrefix={moneyPrefix}
               change={8.2}
               icon={<CreditCard className="h-5 w-5" />}
               color="accent"
@@ -134,11 +161,28 @@ export default function DashboardPage() {
             <StatsCard
               title="Outstanding Balance"
               value={(dashboardData as DashboardData)?.stats?.outstandingBalance ?? 0}
+              valuePrefix={moneyPrefix}
               change={3.1}
               icon={<AlertTriangle className="h-5 w-5" />}
               color="warning"
               negative
             />
+            
+            <StatsCard
+              title="Total Expenses"
+              value={(dashboardData as DashboardData)?.stats?.totalExpenses ?? 0}
+              valuePrefix={moneyPrefix}
+              icon={<Wallet className="h-5 w-5" />}
+              color="warning"
+            />
+            
+            <StatsCard
+              title="Net Profit"
+              value={(dashboardData as DashboardData)?.stats?.netProfit ?? 0}
+              valuePrefix={moneyPrefix}
+              icon={<TrendingUp className="h-5 w-5" />}
+              color="secondary"
+            />
           </div>
           
           {/* Charts & Recent Activity */}
@@ -269,6 +313,43 @@ export default function DashboardPage() {
             </div>
           </div>
           
+          {/* Bills Due This Week */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+            <StatsCard
+              title="Bills Due This Week"
+              value={(dashboardData as DashboardData)?.stats?.billsDueThisWeek ?? 0}
+              valuePrefix={moneyPrefix}
+              icon={<Receipt className="h-5 w-5" />}
+              color="warning"
+            />
+            
+            <div className="bg-white rounded-lg shadow-sm p-5 lg:col-span-2">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="font-bold text-gray-800">Upcoming Bills</h3>
+                <Link href="/bills">
+                  <Button variant="link" className="text-primary hover:text-blue-700 text-sm font-medium">
+                    View all
+                  </Button>
+                </Link>
+              </div>
+              {billsDueThisWeek.length === 0 ? (
+                <p className="text-sm text-gray-500">No bills are due in the next seven days</p>
+              ) : (
+                <div className="space-y-2">
+                  {billsDueThisWeek.map(bill => (
+                    <ActivityItem
+                      key={bill.id}
+                      type={bill.dueDate < today ? "warning" : "info"}
+                      title={`Bill ${bill.number}${bill.dueDate < today ? " overdue" : ""}`}
+                      description={`${bill.vendorName} - $${bill.amountDue.toFixed(2)} due`}
+                      date={new Date(bill.dueDate).toLocaleDateString()}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          
           {/* Recent Invoices */}
           <div className="bg-white rounded-lg shadow-sm overflow-hidden mb-8">
             <div className="p-5 border-b">
@@ -316,7 +397,7 @@ export default function DashboardPage() {
                     filteredInvoices.map((invoice) => (
                       <tr key={invoice.id}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                          #{invoice.id}
+                          {getInvoiceNumber(invoice)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {invoice.clientName}
@@ -325,7 +406,7 @@ export default function DashboardPage() {
                           {new Date(invoice.date).toLocaleDateString()}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          ${Number(invoice.amount).toFixed(2)}
+                          {formatCurrency(Number(invoice.amount), invoice.currency)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <StatusBadge status={invoice.status} />
@@ -344,7 +425,7 @@ export default function DashboardPage() {
                             </DialogTrigger>
                             <DialogContent className="max-w-md">
                               <DialogHeader>
-                                <DialogTitle>Invoice #{invoice.id}</DialogTitle>
+                                <DialogTitle>Invoice {getInvoiceNumber(invoice)}</DialogTitle>
                                 <DialogDescription>
                                   View invoice details
                                 </DialogDescription>
@@ -358,7 +439,7 @@ export default function DashboardPage() {
                                   <div className="col-span-2">{invoice.clientName}</div>
                                   
                                   <div className="font-medium">Amount</div>
-                                  <div className="col-span-2">${Number(invoice.amount).toFixed(2)}</div>
+                                  <div className="col-span-2">{formatCurrency(Number(invoice.amount), invoice.currency)}</div>
                                   
                                   <div className="font-medium">Date</div>
                                   <div className="col-span-2">{new Date(invoice.date).toLocaleDateString()}</div>
@@ -393,7 +474,7 @@ export default function DashboardPage() {
                                 </DialogDescription>
                               </DialogHeader>
                               <div className="space-y-4 pt-4">
-                                <p>Select format to download Invoice #{invoice.id}</p>
+                                <p>Select format to download Invoice {getInvoiceNumber(invoice)}</p>
                                 <div className="flex justify-between gap-4">
                                   <Button className="flex-1" variant="outline">PDF</Button>
                                   <Button className="flex-1" variant="outline">Excel</Button>
@@ -454,6 +535,18 @@ function StatusBadge({ status }: { status: string }) {
         Pending
       </Badge>
     );
+  } else if (status === "partially_paid") {
+    return (
+      <Badge variant="outline" className="bg-blue-100 text-blue-800 hover:bg-blue-100">
+        Partially Paid
+      </Badge>
+    );
+  } else if (status === "void") {
+    return (
+      <Badge variant="outline" className="bg-gray-100 text-gray-800 hover:bg-gray-100">
+        Void
+      </Badge>
+    );
   } else {
     return (
       <Badge variant="outline" className="bg-red-100 text-red-800 hover:bg-red-100">
@@ -0,0 +1,374 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { EstimateForm } from "@/components/estimates/estimate-form";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { generateEstimatePdf } from "@/lib/pdf-service";
+import { Estimate, EstimateLineItem, EstimateStatus, Invoice, TaxTable, ESTIMATE_STATUSES, getInvoiceNumber } from "@shared/schema";
+import { Plus, Edit, Trash2, Send, Download, FileCheck, MoreVertical, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+export default function EstimatesPage() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingEstimate, setEditingEstimate] = useState<Estimate | null>(null);
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  const { data: estimates, isLoading } = useQuery<Estimate[]>({
+    queryKey: ["/api/estimates"],
+  });
+
+  const { data: invoices = [] } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices"],
+  });
+
+  const { data: taxes } = useQuery<TaxTable>({
+    queryKey: ["/api/taxes"],
+  });
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const sendMutation = useMutation({
+    mutationFn: async (estimate: Estimate) => {
+      const res = await apiRequest("POST", `/api/estimates/${estimate.id}/send`);
+      return await res.json();
+    },
+    onSuccess: (estimate: Estimate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+      toast({
+        title: "Estimate sent",
+        description: `Estimate ${estimate.number} has been emailed to ${estimate.clientName}.`,
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: EstimateStatus }) => {
+      const res = await apiRequest("PUT", `/api/estimates/${id}`, { status });
+      return await res.json();
+    },
+    onSuccess: (estimate: Estimate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+      toast({
+        title: "Estimate updated",
+        description: `Estimate ${estimate.number} is now ${estimate.status}.`,
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const convertMutation = useMutation({
+    mutationFn: async (estimate: Estimate) => {
+      const res = await apiRequest("POST", `/api/estimates/${estimate.id}/convert`);
+      return await res.json();
+    },
+    onSuccess: (invoice: Invoice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      toast({
+        title: "Invoice created",
+        description: `Invoice ${getInvoiceNumber(invoice)} has been created from the estimate.`,
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (estimate: Estimate) => {
+      await apiRequest("DELETE", `/api/estimates/${estimate.id}`);
+      return estimate;
+    },
+    onSuccess: (estimate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+      toast({
+        title: "Estimate deleted",
+        description: `Estimate ${estimate.number} has been deleted successfully.`,
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const handleDownload = async (estimate: Estimate) => {
+    try {
+      const res = await apiRequest("GET", `/api/estimates/${estimate.id}/line-items`);
+      const lineItems: EstimateLineItem[] = await res.json();
+      generateEstimatePdf(estimate, lineItems, taxes).save(`estimate_${estimate.number}.pdf`);
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Failed to download estimate",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const invoiceFor = (estimate: Estimate) => invoices.find(invoice => invoice.id === estimate.invoiceId);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      <Sidebar />
+
+      <main className="flex-1 ml-0 md:ml-64 transition-all duration-200">
+        <div className="px-6 py-8 pt-24 md:pt-20">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+            <h1 className="text-2xl font-bold text-gray-800">Estimates</h1>
+            <Dialog
+              open={isFormOpen}
+              onOpenChange={(open) => {
+                setIsFormOpen(open);
+                if (!open) setEditingEstimate(null);
+              }}
+            >
+              {can("invoices:write") && (
+                <DialogTrigger asChild>
+                  <Button className="flex items-center">
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Estimate
+                  </Button>
+                </DialogTrigger>
+              )}
+              <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{editingEstimate ? "Edit Estimate" : "Create New Estimate"}</DialogTitle>
+                </DialogHeader>
+                <EstimateForm
+                  estimate={editingEstimate}
+                  onSuccess={() => {
+                    setIsFormOpen(false);
+                    setEditingEstimate(null);
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {["Number", "Title", "Client", "Date", "Valid Until", "Amount", "Status", "Invoice", "Actions"].map(heading => (
+                      <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {isLoading ? (
+                    <tr>
+                      <td colSpan={9} className="px-6 py-4 text-center">
+                        <div className="flex justify-center">
+                          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                        </div>
+                      </td>
+                    </tr>
+                  ) : !estimates || estimates.length === 0 ? (
+                    <tr>
+                      <td colSpan={9} className="px-6 py-4 text-center text-sm text-gray-500">
+                        No estimates yet
+                      </td>
+                    </tr>
+                  ) : (
+                    estimates.map((estimate) => {
+                      const invoice = invoiceFor(estimate);
+                      const isConverted = !!estimate.invoiceId;
+
+                      return (
+                        <tr key={estimate.id}>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                            {estimate.number}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {estimate.title}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {estimate.clientName}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {new Date(estimate.date).toLocaleDateString()}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {estimate.expiryDate ? new Date(estimate.expiryDate).toLocaleDateString() : "-"}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            ${Number(estimate.amount).toFixed(2)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <EstimateStatusBadge status={estimate.status} />
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-primary">
+                            {invoice ? (
+                              <Link href="/invoices">{getInvoiceNumber(invoice)}</Link>
+                            ) : (
+                              <span className="text-gray-500">-</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            <div className="flex space-x-1">
+                              {!isConverted && can("invoices:write") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Edit"
+                                  onClick={() => {
+                                    setEditingEstimate(estimate);
+                                    setIsFormOpen(true);
+                                  }}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              )}
+
+                              {can("invoices:write") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Email to client"
+                                  disabled={sendMutation.isPending}
+                                  onClick={() => sendMutation.mutate(estimate)}
+                                >
+                                  <Send className="h-4 w-4" />
+                                </Button>
+                              )}
+
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Download PDF"
+                                onClick={() => handleDownload(estimate)}
+                              >
+                                <Download className="h-4 w-4" />
+                              </Button>
+
+                              {!isConverted && estimate.status !== "declined" && can("invoices:write") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Convert to invoice"
+                                  className="text-primary hover:text-blue-700"
+                                  disabled={convertMutation.isPending}
+                                  onClick={() => convertMutation.mutate(estimate)}
+                                >
+                                  <FileCheck className="h-4 w-4" />
+                                </Button>
+                              )}
+
+                              {!isConverted && can("invoices:write") && (
+                                <>
+                                  <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                      <Button variant="ghost" size="sm" title="Change status">
+                                        <MoreVertical className="h-4 w-4" />
+                                      </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent align="end">
+                                      <DropdownMenuLabel>Mark as</DropdownMenuLabel>
+                                      {ESTIMATE_STATUSES
+                                        .filter(option => option.value !== estimate.status)
+                                        .map(option => (
+                                          <DropdownMenuItem
+                                            key={option.value}
+                                            onClick={() => statusMutation.mutate({ id: estimate.id, status: option.value })}
+                                          >
+                                            {option.label}
+                                          </DropdownMenuItem>
+                                        ))}
+                                    </DropdownMenuContent>
+                                  </DropdownMenu>
+
+                                  <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                      <Button variant="ghost" size="sm" className="text-gray-500 hover:text-red-600">
+                                        <Trash2 className="h-4 w-4" />
+                                      </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                      <AlertDialogHeader>
+                                        <AlertDialogTitle>Delete Estimate</AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                          Are you sure you want to delete estimate {estimate.number} for {estimate.clientName}?
+                                          This action cannot be undone.
+                                        </AlertDialogDescription>
+                                      </AlertDialogHeader>
+                                      <AlertDialogFooter>
+                                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                        <AlertDialogAction
+                                          onClick={() => deleteMutation.mutate(estimate)}
+                                          className="bg-red-600 hover:bg-red-700"
+                                        >
+                                          Delete
+                                        </AlertDialogAction>
+                                      </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                  </AlertDialog>
+                                </>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+const ESTIMATE_STATUS_STYLES: Record<EstimateStatus, string> = {
+  draft: "bg-gray-100 text-gray-800 hover:bg-gray-100",
+  sent: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  accepted: "bg-green-100 text-green-800 hover:bg-green-100",
+  declined: "bg-red-100 text-red-800 hover:bg-red-100",
+  expired: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+};
+
+function EstimateStatusBadge({ status }: { status: EstimateStatus }) {
+  return (
+    <Badge variant="outline" className={ESTIMATE_STATUS_STYLES[status]}>
+      {ESTIMATE_STATUSES.find(option => option.value === status)?.label ?? status}
+    </Badge>
+  );
+}
@@ -0,0 +1,608 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ExpenseForm } from "@/components/expenses/expense-form";
+import { VendorForm } from "@/components/vendors/vendor-form";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Expense,
+  ExpenseCategory,
+  Vendor,
+  EXPENSE_CATEGORIES,
+  getExpenseCategoryLabel,
+  getExpenseTotal,
+  getPaymentMethodLabel,
+} from "@shared/schema";
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Loader2,
+  Paperclip,
+  X
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+export default function ExpensesPage() {
+  const [activeTab, setActiveTab] = useState("expenses");
+  const [isExpenseDialogOpen, setIsExpenseDialogOpen] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [isVendorDialogOpen, setIsVendorDialogOpen] = useState(false);
+  const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState<ExpenseCategory | "all">("all");
+  const [sortField, setSortField] = useState<string>("date");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  const { data: expenses, isLoading } = useQuery<Expense[]>({
+    queryKey: ["/api/expenses"],
+  });
+
+  const { data: vendors, isLoading: isLoadingVendors } = useQuery<Vendor[]>({
+    queryKey: ["/api/vendors"],
+  });
+
+  const deleteExpenseMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/expenses/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({queryKey: ["/api/expenses"]});
+      queryClient.invalidateQueries({queryKey: ["/api/dashboard"]});
+      toast({
+        title: "Expense deleted",
+        description: `Expense #${id} has been deleted successfully.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete expense: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeReceiptMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/expenses/${id}/receipt`);
+      return await res.json();
+    },
+    onSuccess: (expense: Expense) => {
+      queryClient.invalidateQueries({queryKey: ["/api/expenses"]});
+      toast({
+        title: "Receipt removed",
+        description: `The receipt for expense #${expense.id} has been removed.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to remove receipt: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteVendorMutation = useMutation({
+    mutationFn: async (vendor: Vendor) => {
+      await apiRequest("DELETE", `/api/vendors/${vendor.id}`);
+      return vendor;
+    },
+    onSuccess: (vendor) => {
+      queryClient.invalidateQueries({queryKey: ["/api/vendors"]});
+      toast({
+        title: "Vendor deleted",
+        description: `Vendor ${vendor.name} has been deleted successfully.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete vendor: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSort = (field: string) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+    } else {
+      setSortField(field);
+      setSortDirection("asc");
+    }
+  };
+
+  const searchLower = searchTerm.toLowerCase();
+
+  const filteredExpenses = expenses
+    ? expenses
+        .filter((expense) => {
+          if (categoryFilter !== "all" && expense.category !== categoryFilter) {
+            return false;
+          }
+
+          if (searchTerm) {
+            return (
+              expense.vendorName.toLowerCase().includes(searchLower) ||
+              expense.description.toLowerCase().includes(searchLower) ||
+              (expense.reference && expense.reference.toLowerCase().includes(searchLower))
+            );
+          }
+
+          return true;
+        })
+        .sort((a, b) => {
+          if (sortField === "date") {
+            const dateA = new Date(a.date).getTime();
+            const dateB = new Date(b.date).getTime();
+            return sortDirection === "asc" ? dateA - dateB : dateB - dateA;
+          } else if (sortField === "total") {
+            const totalA = getExpenseTotal(a);
+            const totalB = getExpenseTotal(b);
+            return sortDirection === "asc" ? totalA - totalB : totalB - totalA;
+          } else {
+            return 0;
+          }
+        })
+    : [];
+
+  const filteredVendors = vendors
+    ? vendors.filter(vendor => !searchTerm || vendor.name.toLowerCase().includes(searchLower))
+    : [];
+
+  const filteredTotal = filteredExpenses.reduce((sum, expense) => sum + getExpenseTotal(expense), 0);
+
+  const getVendorSpend = (vendorId: number) => {
+    return (expenses ?? [])
+      .filter(expense => expense.vendorId === vendorId)
+      .reduce((sum, expense) => sum + getExpenseTotal(expense), 0);
+  };
+
+  const handleEditExpense = (expense: Expense) => {
+    setEditingExpense(expense);
+    setIsExpenseDialogOpen(true);
+  };
+
+  const handleEditVendor = (vendor: Vendor) => {
+    setEditingVendor(vendor);
+    setIsVendorDialogOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      <Sidebar />
+
+      <main className="flex-1 ml-0 md:ml-64 transition-all duration-200">
+        <div className="px-6 py-8 pt-24 md:pt-20">
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+              <div className="flex items-center gap-4">
+                <h1 className="text-2xl font-bold text-gray-800">Expenses</h1>
+                <TabsList>
+                  <TabsTrigger value="expenses">Expenses</TabsTrigger>
+                  <TabsTrigger value="vendors">Vendors</TabsTrigger>
+                </TabsList>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3 w-full sm:w-auto">
+                <div className="relative flex-1 sm:flex-auto">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <Search className="text-gray-400 h-4 w-4" />
+                  </div>
+                  <Input
+                    type="text"
+                    placeholder={activeTab === "expenses" ? "Search expenses..." : "Search vendors..."}
+                    className="pl-10 pr-4 py-2 w-full"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                  />
+                </div>
+
+                {activeTab === "expenses" ? (
+                  <>
+                    <Select value={categoryFilter} onValueChange={(value) => setCategoryFilter(value as ExpenseCategory | "all")}>
+                      <SelectTrigger className="w-full sm:w-[180px]">
+                        <SelectValue placeholder="Category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All categories</SelectItem>
+                        {EXPENSE_CATEGORIES.map(category => (
+                          <SelectItem key={category.value} value={category.value}>
+                            {category.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {can("purchases:write") && (
+                      <Button className="flex items-center" onClick={() => setIsExpenseDialogOpen(true)}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        New Expense
+                      </Button>
+                    )}
+                  </>
+                ) : can("purchases:write") && (
+                  <Button className="flex items-center" onClick={() => setIsVendorDialogOpen(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Vendor
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <TabsContent value="expenses">
+              <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="min-w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th
+                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
+                          onClick={() => handleSort("date")}
+                        >
+                          <div className="flex items-center">
+                            Date
+                            {sortField === "date" && (
+                              sortDirection === "asc" ? <ArrowUp className="h-4 w-4 ml-1" /> : <ArrowDown className="h-4 w-4 ml-1" />
+                            )}
+                          </div>
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Vendor
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Category
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Description
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Amount
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Tax
+                        </th>
+                        <th
+                          className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
+                          onClick={() => handleSort("total")}
+                        >
+                          <div className="flex items-center">
+                            Total
+                            {sortField === "total" && (
+                              sortDirection === "asc" ? <ArrowUp className="h-4 w-4 ml-1" /> : <ArrowDown className="h-4 w-4 ml-1" />
+                            )}
+                          </div>
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Receipt
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {isLoading ? (
+                        <tr>
+                          <td colSpan={9} className="px-6 py-4 text-center">
+                            <div className="flex justify-center">
+                              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                            </div>
+                          </td>
+                        </tr>
+                      ) : filteredExpenses.length === 0 ? (
+                        <tr>
+                          <td colSpan={9} className="px-6 py-4 text-center text-sm text-gray-500">
+                            No expenses found
+                          </td>
+                        </tr>
+                      ) : (
+                        filteredExpenses.map((expense) => (
+                          <tr key={expense.id}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {new Date(expense.date).toLocaleDateString()}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              {expense.vendorName}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {getExpenseCategoryLabel(expense.category)}
+                            </td>
+                            <td className="px-6 py-4 text-sm text-gray-500">
+                              {expense.description}
+                              <div className="text-xs">
+                                {getPaymentMethodLabel(expense.paymentMethod)}
+                                {expense.reference && ` - ${expense.reference}`}
+                              </div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              ${Number(expense.amount).toFixed(2)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              ${Number(expense.taxAmount).toFixed(2)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              ${getExpenseTotal(expense).toFixed(2)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {expense.receiptFileName ? (
+                                <div className="flex items-center gap-1">
+                                  <a
+                                    href={`/api/expenses/${expense.id}/receipt`}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                    className="text-primary hover:underline flex items-center"
+                                  >
+                                    <Paperclip className="h-4 w-4 mr-1" />
+                                    {expense.receiptFileName}
+                                  </a>
+                                  {can("purchases:write") && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      title="Remove receipt"
+                                      className="text-gray-500 hover:text-red-600"
+                                      onClick={() => removeReceiptMutation.mutate(expense.id)}
+                                      disabled={removeReceiptMutation.isPending}
+                                    >
+                                      <X className="h-4 w-4" />
+                                    </Button>
+                                  )}
+                                </div>
+                              ) : (
+                                <span className="text-gray-400">None</span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {can("purchases:write") && (
+                                <div className="flex space-x-1">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="text-gray-500 hover:text-gray-700"
+                                    onClick={() => handleEditExpense(expense)}
+                                  >
+                                    <Edit className="h-4 w-4" />
+                                  </Button>
+
+                                  <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                      <Button variant="ghost" size="sm" className="text-gray-500 hover:text-red-600">
+                                        <Trash2 className="h-4 w-4" />
+                                      </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                      <AlertDialogHeader>
+                                        <AlertDialogTitle>Delete Expense</AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                          Are you sure you want to delete this ${getExpenseTotal(expense).toFixed(2)} expense paid to {expense.vendorName}?
+                                          Its receipt is deleted too. This action cannot be undone.
+                                        </AlertDialogDescription>
+                                      </AlertDialogHeader>
+                                      <AlertDialogFooter>
+                                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                        <AlertDialogAction
+                                          onClick={() => deleteExpenseMutation.mutate(expense.id)}
+                                          className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+                                        >
+                                          Delete
+                                        </AlertDialogAction>
+                                      </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                  </AlertDialog>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                    {filteredExpenses.length > 0 && (
+                      <tfoot className="bg-gray-50">
+                        <tr>
+                          <td colSpan={6} className="px-6 py-3 text-sm font-medium text-gray-700">
+                            Total
+                          </td>
+                          <td colSpan={3} className="px-6 py-3 text-sm font-medium text-gray-900">
+                            ${filteredTotal.toFixed(2)}
+                          </td>
+                        </tr>
+                      </tfoot>
+                    )}
+                  </table>
+                </div>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="vendors">
+              <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="min-w-full">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Name
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Contact
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Tax Number
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Total Spent
+                        </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Actions
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {isLoadingVendors ? (
+                        <tr>
+                          <td colSpan={5} className="px-6 py-4 text-center">
+                            <div className="flex justify-center">
+                              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                            </div>
+                          </td>
+                        </tr>
+                      ) : filteredVendors.length === 0 ? (
+                        <tr>
+                          <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                            No vendors found
+                          </td>
+                        </tr>
+                      ) : (
+                        filteredVendors.map((vendor) => (
+                          <tr key={vendor.id}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              {vendor.name}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {vendor.email}
+                              {vendor.phone && <div className="text-xs">{vendor.phone}</div>}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {vendor.taxNumber}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                              ${getVendorSpend(vendor.id).toFixed(2)}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                              {can("purchases:write") && (
+                                <div className="flex space-x-1">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="text-gray-500 hover:text-gray-700"
+                                    onClick={() => handleEditVendor(vendor)}
+                                  >
+                                    <Edit className="h-4 w-4" />
+                                  </Button>
+
+                                  <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                      <Button variant="ghost" size="sm" className="text-gray-500 hover:text-red-600">
+                                        <Trash2 className="h-4 w-4" />
+                                      </Button>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                      <AlertDialogHeader>
+                                        <AlertDialogTitle>Delete Vendor</AlertDialogTitle>
+                                        <AlertDialogDescription>
+                                          Are you sure you want to delete {vendor.name}?
+                                          Vendors with recorded expenses cannot be deleted.
+                                        </AlertDialogDescription>
+                                      </AlertDialogHeader>
+                                      <AlertDialogFooter>
+                                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                        <AlertDialogAction
+                                          onClick={() => deleteVendorMutation.mutate(vendor)}
+                                          className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+                                        >
+                                          Delete
+                                        </AlertDialogAction>
+                                      </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                  </AlertDialog>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </TabsContent>
+          </Tabs>
+
+          <Dialog
+            open={isExpenseDialogOpen}
+            onOpenChange={(open) => {
+              setIsExpenseDialogOpen(open);
+              if (!open) setEditingExpense(null);
+            }}
+          >
+            <DialogContent className="sm:max-w-[600px]">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingExpense ? `Edit Expense #${editingExpense.id}` : "Record New Expense"}
+                </DialogTitle>
+              </DialogHeader>
+              <ExpenseForm
+                key={editingExpense?.id ?? "new"}
+                expense={editingExpense}
+                onSuccess={() => {
+                  setIsExpenseDialogOpen(false);
+                  setEditingExpense(null);
+                }}
+              />
+            </DialogContent>
+          </Dialog>
+
+          <Dialog
+            open={isVendorDialogOpen}
+            onOpenChange={(open) => {
+              setIsVendorDialogOpen(open);
+              if (!open) setEditingVendor(null);
+            }}
+          >
+            <DialogContent className="sm:max-w-[600px]">
+              <DialogHeader>
+                <DialogTitle>
+                  {editingVendor ? "Edit Vendor" : "Add New Vendor"}
+                </DialogTitle>
+              </DialogHeader>
+              <VendorForm
+                key={editingVendor?.id ?? "new"}
+                vendor={editingVendor}
+                onSuccess={() => {
+                  setIsVendorDialogOpen(false);
+                  setEditingVendor(null);
+                }}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </main>
+    </div>
+  );
+}
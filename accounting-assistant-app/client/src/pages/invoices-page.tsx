@@ -5,15 +5,24 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { InvoiceForm } from "@/components/invoices/invoice-form";
+import { InvoiceReminders } from "@/components/invoices/invoice-reminders";
+import { InvoiceCreditNotes } from "@/components/invoices/invoice-credit-notes";
+import { ActivityHistory } from "@/components/audit/activity-history";
+import { CreditNoteForm } from "@/components/invoices/credit-note-form";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Invoice } from "@shared/schema";
+import { Invoice, InvoiceLineItem, InvoiceWithAmounts, Payment, TaxTable, getInvoiceDueDate, getInvoiceNumber } from "@shared/schema";
+import { generateInvoicePdf } from "@/lib/pdf-service";
+import { formatCurrency } from "@/lib/currency-service";
+import { exportInvoiceToExcel, exportInvoiceToCSV } from "@/lib/export-service";
 import {
   Plus,
   Search,
   Eye,
   Edit,
-  Trash2,
+  Ban,
+  FileMinus,
   Download,
   Filter,
   ArrowUp,
@@ -31,6 +40,8 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { 
@@ -45,37 +56,65 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
+type DueFilter = "past_due" | "next_7_days" | "next_30_days";
+
+const DUE_FILTER_LABELS: Record<DueFilter, string> = {
+  past_due: "Past due",
+  next_7_days: "Due in the next 7 days",
+  next_30_days: "Due in the next 30 days",
+};
+
+// Whether an unpaid invoice's due date falls in the given window
+const matchesDueFilter = (invoice: Invoice, filter: DueFilter, today: string) => {
+  if (invoice.status === "paid" || invoice.status === "void") return false;
+  
+  const dueDate = getInvoiceDueDate(invoice);
+  if (filter === "past_due") return dueDate < today;
+  
+  const days = filter === "next_7_days" ? 7 : 30;
+  const until = new Date(today);
+  until.setUTCDate(until.getUTCDate() + days);
+  return dueDate >= today && dueDate <= until.toISOString().slice(0, 10);
+};
+
 export default function InvoicesPage() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
+  const [creditingInvoice, setCreditingInvoice] = useState<InvoiceWithAmounts | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const [dueFilter, setDueFilter] = useState<DueFilter | null>(null);
   const [sortField, setSortField] = useState<string>("date");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
   
   const { toast } = useToast();
+  const { can } = usePermissions();
 
-  const { data: invoices, isLoading } = useQuery<Invoice[]>({
+  const { data: invoices, isLoading } = useQuery<InvoiceWithAmounts[]>({
     queryKey: ["/api/invoices"],
   });
 
-  const deleteInvoiceMutation = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/invoices/${id}`);
-      return id;
+  const { data: taxes } = useQuery<TaxTable>({
+    queryKey: ["/api/taxes"],
+  });
+
+  const voidInvoiceMutation = useMutation({
+    mutationFn: async (invoice: Invoice) => {
+      const res = await apiRequest("POST", `/api/invoices/${invoice.id}/void`);
+      return await res.json();
     },
-    onSuccess: (id) => {
+    onSuccess: (invoice: Invoice) => {
       queryClient.invalidateQueries({queryKey: ["/api/invoices"]});
       queryClient.invalidateQueries({queryKey: ["/api/dashboard"]});
       toast({
-        title: "Invoice deleted",
-        description: `Invoice #${id} has been deleted successfully.`,
+        title: "Invoice voided",
+        description: `Invoice ${getInvoiceNumber(invoice)} has been voided and no longer counts towards the client's balance.`,
       });
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: `Failed to delete invoice: ${error.message}`,
+        description: `Failed to void invoice: ${error.message}`,
         variant: "destructive",
       });
     },
@@ -90,6 +129,8 @@ export default function InvoicesPage() {
     }
   };
 
+  const today = new Date().toISOString().slice(0, 10);
+  
   const filteredInvoices = invoices
     ? invoices
         .filter((invoice) => {
@@ -98,13 +139,18 @@ export default function InvoicesPage() {
             return false;
           }
           
+          // Apply due date filter
+          if (dueFilter && !matchesDueFilter(invoice, dueFilter, today)) {
+            return false;
+          }
+          
           // Apply search term
           if (searchTerm) {
             const searchLower = searchTerm.toLowerCase();
             return (
               invoice.title.toLowerCase().includes(searchLower) ||
               invoice.clientName.toLowerCase().includes(searchLower) ||
-              invoice.id.toString().includes(searchLower)
+              getInvoiceNumber(invoice).toLowerCase().includes(searchLower)
             );
           }
           
@@ -116,6 +162,10 @@ export default function InvoicesPage() {
             const dateA = new Date(a.date).getTime();
             const dateB = new Date(b.date).getTime();
             return sortDirection === "asc" ? dateA - dateB : dateB - dateA;
+          } else if (sortField === "dueDate") {
+            const dueA = new Date(getInvoiceDueDate(a)).getTime();
+            const dueB = new Date(getInvoiceDueDate(b)).getTime();
+            return sortDirection === "asc" ? dueA - dueB : dueB - dueA;
           } else if (sortField === "amount") {
             const amountA = Number(a.amount);
             const amountB = Number(b.amount);
@@ -130,6 +180,35 @@ export default function InvoicesPage() {
         })
     : [];
 
+  const handleDownload = async (invoice: Invoice, format: 'pdf' | 'excel' | 'csv') => {
+    try {
+      const [lineItemsRes, paymentsRes] = await Promise.all([
+        apiRequest("GET", `/api/invoices/${invoice.id}/line-items`),
+        apiRequest("GET", `/api/payments/invoice/${invoice.id}`),
+      ]);
+      const lineItems: InvoiceLineItem[] = await lineItemsRes.json();
+      const payments: Payment[] = await paymentsRes.json();
+
+      switch (format) {
+        case 'pdf':
+          generateInvoicePdf(invoice, lineItems, payments, { taxes }).save(`invoice_${invoice.number ?? invoice.id}.pdf`);
+          break;
+        case 'excel':
+          exportInvoiceToExcel(invoice, lineItems, payments, taxes);
+          break;
+        case 'csv':
+          exportInvoiceToCSV(invoice, lineItems, payments, taxes);
+          break;
+      }
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Failed to download invoice",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleEdit = (invoice: Invoice) => {
     setEditingInvoice(invoice);
     setIsCreateDialogOpen(true);
@@ -165,57 +244,88 @@ export default function InvoicesPage() {
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  <DropdownMenuItem onClick={() => setStatusFilter(null)}>
+                  <DropdownMenuItem onClick={() => {
+                    setStatusFilter(null);
+                    setDueFilter(null);
+                  }}>
                     All Invoices
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => setStatusFilter("paid")}>
                     Paid Invoices
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStatusFilter("partially_paid")}>
+                    Partially Paid Invoices
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => setStatusFilter("pending")}>
                     Pending Invoices
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => setStatusFilter("overdue")}>
                     Overdue Invoices
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setStatusFilter("void")}>
+                    Void Invoices
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Due Date</DropdownMenuLabel>
+                  {(Object.keys(DUE_FILTER_LABELS) as DueFilter[]).map((filter) => (
+                    <DropdownMenuItem key={filter} onClick={() => setDueFilter(filter)}>
+                      {DUE_FILTER_LABELS[filter]}
+                    </DropdownMenuItem>
+                  ))}
                 </DropdownMenuContent>
               </DropdownMenu>
               
-              <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button className="flex items-center">
-                    <Plus className="h-4 w-4 mr-2" />
-                    New Invoice
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="sm:max-w-[600px]">
-                  <DialogHeader>
-                    <DialogTitle>
-                      {editingInvoice ? "Edit Invoice" : "Create New Invoice"}
-                    </DialogTitle>
-                  </DialogHeader>
-                  <InvoiceForm 
-                    invoice={editingInvoice}
-                    onSuccess={() => {
-                      setIsCreateDialogOpen(false);
-                      setEditingInvoice(null);
-                    }}
-                  />
-                </DialogContent>
-              </Dialog>
+              {can("invoices:write") && (
+                <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button className="flex items-center">
+                      <Plus className="h-4 w-4 mr-2" />
+                      New Invoice
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                      <DialogTitle>
+                        {editingInvoice ? "Edit Invoice" : "Create New Invoice"}
+                      </DialogTitle>
+                    </DialogHeader>
+                    <InvoiceForm 
+                      invoice={editingInvoice}
+                      onSuccess={() => {
+                        setIsCreateDialogOpen(false);
+                        setEditingInvoice(null);
+                      }}
+                    />
+                  </DialogContent>
+                </Dialog>
+              )}
             </div>
           </div>
           
-          {statusFilter && (
-            <div className="mb-6">
-              <Badge variant="outline" className="bg-blue-50 text-blue-800 py-1 px-3">
-                Filtered by: {statusFilter.charAt(0).toUpperCase() + statusFilter.slice(1)}
-                <button 
-                  className="ml-2" 
-                  onClick={() => setStatusFilter(null)}
-                >
-                  &times;
-                </button>
-              </Badge>
+          {(statusFilter || dueFilter) && (
+            <div className="mb-6 flex gap-2">
+              {statusFilter && (
+                <Badge variant="outline" className="bg-blue-50 text-blue-800 py-1 px-3">
+                  Filtered by: {statusFilter.charAt(0).toUpperCase() + statusFilter.slice(1)}
+                  <button 
+                    className="ml-2" 
+                    onClick={() => setStatusFilter(null)}
+                  >
+                    &times;
+                  </button>
+                </Badge>
+              )}
+              {dueFilter && (
+                <Badge variant="outline" className="bg-blue-50 text-blue-800 py-1 px-3">
+                  Filtered by: {DUE_FILTER_LABELS[dueFilter]}
+                  <button 
+                    className="ml-2" 
+                    onClick={() => setDueFilter(null)}
+                  >
+                    &times;
+                  </button>
+                </Badge>
+              )}
             </div>
           )}
           
@@ -249,6 +359,17 @@ export default function InvoicesPage() {
                         )}
                       </div>
                     </th>
+                    <th 
+                      className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
+                      onClick={() => handleSort("dueDate")}
+                    >
+                      <div className="flex items-center">
+                        Due Date
+                        {sortField === "dueDate" && (
+                          sortDirection === "asc" ? <ArrowUp className="h-4 w-4 ml-1" /> : <ArrowDown className="h-4 w-4 ml-1" />
+                        )}
+                      </div>
+                    </th>
                     <th 
                       className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer"
                       onClick={() => handleSort("amount")}
@@ -260,6 +381,12 @@ export default function InvoicesPage() {
                         )}
                       </div>
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Paid
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Due
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Status
                     </th>
@@ -271,7 +398,7 @@ export default function InvoicesPage() {
                 <tbody className="bg-white divide-y divide-gray-200">
                   {isLoading ? (
                     <tr>
-                      <td colSpan={6} className="px-6 py-4 text-center">
+                      <td colSpan={9} className="px-6 py-4 text-center">
                         <div className="flex justify-center">
                           <Loader2 className="h-6 w-6 animate-spin text-primary" />
                         </div>
@@ -279,7 +406,7 @@ export default function InvoicesPage() {
                     </tr>
                   ) : filteredInvoices.length === 0 ? (
                     <tr>
-                      <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                      <td colSpan={9} className="px-6 py-4 text-center text-sm text-gray-500">
                         No invoices found
                       </td>
                     </tr>
@@ -287,7 +414,7 @@ export default function InvoicesPage() {
                     filteredInvoices.map((invoice) => (
                       <tr key={invoice.id}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                          #{invoice.id}
+                          {getInvoiceNumber(invoice)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {invoice.clientName}
@@ -295,8 +422,20 @@ export default function InvoicesPage() {
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {new Date(invoice.date).toLocaleDateString()}
                         </td>
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm ${matchesDueFilter(invoice, "past_due", today) ? "text-red-600 font-medium" : "text-gray-500"}`}>
+                          {new Date(getInvoiceDueDate(invoice)).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatCurrency(Number(invoice.amount), invoice.currency)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatCurrency(invoice.amountPaid, invoice.currency)}
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          ${Number(invoice.amount).toFixed(2)}
+                          {formatCurrency(invoice.amountDue, invoice.currency)}
+                          {invoice.overpaid > 0 && (
+                            <div className="text-xs text-green-700">{formatCurrency(invoice.overpaid, invoice.currency)} credit</div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <StatusBadge status={invoice.status} />
@@ -311,12 +450,12 @@ export default function InvoicesPage() {
                               </DialogTrigger>
                               <DialogContent className="max-w-md">
                                 <DialogHeader>
-                                  <DialogTitle>Invoice #{invoice.id}</DialogTitle>
+                                  <DialogTitle>Invoice {getInvoiceNumber(invoice)}</DialogTitle>
                                 </DialogHeader>
                                 <div className="space-y-4 py-4">
                                   <div className="grid grid-cols-3 gap-4 text-sm">
                                     <div className="font-medium">Invoice Number</div>
-                                    <div className="col-span-2">#{invoice.id}</div>
+                                    <div className="col-span-2">{getInvoiceNumber(invoice)}</div>
                                     
                                     <div className="font-medium">Title</div>
                                     <div className="col-span-2">{invoice.title}</div>
@@ -325,59 +464,103 @@ export default function InvoicesPage() {
                                     <div className="col-span-2">{invoice.clientName}</div>
                                     
                                     <div className="font-medium">Amount</div>
-                                    <div className="col-span-2">${Number(invoice.amount).toFixed(2)}</div>
+                                    <div className="col-span-2">{formatCurrency(Number(invoice.amount), invoice.currency)}</div>
+                                    
+                                    <div className="font-medium">Paid</div>
+                                    <div className="col-span-2">{formatCurrency(invoice.amountPaid, invoice.currency)}</div>
+                                    
+                                    {invoice.amountCredited > 0 && (
+                                      <>
+                                        <div className="font-medium">Credited</div>
+                                        <div className="col-span-2">{formatCurrency(invoice.amountCredited, invoice.currency)}</div>
+                                      </>
+                                    )}
+                                    
+                                    <div className="font-medium">Amount Due</div>
+                                    <div className="col-span-2">{formatCurrency(invoice.amountDue, invoice.currency)}</div>
+                                    
+                                    {Number(invoice.exchangeRate) !== 1 && (
+                                      <>
+                                        <div className="font-medium">Exchange Rate</div>
+                                        <div className="col-span-2">{Number(invoice.exchangeRate)} {invoice.currency} per unit of the base currency</div>
+                                      </>
+                                    )}
                                     
                                     <div className="font-medium">Date</div>
                                     <div className="col-span-2">{new Date(invoice.date).toLocaleDateString()}</div>
                                     
+                                    <div className="font-medium">Due Date</div>
+                                    <div className="col-span-2">{new Date(getInvoiceDueDate(invoice)).toLocaleDateString()}</div>
+                                    
                                     <div className="font-medium">Status</div>
                                     <div className="col-span-2"><StatusBadge status={invoice.status} /></div>
                                   </div>
+                                  
+                                  {invoice.status !== "paid" && invoice.status !== "void" && <InvoiceReminders invoice={invoice} />}
+                                  
+                                  {invoice.status !== "void" && <InvoiceCreditNotes invoice={invoice} />}
+                                  
+                                  <ActivityHistory url={`/api/invoices/${invoice.id}/activity`} />
                                 </div>
                               </DialogContent>
                             </Dialog>
                             
-                            <Button 
-                              variant="ghost" 
-                              size="sm" 
-                              className="text-gray-500 hover:text-gray-700"
-                              onClick={() => handleEdit(invoice)}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            
-                            <AlertDialog>
-                              <AlertDialogTrigger asChild>
-                                <Button variant="ghost" size="sm" className="text-gray-500 hover:text-red-600">
-                                  <Trash2 className="h-4 w-4" />
+                            {invoice.status !== "void" && can("invoices:write") && (
+                              <>
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm" 
+                                  className="text-gray-500 hover:text-gray-700"
+                                  onClick={() => handleEdit(invoice)}
+                                >
+                                  <Edit className="h-4 w-4" />
                                 </Button>
-                              </AlertDialogTrigger>
-                              <AlertDialogContent>
-                                <AlertDialogHeader>
-                                  <AlertDialogTitle>Delete Invoice</AlertDialogTitle>
-                                  <AlertDialogDescription>
-                                    Are you sure you want to delete invoice #{invoice.id} for {invoice.clientName}? 
-                                    This action cannot be undone.
-                                  </AlertDialogDescription>
-                                </AlertDialogHeader>
-                                <AlertDialogFooter>
-                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                  <AlertDialogAction
-                                    onClick={() => deleteInvoiceMutation.mutate(invoice.id)}
-                                    className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
-                                  >
-                                    {deleteInvoiceMutation.isPending ? (
-                                      <>
-                                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                        Deleting...
-                                      </>
-                                    ) : (
-                                      "Delete"
-                                    )}
-                                  </AlertDialogAction>
-                                </AlertDialogFooter>
-                              </AlertDialogContent>
-                            </AlertDialog>
+                                
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-gray-500 hover:text-gray-700"
+                                  title="Issue credit note"
+                                  onClick={() => setCreditingInvoice(invoice)}
+                                >
+                                  <FileMinus className="h-4 w-4" />
+                                </Button>
+                                
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button variant="ghost" size="sm" className="text-gray-500 hover:text-red-600" title="Void invoice">
+                                      <Ban className="h-4 w-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Void Invoice</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Are you sure you want to void invoice {getInvoiceNumber(invoice)} for {invoice.clientName}? 
+                                        The invoice is kept for your records but is no longer owed. Invoices with payments
+                                        or credit notes cannot be voided; issue a credit note for the open balance instead.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={() => voidInvoiceMutation.mutate(invoice)}
+                                        className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+                                      >
+                                        {voidInvoiceMutation.isPending ? (
+                                          <>
+                                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                            Voiding...
+                                          </>
+                                        ) : (
+                                          "Void"
+                                        )}
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              </>
+                            )}
                             
                             <Dialog>
                               <DialogTrigger asChild>
@@ -390,11 +573,11 @@ export default function InvoicesPage() {
                                   <DialogTitle>Download Invoice</DialogTitle>
                                 </DialogHeader>
                                 <div className="space-y-4 pt-4">
-                                  <p>Select format to download Invoice #{invoice.id}</p>
+                                  <p>Select format to download Invoice {getInvoiceNumber(invoice)}</p>
                                   <div className="flex justify-between gap-4">
-                                    <Button className="flex-1" variant="outline">PDF</Button>
-                                    <Button className="flex-1" variant="outline">Excel</Button>
-                                    <Button className="flex-1" variant="outline">CSV</Button>
+                                    <Button className="flex-1" variant="outline" onClick={() => handleDownload(invoice, 'pdf')}>PDF</Button>
+                                    <Button className="flex-1" variant="outline" onClick={() => handleDownload(invoice, 'excel')}>Excel</Button>
+                                    <Button className="flex-1" variant="outline" onClick={() => handleDownload(invoice, 'csv')}>CSV</Button>
                                   </div>
                                 </div>
                               </DialogContent>
@@ -408,6 +591,20 @@ export default function InvoicesPage() {
               </table>
             </div>
           </div>
+          
+          <Dialog open={!!creditingInvoice} onOpenChange={(open) => !open && setCreditingInvoice(null)}>
+            <DialogContent className="sm:max-w-[600px]">
+              <DialogHeader>
+                <DialogTitle>Issue Credit Note</DialogTitle>
+              </DialogHeader>
+              {creditingInvoice && (
+                <CreditNoteForm
+                  invoice={creditingInvoice}
+                  onSuccess={() => setCreditingInvoice(null)}
+                />
+              )}
+            </DialogContent>
+          </Dialog>
         </div>
       </main>
     </div>
@@ -427,6 +624,18 @@ function StatusBadge({ status }: { status: string }) {
         Pending
       </Badge>
     );
+  } else if (status === "partially_paid") {
+    return (
+      <Badge variant="outline" className="bg-blue-100 text-blue-800 hover:bg-blue-100">
+        Partially Paid
+      </Badge>
+    );
+  } else if (status === "void") {
+    return (
+      <Badge variant="outline" className="bg-gray-100 text-gray-800 hover:bg-gray-100">
+        Void
+      </Badge>
+    );
   } else {
     return (
       <Badge variant="outline" className="bg-red-100 text-red-800 hover:bg-red-100">
@@ -5,8 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { PaymentForm } from "@/components/payments/payment-form";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Payment, Invoice } from "@shared/schema";
+import { formatCurrency } from "@/lib/currency-service";
+import { Payment, Invoice, getInvoiceNumber, getPaymentMethodLabel, getSignedPaymentAmount } from "@shared/schema";
+import { exportPaymentsToCSV, exportPaymentsToExcel } from "@/lib/export-service";
 import {
   Plus,
   Search,
@@ -18,7 +21,8 @@ import {
   ArrowUp,
   ArrowDown,
   Loader2,
-  Receipt
+  Receipt,
+  Undo2
 } from "lucide-react";
 import {
   Dialog,
@@ -48,11 +52,13 @@ import {
 export default function PaymentsPage() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingPayment, setEditingPayment] = useState<Payment | null>(null);
+  const [refundingPayment, setRefundingPayment] = useState<Payment | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [sortField, setSortField] = useState<string>("date");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
   
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   const { data: payments, isLoading } = useQuery<Payment[]>({
     queryKey: ["/api/payments"],
@@ -129,6 +135,7 @@ export default function PaymentsPage() {
             return (
               payment.id.toString().includes(searchLower) ||
               payment.invoiceId.toString().includes(searchLower) ||
+              (payment.reference && payment.reference.toLowerCase().includes(searchLower)) ||
               (invoice && invoice.clientName.toLowerCase().includes(searchLower))
             );
           }
@@ -142,8 +149,8 @@ export default function PaymentsPage() {
             const dateB = new Date(b.date).getTime();
             return sortDirection === "asc" ? dateA - dateB : dateB - dateA;
           } else if (sortField === "amount") {
-            const amountA = Number(a.amount);
-            const amountB = Number(b.amount);
+            const amountA = getSignedPaymentAmount(a);
+            const amountB = getSignedPaymentAmount(b);
             return sortDirection === "asc" ? amountA - amountB : amountB - amountA;
           } else if (sortField === "invoiceId") {
             return sortDirection === "asc"
@@ -182,13 +189,34 @@ export default function PaymentsPage() {
                 />
               </div>
               
+              {can("reports:export") && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" className="flex items-center" disabled={!payments?.length}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => exportPaymentsToCSV(filteredPayments, invoices)}>
+                      CSV
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => exportPaymentsToExcel(filteredPayments, invoices)}>
+                      Excel
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              
               <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button className="flex items-center">
-                    <Plus className="h-4 w-4 mr-2" />
-                    New Payment
-                  </Button>
-                </DialogTrigger>
+                {can("payments:write") && (
+                  <DialogTrigger asChild>
+                    <Button className="flex items-center">
+                      <Plus className="h-4 w-4 mr-2" />
+                      New Payment
+                    </Button>
+                  </DialogTrigger>
+                )}
                 <DialogContent className="sm:max-w-[600px]">
                   <DialogHeader>
                     <DialogTitle>
@@ -251,6 +279,9 @@ export default function PaymentsPage() {
                         )}
                       </div>
                     </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Method
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Receipt
                     </th>
@@ -262,7 +293,7 @@ export default function PaymentsPage() {
                 <tbody className="bg-white divide-y divide-gray-200">
                   {isLoading ? (
                     <tr>
-                      <td colSpan={7} className="px-6 py-4 text-center">
+                      <td colSpan={8} className="px-6 py-4 text-center">
                         <div className="flex justify-center">
                           <Loader2 className="h-6 w-6 animate-spin text-primary" />
                         </div>
@@ -270,7 +301,7 @@ export default function PaymentsPage() {
                     </tr>
                   ) : filteredPayments.length === 0 ? (
                     <tr>
-                      <td colSpan={7} className="px-6 py-4 text-center text-sm text-gray-500">
+                      <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500">
                         No payments found
                       </td>
                     </tr>
@@ -281,9 +312,12 @@ export default function PaymentsPage() {
                         <tr key={payment.id}>
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                             #{payment.id}
+                            {payment.type === "refund" && (
+                              <div className="text-xs font-normal text-red-600">Refund of #{payment.refundOfId}</div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            #{payment.invoiceId}
+                            {invoice ? getInvoiceNumber(invoice) : `#${payment.invoiceId}`}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {invoice ? invoice.clientName : "Unknown Client"}
@@ -291,8 +325,14 @@ export default function PaymentsPage() {
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {new Date(payment.date).toLocaleDateString()}
                           </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            ${Number(payment.amount).toFixed(2)}
+                          <td className={`px-6 py-4 whitespace-nowrap text-sm ${payment.type === "refund" ? "text-red-600" : "text-gray-900"}`}>
+                            {formatCurrency(getSignedPaymentAmount(payment), payment.currency)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {getPaymentMethodLabel(payment.method)}
+                            {payment.reference && (
+                              <div className="text-xs">{payment.reference}</div>
+                            )}
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                             {payment.receiptGenerated ? (
@@ -304,7 +344,7 @@ export default function PaymentsPage() {
                                 variant="outline" 
                                 size="sm"
                                 onClick={() => generateReceiptMutation.mutate(payment.id)}
-                                disabled={generateReceiptMutation.isPending}
+                                disabled={!can("payments:write") || generateReceiptMutation.isPending}
                               >
                                 {generateReceiptMutation.isPending ? (
                                   <Loader2 className="h-4 w-4 animate-spin" />
@@ -326,7 +366,7 @@ export default function PaymentsPage() {
                                 </DialogTrigger>
                                 <DialogContent className="max-w-md">
                                   <DialogHeader>
-                                    <DialogTitle>Payment #{payment.id}</DialogTitle>
+                                    <DialogTitle>{payment.type === "refund" ? "Refund" : "Payment"} #{payment.id}</DialogTitle>
                                   </DialogHeader>
                                   <div className="space-y-4 py-4">
                                     <div className="grid grid-cols-3 gap-4 text-sm">
@@ -334,17 +374,41 @@ export default function PaymentsPage() {
                                       <div className="col-span-2">#{payment.id}</div>
                                       
                                       <div className="font-medium">Invoice</div>
-                                      <div className="col-span-2">#{payment.invoiceId}</div>
+                                      <div className="col-span-2">{invoice ? getInvoiceNumber(invoice) : `#${payment.invoiceId}`}</div>
                                       
                                       <div className="font-medium">Client</div>
                                       <div className="col-span-2">{invoice ? invoice.clientName : "Unknown Client"}</div>
                                       
+                                      {payment.type === "refund" && (
+                                        <>
+                                          <div className="font-medium">Refund Of</div>
+                                          <div className="col-span-2">Payment #{payment.refundOfId}</div>
+                                        </>
+                                      )}
+                                      
                                       <div className="font-medium">Amount</div>
-                                      <div className="col-span-2">${Number(payment.amount).toFixed(2)}</div>
+                                      <div className="col-span-2">{formatCurrency(Number(payment.amount), payment.currency)}</div>
                                       
                                       <div className="font-medium">Date</div>
                                       <div className="col-span-2">{new Date(payment.date).toLocaleDateString()}</div>
                                       
+                                      <div className="font-medium">Method</div>
+                                      <div className="col-span-2">{getPaymentMethodLabel(payment.method)}</div>
+                                      
+                                      {payment.reference && (
+                                        <>
+                                          <div className="font-medium">Reference</div>
+                                          <div className="col-span-2">{payment.reference}</div>
+                                        </>
+                                      )}
+                                      
+                                      {payment.notes && (
+                                        <>
+                                          <div className="font-medium">Notes</div>
+                                          <div className="col-span-2 whitespace-pre-wrap">{payment.notes}</div>
+                                        </>
+                                      )}
+                                      
                                       <div className="font-medium">Receipt</div>
                                       <div className="col-span-2">
                                         {payment.receiptGenerated ? (
@@ -360,47 +424,63 @@ export default function PaymentsPage() {
                                 </DialogContent>
                               </Dialog>
                               
-                              <Button 
-                                variant="ghost" 
-                                size="sm" 
-                                className="text-gray-500 hover:text-gray-700"
-                                onClick={() => handleEdit(payment)}
-                              >
-                                <Edit className="h-4 w-4" />
-                              </Button>
+                              {can("payments:write") && (
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm" 
+                                  className="text-gray-500 hover:text-gray-700"
+                                  onClick={() => handleEdit(payment)}
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                              )}
                               
-                              <AlertDialog>
-                                <AlertDialogTrigger asChild>
-                                  <Button variant="ghost" size="sm" className="text-gray-500 hover:text-red-600">
-                                    <Trash2 className="h-4 w-4" />
-                                  </Button>
-                                </AlertDialogTrigger>
-                                <AlertDialogContent>
-                                  <AlertDialogHeader>
-                                    <AlertDialogTitle>Delete Payment</AlertDialogTitle>
-                                    <AlertDialogDescription>
-                                      Are you sure you want to delete payment #{payment.id} for Invoice #{payment.invoiceId}? 
-                                      This action cannot be undone and may change the invoice status.
-                                    </AlertDialogDescription>
-                                  </AlertDialogHeader>
-                                  <AlertDialogFooter>
-                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                    <AlertDialogAction
-                                      onClick={() => deletePaymentMutation.mutate(payment.id)}
-                                      className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
-                                    >
-                                      {deletePaymentMutation.isPending ? (
-                                        <>
-                                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                          Deleting...
-                                        </>
-                                      ) : (
-                                        "Delete"
-                                      )}
-                                    </AlertDialogAction>
-                                  </AlertDialogFooter>
-                                </AlertDialogContent>
-                              </AlertDialog>
+                              {payment.type === "payment" && can("payments:void") && (
+                                <Button 
+                                  variant="ghost" 
+                                  size="sm" 
+                                  className="text-gray-500 hover:text-gray-700"
+                                  title="Refund"
+                                  onClick={() => setRefundingPayment(payment)}
+                                >
+                                  <Undo2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                              
+                              {can("payments:void") && (
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button variant="ghost" size="sm" className="text-gray-500 hover:text-red-600">
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Delete Payment</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Are you sure you want to delete payment #{payment.id} for Invoice #{payment.invoiceId}? 
+                                        This action cannot be undone and may change the invoice status.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction
+                                        onClick={() => deletePaymentMutation.mutate(payment.id)}
+                                        className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+                                      >
+                                        {deletePaymentMutation.isPending ? (
+                                          <>
+                                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                            Deleting...
+                                          </>
+                                        ) : (
+                                          "Delete"
+                                        )}
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              )}
                               
                               {payment.receiptGenerated && (
                                 <Dialog>
@@ -434,6 +514,20 @@ export default function PaymentsPage() {
               </table>
             </div>
           </div>
+          
+          <Dialog open={!!refundingPayment} onOpenChange={(open) => !open && setRefundingPayment(null)}>
+            <DialogContent className="sm:max-w-[600px]">
+              <DialogHeader>
+                <DialogTitle>Refund Payment #{refundingPayment?.id}</DialogTitle>
+              </DialogHeader>
+              {refundingPayment && (
+                <PaymentForm
+                  refundOf={refundingPayment}
+                  onSuccess={() => setRefundingPayment(null)}
+                />
+              )}
+            </DialogContent>
+          </Dialog>
         </div>
       </main>
     </div>
@@ -7,11 +7,13 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Loader2, Save, User, Lock, UserCog } from "lucide-react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { TwoFactorSettings } from "@/components/settings/two-factor-settings";
 
 // Form schema for account details
 const accountDetailsSchema = z.object({
@@ -35,7 +37,10 @@ type PasswordFormValues = z.infer<typeof passwordSchema>;
 export default function ProfilePage() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [activeTab, setActiveTab] = useState<string>("account");
+  // Members who must turn on two-factor authentication are sent here to do it
+  const [activeTab, setActiveTab] = useState<string>(
+    user?.twoFactorRequired && !user.twoFactorEnabled ? "security" : "account"
+  );
   const [isUpdatingAccount, setIsUpdatingAccount] = useState(false);
   const [isChangingPassword, setIsChangingPassword] = useState(false);
 
@@ -61,11 +66,8 @@ export default function ProfilePage() {
   const onAccountSubmit = async (data: AccountDetailsFormValues) => {
     try {
       setIsUpdatingAccount(true);
-      // In a real application, this would make an API call to update the user's details
-      // await apiRequest("PATCH", "/api/user", data);
-      
-      // Simulate delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      const res = await apiRequest("PATCH", "/api/user", data);
+      queryClient.setQueryData(["/api/user"], await res.json());
       
       toast({
         title: "Account updated",
@@ -150,7 +152,7 @@ export default function ProfilePage() {
                           <div className="bg-primary h-24 w-24 rounded-full flex items-center justify-center text-white text-2xl font-semibold">
                             {user.name.split(' ').map(n => n[0]).join('')}
                           </div>
-                          <span className="text-sm font-medium">{user.role}</span>
+                          <span className="text-sm font-medium">{user.roleName}</span>
                         </div>
                         
                         <div className="flex-1">
@@ -216,7 +218,7 @@ export default function ProfilePage() {
                             </div>
                             <div>
                               <Label className="text-sm text-gray-500">Role</Label>
-                              <div className="font-medium capitalize">{user.role}</div>
+                              <div className="font-medium">{user.roleName}</div>
                             </div>
                           </div>
                         </div>
@@ -296,6 +298,8 @@ export default function ProfilePage() {
                           </form>
                         </Form>
                       </div>
+                      
+                      <TwoFactorSettings />
                     </div>
                   </TabsContent>
                 </Tabs>
@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RecurringInvoiceForm } from "@/components/invoices/recurring-invoice-form";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RecurringInvoice, RECURRING_FREQUENCIES } from "@shared/schema";
+import { Plus, Edit, Trash2, Pause, Play, SkipForward, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+export default function RecurringInvoicesPage() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<RecurringInvoice | null>(null);
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  const { data: templates, isLoading } = useQuery<RecurringInvoice[]>({
+    queryKey: ["/api/recurring-invoices"],
+  });
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: "active" | "paused" }) => {
+      const res = await apiRequest("PUT", `/api/recurring-invoices/${id}`, { status });
+      return await res.json();
+    },
+    onSuccess: (template: RecurringInvoice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-invoices"] });
+      toast({
+        title: template.status === "paused" ? "Schedule paused" : "Schedule resumed",
+        description: template.status === "paused"
+          ? `No invoices will be issued for "${template.title}" until it is resumed.`
+          : `The next invoice for "${template.title}" will be issued on ${new Date(template.nextRunDate).toLocaleDateString()}.`,
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/recurring-invoices/${id}/skip`);
+      return await res.json();
+    },
+    onSuccess: (template: RecurringInvoice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-invoices"] });
+      toast({
+        title: "Occurrence skipped",
+        description: template.status === "completed"
+          ? `"${template.title}" has no further occurrences.`
+          : `The next invoice for "${template.title}" will be issued on ${new Date(template.nextRunDate).toLocaleDateString()}.`,
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (template: RecurringInvoice) => {
+      await apiRequest("DELETE", `/api/recurring-invoices/${template.id}`);
+      return template;
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-invoices"] });
+      toast({
+        title: "Schedule deleted",
+        description: `"${template.title}" will no longer issue invoices. Invoices already issued are kept.`,
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const frequencyLabel = (frequency: RecurringInvoice["frequency"]) =>
+    RECURRING_FREQUENCIES.find(option => option.value === frequency)?.label ?? frequency;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex">
+      <Sidebar />
+
+      <main className="flex-1 ml-0 md:ml-64 transition-all duration-200">
+        <div className="px-6 py-8 pt-24 md:pt-20">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+            <h1 className="text-2xl font-bold text-gray-800">Recurring Invoices</h1>
+            <Dialog
+              open={isFormOpen}
+              onOpenChange={(open) => {
+                setIsFormOpen(open);
+                if (!open) setEditingTemplate(null);
+              }}
+            >
+              {can("invoices:write") && (
+                <DialogTrigger asChild>
+                  <Button className="flex items-center">
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Schedule
+                  </Button>
+                </DialogTrigger>
+              )}
+              <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingTemplate ? "Edit Future Invoices" : "Create Recurring Invoice"}
+                  </DialogTitle>
+                </DialogHeader>
+                <RecurringInvoiceForm
+                  template={editingTemplate}
+                  onSuccess={() => {
+                    setIsFormOpen(false);
+                    setEditingTemplate(null);
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {["Title", "Client", "Frequency", "Amount", "Next Invoice", "Ends", "Status", "Actions"].map(heading => (
+                      <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {isLoading ? (
+                    <tr>
+                      <td colSpan={8} className="px-6 py-4 text-center">
+                        <div className="flex justify-center">
+                          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                        </div>
+                      </td>
+                    </tr>
+                  ) : !templates || templates.length === 0 ? (
+                    <tr>
+                      <td colSpan={8} className="px-6 py-4 text-center text-sm text-gray-500">
+                        No recurring invoices yet
+                      </td>
+                    </tr>
+                  ) : (
+                    templates.map((template) => (
+                      <tr key={template.id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                          {template.title}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {template.clientName}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {frequencyLabel(template.frequency)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          ${Number(template.amount).toFixed(2)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {template.status === "completed" ? "-" : new Date(template.nextRunDate).toLocaleDateString()}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {template.endDate ? new Date(template.endDate).toLocaleDateString() : "Never"}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <ScheduleStatusBadge status={template.status} />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {can("invoices:write") && (
+                            <div className="flex space-x-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Edit future invoices"
+                                onClick={() => {
+                                  setEditingTemplate(template);
+                                  setIsFormOpen(true);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+
+                              {template.status !== "completed" && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title={template.status === "paused" ? "Resume" : "Pause"}
+                                    disabled={statusMutation.isPending}
+                                    onClick={() => statusMutation.mutate({
+                                      id: template.id,
+                                      status: template.status === "paused" ? "active" : "paused",
+                                    })}
+                                  >
+                                    {template.status === "paused"
+                                      ? <Play className="h-4 w-4" />
+                                      : <Pause className="h-4 w-4" />}
+                                  </Button>
+
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Skip the next invoice"
+                                    disabled={skipMutation.isPending}
+                                    onClick={() => skipMutation.mutate(template.id)}
+                                  >
+                                    <SkipForward className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button variant="ghost" size="sm" className="text-gray-500 hover:text-red-600">
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Delete Schedule</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      Are you sure you want to delete the recurring invoice "{template.title}"?
+                                      Invoices already issued from it are kept.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction
+                                      onClick={() => deleteMutation.mutate(template)}
+                                      className="bg-red-600 hover:bg-red-700"
+                                    >
+                                      Delete
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
+
+function ScheduleStatusBadge({ status }: { status: RecurringInvoice["status"] }) {
+  if (status === "active") {
+    return (
+      <Badge variant="outline" className="bg-green-100 text-green-800 hover:bg-green-100">
+        Active
+      </Badge>
+    );
+  } else if (status === "paused") {
+    return (
+      <Badge variant="outline" className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">
+        Paused
+      </Badge>
+    );
+  } else {
+    return (
+      <Badge variant="outline" className="bg-gray-100 text-gray-800 hover:bg-gray-100">
+        Completed
+      </Badge>
+    );
+  }
+}
@@ -3,19 +3,37 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Invoice, Payment, Report } from "@shared/schema";
+import {
+  Expense,
+  Invoice,
+  Payment,
+  Report,
+  DEFAULT_BASE_CURRENCY,
+  getExpenseTotal,
+  getSignedPaymentAmount,
+  toBaseAmount,
+} from "@shared/schema";
 import {
   Download,
   FileText,
   BarChart3,
   PieChart,
   Loader2,
-  Calendar
+  Calendar,
+  Eye,
+  Clock,
+  RefreshCw,
+  Receipt
 } from "lucide-react";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ReportsChart } from "@/components/reports/reports-chart";
+import { AgingReport } from "@/components/reports/aging-report";
+import { ReceivablesRevaluation } from "@/components/reports/receivables-revaluation";
+import { TaxReturnReport } from "@/components/reports/tax-return-report";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Dialog,
@@ -24,17 +42,21 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { generateReportPdf } from "@/lib/pdf-service";
+import { generateReportPdf, formatStatementPeriod, statementToRows } from "@/lib/pdf-service";
+import { formatCurrency } from "@/lib/currency-service";
 import { exportReportToExcel, exportReportToCSV } from "@/lib/export-service";
 
 export default function ReportsPage() {
   const [reportType, setReportType] = useState("monthly");
   const [reportPeriod, setReportPeriod] = useState("last_6_months");
   const [activeTab, setActiveTab] = useState("revenue");
+  const [periodStart, setPeriodStart] = useState("");
+  const [periodEnd, setPeriodEnd] = useState("");
   
   const { toast } = useToast();
+  const { can } = usePermissions();
 
-  // Load invoices and payments data for report generation
+  // Load invoices, payments and expenses data for report generation
   const { data: invoices, isLoading: isLoadingInvoices } = useQuery<Invoice[]>({
     queryKey: ["/api/invoices"],
   });
@@ -43,6 +65,10 @@ export default function ReportsPage() {
     queryKey: ["/api/payments"],
   });
   
+  const { data: expenses, isLoading: isLoadingExpenses } = useQuery<Expense[]>({
+    queryKey: ["/api/expenses"],
+  });
+  
   const { data: reports, isLoading: isLoadingReports } = useQuery<Report[]>({
     queryKey: ["/api/reports"],
   });
@@ -52,6 +78,8 @@ export default function ReportsPage() {
     mutationFn: async (reportData: {
       title: string;
       type: string;
+      periodStart?: string;
+      periodEnd?: string;
     }) => {
       const res = await apiRequest("POST", "/api/reports", reportData);
       return await res.json();
@@ -72,9 +100,9 @@ export default function ReportsPage() {
     },
   });
 
-  // Calculate data for charts based on invoices and payments
+  // Calculate data for charts based on invoices, payments and expenses
   const calculateReportData = () => {
-    if (!invoices || !payments || isLoadingInvoices || isLoadingPayments) {
+    if (!invoices || !payments || !expenses || isLoadingInvoices || isLoadingPayments || isLoadingExpenses) {
       return null;
     }
 
@@ -92,7 +120,6 @@ export default function ReportsPage() {
     
     // Initialize data arrays for charts
     const revenueData = [];
-    const expenseData = []; // Simulated expenses for visualization
     
     // Create data points for each month in the period
     for (let i = 0; i < monthsCount; i++) {
@@ -108,7 +135,7 @@ export default function ReportsPage() {
       });
       
       // Calculate total revenue for month
-      const monthRevenue = monthInvoices.reduce((sum, inv) => sum + Number(inv.amount), 0);
+      const monthRevenue = monthInvoices.reduce((sum, inv) => sum + toBaseAmount(inv.amount, inv.exchangeRate), 0);
       
       // Filter payments for this month
       const monthPayments = payments.filter(payment => {
@@ -116,18 +143,22 @@ export default function ReportsPage() {
         return payDate.getMonth() === month && payDate.getFullYear() === year;
       });
       
-      // Calculate total payments for month
-      const monthPaymentTotal = monthPayments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+      // Calculate total payments for month, less refunds
+      const monthPaymentTotal = monthPayments.reduce((sum, payment) => sum + toBaseAmount(getSignedPaymentAmount(payment), payment.exchangeRate), 0);
       
-      // Simulate expenses (approximately 60-80% of revenue for realistic visualization)
-      const randomFactor = 0.6 + Math.random() * 0.2;
-      const simulatedExpenses = monthRevenue * randomFactor;
+      // Expenses for this month, including their tax
+      const monthExpenseTotal = expenses
+        .filter(expense => {
+          const expDate = new Date(expense.date);
+          return expDate.getMonth() === month && expDate.getFullYear() === year;
+        })
+        .reduce((sum, expense) => sum + getExpenseTotal(expense), 0);
       
       // Add data point
       revenueData.push({
         name: months[month],
         revenue: monthRevenue.toFixed(2),
-        expenses: simulatedExpenses.toFixed(2),
+        expenses: monthExpenseTotal.toFixed(2),
         payments: monthPaymentTotal.toFixed(2)
       });
     }
@@ -138,9 +169,13 @@ export default function ReportsPage() {
   const reportData = calculateReportData();
   
   const handleGenerateReport = (type: string) => {
+    const label = type.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
     generateReportMutation.mutate({
-      title: `${type.charAt(0).toUpperCase() + type.slice(1)} Report - ${new Date().toLocaleDateString()}`,
-      type
+      title: `${label} Report - ${new Date().toLocaleDateString()}`,
+      type,
+      // A balance sheet is as of a single date
+      periodStart: type === "balance_sheet" ? undefined : periodStart || undefined,
+      periodEnd: periodEnd || undefined
     });
   };
 
@@ -182,22 +217,42 @@ export default function ReportsPage() {
                 </SelectContent>
               </Select>
               
-              <Button
-                onClick={() => handleGenerateReport(reportType)}
-                disabled={generateReportMutation.isPending}
-              >
-                {generateReportMutation.isPending ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Generating...
-                  </>
-                ) : (
-                  <>
-                    <FileText className="h-4 w-4 mr-2" />
-                    Generate Report
-                  </>
-                )}
-              </Button>
+              {reportType !== "balance_sheet" && (
+                <Input
+                  type="date"
+                  className="w-[160px]"
+                  value={periodStart}
+                  onChange={(e) => setPeriodStart(e.target.value)}
+                  title="Period start"
+                />
+              )}
+              
+              <Input
+                type="date"
+                className="w-[160px]"
+                value={periodEnd}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+                title={reportType === "balance_sheet" ? "As of" : "Period end"}
+              />
+              
+              {can("reports:export") && (
+                <Button
+                  onClick={() => handleGenerateReport(reportType)}
+                  disabled={generateReportMutation.isPending}
+                >
+                  {generateReportMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Generating...
+                    </>
+                  ) : (
+                    <>
+                      <FileText className="h-4 w-4 mr-2" />
+                      Generate Report
+                    </>
+                  )}
+                </Button>
+              )}
             </div>
           </div>
           
@@ -211,7 +266,7 @@ export default function ReportsPage() {
                 <div className="text-2xl font-bold">
                   ${(isLoadingInvoices || !invoices) 
                     ? "0.00" 
-                    : invoices.reduce((sum, inv) => sum + Number(inv.amount), 0).toFixed(2)
+                    : invoices.reduce((sum, inv) => sum + toBaseAmount(inv.amount, inv.exchangeRate), 0).toFixed(2)
                   }
                 </div>
                 <p className="text-xs text-muted-foreground">
@@ -229,7 +284,7 @@ export default function ReportsPage() {
                 <div className="text-2xl font-bold">
                   ${(isLoadingPayments || !payments) 
                     ? "0.00" 
-                    : payments.reduce((sum, payment) => sum + Number(payment.amount), 0).toFixed(2)
+                    : payments.reduce((sum, payment) => sum + toBaseAmount(getSignedPaymentAmount(payment), payment.exchangeRate), 0).toFixed(2)
                   }
                 </div>
                 <p className="text-xs text-muted-foreground">
@@ -248,8 +303,8 @@ export default function ReportsPage() {
                   ${(isLoadingInvoices || isLoadingPayments || !invoices || !payments) 
                     ? "0.00" 
                     : (
-                        invoices.reduce((sum, inv) => sum + Number(inv.amount), 0) - 
-                        payments.reduce((sum, payment) => sum + Number(payment.amount), 0)
+                        invoices.reduce((sum, inv) => sum + toBaseAmount(inv.amount, inv.exchangeRate), 0) - 
+                        payments.reduce((sum, payment) => sum + toBaseAmount(getSignedPaymentAmount(payment), payment.exchangeRate), 0)
                       ).toFixed(2)
                   }
                 </div>
@@ -268,7 +323,7 @@ export default function ReportsPage() {
                 <div className="text-2xl font-bold">
                   ${(isLoadingInvoices || !invoices || invoices.length === 0) 
                     ? "0.00" 
-                    : (invoices.reduce((sum, inv) => sum + Number(inv.amount), 0) / invoices.length).toFixed(2)
+                    : (invoices.reduce((sum, inv) => sum + toBaseAmount(inv.amount, inv.exchangeRate), 0) / invoices.length).toFixed(2)
                   }
                 </div>
                 <p className="text-xs text-muted-foreground">
@@ -287,7 +342,15 @@ export default function ReportsPage() {
                   <CardDescription>
                     {activeTab === "revenue" 
                       ? "Monthly revenue and expenses comparison" 
-                      : "Payment distribution by status"
+                      : activeTab === "arAging"
+                        ? "Open client balances by days outstanding"
+                        : activeTab === "apAging"
+                          ? "Open vendor bills by days past due"
+                        : activeTab === "revaluation"
+                          ? "Unrealized exchange gains and losses on open receivables"
+                        : activeTab === "taxReturn"
+                          ? "Output and input tax for a VAT or GST return"
+                        : "Payment distribution by status"
                     }
                   </CardDescription>
                 </div>
@@ -301,11 +364,49 @@ export default function ReportsPage() {
                     <TabsTrigger value="paymentsSummary" className="flex items-center">
                       <PieChart className="h-4 w-4 mr-2" /> Payments
                     </TabsTrigger>
+                    <TabsTrigger value="arAging" className="flex items-center">
+                      <Clock className="h-4 w-4 mr-2" /> AR Aging
+                    </TabsTrigger>
+                    <TabsTrigger value="apAging" className="flex items-center">
+                      <Clock className="h-4 w-4 mr-2" /> AP Aging
+                    </TabsTrigger>
+                    <TabsTrigger value="revaluation" className="flex items-center">
+                      <RefreshCw className="h-4 w-4 mr-2" /> FX Revaluation
+                    </TabsTrigger>
+                    <TabsTrigger value="taxReturn" className="flex items-center">
+                      <Receipt className="h-4 w-4 mr-2" /> Tax Return
+                    </TabsTrigger>
                   </TabsList>
                   
-                  <div className="h-[400px] w-full">
+                  <TabsContent value="arAging" className="mt-0">
+                    <AgingReport
+                      endpoint="/api/reports/ar-aging"
+                      title="Accounts Receivable Aging"
+                      partyLabel="Client"
+                      filename="ar_aging"
+                    />
+                  </TabsContent>
+                  
+                  <TabsContent value="apAging" className="mt-0">
+                    <AgingReport
+                      endpoint="/api/reports/ap-aging"
+                      title="Accounts Payable Aging"
+                      partyLabel="Vendor"
+                      filename="ap_aging"
+                    />
+                  </TabsContent>
+                  
+                  <TabsContent value="revaluation" className="mt-0">
+                    <ReceivablesRevaluation />
+                  </TabsContent>
+                  
+                  <TabsContent value="taxReturn" className="mt-0">
+                    <TaxReturnReport />
+                  </TabsContent>
+                  
+                  <div className={["arAging", "apAging", "revaluation", "taxReturn"].includes(activeTab) ? "hidden" : "h-[400px] w-full"}>
                     <TabsContent value="revenue" className="mt-0 h-full">
-                      {isLoadingInvoices || isLoadingPayments ? (
+                      {isLoadingInvoices || isLoadingPayments || isLoadingExpenses ? (
                         <div className="h-full flex items-center justify-center">
                           <Loader2 className="h-8 w-8 animate-spin text-primary" />
                         </div>
@@ -315,7 +416,7 @@ export default function ReportsPage() {
                     </TabsContent>
                     
                     <TabsContent value="paymentsSummary" className="mt-0 h-full">
-                      {isLoadingInvoices || isLoadingPayments ? (
+                      {isLoadingInvoices || isLoadingPayments || isLoadingExpenses ? (
                         <div className="h-full flex items-center justify-center">
                           <Loader2 className="h-8 w-8 animate-spin text-primary" />
                         </div>
@@ -346,13 +447,7 @@ export default function ReportsPage() {
             ) : (
               <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
                 {reports.map(report => (
-                  <ReportCard
-                    key={report.id}
-                    title={report.title}
-                    date={new Date(report.generatedAt).toLocaleDateString()}
-                    type={report.type}
-                    id={report.id}
-                  />
+                  <ReportCard key={report.id} report={report} />
                 ))}
               </div>
             )}
@@ -363,38 +458,28 @@ export default function ReportsPage() {
   );
 }
 
-function ReportCard({ title, date, type, id }: { title: string; date: string; type: string; id: number }) {
+function ReportCard({ report }: { report: Report }) {
+  const { id, title, type } = report;
+  const date = new Date(report.generatedAt).toLocaleDateString();
   const { toast } = useToast();
+  const { can } = usePermissions();
   const [isDownloading, setIsDownloading] = useState(false);
 
   const handleDownload = async (format: 'pdf' | 'excel' | 'csv') => {
     try {
       setIsDownloading(true);
-      
-      // Fetch report data
-      const res = await apiRequest("GET", `/api/reports/${id}`);
-      if (!res.ok) throw new Error('Failed to fetch report data');
-      const reportData = await res.json();
-      
-      // Create report object
-      const report: Report = {
-        id,
-        title,
-        type: type as "monthly" | "yearly" | "balance_sheet" | "income_statement",
-        generatedAt: new Date(date),
-        userId: 1 // This will be set by the server
-      };
 
+      // The report carries the snapshot of its figures taken when it was generated
       switch (format) {
         case 'pdf':
-          const doc = await generateReportPdf(report, reportData.data);
+          const doc = await generateReportPdf(report);
           doc.save(`report_${id}.pdf`);
           break;
         case 'excel':
-          exportReportToExcel(report, reportData.data);
+          exportReportToExcel(report);
           break;
         case 'csv':
-          exportReportToCSV(report, reportData.data);
+          exportReportToCSV(report);
           break;
       }
 
@@ -437,48 +522,83 @@ function ReportCard({ title, date, type, id }: { title: string; date: string; ty
           <div className="flex-1">
             <h4 className="font-semibold text-sm text-gray-900">{title}</h4>
             <p className="text-xs text-gray-500 mt-1">Generated on {date}</p>
+            {report.data && (
+              <p className="text-xs text-gray-500">{formatStatementPeriod(report.data)}</p>
+            )}
           </div>
-          <Dialog>
-            <DialogTrigger asChild>
-              <Button variant="ghost" size="sm" className="text-primary hover:text-primary">
-                <Download className="h-4 w-4" />
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-sm">
-              <DialogHeader>
-                <DialogTitle>Download Report</DialogTitle>
-              </DialogHeader>
-              <div className="space-y-4 pt-4">
-                <p>Select format to download {title}</p>
-                <div className="flex justify-between gap-4">
-                  <Button 
-                    className="flex-1" 
-                    variant="outline" 
-                    onClick={() => handleDownload('pdf')}
-                    disabled={isDownloading}
-                  >
-                    {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'PDF'}
-                  </Button>
-                  <Button 
-                    className="flex-1" 
-                    variant="outline"
-                    onClick={() => handleDownload('excel')}
-                    disabled={isDownloading}
-                  >
-                    {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Excel'}
-                  </Button>
-                  <Button 
-                    className="flex-1" 
-                    variant="outline"
-                    onClick={() => handleDownload('csv')}
-                    disabled={isDownloading}
-                  >
-                    {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'CSV'}
-                  </Button>
+          {report.data && (
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-primary hover:text-primary">
+                  <Eye className="h-4 w-4" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>{title}</DialogTitle>
+                </DialogHeader>
+                <p className="text-sm text-gray-500">{formatStatementPeriod(report.data)}</p>
+                <table className="min-w-full text-sm">
+                  <tbody>
+                    {statementToRows(report.data).map(([label, amount], index) => (
+                      <tr
+                        key={index}
+                        className={label.startsWith(" ") ? "" : "font-semibold"}
+                      >
+                        <td className="py-1 whitespace-pre">{label}</td>
+                        <td className="py-1 text-right">
+                          {amount === "" ? "" : formatCurrency(Number(amount), report.data?.currency ?? DEFAULT_BASE_CURRENCY)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </DialogContent>
+            </Dialog>
+          )}
+          {can("reports:export") && (
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="text-primary hover:text-primary">
+                  <Download className="h-4 w-4" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-sm">
+                <DialogHeader>
+                  <DialogTitle>Download Report</DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4 pt-4">
+                  <p>Select format to download {title}</p>
+                  <div className="flex justify-between gap-4">
+                    <Button 
+                      className="flex-1" 
+                      variant="outline" 
+                      onClick={() => handleDownload('pdf')}
+                      disabled={isDownloading}
+                    >
+                      {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'PDF'}
+                    </Button>
+                    <Button 
+                      className="flex-1" 
+                      variant="outline"
+                      onClick={() => handleDownload('excel')}
+                      disabled={isDownloading}
+                    >
+                      {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Excel'}
+                    </Button>
+                    <Button 
+                      className="flex-1" 
+                      variant="outline"
+                      onClick={() => handleDownload('csv')}
+                      disabled={isDownloading}
+                    >
+                      {isDownloading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'CSV'}
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogContent>
+            </Dialog>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -3,8 +3,9 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Sidebar } from "@/components/layout/sidebar";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { User } from "@shared/schema";
+import { CustomRole, MemberRoleData, OrganizationMember, PendingInvitation, getMemberRoleLabel } from "@shared/schema";
 import {
   Loader2,
   UserPlus,
@@ -34,31 +35,33 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { NumberingSettingsCard } from "@/components/settings/numbering-settings";
+import { ExchangeRateSettingsCard } from "@/components/settings/exchange-rate-settings";
+import { TaxSettingsCard } from "@/components/settings/tax-settings";
+import { OrganizationSettingsCard } from "@/components/settings/organization-settings";
+import { MemberRoleSelect, RoleSettingsCard } from "@/components/settings/role-settings";
+
+type NewUserData = MemberRoleData & { name: string; email: string; password: string };
 
 export default function UsersPage() {
   const { user, logoutMutation } = useAuth();
+  const { can } = usePermissions();
   const { toast } = useToast();
   const [isAddUserOpen, setIsAddUserOpen] = useState(false);
   const [isEditUserOpen, setIsEditUserOpen] = useState(false);
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
-  const [newUserData, setNewUserData] = useState({
+  const [selectedUser, setSelectedUser] = useState<OrganizationMember | null>(null);
+  const [newUserData, setNewUserData] = useState<NewUserData>({
     name: "",
     email: "",
     password: "",
     role: "accountant",
+    customRoleId: null,
   });
 
-  // Redirect non-admin users
-  if (user?.role !== "admin") {
+  // Redirect users who can't manage users
+  if (!can("users:manage")) {
     return (
       <div className="min-h-screen bg-gray-50 flex">
         <Sidebar />
@@ -68,7 +71,7 @@ export default function UsersPage() {
               <AlertCircle className="mx-auto h-12 w-12 text-red-500 mb-4" />
               <h1 className="text-2xl font-bold text-gray-800 mb-2">Access Denied</h1>
               <p className="text-gray-600 mb-6">
-                You don't have permission to access this page. This area is restricted to administrators only.
+                You don't have permission to access this page. Your role does not allow you to manage users.
               </p>
               <Button
                 onClick={() => window.location.href = "/"}
@@ -84,26 +87,41 @@ export default function UsersPage() {
   }
 
   // Fetch users
-  const { data: users, isLoading } = useQuery<User[]>({
+  const { data: users, isLoading } = useQuery<OrganizationMember[]>({
     queryKey: ["/api/users"],
   });
 
-  // Create user mutation
+  const { data: roles = [] } = useQuery<CustomRole[]>({
+    queryKey: ["/api/roles"],
+  });
+
+  const { data: invitations = [] } = useQuery<PendingInvitation[]>({
+    queryKey: ["/api/invitations"],
+  });
+
+  // Create user mutation. Someone who already has an account is invited
+  // instead, and joins once they accept.
   const createUserMutation = useMutation({
-    mutationFn: async (userData: typeof newUserData) => {
+    mutationFn: async (userData: NewUserData) => {
       const res = await apiRequest("POST", "/api/admin/users", userData);
-      return await res.json();
+      await res.json();
+      return { invited: res.status === 202 };
     },
-    onSuccess: () => {
+    onSuccess: ({ invited }) => {
       queryClient.invalidateQueries({queryKey: ["/api/users"]});
+      queryClient.invalidateQueries({queryKey: ["/api/invitations"]});
       setIsAddUserOpen(false);
       setNewUserData({
         name: "",
         email: "",
         password: "",
         role: "accountant",
+        customRoleId: null,
       });
-      toast({
+      toast(invited ? {
+        title: "Invitation sent",
+        description: "This email already has an account. They join the organization once they accept.",
+      } : {
         title: "User created",
         description: "New user has been created successfully.",
       });
@@ -119,7 +137,7 @@ export default function UsersPage() {
 
   // Update user mutation
   const updateUserMutation = useMutation({
-    mutationFn: async ({ id, userData }: { id: number; userData: Partial<User> }) => {
+    mutationFn: async ({ id, userData }: { id: number; userData: MemberRoleData }) => {
       const res = await apiRequest("PATCH", `/api/admin/users/${id}`, userData);
       return await res.json();
     },
@@ -141,6 +159,26 @@ export default function UsersPage() {
     },
   });
 
+  const revokeInvitationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/invitations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({queryKey: ["/api/invitations"]});
+      toast({
+        title: "Invitation revoked",
+        description: "The invitation can no longer be accepted.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to revoke invitation: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Delete user mutation
   const deleteUserMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -150,8 +188,8 @@ export default function UsersPage() {
     onSuccess: () => {
       queryClient.invalidateQueries({queryKey: ["/api/users"]});
       toast({
-        title: "User deleted",
-        description: "User has been deleted successfully.",
+        title: "User removed",
+        description: "User has been removed from the organization.",
       });
     },
     onError: (error) => {
@@ -172,11 +210,8 @@ export default function UsersPage() {
     e.preventDefault();
     if (!selectedUser) return;
     
-    const updatedData = {
-      name: selectedUser.name,
-      email: selectedUser.email,
-      role: selectedUser.role,
-    };
+    // Only the role is changed here; users edit their own name and email
+    const updatedData = { role: selectedUser.role, customRoleId: selectedUser.customRoleId };
     
     updateUserMutation.mutate({ id: selectedUser.id, userData: updatedData });
   };
@@ -186,18 +221,18 @@ export default function UsersPage() {
     if (id === user?.id) {
       toast({
         title: "Cannot delete your own account",
-        description: "You cannot delete your own administrator account.",
+        description: "You cannot remove yourself from the organization.",
         variant: "destructive",
       });
       return;
     }
     
-    if (window.confirm("Are you sure you want to delete this user? This action cannot be undone.")) {
+    if (window.confirm("Are you sure you want to remove this user from the organization? Users who belong to no other organization are deleted.")) {
       deleteUserMutation.mutate(id);
     }
   };
 
-  const openEditDialog = (user: User) => {
+  const openEditDialog = (user: OrganizationMember) => {
     setSelectedUser({...user});
     setIsEditUserOpen(true);
   };
@@ -222,7 +257,8 @@ export default function UsersPage() {
                 <DialogHeader>
                   <DialogTitle>Create New User</DialogTitle>
                   <DialogDescription>
-                    Add a new user to the system. All fields are required.
+                    Add a user to this organization. All fields are required. Someone who already has an
+                    account is sent an invitation instead, with the role chosen here, and joins once they accept.
                   </DialogDescription>
                 </DialogHeader>
                 
@@ -262,18 +298,11 @@ export default function UsersPage() {
                     
                     <div className="grid gap-2">
                       <Label htmlFor="role">Role</Label>
-                      <Select
-                        value={newUserData.role}
-                        onValueChange={(value: "admin" | "accountant") => setNewUserData({...newUserData, role: value})}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select role" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="admin">Administrator</SelectItem>
-                          <SelectItem value="accountant">Accountant</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <MemberRoleSelect
+                        id="role"
+                        value={newUserData}
+                        onChange={(role) => setNewUserData({...newUserData, ...role})}
+                      />
                     </div>
                   </div>
                   
@@ -315,6 +344,7 @@ export default function UsersPage() {
                       <TableHead>Name</TableHead>
                       <TableHead>Email</TableHead>
                       <TableHead>Role</TableHead>
+                      <TableHead>Two-Factor</TableHead>
                       <TableHead className="text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -326,10 +356,17 @@ export default function UsersPage() {
                           <TableCell>{user.name}</TableCell>
                           <TableCell>{user.email}</TableCell>
                           <TableCell>
-                            <Badge variant={user.role === "admin" ? "default" : "outline"}>
-                              {user.role === "admin" ? "Administrator" : "Accountant"}
+                            <Badge variant={user.role === "owner" ? "default" : "outline"}>
+                              {getMemberRoleLabel(user, roles)}
                             </Badge>
                           </TableCell>
+                          <TableCell>
+                            {user.twoFactorEnabled ? (
+                              <Badge variant="outline" className="text-green-700 border-green-200">On</Badge>
+                            ) : (
+                              <span className="text-sm text-gray-500">Off</span>
+                            )}
+                          </TableCell>
                           <TableCell className="text-right">
                             <Button 
                               variant="ghost" 
@@ -352,7 +389,7 @@ export default function UsersPage() {
                       ))
                     ) : (
                       <TableRow>
-                        <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                        <TableCell colSpan={6} className="text-center py-8 text-gray-500">
                           No users found.
                         </TableCell>
                       </TableRow>
@@ -362,64 +399,103 @@ export default function UsersPage() {
               )}
             </CardContent>
           </Card>
+          
+          {invitations.length > 0 && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Pending Invitations</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Invited</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invitations.map((invitation) => (
+                      <TableRow key={invitation.id}>
+                        <TableCell>{invitation.name}</TableCell>
+                        <TableCell>{invitation.email}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{getMemberRoleLabel(invitation, roles)}</Badge>
+                        </TableCell>
+                        <TableCell>{new Date(invitation.createdAt).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => revokeInvitationMutation.mutate(invitation.id)}
+                            disabled={revokeInvitationMutation.isPending}
+                            className="text-red-500 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+          
+          <div className="mt-6 grid gap-6 md:grid-cols-2">
+            <RoleSettingsCard />
+            {can("settings:manage") && (
+              <>
+                <OrganizationSettingsCard />
+                <NumberingSettingsCard documentType="invoice" title="Invoice Numbering" />
+                <NumberingSettingsCard documentType="credit_note" title="Credit Note Numbering" />
+                <NumberingSettingsCard documentType="estimate" title="Estimate Numbering" />
+                <ExchangeRateSettingsCard />
+                <TaxSettingsCard />
+              </>
+            )}
+          </div>
         </div>
         
         {/* Edit User Dialog */}
         <Dialog open={isEditUserOpen} onOpenChange={setIsEditUserOpen}>
           <DialogContent className="sm:max-w-[425px]">
             <DialogHeader>
-              <DialogTitle>Edit User</DialogTitle>
+              <DialogTitle>Change Role</DialogTitle>
               <DialogDescription>
-                Update user information.
+                The role applies to this organization only. Users change their own name and email on their profile.
               </DialogDescription>
             </DialogHeader>
             
             {selectedUser && (
               <form onSubmit={handleUpdateUser} className="space-y-4 mt-4">
                 <div className="grid gap-4">
-                  <div className="grid gap-2">
-                    <Label htmlFor="edit-name">Full Name</Label>
-                    <Input
-                      id="edit-name"
-                      value={selectedUser.name}
-                      onChange={(e) => setSelectedUser({...selectedUser, name: e.target.value})}
-                      required
-                    />
+                  <div>
+                    <p className="font-medium">{selectedUser.name}</p>
+                    <p className="text-sm text-gray-500">{selectedUser.email}</p>
                   </div>
                   
-                  <div className="grid gap-2">
-                    <Label htmlFor="edit-email">Email</Label>
-                    <Input
-                      id="edit-email"
-                      type="email"
-                      value={selectedUser.email}
-                      onChange={(e) => setSelectedUser({...selectedUser, email: e.target.value})}
-                      required
-                    />
-                  </div>
-                  
-                  <div className="grid gap-2">
-                    <Label htmlFor="edit-role">Role</Label>
-                    <Select
-                      value={selectedUser.role}
-                      onValueChange={(value: "admin" | "accountant") => setSelectedUser({...selectedUser, role: value})}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select role" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="admin">Administrator</SelectItem>
-                        <SelectItem value="accountant">Accountant</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {selectedUser.id !== user?.id ? (
+                    <div className="grid gap-2">
+                      <Label htmlFor="edit-role">Role</Label>
+                      <MemberRoleSelect
+                        id="edit-role"
+                        value={selectedUser}
+                        onChange={(role) => setSelectedUser({...selectedUser, ...role})}
+                      />
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500">You cannot change your own role.</p>
+                  )}
                 </div>
                 
                 <DialogFooter>
                   <Button 
                     type="submit" 
                     className="w-full"
-                    disabled={updateUserMutation.isPending}
+                    disabled={updateUserMutation.isPending || selectedUser.id === user?.id}
                   >
                     {updateUserMutation.isPending ? (
                       <>
@@ -427,7 +503,7 @@ export default function UsersPage() {
                         Updating...
                       </>
                     ) : (
-                      "Update User"
+                      "Update Role"
                     )}
                   </Button>
                 </DialogFooter>
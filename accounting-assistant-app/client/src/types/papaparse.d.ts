@@ -7,10 +7,14 @@ declare module 'papaparse' {
 
   interface ParseConfig {
     header?: boolean;
+    skipEmptyLines?: boolean;
+    delimiter?: string;
+    transformHeader?: (header: string) => string;
     complete?: (results: ParseResult<any>) => void;
     error?: (error: any) => void;
   }
 
   export function parse(file: File, config: ParseConfig): void;
+  export function parse<T>(input: string, config: ParseConfig): ParseResult<T>;
   export function unparse(data: any[][]): string;
 } 
\ No newline at end of file
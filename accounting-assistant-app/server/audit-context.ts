@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// Who the changes made while handling a request are recorded against in
+// the audit log
+export interface AuditActor {
+  userId: number | null;
+  ipAddress: string | null;
+}
+
+// Scheduled jobs run outside any request and are recorded as the system
+const SYSTEM_ACTOR: AuditActor = { userId: null, ipAddress: null };
+
+const activeActor = new AsyncLocalStorage<AuditActor>();
+
+export function runAsActor<T>(actor: AuditActor, fn: () => T): T {
+  return activeActor.run(actor, fn);
+}
+
+export function getAuditActor(): AuditActor {
+  return activeActor.getStore() ?? SYSTEM_ACTOR;
+}
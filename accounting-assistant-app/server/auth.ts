@@ -5,14 +5,46 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser, loginSchema } from "@shared/schema";
+import { runInOrganization } from "./organization-context";
+import { runAsActor } from "./audit-context";
+import { createTwoFactorSetup, describeLockout, findTotpStep, generateRecoveryCodes, verifyTwoFactor } from "./two-factor";
+import {
+  User as SelectUser,
+  AuthUser,
+  TwoFactorChallenge,
+  TwoFactorRecoveryCodes,
+  getBuiltInRole,
+  getMemberRoleLabel,
+  loginSchema,
+  twoFactorCodeSchema,
+  updateProfileSchema,
+} from "@shared/schema";
 
 declare global {
   namespace Express {
-    interface User extends SelectUser {}
+    interface User extends AuthUser {}
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set between the password and the code when signing in with two-factor
+    // authentication
+    pendingTwoFactorUserId?: number;
+    // Secret being set up, until the user confirms it with a code
+    twoFactorSetupSecret?: string;
+  }
+}
+
+// What members of an organization that requires two-factor authentication
+// can still reach before they have turned it on: their own account, signing
+// out and setting up two-factor authentication
+const isTwoFactorSetupRequest = (method: string, path: string) =>
+  (method === "GET" && path === "/api/user") ||
+  (method === "POST" && path === "/api/logout") ||
+  path === "/api/user/two-factor" ||
+  path.startsWith("/api/user/two-factor/");
+
 const scryptAsync = promisify(scrypt);
 
 export async function hashPassword(password: string) {
@@ -21,6 +53,42 @@ export async function hashPassword(password: string) {
   return `${buf.toString("hex")}.${salt}`;
 }
 
+// The user as the rest of the application sees them: working in their
+// active organization, or the first they belong to when that one is gone,
+// with the role they have there and the permissions it grants. A user who
+// belongs to no organization has none.
+export async function withActiveOrganization(user: SelectUser): Promise<Express.User> {
+  const organizations = await storage.getUserOrganizations(user.id);
+  const active = organizations.find(organization => organization.id === user.activeOrganizationId) ?? organizations[0];
+  const twoFactorEnabled = !!(await storage.getTwoFactorCredential(user.id));
+  if (!active) {
+    return {
+      ...user,
+      activeOrganizationId: null,
+      role: "viewer",
+      customRoleId: null,
+      roleName: "No organization",
+      permissions: [],
+      twoFactorEnabled,
+      twoFactorRequired: false,
+    };
+  }
+  
+  const customRole = active.customRoleId
+    ? await runInOrganization(active.id, () => storage.getCustomRole(active.customRoleId!))
+    : undefined;
+  return {
+    ...user,
+    activeOrganizationId: active.id,
+    role: active.role,
+    customRoleId: active.customRoleId,
+    roleName: getMemberRoleLabel(active, customRole ? [customRole] : []),
+    permissions: customRole?.permissions ?? getBuiltInRole(active.role)?.permissions ?? [],
+    twoFactorEnabled,
+    twoFactorRequired: active.requireTwoFactor,
+  };
+}
+
 async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
@@ -47,6 +115,35 @@ export function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Everything a signed-in user reads or writes is in their active organization
+  app.use((req, _res, next) => {
+    const organizationId = req.user?.activeOrganizationId;
+    if (organizationId) {
+      return runInOrganization(organizationId, next);
+    }
+    next();
+  });
+
+  // Changes are recorded in the audit log against the signed-in user and the
+  // address their request came from
+  app.use((req, _res, next) => {
+    runAsActor({ userId: req.user?.id ?? null, ipAddress: req.ip ?? null }, next);
+  });
+
+  // Organizations that require two-factor authentication are closed to
+  // members who have not turned it on, whatever the route
+  app.use("/api", (req, res, next) => {
+    if (
+      req.isAuthenticated() &&
+      req.user.twoFactorRequired &&
+      !req.user.twoFactorEnabled &&
+      !isTwoFactorSetupRequest(req.method, req.originalUrl.split("?")[0])
+    ) {
+      return res.status(403).json({ message: "This organization requires two-factor authentication. Turn it on in your profile to continue." });
+    }
+    next();
+  });
+
   passport.use(
     new LocalStrategy(
       {
@@ -59,7 +156,7 @@ export function setupAuth(app: Express) {
           if (!user || !(await comparePasswords(password, user.password))) {
             return done(null, false, { message: "Invalid email or password" });
           }
-          return done(null, user);
+          return done(null, await withActiveOrganization(user));
         } catch (error) {
           return done(error);
         }
@@ -71,7 +168,7 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      done(null, user && await withActiveOrganization(user));
     } catch (error) {
       done(error);
     }
@@ -84,11 +181,20 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ message: "Email already registered" });
       }
 
-      const hashedPassword = await hashPassword(req.body.password);
-      const user = await storage.createUser({
-        ...req.body,
+      const { organizationName, ...userData } = req.body;
+      const hashedPassword = await hashPassword(userData.password);
+      const newUser = await storage.createUser({
+        ...userData,
         password: hashedPassword,
       });
+      
+      // Registering starts a new organization, owned by the new user
+      await storage.createOrganization({
+        name: typeof organizationName === "string" && organizationName.trim()
+          ? organizationName.trim()
+          : `${newUser.name}'s Organization`,
+      }, newUser.id);
+      const user = await withActiveOrganization(newUser);
 
       // Remove password from response
       const { password, ...userResponse } = user;
@@ -110,12 +216,20 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ message: "Invalid email or password format" });
       }
 
-      passport.authenticate("local", (err: any, user: SelectUser | false, info: any) => {
+      passport.authenticate("local", (err: any, user: Express.User | false, info: any) => {
         if (err) return next(err);
         if (!user) {
           return res.status(401).json({ message: info?.message || "Invalid credentials" });
         }
 
+        // Users with two-factor authentication are signed in once they have
+        // also entered a code
+        if (user.twoFactorEnabled) {
+          req.session.pendingTwoFactorUserId = user.id;
+          const challenge: TwoFactorChallenge = { codeRequired: true };
+          return res.status(200).json(challenge);
+        }
+
         req.login(user, (err) => {
           if (err) return next(err);
           // Remove password from response
@@ -128,6 +242,50 @@ export function setupAuth(app: Express) {
     }
   });
 
+  // Second login step: a code from the authenticator app, or a recovery code
+  app.post("/api/login/two-factor", async (req, res, next) => {
+    try {
+      const userId = req.session.pendingTwoFactorUserId;
+      if (!userId) {
+        return res.status(401).json({ message: "Sign in with your email and password first" });
+      }
+
+      const parsedCode = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsedCode.success) {
+        return res.status(400).json({
+          message: "Invalid code",
+          errors: parsedCode.error.errors
+        });
+      }
+
+      // Wrong codes are counted against the user, not the session, so
+      // signing in again does not allow more guesses
+      const verification = await verifyTwoFactor(userId, parsedCode.data);
+      if (verification.lockedUntil) {
+        return res.status(429).json({ message: describeLockout(verification.lockedUntil) });
+      }
+      if (!verification.valid) {
+        return res.status(401).json({ message: "Invalid code" });
+      }
+
+      const found = await storage.getUser(userId);
+      if (!found) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      delete req.session.pendingTwoFactorUserId;
+      const user = await withActiveOrganization(found);
+      req.login(user, (err) => {
+        if (err) return next(err);
+        // Remove password from response
+        const { password, ...userResponse } = user;
+        res.status(200).json(userResponse);
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
@@ -145,8 +303,148 @@ export function setupAuth(app: Express) {
     }
     
     // Remove sensitive information
-    const { password, ...userWithoutPassword } = req.user as SelectUser;
+    const { password, ...userWithoutPassword } = req.user;
     
     res.json(userWithoutPassword);
   });
+
+  // Users change their own name and email. Administrators of their
+  // organizations can only change the role they have there.
+  app.patch("/api/user", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const parsedData = updateProfileSchema.safeParse(req.body);
+      if (!parsedData.success) {
+        return res.status(400).json({
+          message: "Invalid profile data",
+          errors: parsedData.error.errors
+        });
+      }
+
+      if (parsedData.data.email && parsedData.data.email !== req.user.email) {
+        const existingUser = await storage.getUserByEmail(parsedData.data.email);
+        if (existingUser) {
+          return res.status(409).json({ message: "Email already registered" });
+        }
+      }
+
+      const updated = await storage.updateUser(req.user.id, parsedData.data);
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Remove sensitive information
+      const { password, ...userWithoutPassword } = await withActiveOrganization(updated);
+      res.json(userWithoutPassword);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Two-factor authentication for the signed-in user. A new secret is set up
+  // first and only turned on once the user has entered a code from it.
+  app.post("/api/user/two-factor/setup", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const setup = await createTwoFactorSetup(req.user.email);
+      req.session.twoFactorSetupSecret = setup.secret;
+      res.json(setup);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/user/two-factor/enable", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const secret = req.session.twoFactorSetupSecret;
+      if (!secret) {
+        return res.status(400).json({ message: "Set up your authenticator app first" });
+      }
+
+      const parsedCode = twoFactorCodeSchema.safeParse(req.body);
+      const step = parsedCode.success && parsedCode.data.code ? findTotpStep(secret, parsedCode.data.code) : null;
+      if (step === null) {
+        return res.status(400).json({ message: "The code does not match. Check the time on your device and try again." });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.enableTwoFactor(req.user.id, secret, hashes, step);
+      delete req.session.twoFactorSetupSecret;
+
+      const result: TwoFactorRecoveryCodes = { recoveryCodes: codes };
+      res.status(201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // New recovery codes replace any left over
+  app.post("/api/user/two-factor/recovery-codes", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const parsedCode = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsedCode.success) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      const verification = await verifyTwoFactor(req.user.id, parsedCode.data);
+      if (verification.lockedUntil) {
+        return res.status(429).json({ message: describeLockout(verification.lockedUntil) });
+      }
+      if (!verification.valid) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.replaceTwoFactorRecoveryCodes(req.user.id, hashes);
+
+      const result: TwoFactorRecoveryCodes = { recoveryCodes: codes };
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/user/two-factor", async (req, res, next) => {
+    try {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      if (req.user.twoFactorRequired) {
+        return res.status(400).json({ message: "Your organization requires two-factor authentication" });
+      }
+
+      const parsedCode = twoFactorCodeSchema.safeParse(req.body);
+      if (!parsedCode.success) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      const verification = await verifyTwoFactor(req.user.id, parsedCode.data);
+      if (verification.lockedUntil) {
+        return res.status(429).json({ message: describeLockout(verification.lockedUntil) });
+      }
+      if (!verification.valid) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      await storage.disableTwoFactor(req.user.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
 }
@@ -0,0 +1,453 @@
+import { createHash } from "crypto";
+import * as Papa from "papaparse";
+import { storage } from "./storage";
+import { getLockedThrough, isLocked } from "./reconciliation-service";
+import { applyBankRules } from "./bank-rules";
+import {
+  BankAccount,
+  BankCsvMapping,
+  BankImportResult,
+  BankStatementFormat,
+  InsertBankTransaction,
+} from "@shared/schema";
+
+// Thrown when a statement file cannot be read in the given format
+export class StatementParseError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementParseError";
+  }
+}
+
+// A transaction as read from a statement, before it is tied to an account
+export interface ParsedBankTransaction {
+  date: string; // YYYY-MM-DD
+  amount: number; // Money in is positive, money out negative
+  description: string;
+  payee: string | null;
+  reference: string | null;
+  fitId: string | null; // The statement's own transaction ID, when it has one
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Read an amount written with the given decimal separator. Currency
+// symbols, spaces and thousands separators are ignored, and amounts in
+// parentheses are negative.
+const parseAmount = (raw: string, decimalSeparator: "." | "," = "."): number | null => {
+  let text = raw.trim();
+  const negative = /^\(.*\)$/.test(text);
+  const thousands = decimalSeparator === "." ? /,/g : /\./g;
+
+  text = text.replace(/[()\s]/g, "").replace(thousands, "");
+  if (decimalSeparator === ",") {
+    text = text.replace(",", ".");
+  }
+  text = text.replace(/[^0-9.+-]/g, "");
+
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(text)) {
+    return null;
+  }
+
+  const amount = Math.round(Number(text) * 100) / 100;
+  return negative ? -Math.abs(amount) : amount;
+};
+
+// Two-digit years are read as 19xx from 70 on and 20xx below
+const expandYear = (year: number) => (year >= 100 ? year : year >= 70 ? 1900 + year : 2000 + year);
+
+// The XML entities that appear in OFX and CAMT text
+const decodeEntities = (text: string): string => {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+};
+
+const clean = (text: string | null | undefined): string | null => {
+  const value = text ? decodeEntities(text).replace(/\s+/g, " ").trim() : "";
+  return value || null;
+};
+
+// OFX and QFX. Version 1 files are SGML where leaf elements have no closing
+// tag and version 2 files are XML; reading each leaf up to the next tag or
+// line break handles both.
+export function parseOfx(text: string): ParsedBankTransaction[] {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi);
+  if (!blocks) {
+    throw new StatementParseError("No transactions were found in the OFX file");
+  }
+
+  return blocks.map((block, index) => {
+    const field = (tag: string) => {
+      const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+      return clean(match?.[1]);
+    };
+
+    // DTPOSTED is YYYYMMDD, optionally followed by a time and timezone
+    const posted = field("DTPOSTED")?.match(/^(\d{4})(\d{2})(\d{2})/);
+    const date = posted && toIsoDate(Number(posted[1]), Number(posted[2]), Number(posted[3]));
+    const amountText = field("TRNAMT");
+    const amount = amountText === null ? null : parseAmount(amountText, amountText.includes(",") && !amountText.includes(".") ? "," : ".");
+
+    if (!date || amount === null) {
+      throw new StatementParseError(`Transaction ${index + 1} in the OFX file has no valid date or amount`);
+    }
+
+    const name = field("NAME");
+    const memo = field("MEMO");
+
+    return {
+      date,
+      amount,
+      description: name || memo || field("TRNTYPE") || "Bank transaction",
+      payee: name,
+      reference: field("CHECKNUM") || field("REFNUM"),
+      fitId: field("FITID"),
+    };
+  });
+}
+
+// QIF dates come in many shapes: 1/5/2024, 01/05'24, 1-5-24 and so on.
+// Month first is assumed unless the first part cannot be a month.
+const parseQifDate = (raw: string): string | null => {
+  const parts = raw.replace(/\s/g, "").split(/[/'.-]/).map(Number);
+  if (parts.length !== 3 || parts.some(part => !Number.isInteger(part))) {
+    return null;
+  }
+
+  if (raw.match(/^\d{4}/)) {
+    return toIsoDate(parts[0], parts[1], parts[2]);
+  }
+
+  const [first, second, year] = parts;
+  return first > 12
+    ? toIsoDate(expandYear(year), second, first)
+    : toIsoDate(expandYear(year), first, second);
+};
+
+// QIF bank register. Each record is a set of lines keyed by their first
+// character and ends with "^". QIF has no transaction IDs.
+export function parseQif(text: string): ParsedBankTransaction[] {
+  const transactions: ParsedBankTransaction[] = [];
+  let record: Record<string, string> = {};
+
+  const finishRecord = () => {
+    if (Object.keys(record).length === 0) {
+      return;
+    }
+
+    const date = record.D ? parseQifDate(record.D) : null;
+    const amountText = record.T ?? record.U;
+    const amount = amountText === undefined ? null : parseAmount(amountText);
+
+    if (!date || amount === null) {
+      throw new StatementParseError(`Transaction ${transactions.length + 1} in the QIF file has no valid date or amount`);
+    }
+
+    const payee = clean(record.P);
+    const memo = clean(record.M);
+
+    transactions.push({
+      date,
+      amount,
+      description: payee || memo || "Bank transaction",
+      payee,
+      reference: clean(record.N),
+      fitId: null,
+    });
+    record = {};
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.startsWith("!")) {
+      continue; // Header such as !Type:Bank
+    }
+    if (line.startsWith("^")) {
+      finishRecord();
+      continue;
+    }
+
+    const code = line.charAt(0);
+    // Only the first line of each code is kept; split lines (S, E, $) are ignored
+    if (code && !(code in record)) {
+      record[code] = line.slice(1);
+    }
+  }
+  finishRecord();
+
+  if (transactions.length === 0) {
+    throw new StatementParseError("No transactions were found in the QIF file");
+  }
+  return transactions;
+}
+
+// Elements of the given name, with or without a namespace prefix
+const xmlElements = (xml: string, tag: string): string[] => {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, "g");
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+};
+
+const xmlText = (xml: string | undefined, tag: string): string | null => {
+  return xml === undefined ? null : clean(xmlElements(xml, tag)[0]);
+};
+
+// ISO 20022 CAMT.053 bank-to-customer statement. Each booked entry (Ntry)
+// becomes a transaction; its account servicer reference is the bank's ID
+// for the entry.
+export function parseCamt053(text: string): ParsedBankTransaction[] {
+  if (!/<(?:[\w-]+:)?BkToCstmrStmt[\s>]/.test(text)) {
+    throw new StatementParseError("The file is not a CAMT.053 statement");
+  }
+
+  const entries = xmlElements(text, "Ntry");
+  if (entries.length === 0) {
+    throw new StatementParseError("No entries were found in the CAMT.053 statement");
+  }
+
+  return entries.map((entry, index) => {
+    const booked = xmlText(xmlElements(entry, "BookgDt")[0], "Dt")
+      ?? xmlText(xmlElements(entry, "BookgDt")[0], "DtTm")
+      ?? xmlText(xmlElements(entry, "ValDt")[0], "Dt");
+    const dateMatch = booked?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    const date = dateMatch && toIsoDate(Number(dateMatch[1]), Number(dateMatch[2]), Number(dateMatch[3]));
+
+    // The entry amount is unsigned; the credit/debit indicator gives the direction
+    const amountText = xmlText(entry, "Amt");
+    const amount = amountText === null ? null : parseAmount(amountText);
+    const direction = xmlText(entry, "CdtDbtInd");
+
+    if (!date || amount === null || (direction !== "CRDT" && direction !== "DBIT")) {
+      throw new StatementParseError(`Entry ${index + 1} in the CAMT.053 statement has no valid date, amount or direction`);
+    }
+
+    // The counterparty is the creditor of money going out and the debtor of money coming in
+    const party = xmlElements(entry, direction === "DBIT" ? "Cdtr" : "Dbtr")[0];
+    const payee = xmlText(party, "Nm");
+    const remittance = xmlElements(entry, "Ustrd").map(clean).filter(Boolean).join(" ");
+    const refs = xmlElements(entry, "Refs")[0];
+    const endToEndId = xmlText(refs, "EndToEndId");
+
+    return {
+      date,
+      amount: direction === "DBIT" ? -Math.abs(amount) : Math.abs(amount),
+      description: remittance || xmlText(entry, "AddtlNtryInf") || payee || "Bank transaction",
+      payee,
+      reference: endToEndId && endToEndId !== "NOTPROVIDED" ? endToEndId : xmlText(entry, "NtryRef"),
+      fitId: xmlText(entry, "AcctSvcrRef"),
+    };
+  });
+}
+
+const parseCsvDate = (raw: string, format: BankCsvMapping["dateFormat"]): string | null => {
+  const parts = raw.trim().split(/[/.-]/).map(Number);
+  if (parts.length !== 3 || parts.some(part => !Number.isInteger(part))) {
+    return null;
+  }
+
+  switch (format) {
+    case "YYYY-MM-DD":
+      return toIsoDate(parts[0], parts[1], parts[2]);
+    case "MM/DD/YYYY":
+      return toIsoDate(expandYear(parts[2]), parts[0], parts[1]);
+    case "DD/MM/YYYY":
+      return toIsoDate(expandYear(parts[2]), parts[1], parts[0]);
+  }
+};
+
+// CSV exports differ from bank to bank, so the columns come from the bank
+// account's CSV mapping. Rows without a date are skipped as blank or summary
+// lines.
+export function parseBankCsv(text: string, mapping: BankCsvMapping): ParsedBankTransaction[] {
+  const result = Papa.parse<Record<string, string>>(text.replace(/^\uFEFF/, ""), {
+    header: true,
+    skipEmptyLines: true,
+    delimiter: mapping.delimiter || undefined,
+    transformHeader: (header: string) => header.trim(),
+  });
+
+  const headers: string[] = result.meta.fields ?? [];
+  const columns = [
+    mapping.dateColumn,
+    mapping.descriptionColumn,
+    mapping.amountColumn,
+    mapping.debitColumn,
+    mapping.creditColumn,
+    mapping.payeeColumn,
+    mapping.referenceColumn,
+  ].filter((column): column is string => !!column);
+  const missing = columns.filter(column => !headers.includes(column));
+
+  if (missing.length > 0) {
+    throw new StatementParseError(`The CSV file has no column named ${missing.map(column => `"${column}"`).join(", ")}`);
+  }
+
+  const transactions: ParsedBankTransaction[] = [];
+
+  result.data.forEach((row, index) => {
+    const cell = (column?: string) => (column ? (row[column] ?? "").trim() : "");
+    const dateText = cell(mapping.dateColumn);
+    if (!dateText) {
+      return;
+    }
+
+    // Row numbers count the header as line 1
+    const line = index + 2;
+    const date = parseCsvDate(dateText, mapping.dateFormat);
+    if (!date) {
+      throw new StatementParseError(`Line ${line} of the CSV file has a date that is not ${mapping.dateFormat}: "${dateText}"`);
+    }
+
+    let amount: number | null;
+    if (mapping.amountColumn) {
+      amount = parseAmount(cell(mapping.amountColumn), mapping.decimalSeparator);
+    } else {
+      // Debits are money out whichever sign the bank writes them with
+      const debit = cell(mapping.debitColumn) ? parseAmount(cell(mapping.debitColumn), mapping.decimalSeparator) : 0;
+      const credit = cell(mapping.creditColumn) ? parseAmount(cell(mapping.creditColumn), mapping.decimalSeparator) : 0;
+      amount = debit === null || credit === null
+        ? null
+        : Math.round((Math.abs(credit) - Math.abs(debit)) * 100) / 100;
+    }
+
+    if (amount === null) {
+      throw new StatementParseError(`Line ${line} of the CSV file has no valid amount`);
+    }
+
+    const payee = cell(mapping.payeeColumn) || null;
+
+    transactions.push({
+      date,
+      amount,
+      description: cell(mapping.descriptionColumn) || payee || "Bank transaction",
+      payee,
+      reference: cell(mapping.referenceColumn) || null,
+      fitId: null,
+    });
+  });
+
+  if (transactions.length === 0) {
+    throw new StatementParseError("No transactions were found in the CSV file");
+  }
+  return transactions;
+}
+
+// Work out the format of a statement from its file name, or from its
+// content when the extension does not say
+export function detectStatementFormat(fileName: string, text: string): BankStatementFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  if (extension === "ofx" || extension === "qfx" || /<OFX>/i.test(text)) {
+    return "ofx";
+  }
+  if (extension === "qif" || /^!Type:/im.test(text)) {
+    return "qif";
+  }
+  if (/BkToCstmrStmt/.test(text)) {
+    return "camt053";
+  }
+  if (extension === "csv" || extension === "txt") {
+    return "csv";
+  }
+  return null;
+}
+
+export function parseStatement(
+  format: BankStatementFormat,
+  text: string,
+  csvMapping?: BankCsvMapping | null
+): ParsedBankTransaction[] {
+  switch (format) {
+    case "ofx":
+      return parseOfx(text);
+    case "qif":
+      return parseQif(text);
+    case "camt053":
+      return parseCamt053(text);
+    case "csv":
+      if (!csvMapping) {
+        throw new StatementParseError("Set up the CSV column mapping of this bank account before importing CSV files");
+      }
+      return parseBankCsv(text, csvMapping);
+  }
+}
+
+// The ID a transaction is de-duplicated by. Transactions without a statement
+// ID are hashed; identical transactions on the same day (two equal card
+// payments, say) are told apart by how many came before them in the file,
+// which stays the same when an overlapping statement is imported again.
+const assignImportIds = (transactions: ParsedBankTransaction[]): string[] => {
+  const occurrences = new Map<string, number>();
+
+  return transactions.map(transaction => {
+    if (transaction.fitId) {
+      return `fitid:${transaction.fitId}`;
+    }
+
+    const key = [
+      transaction.date,
+      transaction.amount.toFixed(2),
+      transaction.description.toLowerCase(),
+      transaction.reference ?? "",
+    ].join("|");
+    const occurrence = occurrences.get(key) ?? 0;
+    occurrences.set(key, occurrence + 1);
+
+    return `hash:${createHash("sha256").update(`${key}|${occurrence}`).digest("hex")}`;
+  });
+};
+
+// Parse a statement file and load its transactions into a bank account.
+// Transactions already loaded by an earlier import are skipped, and so are
+// transactions dated in a period that has already been reconciled. The
+// bank rules of the account's owner categorize the new transactions.
+export async function importStatement(
+  account: BankAccount,
+  format: BankStatementFormat,
+  text: string
+): Promise<BankImportResult> {
+  const lockedThrough = await getLockedThrough(account.id);
+  const parsed = parseStatement(format, text, account.csvMapping);
+  const importIds = assignImportIds(parsed);
+
+  const rows: InsertBankTransaction[] = parsed.map((transaction, index) => ({
+    bankAccountId: account.id,
+    date: transaction.date,
+    amount: transaction.amount.toFixed(2),
+    description: transaction.description,
+    payee: transaction.payee,
+    reference: transaction.reference,
+    importId: importIds[index],
+    source: format,
+    userId: account.userId,
+  }));
+
+  // The same ID twice in one file (a repeated FITID) is loaded once
+  const unique = rows.filter((row, index) => importIds.indexOf(row.importId) === index);
+  const rules = await storage.getBankRules(account.userId);
+  const open = unique
+    .filter(row => !isLocked(row.date, lockedThrough))
+    .map(row => applyBankRules(rules, row));
+  const imported = await storage.importBankTransactions(open);
+  const locked = unique.length - open.length;
+
+  return {
+    format,
+    imported: imported.length,
+    skipped: parsed.length - imported.length - locked,
+    locked,
+  };
+}
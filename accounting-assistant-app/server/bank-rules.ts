@@ -0,0 +1,116 @@
+import { storage } from "./storage";
+import {
+  BankRule,
+  BankRuleTestResult,
+  BankTransaction,
+  InsertBankRule,
+  InsertBankTransaction,
+} from "@shared/schema";
+
+type RuleConditions = Pick<BankRule, "bankAccountId" | "descriptionContains" | "amountMin" | "amountMax">;
+type RuleTarget = Pick<BankTransaction, "bankAccountId" | "description" | "payee" | "amount">;
+
+// How many matching transactions a rule test returns
+const TEST_SAMPLE_SIZE = 20;
+
+// Why a rule cannot be saved, or null when it can. A rule needs at least
+// one condition, so it never matches every transaction, and something to
+// set. Its bank account and vendor must belong to the rule's owner.
+export async function validateBankRule(rule: InsertBankRule): Promise<string | null> {
+  const hasAmountMin = rule.amountMin !== null && rule.amountMin !== undefined;
+  const hasAmountMax = rule.amountMax !== null && rule.amountMax !== undefined;
+
+  if (!rule.descriptionContains?.trim() && !hasAmountMin && !hasAmountMax) {
+    return "A rule needs a description or amount condition";
+  }
+  if (hasAmountMin && hasAmountMax && Number(rule.amountMin) > Number(rule.amountMax)) {
+    return "The minimum amount is larger than the maximum amount";
+  }
+  if (!rule.category && !rule.vendorId) {
+    return "A rule needs a category or vendor to set";
+  }
+
+  if (rule.bankAccountId) {
+    const bankAccount = await storage.getBankAccount(rule.bankAccountId);
+    if (!bankAccount || bankAccount.userId !== rule.userId) {
+      return "Bank account not found";
+    }
+  }
+  if (rule.vendorId) {
+    const vendor = await storage.getVendor(rule.vendorId);
+    if (!vendor || vendor.userId !== rule.userId) {
+      return "Vendor not found";
+    }
+  }
+  return null;
+}
+
+// The text is looked for in the payee as well, since some banks put the
+// counterparty there rather than in the description
+export const bankRuleMatches = (rule: RuleConditions, transaction: RuleTarget): boolean => {
+  if (rule.bankAccountId !== null && rule.bankAccountId !== transaction.bankAccountId) {
+    return false;
+  }
+
+  const text = rule.descriptionContains?.trim().toLowerCase();
+  if (text && ![transaction.description, transaction.payee].some(value => value?.toLowerCase().includes(text))) {
+    return false;
+  }
+
+  const amount = Number(transaction.amount);
+  if (rule.amountMin !== null && amount < Number(rule.amountMin)) {
+    return false;
+  }
+  if (rule.amountMax !== null && amount > Number(rule.amountMax)) {
+    return false;
+  }
+  return true;
+};
+
+// The first active rule a transaction matches. The rules must be in the
+// order storage returns them.
+export const findBankRule = (rules: BankRule[], transaction: RuleTarget): BankRule | undefined => {
+  return rules.find(rule => rule.active && bankRuleMatches(rule, transaction));
+};
+
+// Categorize a transaction about to be stored. Transactions no rule matches
+// are left as they are.
+export const applyBankRules = (rules: BankRule[], transaction: InsertBankTransaction): InsertBankTransaction => {
+  const rule = findBankRule(rules, { ...transaction, payee: transaction.payee ?? null });
+  if (!rule) {
+    return transaction;
+  }
+
+  return { ...transaction, category: rule.category, vendorId: rule.vendorId, ruleId: rule.id };
+};
+
+// Run a rule, saved or not, over the owner's past transactions. When the
+// rule is an edit of a saved one, its ID places it among the other rules:
+// at equal priority the older rule goes first, and a new rule goes last.
+export async function testBankRule(rule: InsertBankRule, ruleId?: number): Promise<BankRuleTestResult> {
+  const [transactions, rules] = await Promise.all([
+    storage.getBankTransactionsByUser(rule.userId),
+    storage.getBankRules(rule.userId),
+  ]);
+
+  const priority = rule.priority ?? 0;
+  const earlierRules = rules.filter(other => (
+    other.id !== ruleId &&
+    other.active &&
+    (other.priority < priority || (other.priority === priority && (ruleId === undefined || other.id < ruleId)))
+  ));
+
+  const conditions: RuleConditions = {
+    bankAccountId: rule.bankAccountId ?? null,
+    descriptionContains: rule.descriptionContains ?? null,
+    amountMin: rule.amountMin ?? null,
+    amountMax: rule.amountMax ?? null,
+  };
+  const matches = transactions.filter(transaction => bankRuleMatches(conditions, transaction));
+
+  return {
+    matchCount: matches.length,
+    takenByEarlierRules: matches.filter(transaction => findBankRule(earlierRules, transaction)).length,
+    transactions: matches.slice(0, TEST_SAMPLE_SIZE),
+  };
+}
@@ -1,5 +1,5 @@
 import { MailService } from '@sendgrid/mail';
-import { Invoice, Payment, User, Report } from '@shared/schema';
+import { Invoice, Payment, User, Report, Estimate, getInvoiceDueDate, getInvoiceNumber, getPaymentMethodLabel } from '@shared/schema';
 
 // Check SendGrid configuration on startup
 if (!process.env.SENDGRID_API_KEY) {
@@ -67,6 +67,9 @@ export const sendEmail = async (options: EmailOptions): Promise<boolean> => {
 };
 
 // Format currency for email
+// The user emails are sent on behalf of
+export type Sender = Pick<User, "name" | "email">;
+
 const formatCurrency = (amount: number | string): string => {
   return `$${Number(amount).toFixed(2)}`;
 };
@@ -74,22 +77,23 @@ const formatCurrency = (amount: number | string): string => {
 // Send invoice notification to client
 export const sendInvoiceNotification = async (
   invoice: Invoice, 
-  user: User, 
+  user: Sender, 
   clientEmail: string,
   pdfBuffer?: Buffer
 ): Promise<boolean> => {
-  const subject = `Invoice #${invoice.id} from ${user.name}`;
+  const subject = `Invoice ${getInvoiceNumber(invoice)} from ${user.name}`;
   
   const text = `
     Dear ${invoice.clientName},
     
-    Please find attached your invoice #${invoice.id}.
+    Please find attached your invoice ${getInvoiceNumber(invoice)}.
     
     Invoice Details:
-    - Invoice #: ${invoice.id}
+    - Invoice Number: ${getInvoiceNumber(invoice)}
     - Title: ${invoice.title}
     - Amount: ${formatCurrency(invoice.amount)}
     - Date: ${new Date(invoice.date).toLocaleDateString()}
+    - Due Date: ${new Date(getInvoiceDueDate(invoice)).toLocaleDateString()}
     - Status: ${invoice.status}
     
     Thank you for your trust.
@@ -103,14 +107,15 @@ export const sendInvoiceNotification = async (
       <h2>Invoice Notification</h2>
       <p>Dear ${invoice.clientName},</p>
       
-      <p>Please find attached your invoice #${invoice.id}.</p>
+      <p>Please find attached your invoice ${getInvoiceNumber(invoice)}.</p>
       
       <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
         <h3 style="margin-top: 0;">Invoice Details:</h3>
-        <p><strong>Invoice #:</strong> ${invoice.id}</p>
+        <p><strong>Invoice Number:</strong> ${getInvoiceNumber(invoice)}</p>
         <p><strong>Title:</strong> ${invoice.title}</p>
         <p><strong>Amount:</strong> ${formatCurrency(invoice.amount)}</p>
         <p><strong>Date:</strong> ${new Date(invoice.date).toLocaleDateString()}</p>
+        <p><strong>Due Date:</strong> ${new Date(getInvoiceDueDate(invoice)).toLocaleDateString()}</p>
         <p><strong>Status:</strong> <span style="text-transform: capitalize;">${invoice.status}</span></p>
       </div>
       
@@ -125,7 +130,76 @@ export const sendInvoiceNotification = async (
   
   const attachments = pdfBuffer ? [{
     content: pdfBuffer.toString('base64'),
-    filename: `invoice_${invoice.id}.pdf`,
+    filename: `invoice_${invoice.number ?? invoice.id}.pdf`,
+    type: 'application/pdf',
+    disposition: 'attachment'
+  }] : undefined;
+  
+  return sendEmail({
+    to: clientEmail,
+    subject,
+    text,
+    html,
+    attachments
+  });
+};
+
+// Send estimate to client
+export const sendEstimateNotification = async (
+  estimate: Estimate,
+  user: Sender,
+  clientEmail: string,
+  pdfBuffer?: Buffer
+): Promise<boolean> => {
+  const subject = `Estimate ${estimate.number} from ${user.name}`;
+  const validUntil = estimate.expiryDate ? new Date(estimate.expiryDate).toLocaleDateString() : null;
+  
+  const text = `
+    Dear ${estimate.clientName},
+    
+    Please find attached our estimate ${estimate.number}.
+    
+    Estimate Details:
+    - Estimate Number: ${estimate.number}
+    - Title: ${estimate.title}
+    - Amount: ${formatCurrency(estimate.amount)}
+    - Date: ${new Date(estimate.date).toLocaleDateString()}${validUntil ? `
+    - Valid Until: ${validUntil}` : ''}
+    
+    Please let us know if you would like to proceed.
+    
+    Best regards,
+    ${user.name}
+  `;
+  
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2>Estimate</h2>
+      <p>Dear ${estimate.clientName},</p>
+      
+      <p>Please find attached our estimate ${estimate.number}.</p>
+      
+      <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+        <h3 style="margin-top: 0;">Estimate Details:</h3>
+        <p><strong>Estimate Number:</strong> ${estimate.number}</p>
+        <p><strong>Title:</strong> ${estimate.title}</p>
+        <p><strong>Amount:</strong> ${formatCurrency(estimate.amount)}</p>
+        <p><strong>Date:</strong> ${new Date(estimate.date).toLocaleDateString()}</p>
+        ${validUntil ? `<p><strong>Valid Until:</strong> ${validUntil}</p>` : ''}
+      </div>
+      
+      <p>Please let us know if you would like to proceed.</p>
+      
+      <p>Best regards,<br>${user.name}</p>
+      
+      <hr style="margin: 20px 0;">
+      <p style="font-size: 12px; color: #777;">This is an automated email. Please do not reply to this message.</p>
+    </div>
+  `;
+  
+  const attachments = pdfBuffer ? [{
+    content: pdfBuffer.toString('base64'),
+    filename: `estimate_${estimate.number}.pdf`,
     type: 'application/pdf',
     disposition: 'attachment'
   }] : undefined;
@@ -139,25 +213,34 @@ export const sendInvoiceNotification = async (
   });
 };
 
-// Send payment receipt to client
+// Send payment receipt to client. Refunds get a receipt for the money
+// returned instead.
 export const sendPaymentReceiptNotification = async (
   payment: Payment,
   invoice: Invoice,
-  user: User,
+  user: Sender,
   clientEmail: string
 ): Promise<boolean> => {
-  const subject = `Payment Receipt for Invoice #${invoice.id}`;
+  const isRefund = payment.type === "refund";
+  const label = isRefund ? "Refund" : "Payment";
+  const subject = `${label} Receipt for Invoice ${getInvoiceNumber(invoice)}`;
+  const intro = isRefund
+    ? "We have issued you a refund. This email serves as a receipt for the refund."
+    : "Thank you for your payment. This email serves as a receipt for your recent payment.";
+  const method = getPaymentMethodLabel(payment.method);
   
   const text = `
     Dear ${invoice.clientName},
     
-    Thank you for your payment. This email serves as a receipt for your recent payment.
+    ${intro}
     
-    Payment Details:
-    - Payment #: ${payment.id}
-    - Invoice #: ${invoice.id}
-    - Amount Paid: ${formatCurrency(payment.amount)}
-    - Date Paid: ${new Date(payment.date).toLocaleDateString()}
+    ${label} Details:
+    - ${label} #: ${payment.id}
+    - Invoice Number: ${getInvoiceNumber(invoice)}
+    - Amount ${isRefund ? "Refunded" : "Paid"}: ${formatCurrency(payment.amount)}
+    - Date ${isRefund ? "Refunded" : "Paid"}: ${new Date(payment.date).toLocaleDateString()}
+    - Method: ${method}${payment.reference ? `
+    - Reference: ${payment.reference}` : ""}
     
     Invoice Details:
     - Title: ${invoice.title}
@@ -173,17 +256,19 @@ export const sendPaymentReceiptNotification = async (
   
   const html = `
     <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-      <h2>Payment Receipt</h2>
+      <h2>${label} Receipt</h2>
       <p>Dear ${invoice.clientName},</p>
       
-      <p>Thank you for your payment. This email serves as a receipt for your recent payment.</p>
+      <p>${intro}</p>
       
       <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
-        <h3 style="margin-top: 0;">Payment Details:</h3>
-        <p><strong>Payment #:</strong> ${payment.id}</p>
-        <p><strong>Invoice #:</strong> ${invoice.id}</p>
-        <p><strong>Amount Paid:</strong> ${formatCurrency(payment.amount)}</p>
-        <p><strong>Date Paid:</strong> ${new Date(payment.date).toLocaleDateString()}</p>
+        <h3 style="margin-top: 0;">${label} Details:</h3>
+        <p><strong>${label} #:</strong> ${payment.id}</p>
+        <p><strong>Invoice Number:</strong> ${getInvoiceNumber(invoice)}</p>
+        <p><strong>Amount ${isRefund ? "Refunded" : "Paid"}:</strong> ${formatCurrency(payment.amount)}</p>
+        <p><strong>Date ${isRefund ? "Refunded" : "Paid"}:</strong> ${new Date(payment.date).toLocaleDateString()}</p>
+        <p><strong>Method:</strong> ${method}</p>
+        ${payment.reference ? `<p><strong>Reference:</strong> ${payment.reference}</p>` : ""}
       </div>
       
       <div style="background-color: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
@@ -214,22 +299,22 @@ export const sendPaymentReceiptNotification = async (
 // Send payment reminder to client
 export const sendPaymentReminderNotification = async (
   invoice: Invoice,
-  user: User,
+  user: Sender,
   clientEmail: string,
   daysOverdue: number
 ): Promise<boolean> => {
-  const subject = `Payment Reminder: Invoice #${invoice.id} is ${daysOverdue} days overdue`;
+  const subject = `Payment Reminder: Invoice ${getInvoiceNumber(invoice)} is ${daysOverdue} days overdue`;
   
   const text = `
     Dear ${invoice.clientName},
     
-    We hope this email finds you well. This is a friendly reminder that the payment for invoice #${invoice.id} is overdue by ${daysOverdue} days.
+    We hope this email finds you well. This is a friendly reminder that the payment for invoice ${getInvoiceNumber(invoice)} is overdue by ${daysOverdue} days.
     
     Invoice Details:
-    - Invoice #: ${invoice.id}
+    - Invoice Number: ${getInvoiceNumber(invoice)}
     - Title: ${invoice.title}
     - Amount: ${formatCurrency(invoice.amount)}
-    - Due Date: ${new Date(invoice.date).toLocaleDateString()}
+    - Due Date: ${new Date(getInvoiceDueDate(invoice)).toLocaleDateString()}
     - Days Overdue: ${daysOverdue}
     
     Please remit payment at your earliest convenience. If you have any questions or if you have already made the payment, please disregard this reminder.
@@ -245,14 +330,14 @@ export const sendPaymentReminderNotification = async (
       <h2>Payment Reminder</h2>
       <p>Dear ${invoice.clientName},</p>
       
-      <p>We hope this email finds you well. This is a friendly reminder that the payment for invoice #${invoice.id} is overdue by ${daysOverdue} days.</p>
+      <p>We hope this email finds you well. This is a friendly reminder that the payment for invoice ${getInvoiceNumber(invoice)} is overdue by ${daysOverdue} days.</p>
       
       <div style="background-color: #fff3f3; padding: 15px; border-radius: 5px; margin: 20px 0; border-left: 4px solid #e74c3c;">
         <h3 style="margin-top: 0; color: #e74c3c;">Invoice Details:</h3>
-        <p><strong>Invoice #:</strong> ${invoice.id}</p>
+        <p><strong>Invoice Number:</strong> ${getInvoiceNumber(invoice)}</p>
         <p><strong>Title:</strong> ${invoice.title}</p>
         <p><strong>Amount:</strong> ${formatCurrency(invoice.amount)}</p>
-        <p><strong>Due Date:</strong> ${new Date(invoice.date).toLocaleDateString()}</p>
+        <p><strong>Due Date:</strong> ${new Date(getInvoiceDueDate(invoice)).toLocaleDateString()}</p>
         <p><strong>Days Overdue:</strong> ${daysOverdue}</p>
       </div>
       
@@ -278,7 +363,7 @@ export const sendPaymentReminderNotification = async (
 // Send report notification to team member
 export const sendReportNotification = async (
   report: Report,
-  user: User,
+  user: Sender,
   recipientEmail: string
 ): Promise<boolean> => {
   const subject = `New Report Generated: ${report.title}`;
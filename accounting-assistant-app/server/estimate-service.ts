@@ -0,0 +1,56 @@
+import { storage } from "./storage";
+import { sendEstimateNotification, Sender } from "./email-service";
+import { issueInvoice } from "./invoice-service";
+import { generateEstimatePdf } from "../client/src/lib/pdf-service";
+import { Estimate, Invoice } from "@shared/schema";
+import { toDateString } from "./report-service";
+
+// Email an estimate to its client with the PDF attached. Returns false when
+// the client has no email address or sending fails.
+export async function sendEstimate(estimate: Estimate, user: Sender): Promise<boolean> {
+  const client = estimate.clientId ? await storage.getClient(estimate.clientId) : undefined;
+  if (!client?.email) {
+    console.warn(`No email found for client ${estimate.clientName}`);
+    return false;
+  }
+
+  const lineItems = await storage.getEstimateLineItems(estimate.id);
+  const pdfDoc = generateEstimatePdf(estimate, lineItems, await storage.getTaxTable());
+  const pdfBuffer = Buffer.from(pdfDoc.output('arraybuffer'));
+
+  const emailSent = await sendEstimateNotification(estimate, user, client.email, pdfBuffer);
+  if (!emailSent) {
+    console.error(`Failed to send estimate ${estimate.number} to ${client.email}`);
+  }
+  return emailSent;
+}
+
+// Issue an invoice from an estimate through the regular invoice flow,
+// dated today, and mark the estimate accepted with a link to the invoice
+export async function convertEstimate(estimate: Estimate, user: Sender): Promise<Invoice> {
+  const lineItems = await storage.getEstimateLineItems(estimate.id);
+
+  // The due date follows from the client's payment terms
+  const invoice = await issueInvoice({
+    title: estimate.title,
+    clientName: estimate.clientName,
+    clientId: estimate.clientId,
+    amount: estimate.amount,
+    taxInclusive: estimate.taxInclusive,
+    date: toDateString(new Date()),
+    status: "pending",
+    userId: estimate.userId,
+    estimateId: estimate.id,
+  }, lineItems.map(({ description, quantity, unitPrice, taxRate, taxRateId, taxGroupId, discount }) => ({
+    description,
+    quantity,
+    unitPrice,
+    taxRate,
+    taxRateId,
+    taxGroupId,
+    discount,
+  })), user);
+
+  await storage.updateEstimate(estimate.id, { status: "accepted", invoiceId: invoice.id });
+  return invoice;
+}
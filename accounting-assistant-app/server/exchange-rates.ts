@@ -0,0 +1,123 @@
+import * as Papa from "papaparse";
+import { ExchangeRateSource, InsertExchangeRate } from "@shared/schema";
+
+// Thrown when a rates file cannot be read
+export class ExchangeRateParseError extends Error {
+  status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ExchangeRateParseError";
+  }
+}
+
+// ECB reference rates are quoted against the euro
+const ECB_BASE_CURRENCY = "EUR";
+
+const roundRate = (rate: number) => Math.round(rate * 1e8) / 1e8;
+
+const isIsoDate = (text: string) => /^\d{4}-\d{2}-\d{2}$/.test(text) && !isNaN(Date.parse(text));
+
+const isCurrencyCode = (text: string) => /^[A-Z]{3}$/.test(text);
+
+// A CSV file with date (YYYY-MM-DD), currency and rate columns, the rate
+// being units of the currency per one unit of the base currency
+export function parseExchangeRateCsv(text: string, baseCurrency: string): InsertExchangeRate[] {
+  const result = Papa.parse<Record<string, string>>(text.replace(/^\uFEFF/, ""), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header: string) => header.trim().toLowerCase(),
+  });
+
+  const headers: string[] = result.meta.fields ?? [];
+  const missing = ["date", "currency", "rate"].filter(column => !headers.includes(column));
+
+  if (missing.length > 0) {
+    throw new ExchangeRateParseError(`The CSV file has no column named ${missing.map(column => `"${column}"`).join(", ")}`);
+  }
+
+  return result.data.map((row, index) => {
+    // Row numbers count the header as line 1
+    const line = index + 2;
+    const date = (row.date ?? "").trim();
+    const currency = (row.currency ?? "").trim().toUpperCase();
+    const rate = Number((row.rate ?? "").trim());
+
+    if (!isIsoDate(date)) {
+      throw new ExchangeRateParseError(`Line ${line} of the CSV file has a date that is not YYYY-MM-DD: "${row.date}"`);
+    }
+    if (!isCurrencyCode(currency)) {
+      throw new ExchangeRateParseError(`Line ${line} of the CSV file has an invalid currency code: "${row.currency}"`);
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new ExchangeRateParseError(`Line ${line} of the CSV file has no valid rate`);
+    }
+
+    return { baseCurrency, currency, date, rate: roundRate(rate).toString(), source: "csv" };
+  });
+}
+
+// The ECB daily or historical reference rates XML (eurofxref-daily.xml,
+// eurofxref-hist.xml). The rates are against the euro, so for another base
+// currency they are divided by that day's rate of the base currency, and
+// days on which it has no rate are skipped.
+export function parseEcbXml(text: string, baseCurrency: string): InsertExchangeRate[] {
+  const days = Array.from(text.matchAll(/<Cube\s+time=["']([^"']+)["']\s*>([\s\S]*?)<\/Cube>/g));
+
+  if (days.length === 0) {
+    throw new ExchangeRateParseError("No rates were found in the ECB file");
+  }
+
+  const rates: InsertExchangeRate[] = [];
+
+  for (const [, date, body] of days) {
+    if (!isIsoDate(date)) {
+      throw new ExchangeRateParseError(`The ECB file has an invalid date: "${date}"`);
+    }
+
+    const eurRates = new Map<string, number>([[ECB_BASE_CURRENCY, 1]]);
+    for (const [, currency, rate] of Array.from(body.matchAll(/<Cube\s+currency=["']([A-Z]{3})["']\s+rate=["']([^"']+)["']\s*\/>/g))) {
+      eurRates.set(currency, Number(rate));
+    }
+
+    const baseRate = eurRates.get(baseCurrency);
+    if (!baseRate || !Number.isFinite(baseRate)) {
+      continue;
+    }
+
+    eurRates.forEach((rate, currency) => {
+      if (currency === baseCurrency || !Number.isFinite(rate) || rate <= 0) {
+        return;
+      }
+      rates.push({
+        baseCurrency,
+        currency,
+        date,
+        rate: roundRate(rate / baseRate).toString(),
+        source: "ecb",
+      });
+    });
+  }
+
+  if (rates.length === 0) {
+    throw new ExchangeRateParseError(`The ECB file has no rates for ${baseCurrency}`);
+  }
+  return rates;
+}
+
+// XML files are taken to be ECB files and anything else CSV
+export const detectExchangeRateFormat = (text: string): ExchangeRateSource => {
+  return text.replace(/^\uFEFF/, "").trimStart().startsWith("<") ? "ecb" : "csv";
+};
+
+// Rates are read as quoted against the organization's base currency
+export function parseExchangeRates(format: ExchangeRateSource, text: string, baseCurrency: string): InsertExchangeRate[] {
+  const rates = format === "ecb" ? parseEcbXml(text, baseCurrency) : parseExchangeRateCsv(text, baseCurrency);
+
+  // The last rate given for a currency and date wins
+  const unique = new Map<string, InsertExchangeRate>();
+  for (const rate of rates) {
+    unique.set(`${rate.currency}:${rate.date}`, rate);
+  }
+  return Array.from(unique.values());
+}
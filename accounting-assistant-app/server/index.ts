@@ -4,6 +4,8 @@ dotenv.config(); // <-- charge le fichier .env
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startScheduler } from "./scheduler";
+import { storage } from "./storage";
 
 const app = express();
 app.use(express.json());
@@ -40,6 +42,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await storage.backfillOrganizations();
+  await storage.backfillRoles();
+  await storage.protectAuditLog();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -61,5 +66,6 @@ app.use((req, res, next) => {
   //  Changement ici : écoute sur localhost sans reusePort
   server.listen(port, "localhost", () => {
     log(`serving on port ${port}`);
+    startScheduler();
   });
 })();
@@ -0,0 +1,50 @@
+import { storage } from "./storage";
+import { sendInvoiceNotification, Sender } from "./email-service";
+import { generateInvoicePdf } from "../client/src/lib/pdf-service";
+import { Invoice, InsertInvoice, InvoiceLineItemInput } from "@shared/schema";
+
+// Create an invoice with its line items and email it to the client with the
+// PDF attached. Email failures are logged and do not undo the invoice.
+export async function issueInvoice(
+  invoiceData: InsertInvoice,
+  lineItems: InvoiceLineItemInput[] | undefined,
+  user: Sender
+): Promise<Invoice> {
+  // Create the invoice together with its line items
+  const invoice = await storage.createInvoice(invoiceData, lineItems);
+
+  // Get client email from the database
+  if (!invoice.clientId) {
+    console.warn('No client ID found for invoice');
+    return invoice;
+  }
+  const client = await storage.getClient(invoice.clientId);
+  if (!client?.email) {
+    console.warn(`No email found for client ${invoice.clientName}`);
+    return invoice;
+  }
+
+  try {
+    // Generate PDF
+    const invoiceLineItems = await storage.getInvoiceLineItems(invoice.id);
+    const pdfDoc = generateInvoicePdf(invoice, invoiceLineItems, [], { taxes: await storage.getTaxTable() });
+    const pdfBuffer = Buffer.from(pdfDoc.output('arraybuffer'));
+
+    // Send email with PDF attachment
+    const emailSent = await sendInvoiceNotification(
+      invoice,
+      user,
+      client.email,
+      pdfBuffer
+    );
+
+    if (!emailSent) {
+      console.error(`Failed to send email to ${client.email}`);
+    }
+  } catch (error) {
+    console.error('Error generating PDF or sending email:', error);
+    // Continue even if email fails
+  }
+
+  return invoice;
+}
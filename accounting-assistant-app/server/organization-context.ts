@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+// Thrown when business data is read or written with no organization active,
+// e.g. by a user who no longer belongs to any organization
+export class NoOrganizationError extends Error {
+  status = 403;
+
+  constructor() {
+    super("Join or create an organization first");
+    this.name = "NoOrganizationError";
+  }
+}
+
+const activeOrganization = new AsyncLocalStorage<number>();
+
+// Run a request or scheduled job against one organization's books. Every
+// storage query made while it runs is limited to that organization.
+export function runInOrganization<T>(organizationId: number, fn: () => T): T {
+  return activeOrganization.run(organizationId, fn);
+}
+
+export function getOrganizationId(): number {
+  const organizationId = activeOrganization.getStore();
+  if (organizationId === undefined) {
+    throw new NoOrganizationError();
+  }
+  return organizationId;
+}
@@ -0,0 +1,23 @@
+import { storage } from "./storage";
+import { sendPaymentReceiptNotification, Sender } from "./email-service";
+import { Payment } from "@shared/schema";
+
+// Email the client a receipt for a payment or refund. Runs after the
+// payment is saved and is not waited for, so failures are only logged.
+export async function sendPaymentReceipt(payment: Payment, user: Sender): Promise<void> {
+  try {
+    const invoice = await storage.getInvoice(payment.invoiceId);
+    const client = invoice?.clientId ? await storage.getClient(invoice.clientId) : undefined;
+    if (!invoice || !client?.email) {
+      console.warn(`No email found for the client of payment ${payment.id}`);
+      return;
+    }
+
+    const emailSent = await sendPaymentReceiptNotification(payment, invoice, user, client.email);
+    if (!emailSent) {
+      console.error(`Failed to send the receipt for payment ${payment.id} to ${client.email}`);
+    }
+  } catch (error) {
+    console.error('Error sending payment receipt:', error);
+  }
+}
@@ -0,0 +1,54 @@
+import { Request, RequestHandler } from "express";
+import { Permission, getPermissionLabel } from "@shared/schema";
+
+export function hasPermission(user: Express.User | undefined, permission: Permission): boolean {
+  return !!user?.permissions.includes(permission);
+}
+
+// Users cannot hand out access they do not have themselves. Returns why
+// the permissions cannot be granted, or null when they can.
+export function checkGrantable(user: Express.User, permissions: Permission[]): string | null {
+  const ungranted = permissions.filter(permission => !hasPermission(user, permission));
+  if (ungranted.length === 0) return null;
+  return `Your role does not allow you to grant: ${ungranted.map(permission => getPermissionLabel(permission).toLowerCase()).join(", ")}`;
+}
+
+// Guards a route: the user must be signed in and their role in the active
+// organization must grant every permission listed. Every API route goes through
+// this guard, even when no permission is listed, so it is the one place
+// that checks the user is signed in.
+export function requirePermission(...permissions: Permission[]): RequestHandler {
+  return guard(user => permissions.find(permission => !hasPermission(user, permission)));
+}
+
+// Guards a route that is open to several roles, such as settings that the
+// invoice forms also read: any one of the permissions listed is enough
+export function requireAnyPermission(...permissions: Permission[]): RequestHandler {
+  return guard(user => permissions.some(permission => hasPermission(user, permission)) ? undefined : permissions[0]);
+}
+
+// Checks the signed-in user, then asks for the permission they lack, if any
+function guard(findMissing: (user: Express.User) => Permission | undefined): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    const missing = findMissing(req.user);
+    if (missing) {
+      return res.status(403).json({ message: `Access denied. Your role does not allow you to ${getPermissionLabel(missing).toLowerCase()}.` });
+    }
+    
+    next();
+  };
+}
+
+// The user whose records a list is limited to, or undefined when the user
+// can see everyone's
+export function getRecordOwnerId(req: Request): number | undefined {
+  return hasPermission(req.user, "records:all") ? undefined : req.user?.id;
+}
+
+export function canAccessRecord(req: Request, record: { userId: number }): boolean {
+  return hasPermission(req.user, "records:all") || record.userId === req.user?.id;
+}
@@ -0,0 +1,216 @@
+import { storage } from "./storage";
+import {
+  BankAccount,
+  BankMatchSuggestion,
+  BankTransaction,
+  BankTransactionMatchWithPayment,
+  BankTransactionWithMatches,
+  ReconciliationReport,
+  getInvoiceNumber,
+  getSignedPaymentAmount,
+} from "@shared/schema";
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string): number => {
+  return Math.round(Math.abs(new Date(to).getTime() - new Date(from).getTime()) / DAY_MS);
+};
+
+// The last statement date reconciled for a bank account. Transactions up
+// to that date can no longer be changed.
+export async function getLockedThrough(bankAccountId: number): Promise<string | null> {
+  const [latest] = await storage.getBankReconciliations(bankAccountId);
+  return latest?.statementDate ?? null;
+}
+
+export const isLocked = (date: string, lockedThrough: string | null): boolean => {
+  return lockedThrough !== null && date <= lockedThrough;
+};
+
+// Whether a payment is matched to a bank transaction in a reconciled period
+export async function isPaymentLocked(paymentId: number): Promise<boolean> {
+  const match = await storage.getBankTransactionMatchByPayment(paymentId);
+  if (!match) {
+    return false;
+  }
+
+  const transaction = await storage.getBankTransaction(match.bankTransactionId);
+  return !!transaction && isLocked(transaction.date, await getLockedThrough(transaction.bankAccountId));
+}
+
+// Add to each transaction how much of it matched payments account for
+export const withMatchState = (
+  transactions: BankTransaction[],
+  matches: BankTransactionMatchWithPayment[],
+  lockedThrough: string | null
+): BankTransactionWithMatches[] => {
+  return transactions.map(transaction => {
+    const own = matches.filter(match => match.bankTransactionId === transaction.id);
+    const matchedAmount = round(own.reduce((sum, match) => sum + getSignedPaymentAmount(match.payment), 0));
+    const amount = Number(transaction.amount);
+
+    return {
+      ...transaction,
+      matchedAmount,
+      paymentIds: own.map(match => match.paymentId),
+      status: own.length === 0 ? "unmatched" : matchedAmount === amount ? "matched" : "partially_matched",
+      locked: isLocked(transaction.date, lockedThrough),
+    };
+  });
+};
+
+export async function getBankTransactionsWithMatches(bankAccountId: number): Promise<BankTransactionWithMatches[]> {
+  const [transactions, matches, lockedThrough] = await Promise.all([
+    storage.getBankTransactions(bankAccountId),
+    storage.getBankTransactionMatches(bankAccountId),
+    getLockedThrough(bankAccountId),
+  ]);
+  return withMatchState(transactions, matches, lockedThrough);
+}
+
+const MIN_SUGGESTION_SCORE = 30;
+const MAX_SUGGESTIONS = 5;
+
+// Recorded payments that could be the book entry for a bank transaction,
+// best first. A payment scores for covering the unmatched amount exactly,
+// for being dated close to the transaction, and for its reference, invoice
+// number or client name appearing in the transaction text. Only payments
+// not matched yet, going the same way as the transaction and no larger than
+// what is left to match are considered.
+export async function suggestMatches(transaction: BankTransactionWithMatches): Promise<BankMatchSuggestion[]> {
+  const remaining = round(Number(transaction.amount) - transaction.matchedAmount);
+  if (remaining === 0) {
+    return [];
+  }
+
+  const [payments, matches, invoices, bankAccount] = await Promise.all([
+    storage.getPayments(transaction.userId),
+    storage.getBankTransactionMatches(transaction.bankAccountId),
+    storage.getInvoices(transaction.userId),
+    storage.getBankAccount(transaction.bankAccountId),
+  ]);
+
+  // Matched payments always belong to the account of their transaction, so
+  // unassigned payments are never matched
+  const matchedIds = new Set(matches.map(match => match.paymentId));
+  const text = [transaction.description, transaction.payee, transaction.reference]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+
+  const suggestions: BankMatchSuggestion[] = [];
+
+  for (const payment of payments) {
+    if (matchedIds.has(payment.id)) continue;
+    if (payment.bankAccountId !== null && payment.bankAccountId !== transaction.bankAccountId) continue;
+    if (payment.currency !== bankAccount?.currency) continue;
+
+    const amount = getSignedPaymentAmount(payment);
+    if (Math.sign(amount) !== Math.sign(remaining) || Math.abs(amount) > Math.abs(remaining)) continue;
+
+    const invoice = invoices.find(candidate => candidate.id === payment.invoiceId);
+    const invoiceNumber = invoice ? getInvoiceNumber(invoice) : String(payment.invoiceId);
+    const clientName = invoice?.clientName ?? "";
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (amount === remaining) {
+      score += 50;
+      reasons.push("Same amount");
+    } else {
+      score += 10;
+      reasons.push("Part of the amount");
+    }
+
+    const days = daysBetween(payment.date, transaction.date);
+    if (days === 0) {
+      score += 30;
+      reasons.push("Same date");
+    } else if (days <= 3) {
+      score += 20;
+      reasons.push(`${days} day${days === 1 ? "" : "s"} apart`);
+    } else if (days <= 7) {
+      score += 10;
+      reasons.push(`${days} days apart`);
+    } else if (days <= 30) {
+      score += 3;
+    }
+
+    if (payment.reference && payment.reference.length >= 3 && text.includes(payment.reference.toLowerCase())) {
+      score += 25;
+      reasons.push("Reference appears in the statement");
+    }
+    if (invoiceNumber.length >= 3 && text.includes(invoiceNumber.toLowerCase())) {
+      score += 25;
+      reasons.push("Invoice number appears in the statement");
+    }
+    if (clientName.length >= 3 && text.includes(clientName.toLowerCase())) {
+      score += 15;
+      reasons.push("Client name appears in the statement");
+    }
+
+    if (score >= MIN_SUGGESTION_SCORE) {
+      suggestions.push({ payment, invoiceNumber, clientName, score, reasons });
+    }
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score || daysBetween(a.payment.date, transaction.date) - daysBetween(b.payment.date, transaction.date))
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// Statement balance against book balance as of a date. A match only clears
+// a statement line and a payment when both are dated on or before the date,
+// so the cleared balance always equals the book balance plus the unmatched
+// statement amounts less the outstanding payments.
+export async function buildReconciliationReport(
+  account: BankAccount,
+  asOf: string,
+  statementBalance: number | null
+): Promise<ReconciliationReport> {
+  const [allTransactions, matches, accountPayments, lockedThrough] = await Promise.all([
+    storage.getBankTransactions(account.id),
+    storage.getBankTransactionMatches(account.id),
+    storage.getPaymentsByBankAccount(account.id),
+    getLockedThrough(account.id),
+  ]);
+
+  const openingBalance = Number(account.openingBalance);
+  const transactions = allTransactions.filter(transaction => transaction.date <= asOf);
+  const payments = accountPayments.filter(payment => payment.date <= asOf);
+  const clearingMatches = matches.filter(match => match.payment.date <= asOf);
+
+  const transactionDates = new Map(allTransactions.map(transaction => [transaction.id, transaction.date]));
+  const clearedPaymentIds = new Set(
+    clearingMatches
+      .filter(match => (transactionDates.get(match.bankTransactionId) ?? "") <= asOf)
+      .map(match => match.paymentId)
+  );
+
+  const unmatchedTransactions = withMatchState(transactions, clearingMatches, lockedThrough)
+    .filter(transaction => transaction.status !== "matched");
+  const outstandingPayments = payments.filter(payment => !clearedPaymentIds.has(payment.id));
+
+  const clearedBalance = round(openingBalance + transactions.reduce((sum, transaction) => sum + Number(transaction.amount), 0));
+  const bookBalance = round(openingBalance + payments.reduce((sum, payment) => sum + getSignedPaymentAmount(payment), 0));
+
+  return {
+    bankAccountId: account.id,
+    asOf,
+    openingBalance,
+    statementBalance,
+    clearedBalance,
+    bookBalance,
+    unmatchedTotal: round(unmatchedTransactions.reduce(
+      (sum, transaction) => sum + Number(transaction.amount) - transaction.matchedAmount,
+      0
+    )),
+    outstandingTotal: round(outstandingPayments.reduce((sum, payment) => sum + getSignedPaymentAmount(payment), 0)),
+    unmatchedTransactions,
+    outstandingPayments,
+    difference: statementBalance === null ? null : round(statementBalance - clearedBalance),
+    lockedThrough,
+  };
+}
@@ -0,0 +1,361 @@
+import { storage } from "./storage";
+import {
+  AccountBalance,
+  AgingDocument,
+  AgingReport,
+  AgingRow,
+  AGING_BUCKETS,
+  AgingBucket,
+  Client,
+  ClientStatement,
+  ClientStatementEntry,
+  EXCHANGE_GAIN_ACCOUNT_CODES,
+  FinancialStatement,
+  Report,
+  StatementSection,
+  getAgingBucket,
+  getInvoiceDueDate,
+  getInvoiceNumber,
+  getSignedPaymentAmount,
+  toBaseAmount,
+} from "@shared/schema";
+
+// Format a date as YYYY-MM-DD for date columns
+export const toDateString = (date: Date): string => {
+  return date.toISOString().slice(0, 10);
+};
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Build a statement section from the balances of one account type
+const toSection = (
+  key: string,
+  title: string,
+  balances: AccountBalance[],
+  type: AccountBalance["type"]
+): StatementSection => {
+  const lines = balances
+    .filter(balance => balance.type === type && balance.balance !== 0)
+    .map(balance => ({
+      accountId: balance.accountId,
+      code: balance.code,
+      name: balance.name,
+      amount: balance.balance,
+    }));
+
+  return {
+    key,
+    title,
+    lines,
+    total: round(lines.reduce((sum, line) => sum + line.amount, 0)),
+  };
+};
+
+// Balance sheet: assets, liabilities and equity as of a date
+export async function buildBalanceSheet(userId: number | undefined, asOf: string): Promise<FinancialStatement> {
+  const balances = await storage.getAccountBalances(userId, { to: asOf });
+
+  const assets = toSection("assets", "Assets", balances, "asset");
+  const liabilities = toSection("liabilities", "Liabilities", balances, "liability");
+  const equity = toSection("equity", "Equity", balances, "equity");
+
+  // Revenue and expenses have not been closed into equity, so the
+  // accumulated result is shown as retained earnings
+  const revenue = toSection("revenue", "Revenue", balances, "revenue");
+  const expenses = toSection("expenses", "Expenses", balances, "expense");
+  const retainedEarnings = round(revenue.total - expenses.total);
+  if (retainedEarnings !== 0) {
+    equity.lines.push({ name: "Retained Earnings", amount: retainedEarnings });
+    equity.total = round(equity.total + retainedEarnings);
+  }
+
+  return {
+    kind: "balance_sheet",
+    currency: await storage.getBaseCurrency(),
+    periodStart: null,
+    periodEnd: asOf,
+    sections: [assets, liabilities, equity],
+    totals: {
+      totalAssets: assets.total,
+      totalLiabilities: liabilities.total,
+      totalEquity: equity.total,
+      totalLiabilitiesAndEquity: round(liabilities.total + equity.total),
+    },
+  };
+}
+
+// Income statement: revenue and expenses over a date range. Realized and
+// unrealized exchange gains and losses get a section of their own when
+// there are any.
+export async function buildIncomeStatement(
+  userId: number | undefined,
+  from: string,
+  to: string
+): Promise<FinancialStatement> {
+  const balances = await storage.getAccountBalances(userId, { from, to });
+  const isExchangeGain = (balance: AccountBalance) => EXCHANGE_GAIN_ACCOUNT_CODES.includes(balance.code);
+
+  const revenue = toSection("revenue", "Revenue", balances.filter(balance => !isExchangeGain(balance)), "revenue");
+  const exchange = toSection("exchange", "Foreign Exchange Gain/Loss", balances.filter(isExchangeGain), "revenue");
+  const expenses = toSection("expenses", "Expenses", balances, "expense");
+
+  const hasExchange = exchange.lines.length > 0;
+
+  return {
+    kind: "income_statement",
+    currency: await storage.getBaseCurrency(),
+    periodStart: from,
+    periodEnd: to,
+    sections: hasExchange ? [revenue, expenses, exchange] : [revenue, expenses],
+    totals: {
+      totalRevenue: revenue.total,
+      totalExpenses: expenses.total,
+      ...(hasExchange ? { totalExchangeGainLoss: exchange.total } : {}),
+      netIncome: round(revenue.total - expenses.total + exchange.total),
+    },
+  };
+}
+
+// Compute the figures for a report of the given type. Monthly and yearly
+// reports are income statements for the current month or year unless a
+// period is given.
+export async function buildReport(
+  type: Report["type"],
+  userId: number | undefined,
+  period: { start?: string | null; end?: string | null } = {}
+): Promise<FinancialStatement> {
+  const today = new Date();
+  const end = period.end || toDateString(today);
+
+  switch (type) {
+    case "balance_sheet":
+      return buildBalanceSheet(userId, end);
+    case "monthly":
+      return buildIncomeStatement(
+        userId,
+        period.start || toDateString(new Date(Date.UTC(today.getFullYear(), today.getMonth(), 1))),
+        end
+      );
+    case "yearly":
+    case "income_statement":
+      return buildIncomeStatement(
+        userId,
+        period.start || toDateString(new Date(Date.UTC(today.getFullYear(), 0, 1))),
+        end
+      );
+  }
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Whole days from one YYYY-MM-DD date to another
+export const daysBetween = (from: string, to: string): number => {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / MS_PER_DAY);
+};
+
+const emptyBuckets = (): Record<AgingBucket, number> => {
+  return Object.fromEntries(AGING_BUCKETS.map(bucket => [bucket.key, 0])) as Record<AgingBucket, number>;
+};
+
+// Group open documents by counterparty and bucket, with balances in the
+// organization's base currency
+export const summarizeAging = (asOf: string, currency: string, documents: AgingDocument[]): AgingReport => {
+  const rowsByParty = new Map<string, AgingRow>();
+  const totals = emptyBuckets();
+
+  for (const document of documents) {
+    const key = document.partyId !== null ? `id:${document.partyId}` : `name:${document.partyName}`;
+    let row = rowsByParty.get(key);
+    if (!row) {
+      row = { partyId: document.partyId, partyName: document.partyName, buckets: emptyBuckets(), total: 0 };
+      rowsByParty.set(key, row);
+    }
+    row.buckets[document.bucket] = round(row.buckets[document.bucket] + document.balance);
+    row.total = round(row.total + document.balance);
+    totals[document.bucket] = round(totals[document.bucket] + document.balance);
+  }
+
+  const rows = Array.from(rowsByParty.values()).sort((a, b) => a.partyName.localeCompare(b.partyName));
+
+  return {
+    asOf,
+    currency,
+    rows,
+    totals,
+    total: round(rows.reduce((sum, row) => sum + row.total, 0)),
+    documents: documents.sort((a, b) => b.daysPastDue - a.daysPastDue),
+  };
+};
+
+// Accounts receivable aging: each client's open invoice balances as of a
+// date, bucketed by how many days the invoices are past their due date.
+// Invoices in other currencies are converted at the invoice's rate.
+export async function buildArAging(userId: number | undefined, asOf: string): Promise<AgingReport> {
+  const invoices = await storage.getInvoices(userId);
+  const documents: AgingDocument[] = [];
+
+  for (const invoice of invoices) {
+    if (invoice.date > asOf) continue;
+    if (invoice.voidedAt && invoice.voidedAt <= asOf) continue;
+
+    const payments = await storage.getPaymentsByInvoice(invoice.id);
+    const paid = round(payments
+      .filter(payment => payment.date <= asOf)
+      .reduce((sum, payment) => sum + getSignedPaymentAmount(payment), 0));
+    const creditNotes = await storage.getCreditNotesByInvoice(invoice.id);
+    const credited = round(creditNotes
+      .filter(creditNote => creditNote.date <= asOf)
+      .reduce((sum, creditNote) => sum + Number(creditNote.amount), 0));
+    const balance = round(Number(invoice.amount) - paid - credited);
+    if (balance <= 0) continue;
+
+    const dueDate = getInvoiceDueDate(invoice);
+    const daysPastDue = Math.max(0, daysBetween(dueDate, asOf));
+    documents.push({
+      id: invoice.id,
+      reference: getInvoiceNumber(invoice),
+      partyId: invoice.clientId,
+      partyName: invoice.clientName,
+      date: invoice.date,
+      dueDate,
+      amount: toBaseAmount(invoice.amount, invoice.exchangeRate),
+      paid: toBaseAmount(paid, invoice.exchangeRate),
+      credited: toBaseAmount(credited, invoice.exchangeRate),
+      balance: toBaseAmount(balance, invoice.exchangeRate),
+      currency: invoice.currency,
+      currencyBalance: balance,
+      daysPastDue,
+      bucket: getAgingBucket(daysPastDue),
+    });
+  }
+
+  return summarizeAging(asOf, await storage.getBaseCurrency(), documents);
+}
+
+// Accounts payable aging: what is still owed on each vendor's bills as of a
+// date, bucketed by how many days the bills are past their due date
+export async function buildApAging(userId: number | undefined, asOf: string): Promise<AgingReport> {
+  const bills = await storage.getBills(userId);
+  const baseCurrency = await storage.getBaseCurrency();
+  const documents: AgingDocument[] = [];
+
+  for (const bill of bills) {
+    if (bill.date > asOf) continue;
+
+    const payments = await storage.getBillPaymentsByBill(bill.id);
+    const paid = round(payments
+      .filter(payment => payment.date <= asOf)
+      .reduce((sum, payment) => sum + Number(payment.amount), 0));
+    const balance = round(Number(bill.amount) - paid);
+    if (balance <= 0) continue;
+
+    const daysPastDue = Math.max(0, daysBetween(bill.dueDate, asOf));
+    documents.push({
+      id: bill.id,
+      reference: bill.number,
+      partyId: bill.vendorId,
+      partyName: bill.vendorName,
+      date: bill.date,
+      dueDate: bill.dueDate,
+      amount: Number(bill.amount),
+      paid,
+      credited: 0,
+      balance,
+      currency: baseCurrency,
+      currencyBalance: balance,
+      daysPastDue,
+      bucket: getAgingBucket(daysPastDue),
+    });
+  }
+
+  return summarizeAging(asOf, baseCurrency, documents);
+}
+
+// Client statement: the client's invoices, payments, refunds and credit
+// notes in date order with a running balance. Activity before the period
+// start is carried in as the opening balance. Void invoices are left out.
+// The statement is in the currency the client is invoiced in; a client
+// invoiced in several currencies gets it in the base currency, converted at
+// the stored rates.
+export async function buildClientStatement(
+  client: Client,
+  from: string | null,
+  to: string
+): Promise<ClientStatement> {
+  const invoices = (await storage.getInvoicesByClient(client.id)).filter(invoice => invoice.status !== "void");
+  const currencies = Array.from(new Set(invoices.map(invoice => invoice.currency)));
+  const currency = currencies.length === 1 ? currencies[0] : await storage.getBaseCurrency();
+  const activity: Omit<ClientStatementEntry, "balance">[] = [];
+
+  for (const invoice of invoices) {
+    // Credit notes are converted at the rate of their invoice
+    const convert = (amount: number | string, rate: number | string = invoice.exchangeRate) => {
+      return currencies.length > 1 ? toBaseAmount(amount, rate) : Number(amount);
+    };
+    const reference = getInvoiceNumber(invoice);
+    activity.push({
+      type: "invoice",
+      id: invoice.id,
+      date: invoice.date,
+      reference,
+      description: invoice.title,
+      debit: convert(invoice.amount),
+      credit: 0,
+    });
+
+    for (const payment of await storage.getPaymentsByInvoice(invoice.id)) {
+      const isRefund = payment.type === "refund";
+      activity.push({
+        type: payment.type,
+        id: payment.id,
+        date: payment.date,
+        reference,
+        description: isRefund ? `Refund of payment for ${reference}` : `Payment for ${reference}`,
+        debit: isRefund ? convert(payment.amount, payment.exchangeRate) : 0,
+        credit: isRefund ? 0 : convert(payment.amount, payment.exchangeRate),
+      });
+    }
+
+    for (const creditNote of await storage.getCreditNotesByInvoice(invoice.id)) {
+      activity.push({
+        type: "credit_note",
+        id: creditNote.id,
+        date: creditNote.date,
+        reference: creditNote.number,
+        description: `Credit for ${reference}: ${creditNote.reason}`,
+        debit: 0,
+        credit: convert(creditNote.amount),
+      });
+    }
+  }
+
+  // Invoices come before the payments and credits made on the same day,
+  // and payments before the refunds of them
+  const order = { invoice: 0, payment: 1, refund: 2, credit_note: 3 };
+  activity.sort((a, b) => a.date.localeCompare(b.date) || order[a.type] - order[b.type] || a.id - b.id);
+
+  let openingBalance = 0;
+  let balance = 0;
+  const entries: ClientStatementEntry[] = [];
+
+  for (const entry of activity) {
+    if (entry.date > to) continue;
+    balance = round(balance + entry.debit - entry.credit);
+    if (from && entry.date < from) {
+      openingBalance = balance;
+    } else {
+      entries.push({ ...entry, balance });
+    }
+  }
+
+  return {
+    clientId: client.id,
+    clientName: client.name,
+    currency,
+    periodStart: from,
+    periodEnd: to,
+    openingBalance,
+    entries,
+    closingBalance: balance,
+  };
+}
@@ -0,0 +1,55 @@
+import { storage } from "./storage";
+import { buildArAging } from "./report-service";
+import { ReceivablesRevaluation, RevaluationLine, toBaseAmount } from "@shared/schema";
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Period-end revaluation of receivables: each open foreign-currency invoice
+// is valued at the rate on the as-of date instead of the rate it was booked
+// at, and the difference is posted as an unrealized exchange gain or loss.
+// Invoices revalued on that date before but no longer open are set back to
+// nothing.
+export async function revalueReceivables(userId: number | undefined, asOf: string): Promise<ReceivablesRevaluation> {
+  const baseCurrency = await storage.getBaseCurrency();
+  const invoices = (await storage.getInvoices(userId)).filter(invoice => invoice.currency !== baseCurrency);
+  const aging = await buildArAging(userId, asOf);
+  const rates = new Map<string, number>();
+  const lines: RevaluationLine[] = [];
+
+  for (const document of aging.documents) {
+    const invoice = invoices.find(item => item.id === document.id);
+    if (!invoice) continue;
+
+    if (!rates.has(invoice.currency)) {
+      rates.set(invoice.currency, Number(await storage.getExchangeRate(invoice.currency, asOf)));
+    }
+    const rate = rates.get(invoice.currency)!;
+    const bookedAmount = toBaseAmount(document.currencyBalance, invoice.exchangeRate);
+    const revaluedAmount = toBaseAmount(document.currencyBalance, rate);
+
+    lines.push({
+      invoiceId: invoice.id,
+      reference: document.reference,
+      clientName: document.partyName,
+      currency: invoice.currency,
+      balance: document.currencyBalance,
+      bookedRate: Number(invoice.exchangeRate),
+      rate,
+      bookedAmount,
+      revaluedAmount,
+      gainLoss: round(revaluedAmount - bookedAmount),
+    });
+  }
+
+  await storage.postRevaluations(asOf, invoices.map(invoice => ({
+    invoice,
+    amount: lines.find(line => line.invoiceId === invoice.id)?.gainLoss ?? 0,
+  })));
+
+  return {
+    asOf,
+    currency: baseCurrency,
+    lines: lines.sort((a, b) => a.clientName.localeCompare(b.clientName) || a.reference.localeCompare(b.reference)),
+    total: round(lines.reduce((sum, line) => sum + line.gainLoss, 0)),
+  };
+}
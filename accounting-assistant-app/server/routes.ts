@@ -1,42 +1,100 @@
-import type { Express } from "express";
+import express, { type Express, type RequestHandler } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import { storage } from "./storage";
-import { setupAuth, hashPassword } from "./auth";
+import { setupAuth, hashPassword, withActiveOrganization } from "./auth";
+import { requirePermission, requireAnyPermission, getRecordOwnerId, canAccessRecord, checkGrantable } from "./permissions";
+import { runInOrganization } from "./organization-context";
+import { z } from "zod";
 import { 
   insertInvoiceSchema, 
   insertPaymentSchema, 
   insertReportSchema, 
   insertUserSchema,
-  insertClientSchema 
+  insertOrganizationSchema,
+  updateOrganizationSchema,
+  insertCustomRoleSchema,
+  memberRoleSchema,
+  MemberRoleData,
+  OrganizationMembership,
+  getBuiltInRole,
+  PendingInvitation,
+  BUILT_IN_ROLES,
+  insertClientSchema,
+  invoiceLineItemInputSchema,
+  insertAccountSchema,
+  insertJournalEntrySchema,
+  journalLineInputSchema,
+  insertDocumentSequenceSchema,
+  documentTypeSchema,
+  insertRecurringInvoiceSchema,
+  insertCreditNoteSchema,
+  insertEstimateSchema,
+  insertVendorSchema,
+  insertExpenseSchema,
+  insertBillSchema,
+  insertBillPaymentSchema,
+  insertBankAccountSchema,
+  insertBankTransactionSchema,
+  insertBankReconciliationSchema,
+  insertBankRuleSchema,
+  insertTaxRateSchema,
+  insertTaxReturnSchema,
+  insertTaxGroupSchema,
+  bankStatementFormatValues,
+  auditEntityTypeValues,
+  MAX_RECEIPT_BYTES,
+  RECEIPT_CONTENT_TYPES,
+  RECEIPT_IMAGE_CONTENT_TYPES,
+  MAX_STATEMENT_BYTES,
+  MAX_EXCHANGE_RATE_BYTES,
+  ExchangeRateImportResult,
+  advanceRunDate,
+  SYSTEM_ACCOUNTS,
+  calculateInvoiceTotal,
+  getSignedPaymentAmount,
+  getExpenseTotal,
+  getInvoiceNumber,
+  toBaseAmount,
+  CreditNote
 } from "@shared/schema";
-import { sendInvoiceNotification } from "./email-service";
-import { generateInvoicePdf } from "../client/src/lib/pdf-service";
+import { issueInvoice } from "./invoice-service";
+import { sendEstimate, convertEstimate } from "./estimate-service";
+import { sendPaymentReceipt } from "./payment-service";
+import { nextRecurringState } from "./scheduler";
+import { detectStatementFormat, importStatement } from "./bank-import";
+import { applyBankRules, testBankRule, validateBankRule } from "./bank-rules";
+import { detectExchangeRateFormat, parseExchangeRates } from "./exchange-rates";
+import { validateClientTax, validateLineItemTaxes, validateTaxGroup, validateTaxRate } from "./taxes";
+import {
+  buildReconciliationReport,
+  getBankTransactionsWithMatches,
+  getLockedThrough,
+  isLocked,
+  isPaymentLocked,
+  suggestMatches,
+} from "./reconciliation-service";
+import { buildReport, buildArAging, buildApAging, buildClientStatement, toDateString } from "./report-service";
+import { revalueReceivables } from "./revaluation-service";
+import { buildTaxReturn, checkTaxPeriod, getTaxLockedThrough } from "./tax-return-service";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication routes
   setupAuth(app);
 
   // Invoice routes
-  app.get("/api/invoices", async (req, res, next) => {
+  app.get("/api/invoices", requirePermission("invoices:read"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-      
-      const userId = req.user?.role === "admin" ? undefined : req.user?.id;
+      const userId = getRecordOwnerId(req);
       const invoices = await storage.getInvoices(userId);
-      res.json(invoices);
+      res.json(await storage.withInvoiceAmounts(invoices));
     } catch (error) {
       next(error);
     }
   });
 
-  app.get("/api/invoices/:id", async (req, res, next) => {
+  app.get("/api/invoices/:id", requirePermission("invoices:read"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-      
       const invoice = await storage.getInvoice(Number(req.params.id));
       
       if (!invoice) {
@@ -44,25 +102,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check if user has access to this invoice
-      if (req.user?.role !== "admin" && invoice.userId !== req.user?.id) {
+      if (!canAccessRecord(req, invoice)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      res.json(invoice);
+      const [invoiceWithAmounts] = await storage.withInvoiceAmounts([invoice]);
+      res.json(invoiceWithAmounts);
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/invoices", async (req, res, next) => {
+  app.post("/api/invoices", requirePermission("invoices:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const { lineItems, ...invoiceData } = req.body;
+      
+      const parsedLineItems = z.array(invoiceLineItemInputSchema).optional().safeParse(lineItems);
+      
+      if (!parsedLineItems.success) {
+        return res.status(400).json({ 
+          message: "Invalid line items", 
+          errors: parsedLineItems.error.errors 
+        });
+      }
+      
+      const taxes = await storage.getTaxTable();
+      const taxProblem = validateLineItemTaxes(parsedLineItems.data ?? [], taxes);
+      
+      if (taxProblem) {
+        return res.status(400).json({ message: taxProblem });
       }
       
       const parsedData = insertInvoiceSchema.safeParse({
-        ...req.body,
-        userId: req.user.id
+        ...invoiceData,
+        // The total of an itemized invoice is always derived from its lines
+        ...(parsedLineItems.data?.length
+          ? { amount: calculateInvoiceTotal(parsedLineItems.data, taxes, invoiceData.taxInclusive === true).toFixed(2) }
+          : {}),
+        // New invoices start pending. Payments move them on, and only the
+        // void action voids them.
+        status: "pending",
+        userId: req.user!.id
       });
       
       if (!parsedData.success) {
@@ -72,53 +152,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Create the invoice
-      const invoice = await storage.createInvoice(parsedData.data);
+      const lockProblem = await checkTaxPeriod(parsedData.data.date);
       
-      // Get client email from the database
-      if (!invoice.clientId) {
-        console.warn('No client ID found for invoice');
-        return res.status(201).json(invoice);
-      }
-      const client = await storage.getClient(invoice.clientId);
-      if (!client?.email) {
-        console.warn(`No email found for client ${invoice.clientName}`);
-        return res.status(201).json(invoice);
-      }
-
-      try {
-        // Generate PDF
-        const pdfDoc = generateInvoicePdf(invoice);
-        const pdfBuffer = Buffer.from(pdfDoc.output('arraybuffer'));
-
-        // Send email with PDF attachment
-        const emailSent = await sendInvoiceNotification(
-          invoice,
-          req.user,
-          client.email,
-          pdfBuffer
-        );
-
-        if (!emailSent) {
-          console.error(`Failed to send email to ${client.email}`);
-        }
-      } catch (error) {
-        console.error('Error generating PDF or sending email:', error);
-        // Continue with the response even if email fails
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
       }
       
+      // Create the invoice and email it to the client
+      const invoice = await issueInvoice(parsedData.data, parsedLineItems.data, req.user!);
+      
       res.status(201).json(invoice);
     } catch (error) {
       next(error);
     }
   });
 
-  app.put("/api/invoices/:id", async (req, res, next) => {
+  app.put("/api/invoices/:id", requirePermission("invoices:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-      
       const invoice = await storage.getInvoice(Number(req.params.id));
       
       if (!invoice) {
@@ -126,12 +176,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check if user has access to update this invoice
-      if (req.user?.role !== "admin" && invoice.userId !== req.user?.id) {
+      if (!canAccessRecord(req, invoice)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
+      if (invoice.status === "void") {
+        return res.status(409).json({ message: "Void invoices cannot be changed" });
+      }
+      
+      const { lineItems, ...invoiceData } = req.body;
+      
+      const parsedLineItems = z.array(invoiceLineItemInputSchema).optional().safeParse(lineItems);
+      
+      if (!parsedLineItems.success) {
+        return res.status(400).json({ 
+          message: "Invalid line items", 
+          errors: parsedLineItems.error.errors 
+        });
+      }
+      
+      const taxes = await storage.getTaxTable();
+      const taxProblem = validateLineItemTaxes(parsedLineItems.data ?? [], taxes);
+      
+      if (taxProblem) {
+        return res.status(400).json({ message: taxProblem });
+      }
+      
       // Validate update data
-      const parsedData = insertInvoiceSchema.partial().safeParse(req.body);
+      const parsedData = insertInvoiceSchema.partial().safeParse(invoiceData);
       
       if (!parsedData.success) {
         return res.status(400).json({ 
@@ -140,639 +212,4054 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      if (parsedData.data.status === "void") {
+        return res.status(400).json({ message: "Use the void action to void an invoice" });
+      }
+      
+      const lockProblem = await checkTaxPeriod(invoice.date, parsedData.data.date);
+      
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
+      }
+      
+      // Payments and credit notes are in the invoice currency, so it is
+      // fixed once anything has been settled
+      if (parsedData.data.currency !== undefined && parsedData.data.currency !== invoice.currency) {
+        const [invoicePayments, invoiceCreditNotes] = await Promise.all([
+          storage.getPaymentsByInvoice(invoice.id),
+          storage.getCreditNotesByInvoice(invoice.id),
+        ]);
+        if (invoicePayments.length > 0 || invoiceCreditNotes.length > 0) {
+          return res.status(409).json({ message: "The currency of an invoice with payments or credit notes cannot be changed" });
+        }
+      }
+      
       const updatedInvoice = await storage.updateInvoice(
         Number(req.params.id),
-        parsedData.data
+        parsedData.data,
+        parsedLineItems.data
       );
       
-      res.json(updatedInvoice);
+      // A new amount or due date can change what the status should be,
+      // unless the status itself was set by hand
+      if (parsedData.data.status === undefined || parsedData.data.status === invoice.status) {
+        return res.json(await storage.refreshInvoiceStatus(invoice.id, toDateString(new Date())));
+      }
+      
+      const [invoiceWithAmounts] = await storage.withInvoiceAmounts(updatedInvoice ? [updatedInvoice] : []);
+      res.json(invoiceWithAmounts);
     } catch (error) {
       next(error);
     }
   });
 
-  app.delete("/api/invoices/:id", async (req, res, next) => {
+  // Invoices are voided rather than deleted so the record and its number
+  // are kept. DELETE is kept for existing clients and voids as well.
+  const voidInvoice: RequestHandler = async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-      
       const invoice = await storage.getInvoice(Number(req.params.id));
       
       if (!invoice) {
         return res.status(404).json({ message: "Invoice not found" });
       }
       
-      // Check if user has access to delete this invoice
-      if (req.user?.role !== "admin" && invoice.userId !== req.user?.id) {
+      // Check if user has access to void this invoice
+      if (!canAccessRecord(req, invoice)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      await storage.deleteInvoice(Number(req.params.id));
-      res.status(204).end();
-    } catch (error) {
-      next(error);
-    }
-  });
-
-  // Payment routes
-  app.get("/api/payments", async (req, res, next) => {
-    try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      if (invoice.status === "void") {
+        return res.status(409).json({ message: "Invoice is already void" });
       }
       
-      const userId = req.user?.role === "admin" ? undefined : req.user?.id;
-      const payments = await storage.getPayments(userId);
-      res.json(payments);
-    } catch (error) {
-      next(error);
-    }
-  });
-
-  app.get("/api/payments/invoice/:invoiceId", async (req, res, next) => {
-    try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      // Settled amounts would be left without an invoice; they have to be
+      // removed first, or the invoice credited instead
+      const invoicePayments = await storage.getPaymentsByInvoice(invoice.id);
+      if (invoicePayments.length > 0) {
+        return res.status(409).json({ message: "Invoices with payments cannot be voided. Issue a credit note instead." });
       }
       
-      const invoiceId = Number(req.params.invoiceId);
-      const invoice = await storage.getInvoice(invoiceId);
-      
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const invoiceCreditNotes = await storage.getCreditNotesByInvoice(invoice.id);
+      if (invoiceCreditNotes.length > 0) {
+        return res.status(409).json({ message: "Invoices with credit notes cannot be voided. Credit the remaining balance instead." });
       }
       
-      // Check if user has access to this invoice's payments
-      if (req.user?.role !== "admin" && invoice.userId !== req.user?.id) {
-        return res.status(403).json({ message: "Access denied" });
+      const lockProblem = await checkTaxPeriod(toDateString(new Date()));
+      
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
       }
       
-      const payments = await storage.getPaymentsByInvoice(invoiceId);
-      res.json(payments);
+      const voidedInvoice = await storage.voidInvoice(invoice.id, toDateString(new Date()));
+      res.json(voidedInvoice);
     } catch (error) {
       next(error);
     }
-  });
+  };
+  
+  app.post("/api/invoices/:id/void", requirePermission("invoices:write"), voidInvoice);
+  app.delete("/api/invoices/:id", requirePermission("invoices:write"), voidInvoice);
 
-  app.get("/api/payments/:id", async (req, res, next) => {
+  // Invoice line item routes
+  app.get("/api/invoices/:id/line-items", requirePermission("invoices:read"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-      
-      const payment = await storage.getPayment(Number(req.params.id));
+      const invoice = await storage.getInvoice(Number(req.params.id));
       
-      if (!payment) {
-        return res.status(404).json({ message: "Payment not found" });
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
       
-      // Check if user has access to this payment
-      if (req.user?.role !== "admin" && payment.userId !== req.user?.id) {
+      // Check if user has access to this invoice
+      if (!canAccessRecord(req, invoice)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      res.json(payment);
+      const lineItems = await storage.getInvoiceLineItems(invoice.id);
+      res.json(lineItems);
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/payments", async (req, res, next) => {
+  app.post("/api/invoices/:id/line-items", requirePermission("invoices:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-      
-      // Verify invoice exists and user has access
-      const invoice = await storage.getInvoice(req.body.invoiceId);
+      const invoice = await storage.getInvoice(Number(req.params.id));
       
       if (!invoice) {
         return res.status(404).json({ message: "Invoice not found" });
       }
       
-      if (req.user?.role !== "admin" && invoice.userId !== req.user?.id) {
-        return res.status(403).json({ message: "Access denied to this invoice" });
+      // Check if user has access to update this invoice
+      if (!canAccessRecord(req, invoice)) {
+        return res.status(403).json({ message: "Access denied" });
       }
       
-      const parsedData = insertPaymentSchema.safeParse({
-        ...req.body,
-        userId: req.user.id
-      });
+      if (invoice.status === "void") {
+        return res.status(409).json({ message: "Void invoices cannot be changed" });
+      }
+      
+      const lockProblem = await checkTaxPeriod(invoice.date);
+      
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
+      }
+      
+      const parsedData = invoiceLineItemInputSchema.safeParse(req.body);
       
       if (!parsedData.success) {
         return res.status(400).json({ 
-          message: "Invalid payment data", 
+          message: "Invalid line item data", 
           errors: parsedData.error.errors 
         });
       }
       
-      const payment = await storage.createPayment(parsedData.data);
-      
-      // Update invoice status if payment covers the full amount
-      const invoicePayments = await storage.getPaymentsByInvoice(invoice.id);
-      const totalPaid = [...invoicePayments, payment].reduce(
-        (sum, p) => sum + Number(p.amount), 
-        0
-      );
+      const taxProblem = validateLineItemTaxes([parsedData.data], await storage.getTaxTable());
       
-      if (totalPaid >= Number(invoice.amount) && invoice.status !== "paid") {
-        await storage.updateInvoice(invoice.id, { status: "paid" });
+      if (taxProblem) {
+        return res.status(400).json({ message: taxProblem });
       }
       
-      res.status(201).json(payment);
+      const lineItem = await storage.createInvoiceLineItem({
+        ...parsedData.data,
+        invoiceId: invoice.id
+      });
+      await storage.refreshInvoiceStatus(invoice.id, toDateString(new Date()));
+      res.status(201).json(lineItem);
     } catch (error) {
       next(error);
     }
   });
 
-  app.put("/api/payments/:id", async (req, res, next) => {
+  app.put("/api/invoices/:id/line-items/:lineItemId", requirePermission("invoices:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const invoice = await storage.getInvoice(Number(req.params.id));
+      const lineItem = await storage.getInvoiceLineItem(Number(req.params.lineItemId));
+      
+      if (!invoice || !lineItem || lineItem.invoiceId !== invoice.id) {
+        return res.status(404).json({ message: "Line item not found" });
       }
       
-      const payment = await storage.getPayment(Number(req.params.id));
+      // Check if user has access to update this invoice
+      if (!canAccessRecord(req, invoice)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
-      if (!payment) {
-        return res.status(404).json({ message: "Payment not found" });
+      if (invoice.status === "void") {
+        return res.status(409).json({ message: "Void invoices cannot be changed" });
       }
       
-      // Check if user has access to update this payment
-      if (req.user?.role !== "admin" && payment.userId !== req.user?.id) {
-        return res.status(403).json({ message: "Access denied" });
+      const lockProblem = await checkTaxPeriod(invoice.date);
+      
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
       }
       
       // Validate update data
-      const parsedData = insertPaymentSchema.partial().safeParse(req.body);
+      const parsedData = invoiceLineItemInputSchema.partial().safeParse(req.body);
       
       if (!parsedData.success) {
         return res.status(400).json({ 
-          message: "Invalid payment data", 
+          message: "Invalid line item data", 
           errors: parsedData.error.errors 
         });
       }
       
-      const updatedPayment = await storage.updatePayment(
-        Number(req.params.id),
-        parsedData.data
-      );
+      const taxProblem = validateLineItemTaxes([{ ...lineItem, ...parsedData.data }], await storage.getTaxTable());
       
-      res.json(updatedPayment);
+      if (taxProblem) {
+        return res.status(400).json({ message: taxProblem });
+      }
+      
+      const updatedLineItem = await storage.updateInvoiceLineItem(lineItem.id, parsedData.data);
+      await storage.refreshInvoiceStatus(invoice.id, toDateString(new Date()));
+      res.json(updatedLineItem);
     } catch (error) {
       next(error);
     }
   });
 
-  app.delete("/api/payments/:id", async (req, res, next) => {
+  app.delete("/api/invoices/:id/line-items/:lineItemId", requirePermission("invoices:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-      
-      const payment = await storage.getPayment(Number(req.params.id));
+      const invoice = await storage.getInvoice(Number(req.params.id));
+      const lineItem = await storage.getInvoiceLineItem(Number(req.params.lineItemId));
       
-      if (!payment) {
-        return res.status(404).json({ message: "Payment not found" });
+      if (!invoice || !lineItem || lineItem.invoiceId !== invoice.id) {
+        return res.status(404).json({ message: "Line item not found" });
       }
       
-      // Check if user has access to delete this payment
-      if (req.user?.role !== "admin" && payment.userId !== req.user?.id) {
+      // Check if user has access to update this invoice
+      if (!canAccessRecord(req, invoice)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      await storage.deletePayment(Number(req.params.id));
+      if (invoice.status === "void") {
+        return res.status(409).json({ message: "Void invoices cannot be changed" });
+      }
       
-      // Update invoice status if needed
-      const invoice = await storage.getInvoice(payment.invoiceId);
-      if (invoice && invoice.status === "paid") {
-        const remainingPayments = await storage.getPaymentsByInvoice(invoice.id);
-        const totalPaid = remainingPayments.reduce(
-          (sum, p) => sum + Number(p.amount), 
-          0
-        );
-        
-        if (totalPaid < Number(invoice.amount)) {
-          await storage.updateInvoice(invoice.id, { status: "pending" });
-        }
+      const lockProblem = await checkTaxPeriod(invoice.date);
+      
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
       }
       
+      await storage.deleteInvoiceLineItem(lineItem.id);
+      await storage.refreshInvoiceStatus(invoice.id, toDateString(new Date()));
       res.status(204).end();
     } catch (error) {
       next(error);
     }
   });
 
-  // Reports routes
-  app.get("/api/reports", async (req, res, next) => {
+  // Payment reminder routes
+  app.get("/api/invoices/:id/reminders", requirePermission("invoices:read"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const invoice = await storage.getInvoice(Number(req.params.id));
+
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
-      
-      const userId = req.user?.role === "admin" ? undefined : req.user?.id;
-      const reports = await storage.getReports(userId);
-      res.json(reports);
+
+      // Check if user has access to this invoice
+      if (!canAccessRecord(req, invoice)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const reminders = await storage.getInvoiceReminders(invoice.id);
+      res.json(reminders);
     } catch (error) {
       next(error);
     }
   });
 
-  app.get("/api/reports/:id", async (req, res, next) => {
+  // Changes made to the invoice, latest first
+  app.get("/api/invoices/:id/activity", requirePermission("invoices:read"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
-      
-      const report = await storage.getReport(Number(req.params.id));
-      
-      if (!report) {
-        return res.status(404).json({ message: "Report not found" });
+      const invoice = await storage.getInvoice(Number(req.params.id));
+
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
-      
-      // Check if user has access to this report
-      if (req.user?.role !== "admin" && report.userId !== req.user?.id) {
+
+      // Check if user has access to this invoice
+      if (!canAccessRecord(req, invoice)) {
         return res.status(403).json({ message: "Access denied" });
       }
-      
-      res.json(report);
+
+      const entries = await storage.getAuditLog({ entityType: "invoice", entityId: invoice.id });
+      res.json(entries);
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/reports", async (req, res, next) => {
+  app.put("/api/invoices/:id/reminders", requirePermission("invoices:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const invoice = await storage.getInvoice(Number(req.params.id));
+
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
-      
-      const parsedData = insertReportSchema.safeParse({
-        ...req.body,
-        userId: req.user.id,
-        generatedAt: new Date()
-      });
-      
+
+      // Check if user has access to update this invoice
+      if (!canAccessRecord(req, invoice)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      if (invoice.status === "void") {
+        return res.status(409).json({ message: "Void invoices cannot be changed" });
+      }
+
+      const parsedData = z.object({ paused: z.boolean() }).safeParse(req.body);
+
       if (!parsedData.success) {
-        return res.status(400).json({ 
-          message: "Invalid report data", 
-          errors: parsedData.error.errors 
+        return res.status(400).json({
+          message: "Invalid reminder settings",
+          errors: parsedData.error.errors
         });
       }
-      
-      const report = await storage.createReport(parsedData.data);
-      res.status(201).json(report);
+
+      const updatedInvoice = await storage.updateInvoice(invoice.id, {
+        remindersPaused: parsedData.data.paused
+      });
+      res.json(updatedInvoice);
     } catch (error) {
       next(error);
     }
   });
 
-  // User Management Routes (Admin only)
-  app.get("/api/users", async (req, res, next) => {
+  // Recurring invoice routes
+  app.get("/api/recurring-invoices", requirePermission("invoices:read"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
+      const userId = getRecordOwnerId(req);
+      const templates = await storage.getRecurringInvoices(userId);
+      res.json(templates);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/recurring-invoices/:id", requirePermission("invoices:read"), async (req, res, next) => {
+    try {
+      const template = await storage.getRecurringInvoice(Number(req.params.id));
       
-      // Only administrators can view all users
-      if (req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      if (!template) {
+        return res.status(404).json({ message: "Recurring invoice not found" });
       }
       
-      const users = await storage.getAllUsers();
-      
-      // Don't expose passwords in the API response
-      const sanitizedUsers = users.map(user => {
-        const { password, ...userWithoutPassword } = user;
-        return userWithoutPassword;
-      });
+      // Check if user has access to this recurring invoice
+      if (!canAccessRecord(req, template)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
-      res.json(sanitizedUsers);
+      res.json(template);
     } catch (error) {
       next(error);
     }
   });
-  
-  app.post("/api/admin/users", async (req, res, next) => {
+
+  app.post("/api/recurring-invoices", requirePermission("invoices:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
+      const parsedLineItems = z.array(invoiceLineItemInputSchema).optional().safeParse(req.body.lineItems);
       
-      // Only administrators can create users
-      if (req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      if (!parsedLineItems.success) {
+        return res.status(400).json({ 
+          message: "Invalid line items", 
+          errors: parsedLineItems.error.errors 
+        });
       }
       
-      const parsedData = insertUserSchema.safeParse(req.body);
+      const taxes = await storage.getTaxTable();
+      const parsedData = insertRecurringInvoiceSchema.safeParse({
+        ...req.body,
+        // As with invoices, an itemized template's amount comes from its lines
+        ...(parsedLineItems.data?.length
+          ? { amount: calculateInvoiceTotal(parsedLineItems.data, taxes, req.body.taxInclusive === true).toFixed(2) }
+          : {}),
+        status: "active",
+        userId: req.user!.id
+      });
       
       if (!parsedData.success) {
         return res.status(400).json({ 
-          message: "Invalid user data", 
+          message: "Invalid recurring invoice data", 
           errors: parsedData.error.errors 
         });
       }
       
-      // Hash password before storing (using auth.ts utility function)
-      const hashedPassword = await hashPassword(parsedData.data.password);
-      const user = await storage.createUser({
-        ...parsedData.data,
-        password: hashedPassword
-      });
+      const taxProblem = validateLineItemTaxes(parsedData.data.lineItems ?? [], taxes);
       
-      // Don't expose password in the response
-      const { password, ...userWithoutPassword } = user;
+      if (taxProblem) {
+        return res.status(400).json({ message: taxProblem });
+      }
       
-      res.status(201).json(userWithoutPassword);
+      if (parsedData.data.endDate && parsedData.data.endDate < parsedData.data.startDate) {
+        return res.status(400).json({ message: "The end date must be on or after the start date" });
+      }
+      
+      const template = await storage.createRecurringInvoice(parsedData.data);
+      res.status(201).json(template);
     } catch (error) {
       next(error);
     }
   });
-  
-  app.patch("/api/admin/users/:id", async (req, res, next) => {
+
+  // Changes apply to future occurrences only; invoices already issued are
+  // left as they are
+  app.put("/api/recurring-invoices/:id", requirePermission("invoices:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const template = await storage.getRecurringInvoice(Number(req.params.id));
+      
+      if (!template) {
+        return res.status(404).json({ message: "Recurring invoice not found" });
       }
       
-      // Only administrators can update users
-      if (req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      // Check if user has access to this recurring invoice
+      if (!canAccessRecord(req, template)) {
+        return res.status(403).json({ message: "Access denied" });
       }
       
-      const userId = Number(req.params.id);
-      const user = await storage.getUser(userId);
+      const parsedLineItems = z.array(invoiceLineItemInputSchema).optional().safeParse(req.body.lineItems);
       
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      if (!parsedLineItems.success) {
+        return res.status(400).json({ 
+          message: "Invalid line items", 
+          errors: parsedLineItems.error.errors 
+        });
       }
       
-      // Validate update data (excluding password which should be handled separately)
-      const parsedData = insertUserSchema.partial().omit({ password: true }).safeParse(req.body);
+      const taxes = await storage.getTaxTable();
+      const parsedData = insertRecurringInvoiceSchema
+        .omit({ userId: true })
+        .partial()
+        .safeParse({
+          ...req.body,
+          ...(parsedLineItems.data?.length
+            ? {
+                amount: calculateInvoiceTotal(
+                  parsedLineItems.data,
+                  taxes,
+                  (req.body.taxInclusive ?? template.taxInclusive) === true
+                ).toFixed(2)
+              }
+            : {}),
+        });
       
       if (!parsedData.success) {
         return res.status(400).json({ 
-          message: "Invalid user data", 
+          message: "Invalid recurring invoice data", 
           errors: parsedData.error.errors 
         });
       }
       
-      // Update the user
-      const updatedUser = await storage.updateUser(userId, parsedData.data);
+      const taxProblem = validateLineItemTaxes(parsedData.data.lineItems ?? [], taxes);
       
-      if (!updatedUser) {
-        return res.status(500).json({ message: "Failed to update user" });
+      if (taxProblem) {
+        return res.status(400).json({ message: taxProblem });
       }
       
-      // Don't expose password in the response
-      const { password, ...userWithoutPassword } = updatedUser;
+      const updates = { ...parsedData.data };
+      const startDate = updates.startDate ?? template.startDate;
+      const endDate = updates.endDate !== undefined ? updates.endDate : template.endDate;
       
-      res.json(userWithoutPassword);
-    } catch (error) {
-      next(error);
-    }
+      if (endDate && endDate < startDate) {
+        return res.status(400).json({ message: "The end date must be on or after the start date" });
+      }
+      
+      // Occurrences that fell while a template was paused are skipped
+      // rather than all issued at once on resume
+      if (template.status === "paused" && updates.status === "active") {
+        const today = toDateString(new Date());
+        let nextRunDate = updates.nextRunDate ?? template.nextRunDate;
+        while (nextRunDate < today) {
+          nextRunDate = advanceRunDate(nextRunDate, updates.frequency ?? template.frequency, startDate);
+        }
+        updates.nextRunDate = nextRunDate;
+      }
+      
+      const updatedTemplate = await storage.updateRecurringInvoice(template.id, updates);
+      res.json(updatedTemplate);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Skip the next occurrence without issuing an invoice
+  app.post("/api/recurring-invoices/:id/skip", requirePermission("invoices:write"), async (req, res, next) => {
+    try {
+      const template = await storage.getRecurringInvoice(Number(req.params.id));
+      
+      if (!template) {
+        return res.status(404).json({ message: "Recurring invoice not found" });
+      }
+      
+      // Check if user has access to this recurring invoice
+      if (!canAccessRecord(req, template)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      if (template.status === "completed") {
+        return res.status(400).json({ message: "This recurring invoice has no further occurrences" });
+      }
+      
+      const updatedTemplate = await storage.updateRecurringInvoice(template.id, nextRecurringState(template));
+      res.json(updatedTemplate);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/recurring-invoices/:id", requirePermission("invoices:write"), async (req, res, next) => {
+    try {
+      const template = await storage.getRecurringInvoice(Number(req.params.id));
+      
+      if (!template) {
+        return res.status(404).json({ message: "Recurring invoice not found" });
+      }
+      
+      // Check if user has access to this recurring invoice
+      if (!canAccessRecord(req, template)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      await storage.deleteRecurringInvoice(template.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Estimate routes
+  app.get("/api/estimates", requirePermission("invoices:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const estimates = await storage.getEstimates(userId);
+      res.json(estimates);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/estimates/:id", requirePermission("invoices:read"), async (req, res, next) => {
+    try {
+      const estimate = await storage.getEstimate(Number(req.params.id));
+      
+      if (!estimate) {
+        return res.status(404).json({ message: "Estimate not found" });
+      }
+      
+      // Check if user has access to this estimate
+      if (!canAccessRecord(req, estimate)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      res.json(estimate);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/estimates/:id/line-items", requirePermission("invoices:read"), async (req, res, next) => {
+    try {
+      const estimate = await storage.getEstimate(Number(req.params.id));
+      
+      if (!estimate) {
+        return res.status(404).json({ message: "Estimate not found" });
+      }
+      
+      // Check if user has access to this estimate
+      if (!canAccessRecord(req, estimate)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const lineItems = await storage.getEstimateLineItems(estimate.id);
+      res.json(lineItems);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/estimates", requirePermission("invoices:write"), async (req, res, next) => {
+    try {
+      const { lineItems, ...estimateData } = req.body;
+      
+      const parsedLineItems = z.array(invoiceLineItemInputSchema).optional().safeParse(lineItems);
+      
+      if (!parsedLineItems.success) {
+        return res.status(400).json({ 
+          message: "Invalid line items", 
+          errors: parsedLineItems.error.errors 
+        });
+      }
+      
+      const taxes = await storage.getTaxTable();
+      const taxProblem = validateLineItemTaxes(parsedLineItems.data ?? [], taxes);
+      
+      if (taxProblem) {
+        return res.status(400).json({ message: taxProblem });
+      }
+      
+      const parsedData = insertEstimateSchema.safeParse({
+        ...estimateData,
+        // The total of an itemized estimate is always derived from its lines
+        ...(parsedLineItems.data?.length
+          ? { amount: calculateInvoiceTotal(parsedLineItems.data, taxes, estimateData.taxInclusive === true).toFixed(2) }
+          : {}),
+        userId: req.user!.id
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid estimate data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const estimate = await storage.createEstimate(parsedData.data, parsedLineItems.data);
+      res.status(201).json(estimate);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/estimates/:id", requirePermission("invoices:write"), async (req, res, next) => {
+    try {
+      const estimate = await storage.getEstimate(Number(req.params.id));
+      
+      if (!estimate) {
+        return res.status(404).json({ message: "Estimate not found" });
+      }
+      
+      // Check if user has access to update this estimate
+      if (!canAccessRecord(req, estimate)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      if (estimate.invoiceId) {
+        return res.status(409).json({ message: "Estimates that were converted into an invoice cannot be changed" });
+      }
+      
+      const { lineItems, ...estimateData } = req.body;
+      
+      const parsedLineItems = z.array(invoiceLineItemInputSchema).optional().safeParse(lineItems);
+      
+      if (!parsedLineItems.success) {
+        return res.status(400).json({ 
+          message: "Invalid line items", 
+          errors: parsedLineItems.error.errors 
+        });
+      }
+      
+      const taxes = await storage.getTaxTable();
+      const taxProblem = validateLineItemTaxes(parsedLineItems.data ?? [], taxes);
+      
+      if (taxProblem) {
+        return res.status(400).json({ message: taxProblem });
+      }
+      
+      // Validate update data
+      const parsedData = insertEstimateSchema.omit({ userId: true }).partial().safeParse(estimateData);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid estimate data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const updatedEstimate = await storage.updateEstimate(estimate.id, parsedData.data, parsedLineItems.data);
+      res.json(updatedEstimate);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/estimates/:id/send", requirePermission("invoices:write"), async (req, res, next) => {
+    try {
+      const estimate = await storage.getEstimate(Number(req.params.id));
+      
+      if (!estimate) {
+        return res.status(404).json({ message: "Estimate not found" });
+      }
+      
+      // Check if user has access to this estimate
+      if (!canAccessRecord(req, estimate)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const client = estimate.clientId ? await storage.getClient(estimate.clientId) : undefined;
+      if (!client?.email) {
+        return res.status(400).json({ message: "The estimate's client has no email address" });
+      }
+      
+      const emailSent = await sendEstimate(estimate, req.user!);
+      if (!emailSent) {
+        return res.status(502).json({ message: "The estimate could not be emailed. Please try again later." });
+      }
+      
+      // Resending an estimate that was already answered keeps its status
+      const updatedEstimate = estimate.status === "draft" || estimate.status === "expired"
+        ? await storage.updateEstimate(estimate.id, { status: "sent" })
+        : estimate;
+      res.json(updatedEstimate);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/estimates/:id/convert", requirePermission("invoices:write"), async (req, res, next) => {
+    try {
+      const estimate = await storage.getEstimate(Number(req.params.id));
+      
+      if (!estimate) {
+        return res.status(404).json({ message: "Estimate not found" });
+      }
+      
+      // Check if user has access to this estimate
+      if (!canAccessRecord(req, estimate)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      if (estimate.invoiceId) {
+        return res.status(409).json({ message: "This estimate was already converted into an invoice" });
+      }
+      
+      if (estimate.status === "declined") {
+        return res.status(409).json({ message: "Declined estimates cannot be converted into an invoice" });
+      }
+      
+      // The invoice is created and emailed like any other new invoice
+      const invoice = await convertEstimate(estimate, req.user!);
+      res.status(201).json(invoice);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/estimates/:id", requirePermission("invoices:write"), async (req, res, next) => {
+    try {
+      const estimate = await storage.getEstimate(Number(req.params.id));
+      
+      if (!estimate) {
+        return res.status(404).json({ message: "Estimate not found" });
+      }
+      
+      // Check if user has access to delete this estimate
+      if (!canAccessRecord(req, estimate)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      if (estimate.invoiceId) {
+        return res.status(409).json({ message: "Estimates that were converted into an invoice cannot be deleted" });
+      }
+      
+      await storage.deleteEstimate(estimate.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Credit note routes
+  app.get("/api/credit-notes", requirePermission("invoices:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const creditNotes = await storage.getCreditNotes(userId);
+      res.json(creditNotes);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/credit-notes/:id", requirePermission("invoices:read"), async (req, res, next) => {
+    try {
+      const creditNote = await storage.getCreditNote(Number(req.params.id));
+      
+      if (!creditNote) {
+        return res.status(404).json({ message: "Credit note not found" });
+      }
+      
+      // Check if user has access to this credit note
+      if (!canAccessRecord(req, creditNote)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      res.json(creditNote);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/invoices/:id/credit-notes", requirePermission("invoices:read"), async (req, res, next) => {
+    try {
+      const invoice = await storage.getInvoice(Number(req.params.id));
+      
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      // Check if user has access to this invoice
+      if (!canAccessRecord(req, invoice)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const creditNotes = await storage.getCreditNotesByInvoice(invoice.id);
+      res.json(creditNotes);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/credit-notes", requirePermission("invoices:write"), async (req, res, next) => {
+    try {
+      // Verify invoice exists and user has access
+      const invoice = await storage.getInvoice(req.body.invoiceId);
+      
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      if (!canAccessRecord(req, invoice)) {
+        return res.status(403).json({ message: "Access denied to this invoice" });
+      }
+      
+      if (invoice.status === "void") {
+        return res.status(409).json({ message: "Void invoices cannot be credited" });
+      }
+      
+      // The client is always the one on the original invoice
+      const parsedData = insertCreditNoteSchema.safeParse({
+        ...req.body,
+        clientName: invoice.clientName,
+        clientId: invoice.clientId,
+        userId: req.user!.id
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid credit note data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const lockProblem = await checkTaxPeriod(parsedData.data.date);
+      
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
+      }
+      
+      // A credit note can reduce the amount due to zero but not below it
+      const amount = Number(parsedData.data.amount);
+      const [{ amountDue }] = await storage.withInvoiceAmounts([invoice]);
+      
+      if (!(amount > 0)) {
+        return res.status(400).json({ message: "The credit amount must be greater than zero" });
+      }
+      
+      if (amount > amountDue) {
+        return res.status(400).json({
+          message: `The credit amount cannot exceed the amount due of ${amountDue.toFixed(2)} ${invoice.currency}`
+        });
+      }
+      
+      const creditNote = await storage.createCreditNote(parsedData.data);
+      await storage.refreshInvoiceStatus(invoice.id, toDateString(new Date()));
+      
+      res.status(201).json(creditNote);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Payment routes
+  app.get("/api/payments", requirePermission("payments:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const payments = await storage.getPayments(userId);
+      res.json(payments);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/payments/invoice/:invoiceId", requirePermission("payments:read"), async (req, res, next) => {
+    try {
+      const invoiceId = Number(req.params.invoiceId);
+      const invoice = await storage.getInvoice(invoiceId);
+      
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      // Check if user has access to this invoice's payments
+      if (!canAccessRecord(req, invoice)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const payments = await storage.getPaymentsByInvoice(invoiceId);
+      res.json(payments);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/payments/:id", requirePermission("payments:read"), async (req, res, next) => {
+    try {
+      const payment = await storage.getPayment(Number(req.params.id));
+      
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      // Check if user has access to this payment
+      if (!canAccessRecord(req, payment)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      res.json(payment);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/payments", requirePermission("payments:write"), async (req, res, next) => {
+    try {
+      // Verify invoice exists and user has access
+      const invoice = await storage.getInvoice(req.body.invoiceId);
+      
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      if (!canAccessRecord(req, invoice)) {
+        return res.status(403).json({ message: "Access denied to this invoice" });
+      }
+      
+      if (invoice.status === "void") {
+        return res.status(409).json({ message: "Payments cannot be recorded against a void invoice" });
+      }
+      
+      // Refunds are recorded against the payment they return money from
+      const parsedData = insertPaymentSchema.safeParse({
+        ...req.body,
+        type: "payment",
+        refundOfId: null,
+        userId: req.user!.id
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid payment data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      if (parsedData.data.bankAccountId) {
+        const bankAccount = await storage.getBankAccount(parsedData.data.bankAccountId);
+        
+        if (!bankAccount || (!canAccessRecord(req, bankAccount))) {
+          return res.status(400).json({ message: "Bank account not found" });
+        }
+        
+        if (bankAccount.currency !== invoice.currency) {
+          return res.status(400).json({ message: `The bank account is in ${bankAccount.currency} but the invoice is in ${invoice.currency}` });
+        }
+        
+        if (isLocked(parsedData.data.date, await getLockedThrough(bankAccount.id))) {
+          return res.status(409).json({ message: "This period has already been reconciled" });
+        }
+      }
+      
+      const payment = await storage.createPayment(parsedData.data);
+      
+      // Mark the invoice paid or partially paid
+      await storage.refreshInvoiceStatus(invoice.id, toDateString(new Date()));
+      
+      // The receipt goes out in the background
+      sendPaymentReceipt(payment, req.user!);
+      
+      res.status(201).json(payment);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/payments/:id", requirePermission("payments:write"), async (req, res, next) => {
+    try {
+      const payment = await storage.getPayment(Number(req.params.id));
+      
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      // Check if user has access to update this payment
+      if (!canAccessRecord(req, payment)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      if (await isPaymentLocked(payment.id)) {
+        return res.status(409).json({ message: "This payment is part of a reconciled bank statement and cannot be changed" });
+      }
+      
+      // Validate update data. A payment cannot be turned into a refund or back.
+      const parsedData = insertPaymentSchema
+        .omit({ type: true, refundOfId: true })
+        .partial()
+        .safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid payment data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const invoiceId = parsedData.data.invoiceId ?? payment.invoiceId;
+      const amount = Number(parsedData.data.amount ?? payment.amount);
+      
+      // A matched payment stays with the bank account of its statement line
+      if (parsedData.data.bankAccountId !== undefined && parsedData.data.bankAccountId !== payment.bankAccountId) {
+        if (await storage.getBankTransactionMatchByPayment(payment.id)) {
+          return res.status(409).json({ message: "Unmatch the payment from its bank transaction before moving it to another account" });
+        }
+        
+        const bankAccount = parsedData.data.bankAccountId
+          ? await storage.getBankAccount(parsedData.data.bankAccountId)
+          : undefined;
+        
+        if (parsedData.data.bankAccountId && (!bankAccount || (!canAccessRecord(req, bankAccount)))) {
+          return res.status(400).json({ message: "Bank account not found" });
+        }
+        
+        if (bankAccount && bankAccount.currency !== payment.currency) {
+          return res.status(400).json({ message: `The bank account is in ${bankAccount.currency} but the payment is in ${payment.currency}` });
+        }
+      }
+      
+      // Payments in a bank account cannot be changed in, or moved into, a
+      // period that has been reconciled
+      const bankAccountId = parsedData.data.bankAccountId !== undefined
+        ? parsedData.data.bankAccountId
+        : payment.bankAccountId;
+      const date = parsedData.data.date ?? payment.date;
+      
+      if (
+        (payment.bankAccountId && isLocked(payment.date, await getLockedThrough(payment.bankAccountId))) ||
+        (bankAccountId && isLocked(date, await getLockedThrough(bankAccountId)))
+      ) {
+        return res.status(409).json({ message: "This period has already been reconciled" });
+      }
+      
+      if (payment.type === "refund") {
+        // A refund stays with the payment it returns money from and cannot
+        // give back more than that payment less its other refunds
+        if (invoiceId !== payment.invoiceId) {
+          return res.status(409).json({ message: "Refunds cannot be moved to another invoice" });
+        }
+        
+        const original = payment.refundOfId ? await storage.getPayment(payment.refundOfId) : undefined;
+        const otherRefunds = original ? await storage.getRefunds(original.id) : [];
+        const refundable = original
+          ? Math.round((Number(original.amount) - otherRefunds
+              .filter(refund => refund.id !== payment.id)
+              .reduce((sum, refund) => sum + Number(refund.amount), 0)) * 100) / 100
+          : amount;
+        
+        if (amount > refundable) {
+          return res.status(400).json({
+            message: `The refund cannot exceed the refundable amount of ${refundable.toFixed(2)}`
+          });
+        }
+      } else {
+        const refunds = await storage.getRefunds(payment.id);
+        const refunded = refunds.reduce((sum, refund) => sum + Number(refund.amount), 0);
+        
+        if (refunds.length > 0 && invoiceId !== payment.invoiceId) {
+          return res.status(409).json({ message: "Payments with refunds cannot be moved to another invoice" });
+        }
+        
+        if (amount < refunded) {
+          return res.status(400).json({
+            message: `The payment cannot be less than the ${refunded.toFixed(2)} already refunded from it`
+          });
+        }
+      }
+      
+      // Moving a payment to another invoice needs the same checks as recording it
+      if (invoiceId !== payment.invoiceId) {
+        const invoice = await storage.getInvoice(invoiceId);
+        
+        if (!invoice) {
+          return res.status(404).json({ message: "Invoice not found" });
+        }
+        
+        if (!canAccessRecord(req, invoice)) {
+          return res.status(403).json({ message: "Access denied to this invoice" });
+        }
+        
+        if (invoice.status === "void") {
+          return res.status(409).json({ message: "Payments cannot be recorded against a void invoice" });
+        }
+        
+        if (invoice.currency !== payment.currency) {
+          return res.status(409).json({ message: "Payments cannot be moved to an invoice in another currency" });
+        }
+      }
+      
+      const updatedPayment = await storage.updatePayment(
+        Number(req.params.id),
+        parsedData.data
+      );
+      
+      // Recalculate the status of every invoice the payment touched
+      const today = toDateString(new Date());
+      await storage.refreshInvoiceStatus(payment.invoiceId, today);
+      if (invoiceId !== payment.invoiceId) {
+        await storage.refreshInvoiceStatus(invoiceId, today);
+      }
+      
+      res.json(updatedPayment);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/payments/:id", requirePermission("payments:void"), async (req, res, next) => {
+    try {
+      const payment = await storage.getPayment(Number(req.params.id));
+      
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      // Check if user has access to delete this payment
+      if (!canAccessRecord(req, payment)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      if (await isPaymentLocked(payment.id)) {
+        return res.status(409).json({ message: "This payment is part of a reconciled bank statement and cannot be deleted" });
+      }
+      
+      // Unmatched payments dated in a reconciled period count towards the
+      // book balance that reconciliation recorded
+      if (payment.bankAccountId && isLocked(payment.date, await getLockedThrough(payment.bankAccountId))) {
+        return res.status(409).json({ message: "This period has already been reconciled" });
+      }
+      
+      if ((await storage.getRefunds(payment.id)).length > 0) {
+        return res.status(409).json({ message: "Payments with refunds cannot be deleted. Delete the refunds first." });
+      }
+      
+      await storage.deletePayment(Number(req.params.id));
+      
+      // The invoice may no longer be fully or partially paid
+      await storage.refreshInvoiceStatus(payment.invoiceId, toDateString(new Date()));
+      
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/payments/:id/refund", requirePermission("payments:void"), async (req, res, next) => {
+    try {
+      const payment = await storage.getPayment(Number(req.params.id));
+      
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      // Check if user has access to refund this payment
+      if (!canAccessRecord(req, payment)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      if (payment.type === "refund") {
+        return res.status(409).json({ message: "Refunds cannot be refunded" });
+      }
+      
+      // The refund goes back the same way the payment came in unless told otherwise
+      const parsedData = insertPaymentSchema.safeParse({
+        method: payment.method,
+        ...req.body,
+        invoiceId: payment.invoiceId,
+        type: "refund",
+        refundOfId: payment.id,
+        receiptGenerated: false,
+        userId: req.user!.id
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid refund data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      // A payment can be refunded in parts, up to its full amount
+      const amount = Number(parsedData.data.amount);
+      const refunds = await storage.getRefunds(payment.id);
+      const refundable = Math.round(
+        (Number(payment.amount) - refunds.reduce((sum, refund) => sum + Number(refund.amount), 0)) * 100
+      ) / 100;
+      
+      if (!(amount > 0)) {
+        return res.status(400).json({ message: "The refund amount must be greater than zero" });
+      }
+      
+      if (amount > refundable) {
+        return res.status(400).json({
+          message: `The refund cannot exceed the refundable amount of ${refundable.toFixed(2)}`
+        });
+      }
+      
+      if (parsedData.data.bankAccountId) {
+        const bankAccount = await storage.getBankAccount(parsedData.data.bankAccountId);
+        
+        if (!bankAccount || (!canAccessRecord(req, bankAccount))) {
+          return res.status(400).json({ message: "Bank account not found" });
+        }
+        
+        // Refunds are in the invoice currency, like the payment they return
+        const invoice = await storage.getInvoice(payment.invoiceId);
+        
+        if (invoice && bankAccount.currency !== invoice.currency) {
+          return res.status(400).json({ message: `The bank account is in ${bankAccount.currency} but the invoice is in ${invoice.currency}` });
+        }
+        
+        if (isLocked(parsedData.data.date, await getLockedThrough(bankAccount.id))) {
+          return res.status(409).json({ message: "This period has already been reconciled" });
+        }
+      }
+      
+      const refund = await storage.createPayment(parsedData.data);
+      
+      // Money given back reopens the invoice balance
+      await storage.refreshInvoiceStatus(payment.invoiceId, toDateString(new Date()));
+      
+      // The receipt goes out in the background
+      sendPaymentReceipt(refund, req.user!);
+      
+      res.status(201).json(refund);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Reports routes
+  app.get("/api/reports", requirePermission("reports:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const reports = await storage.getReports(userId);
+      res.json(reports);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/reports/ar-aging", requirePermission("reports:read"), async (req, res, next) => {
+    try {
+      const asOf = typeof req.query.asOf === "string" && req.query.asOf
+        ? req.query.asOf
+        : toDateString(new Date());
+      
+      if (isNaN(new Date(asOf).getTime())) {
+        return res.status(400).json({ message: "Invalid as-of date" });
+      }
+      
+      const userId = getRecordOwnerId(req);
+      const aging = await buildArAging(userId, asOf);
+      res.json(aging);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/reports/ap-aging", requirePermission("reports:read"), async (req, res, next) => {
+    try {
+      const asOf = typeof req.query.asOf === "string" && req.query.asOf
+        ? req.query.asOf
+        : toDateString(new Date());
+      
+      if (isNaN(new Date(asOf).getTime())) {
+        return res.status(400).json({ message: "Invalid as-of date" });
+      }
+      
+      const userId = getRecordOwnerId(req);
+      const aging = await buildApAging(userId, asOf);
+      res.json(aging);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Tax return for a period, from the invoices, credit notes, bills and
+  // expenses dated in it
+  app.get("/api/reports/tax-return", requirePermission("reports:read"), async (req, res, next) => {
+    try {
+      const from = typeof req.query.from === "string" ? req.query.from : "";
+      const to = typeof req.query.to === "string" ? req.query.to : "";
+      
+      if (isNaN(new Date(from).getTime()) || isNaN(new Date(to).getTime()) || from > to) {
+        return res.status(400).json({ message: "Invalid tax return period" });
+      }
+      
+      const userId = getRecordOwnerId(req);
+      const taxReturn = await buildTaxReturn(userId, from, to);
+      res.json(taxReturn);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Filed tax returns, latest period first
+  app.get("/api/tax-returns", requirePermission("reports:read"), async (req, res, next) => {
+    try {
+      const taxReturns = await storage.getTaxReturns();
+      res.json(taxReturns);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // File the tax return for a period, which locks the documents dated up to
+  // its end. Periods are filed in order and cannot overlap.
+  app.post("/api/tax-returns", requirePermission("taxes:file"), async (req, res, next) => {
+    try {
+      const parsedData = insertTaxReturnSchema
+        .pick({ periodStart: true, periodEnd: true })
+        .safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid tax return data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const { periodStart, periodEnd } = parsedData.data;
+      
+      if (periodStart > periodEnd) {
+        return res.status(400).json({ message: "The period must end on or after its start" });
+      }
+      
+      const lockedThrough = await getTaxLockedThrough();
+      
+      if (lockedThrough !== null && periodStart <= lockedThrough) {
+        return res.status(409).json({ message: `Tax returns have already been filed through ${lockedThrough}` });
+      }
+      
+      const data = await buildTaxReturn(undefined, periodStart, periodEnd);
+      const taxReturn = await storage.createTaxReturn({ periodStart, periodEnd, userId: req.user!.id }, data);
+      res.status(201).json(taxReturn);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Only the latest filed return can be reopened, which unlocks its period
+  app.delete("/api/tax-returns/:id", requirePermission("taxes:file"), async (req, res, next) => {
+    try {
+      const taxReturn = await storage.getTaxReturn(Number(req.params.id));
+      
+      if (!taxReturn) {
+        return res.status(404).json({ message: "Tax return not found" });
+      }
+      
+      const [latest] = await storage.getTaxReturns();
+      
+      if (latest?.id !== taxReturn.id) {
+        return res.status(409).json({ message: "Reopen the later tax returns first" });
+      }
+      
+      await storage.deleteTaxReturn(taxReturn.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Period-end revaluation of open foreign-currency receivables. Running it
+  // again for the same date replaces the earlier result.
+  app.post("/api/reports/revaluation", requirePermission("ledger:write"), async (req, res, next) => {
+    try {
+      const asOf = typeof req.body?.asOf === "string" && req.body.asOf
+        ? req.body.asOf
+        : toDateString(new Date());
+      
+      if (isNaN(new Date(asOf).getTime())) {
+        return res.status(400).json({ message: "Invalid as-of date" });
+      }
+      
+      const userId = getRecordOwnerId(req);
+      const revaluation = await revalueReceivables(userId, asOf);
+      res.json(revaluation);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/reports/:id", requirePermission("reports:read"), async (req, res, next) => {
+    try {
+      const report = await storage.getReport(Number(req.params.id));
+      
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      
+      // Check if user has access to this report
+      if (!canAccessRecord(req, report)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      res.json(report);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/reports", requirePermission("reports:export"), async (req, res, next) => {
+    try {
+      const parsedData = insertReportSchema.safeParse({
+        ...req.body,
+        userId: req.user!.id,
+        generatedAt: new Date()
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid report data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      // Compute the figures now and keep them with the report, so that
+      // re-opening it later shows exactly what it showed when generated
+      const userId = getRecordOwnerId(req);
+      const data = await buildReport(parsedData.data.type, userId, {
+        start: parsedData.data.periodStart,
+        end: parsedData.data.periodEnd
+      });
+      
+      const report = await storage.createReport({
+        ...parsedData.data,
+        periodStart: data.periodStart,
+        periodEnd: data.periodEnd
+      }, data);
+      res.status(201).json(report);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Ledger routes
+  app.get("/api/accounts", requirePermission("ledger:read"), async (req, res, next) => {
+    try {
+      const accounts = await storage.getAccounts();
+      res.json(accounts);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/accounts", requirePermission("settings:manage"), async (req, res, next) => {
+    try {
+      const parsedData = insertAccountSchema.safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid account data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const account = await storage.createAccount(parsedData.data);
+      res.status(201).json(account);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/journal-entries", requirePermission("ledger:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const entries = await storage.getJournalEntries(userId);
+      res.json(entries);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/journal-entries/:id", requirePermission("ledger:read"), async (req, res, next) => {
+    try {
+      const entry = await storage.getJournalEntry(Number(req.params.id));
+      
+      if (!entry) {
+        return res.status(404).json({ message: "Journal entry not found" });
+      }
+      
+      // Check if user has access to this entry
+      if (!canAccessRecord(req, entry)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      res.json(entry);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/journal-entries", requirePermission("ledger:write"), async (req, res, next) => {
+    try {
+      const { lines, ...entryData } = req.body;
+      
+      const parsedEntry = insertJournalEntrySchema.safeParse({
+        ...entryData,
+        // Invoice and payment entries are only posted by the application
+        sourceType: "manual",
+        sourceId: null,
+        userId: req.user!.id
+      });
+      const parsedLines = z.array(journalLineInputSchema).safeParse(lines);
+      
+      if (!parsedEntry.success || !parsedLines.success) {
+        return res.status(400).json({ 
+          message: "Invalid journal entry data", 
+          errors: [
+            ...(parsedEntry.error?.errors ?? []),
+            ...(parsedLines.error?.errors ?? [])
+          ]
+        });
+      }
+      
+      // Every line must point to an existing account
+      for (const line of parsedLines.data) {
+        if (!(await storage.getAccount(line.accountId))) {
+          return res.status(400).json({ message: `Account ${line.accountId} does not exist` });
+        }
+      }
+      
+      // The storage layer rejects entries that do not balance
+      const entry = await storage.createJournalEntry(parsedEntry.data, parsedLines.data);
+      res.status(201).json(entry);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/ledger/trial-balance", requirePermission("ledger:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const balances = await storage.getAccountBalances(userId, {
+        to: typeof req.query.asOf === "string" ? req.query.asOf : undefined
+      });
+      
+      const totalDebit = balances.reduce((sum, balance) => sum + balance.debit, 0);
+      const totalCredit = balances.reduce((sum, balance) => sum + balance.credit, 0);
+      
+      res.json({ balances, totalDebit, totalCredit });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/ledger/backfill", requirePermission("settings:manage"), async (req, res, next) => {
+    try {
+      await storage.backfillLedger();
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Document numbering routes
+  app.get("/api/numbering/:documentType", requireAnyPermission("invoices:read", "settings:manage"), async (req, res, next) => {
+    try {
+      const documentType = documentTypeSchema.safeParse(req.params.documentType);
+      
+      if (!documentType.success) {
+        return res.status(404).json({ message: "Unknown document type" });
+      }
+      
+      const sequence = await storage.getDocumentSequence(documentType.data);
+      const nextNumber = await storage.previewDocumentNumber(documentType.data, toDateString(new Date()));
+      res.json({ ...sequence, nextNumber });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/numbering/:documentType", requirePermission("settings:manage"), async (req, res, next) => {
+    try {
+      const parsedData = insertDocumentSequenceSchema.safeParse({
+        ...req.body,
+        documentType: req.params.documentType
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid numbering settings", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const sequence = await storage.updateDocumentSequence(parsedData.data);
+      const nextNumber = await storage.previewDocumentNumber(sequence.documentType, toDateString(new Date()));
+      res.json({ ...sequence, nextNumber });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Tax routes
+  app.get("/api/taxes", requireAnyPermission("invoices:read", "clients:read", "settings:manage"), async (req, res, next) => {
+    try {
+      const taxes = await storage.getTaxTable();
+      res.json(taxes);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/tax-rates", requirePermission("settings:manage"), async (req, res, next) => {
+    try {
+      const parsedData = insertTaxRateSchema.safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid tax rate data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const problem = validateTaxRate(parsedData.data, await storage.getTaxTable());
+      
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const rate = await storage.createTaxRate(parsedData.data);
+      res.status(201).json(rate);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Documents already issued keep the taxes they were calculated with;
+  // a changed rate applies from the next time their lines are saved
+  app.put("/api/tax-rates/:id", requirePermission("settings:manage"), async (req, res, next) => {
+    try {
+      const taxes = await storage.getTaxTable();
+      const rate = taxes.rates.find(item => item.id === Number(req.params.id));
+      
+      if (!rate) {
+        return res.status(404).json({ message: "Tax rate not found" });
+      }
+      
+      const parsedData = insertTaxRateSchema.partial().safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid tax rate data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const { id, createdAt, ...current } = rate;
+      const problem = validateTaxRate({ ...current, ...parsedData.data }, taxes, rate.id);
+      
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const updatedRate = await storage.updateTaxRate(rate.id, parsedData.data);
+      res.json(updatedRate);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/tax-groups", requirePermission("settings:manage"), async (req, res, next) => {
+    try {
+      const parsedData = insertTaxGroupSchema.safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid tax group data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const problem = validateTaxGroup(parsedData.data, await storage.getTaxTable());
+      
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const group = await storage.createTaxGroup(parsedData.data);
+      res.status(201).json(group);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/tax-groups/:id", requirePermission("settings:manage"), async (req, res, next) => {
+    try {
+      const taxes = await storage.getTaxTable();
+      const group = taxes.groups.find(item => item.id === Number(req.params.id));
+      
+      if (!group) {
+        return res.status(404).json({ message: "Tax group not found" });
+      }
+      
+      const parsedData = insertTaxGroupSchema.partial().safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid tax group data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const { id, createdAt, ...current } = group;
+      const problem = validateTaxGroup({ ...current, ...parsedData.data }, taxes, group.id);
+      
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const updatedGroup = await storage.updateTaxGroup(group.id, parsedData.data);
+      res.json(updatedGroup);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Exchange rate routes
+  app.get("/api/exchange-rates", requireAnyPermission("invoices:read", "settings:manage"), async (req, res, next) => {
+    try {
+      const rates = await storage.getLatestExchangeRates();
+      res.json({ baseCurrency: await storage.getBaseCurrency(), rates });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Rates are uploaded as the raw request body: a CSV file or the ECB
+  // reference rates XML, taken from ?format= or detected from the file
+  app.post(
+    "/api/exchange-rates/import",
+    requirePermission("settings:manage"),
+    express.raw({ type: () => true, limit: MAX_EXCHANGE_RATE_BYTES }),
+    async (req, res, next) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Upload the rates file" });
+        }
+        
+        const text = req.body.toString("utf8");
+        const requestedFormat = z.enum(["csv", "ecb"]).optional().safeParse(req.query.format || undefined);
+        
+        if (!requestedFormat.success) {
+          return res.status(400).json({ message: "Unknown rates format" });
+        }
+        
+        const rates = parseExchangeRates(
+          requestedFormat.data ?? detectExchangeRateFormat(text),
+          text,
+          await storage.getBaseCurrency()
+        );
+        const imported = await storage.importExchangeRates(rates);
+        const dates = rates.map(rate => rate.date).sort();
+        
+        const result: ExchangeRateImportResult = {
+          imported,
+          currencies: Array.from(new Set(rates.map(rate => rate.currency))).sort(),
+          from: dates[0] ?? null,
+          to: dates[dates.length - 1] ?? null,
+        };
+        res.status(201).json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Organization routes. Users work in one organization at a time and can
+  // switch to any other they belong to.
+  app.get("/api/organizations", requirePermission(), async (req, res, next) => {
+    try {
+      const organizations = await storage.getUserOrganizations(req.user!.id);
+      res.json(organizations);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Any user can start a new organization, which they then own
+  app.post("/api/organizations", requirePermission(), async (req, res, next) => {
+    try {
+      const parsedData = insertOrganizationSchema.safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid organization data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const organization = await storage.createOrganization(parsedData.data, req.user!.id);
+      res.status(201).json(organization);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  app.put("/api/organizations/:id", requirePermission("settings:manage"), async (req, res, next) => {
+    try {
+      // Only the organization the user is working in can be renamed
+      const organizationId = Number(req.params.id);
+      if (organizationId !== req.user!.activeOrganizationId) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const parsedData = updateOrganizationSchema.safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid organization data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      // Otherwise the admin would be locked out of the settings themselves
+      if (parsedData.data.requireTwoFactor && !req.user!.twoFactorEnabled) {
+        return res.status(400).json({ message: "Turn on two-factor authentication for yourself before requiring it" });
+      }
+      
+      const organization = await storage.updateOrganization(organizationId, parsedData.data);
+      
+      if (!organization) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+      
+      res.json(organization);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  app.put("/api/user/organization", requirePermission(), async (req, res, next) => {
+    try {
+      const organizationId = z.coerce.number().int().positive().safeParse(req.body.organizationId);
+      
+      if (!organizationId.success) {
+        return res.status(400).json({ 
+          message: "Invalid organization", 
+          errors: organizationId.error.errors 
+        });
+      }
+      
+      const organizations = await storage.getUserOrganizations(req.user!.id);
+      if (!organizations.some(organization => organization.id === organizationId.data)) {
+        return res.status(403).json({ message: "You are not a member of this organization" });
+      }
+      
+      const user = await storage.setActiveOrganization(req.user!.id, organizationId.data);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Don't expose password in the response
+      const { password, ...userWithoutPassword } = await withActiveOrganization(user);
+      
+      res.json(userWithoutPassword);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Invitations the signed-in user has received from other organizations
+  app.get("/api/user/invitations", requirePermission(), async (req, res, next) => {
+    try {
+      const invitations = await storage.getUserInvitations(req.user!.id);
+      res.json(invitations);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Accepting an invitation joins the organization and starts working in it
+  app.post("/api/user/invitations/:id/accept", requirePermission(), async (req, res, next) => {
+    try {
+      const invitation = await storage.getUserInvitation(req.user!.id, Number(req.params.id));
+      
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const membership = await runInOrganization(invitation.organizationId, () =>
+        storage.acceptOrganizationInvitation(invitation.id)
+      );
+      
+      if (!membership) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const user = await storage.setActiveOrganization(req.user!.id, invitation.organizationId);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Don't expose password in the response
+      const { password, ...userWithoutPassword } = await withActiveOrganization(user);
+      
+      res.json(userWithoutPassword);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  app.delete("/api/user/invitations/:id", requirePermission(), async (req, res, next) => {
+    try {
+      const invitation = await storage.getUserInvitation(req.user!.id, Number(req.params.id));
+      
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      await runInOrganization(invitation.organizationId, () =>
+        storage.deleteOrganizationInvitation(invitation.id)
+      );
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // User Management Routes. Users are the members of the active organization.
+  
+  // A custom role given to a member must be one of this organization's, and
+  // no role may grant more than the user giving it has. Only owners make
+  // other owners.
+  const validateMemberRole = async (role: MemberRoleData, grantedBy: Express.User): Promise<string | null> => {
+    if (role.role === "owner" && grantedBy.role !== "owner") {
+      return "Only owners can make someone an owner";
+    }
+    
+    if (role.customRoleId !== null) {
+      const customRole = await storage.getCustomRole(role.customRoleId);
+      if (!customRole) {
+        return "Custom role not found";
+      }
+      return checkGrantable(grantedBy, customRole.permissions);
+    }
+    
+    return checkGrantable(grantedBy, getBuiltInRole(role.role)?.permissions ?? []);
+  };
+  
+  // Only owners change or remove an owner, and the organization always keeps
+  // at least one. Returns why the member cannot be changed, or null.
+  const checkOwnerChange = async (membership: OrganizationMembership, changedBy: Express.User): Promise<string | null> => {
+    if (membership.role !== "owner") return null;
+    
+    if (changedBy.role !== "owner") {
+      return "Only owners can change or remove an owner";
+    }
+    
+    const members = await storage.getOrganizationMembers();
+    if (!members.some(member => member.role === "owner" && member.id !== membership.userId)) {
+      return "The organization must keep at least one owner";
+    }
+    return null;
+  };
+  
+  app.get("/api/users", requirePermission("users:manage"), async (req, res, next) => {
+    try {
+      const users = await storage.getOrganizationMembers();
+      
+      // Don't expose passwords in the API response
+      const sanitizedUsers = users.map(user => {
+        const { password, ...userWithoutPassword } = user;
+        return userWithoutPassword;
+      });
+      
+      res.json(sanitizedUsers);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  app.post("/api/admin/users", requirePermission("users:manage"), async (req, res, next) => {
+    try {
+      const parsedEmail = insertUserSchema.pick({ email: true }).safeParse(req.body);
+      const parsedRole = memberRoleSchema.safeParse(req.body);
+      
+      if (!parsedEmail.success || !parsedRole.success) {
+        return res.status(400).json({ 
+          message: "Invalid user data", 
+          errors: [...(parsedEmail.error?.errors ?? []), ...(parsedRole.error?.errors ?? [])]
+        });
+      }
+      
+      const roleProblem = await validateMemberRole(parsedRole.data, req.user!);
+      
+      if (roleProblem) {
+        return res.status(403).json({ message: roleProblem });
+      }
+      
+      // Someone who already has an account is invited rather than added. They
+      // join once they accept, and their account stays theirs to edit.
+      const existingUser = await storage.getUserByEmail(parsedEmail.data.email);
+      if (existingUser) {
+        if (await storage.getOrganizationMembership(existingUser.id)) {
+          return res.status(409).json({ message: `${existingUser.email} is already a member of this organization` });
+        }
+        
+        const invitations = await storage.getOrganizationInvitations();
+        if (invitations.some(invitation => invitation.userId === existingUser.id)) {
+          return res.status(409).json({ message: `${existingUser.email} has already been invited` });
+        }
+        
+        const invitation = await storage.createOrganizationInvitation(existingUser.id, parsedRole.data, req.user!.id);
+        const pending: PendingInvitation = { ...invitation, name: existingUser.name, email: existingUser.email };
+        return res.status(202).json(pending);
+      }
+      
+      const parsedData = insertUserSchema.omit({ role: true }).safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid user data", 
+          errors: parsedData.error.errors
+        });
+      }
+      
+      // Hash password before storing (using auth.ts utility function)
+      const hashedPassword = await hashPassword(parsedData.data.password);
+      const user = await storage.createUser({
+        ...parsedData.data,
+        password: hashedPassword
+      });
+      const membership = await storage.addOrganizationMember(user.id, parsedRole.data);
+      
+      // Don't expose password in the response
+      const { password, ...userWithoutPassword } = user;
+      
+      res.status(201).json({ ...userWithoutPassword, role: membership.role, customRoleId: membership.customRoleId });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Only the member's role in this organization is changed here. Their
+  // name, email and password belong to their account, which only they edit.
+  app.patch("/api/admin/users/:id", requirePermission("users:manage"), async (req, res, next) => {
+    try {
+      const userId = Number(req.params.id);
+      const user = await storage.getUser(userId);
+      const membership = user && await storage.getOrganizationMembership(userId);
+      
+      if (!user || !membership) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const parsedRole = memberRoleSchema.safeParse(req.body);
+      
+      if (!parsedRole.success) {
+        return res.status(400).json({ 
+          message: "Invalid role", 
+          errors: parsedRole.error.errors
+        });
+      }
+      
+      // Users could otherwise take away their own access to manage users
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "Cannot change your own role" });
+      }
+      
+      const ownerProblem = parsedRole.data.role === "owner" ? null : await checkOwnerChange(membership, req.user!);
+      const roleProblem = ownerProblem ?? await validateMemberRole(parsedRole.data, req.user!);
+      
+      if (roleProblem) {
+        return res.status(403).json({ message: roleProblem });
+      }
+      
+      const updatedMembership = await storage.updateOrganizationMember(userId, parsedRole.data);
+      
+      if (!updatedMembership) {
+        return res.status(500).json({ message: "Failed to update user" });
+      }
+      
+      // Don't expose password in the response
+      const { password, ...userWithoutPassword } = user;
+      
+      res.json({ ...userWithoutPassword, role: updatedMembership.role, customRoleId: updatedMembership.customRoleId });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  app.delete("/api/admin/users/:id", requirePermission("users:manage"), async (req, res, next) => {
+    try {
+      const userId = Number(req.params.id);
+      
+      // Prevent self-deletion
+      if (userId === req.user!.id) {
+        return res.status(400).json({ message: "Cannot delete your own account" });
+      }
+      
+      const user = await storage.getUser(userId);
+      const membership = user && await storage.getOrganizationMembership(userId);
+      
+      if (!user || !membership) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const ownerProblem = await checkOwnerChange(membership, req.user!);
+      
+      if (ownerProblem) {
+        return res.status(403).json({ message: ownerProblem });
+      }
+      
+      // Users are removed from this organization; their account is deleted
+      // only when they belong to no other
+      const removed = await storage.removeOrganizationMember(userId);
+      const remaining = await storage.getUserOrganizations(userId);
+      const deleted = remaining.length > 0 || await storage.deleteUser(userId);
+      
+      if (!removed || !deleted) {
+        return res.status(500).json({ message: "Failed to delete user" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Invitations sent to existing accounts that have not been answered yet
+  app.get("/api/invitations", requirePermission("users:manage"), async (req, res, next) => {
+    try {
+      const invitations = await storage.getOrganizationInvitations();
+      res.json(invitations);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  app.delete("/api/invitations/:id", requirePermission("users:manage"), async (req, res, next) => {
+    try {
+      const invitationId = Number(req.params.id);
+      const invitations = await storage.getOrganizationInvitations();
+      
+      if (!invitations.some(invitation => invitation.id === invitationId)) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      await storage.deleteOrganizationInvitation(invitationId);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Custom role routes. Organizations can define roles of their own next to
+  // the built-in ones.
+  app.get("/api/roles", requirePermission("users:manage"), async (req, res, next) => {
+    try {
+      const roles = await storage.getCustomRoles();
+      res.json(roles);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Role names are unique within the organization, built-in roles included
+  const findRoleNameConflict = async (name: string, id?: number): Promise<string | null> => {
+    const taken = BUILT_IN_ROLES.some(role => role.label.toLowerCase() === name.toLowerCase())
+      || (await storage.getCustomRoles()).some(role => role.id !== id && role.name.toLowerCase() === name.toLowerCase());
+    return taken ? `A role named ${name} already exists` : null;
+  };
+  
+  app.post("/api/roles", requirePermission("users:manage"), async (req, res, next) => {
+    try {
+      const parsedData = insertCustomRoleSchema.safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid role data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const grantProblem = checkGrantable(req.user!, parsedData.data.permissions);
+      
+      if (grantProblem) {
+        return res.status(403).json({ message: grantProblem });
+      }
+      
+      const problem = await findRoleNameConflict(parsedData.data.name);
+      
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const role = await storage.createCustomRole(parsedData.data);
+      res.status(201).json(role);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Members with the role get its new permissions on their next request.
+  // Permissions the role already has are kept even when the user editing it
+  // lacks them; only added ones must be the user's own.
+  app.put("/api/roles/:id", requirePermission("users:manage"), async (req, res, next) => {
+    try {
+      const role = await storage.getCustomRole(Number(req.params.id));
+      
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      
+      const parsedData = insertCustomRoleSchema.partial().safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid role data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const added = (parsedData.data.permissions ?? []).filter(permission => !role.permissions.includes(permission));
+      const grantProblem = checkGrantable(req.user!, added);
+      
+      if (grantProblem) {
+        return res.status(403).json({ message: grantProblem });
+      }
+      
+      const problem = parsedData.data.name ? await findRoleNameConflict(parsedData.data.name, role.id) : null;
+      
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const updatedRole = await storage.updateCustomRole(role.id, parsedData.data);
+      res.json(updatedRole);
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  app.delete("/api/roles/:id", requirePermission("users:manage"), async (req, res, next) => {
+    try {
+      const role = await storage.getCustomRole(Number(req.params.id));
+      
+      if (!role) {
+        return res.status(404).json({ message: "Role not found" });
+      }
+      
+      if (await storage.isCustomRoleInUse(role.id)) {
+        return res.status(409).json({ message: "Give the members with this role another role before deleting it" });
+      }
+      
+      await storage.deleteCustomRole(role.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Data for dashboard
+  app.get("/api/dashboard", requirePermission("reports:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const invoices = await storage.getInvoices(userId);
+      const payments = await storage.getPayments(userId);
+      const creditNotes = await storage.getCreditNotes(userId);
+      const expenses = await storage.getExpenses(userId);
+      const bills = await storage.withBillAmounts(await storage.getBills(userId));
+      const balances = await storage.getAccountBalances(userId);
+      
+      // Calculate total revenue, pending invoices, total payments, outstanding balance.
+      // Void invoices do not count and credit notes reduce revenue. Amounts
+      // are converted to the base currency at the rates stored with them;
+      // credit notes use the rate of their invoice.
+      const creditNoteRate = (note: CreditNote) => {
+        return invoices.find(inv => inv.id === note.invoiceId)?.exchangeRate ?? 1;
+      };
+      const totalRevenue = invoices
+        .filter(inv => inv.status !== "void")
+        .reduce((sum, inv) => sum + toBaseAmount(inv.amount, inv.exchangeRate), 0)
+        - creditNotes.reduce((sum, note) => sum + toBaseAmount(note.amount, creditNoteRate(note)), 0);
+      const pendingInvoices = invoices
+        .filter(inv => inv.status === "pending" || inv.status === "partially_paid").length;
+      const totalPayments = payments.reduce(
+        (sum, payment) => sum + toBaseAmount(getSignedPaymentAmount(payment), payment.exchangeRate),
+        0
+      );
+      
+      // Expenses (including their tax) and vendor bills are costs
+      const totalExpenses = expenses.reduce((sum, expense) => sum + getExpenseTotal(expense), 0)
+        + bills.reduce((sum, bill) => sum + Number(bill.amount), 0);
+      const netProfit = totalRevenue - totalExpenses;
+      
+      // The outstanding balance is whatever is left in Accounts Receivable
+      const outstandingBalance = balances.find(
+        balance => balance.code === SYSTEM_ACCOUNTS.accountsReceivable.code
+      )?.balance ?? 0;
+      
+      // Get recent activity (combine recent invoices and payments)
+      const recentInvoices = invoices
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+        .slice(0, 10);
+      
+      // Unpaid bills due in the next seven days, including any already past due
+      const weekEnd = new Date();
+      weekEnd.setDate(weekEnd.getDate() + 7);
+      const billsDueThisWeek = bills
+        .filter(bill => bill.amountDue > 0 && bill.dueDate <= toDateString(weekEnd))
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+        
+      res.json({
+        baseCurrency: await storage.getBaseCurrency(),
+        stats: {
+          totalRevenue,
+          pendingInvoices,
+          totalPayments,
+          outstandingBalance,
+          totalExpenses,
+          netProfit,
+          billsDueThisWeek: billsDueThisWeek.reduce((sum, bill) => sum + bill.amountDue, 0)
+        },
+        recentInvoices,
+        billsDueThisWeek
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Create HTTP server instance
+  // Client Management Routes
+  app.get("/api/clients", requirePermission("clients:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const clients = await storage.getClients(userId);
+      res.json(clients);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/clients/:id", requirePermission("clients:read"), async (req, res, next) => {
+    try {
+      const client = await storage.getClient(Number(req.params.id));
+      
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      // Check if user has access to this client
+      if (!canAccessRecord(req, client)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const creditBalance = await storage.getClientCreditBalance(client.id);
+      res.json({ ...client, creditBalance });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  app.get("/api/clients/:id/invoices", requirePermission("clients:read"), async (req, res, next) => {
+    try {
+      const clientId = Number(req.params.id);
+      const client = await storage.getClient(clientId);
+      
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      // Check if user has access to this client's invoices
+      if (!canAccessRecord(req, client)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const invoices = await storage.getInvoicesByClient(clientId);
+      res.json(await storage.withInvoiceAmounts(invoices));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Changes made to the client, latest first
+  app.get("/api/clients/:id/activity", requirePermission("clients:read"), async (req, res, next) => {
+    try {
+      const client = await storage.getClient(Number(req.params.id));
+      
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      // Check if user has access to this client
+      if (!canAccessRecord(req, client)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const entries = await storage.getAuditLog({ entityType: "client", entityId: client.id });
+      res.json(entries);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/clients/:id/statement", requirePermission("clients:read"), async (req, res, next) => {
+    try {
+      const client = await storage.getClient(Number(req.params.id));
+      
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      // Check if user has access to this client's statement
+      if (!canAccessRecord(req, client)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const from = typeof req.query.from === "string" && req.query.from ? req.query.from : null;
+      const to = typeof req.query.to === "string" && req.query.to
+        ? req.query.to
+        : toDateString(new Date());
+      
+      if ((from && isNaN(new Date(from).getTime())) || isNaN(new Date(to).getTime())) {
+        return res.status(400).json({ message: "Invalid statement period" });
+      }
+      
+      const statement = await buildClientStatement(client, from, to);
+      res.json(statement);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/clients", requirePermission("clients:write"), async (req, res, next) => {
+    try {
+      const parsedData = insertClientSchema.safeParse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid client data", 
+          errors: parsedData.error.errors 
+        });
+      }
+
+      const taxProblem = validateClientTax(parsedData.data, await storage.getTaxTable());
+      if (taxProblem) {
+        return res.status(400).json({ message: taxProblem });
+      }
+      
+      // Check if client with same name already exists
+      const existingClient = await storage.getClientByName(parsedData.data.name);
+      if (existingClient) {
+        return res.status(409).json({ 
+          message: "Client already exists",
+          existingClient
+        });
+      }
+      
+      const client = await storage.createClient(parsedData.data);
+      res.status(201).json(client);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/clients/:id", requirePermission("clients:write"), async (req, res, next) => {
+    try {
+      const client = await storage.getClient(Number(req.params.id));
+      
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      // Check if user has access to update this client
+      if (!canAccessRecord(req, client)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Validate update data
+      const parsedData = insertClientSchema.partial().safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid client data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const taxProblem = validateClientTax({ ...client, ...parsedData.data }, await storage.getTaxTable());
+      if (taxProblem) {
+        return res.status(400).json({ message: taxProblem });
+      }
+      
+      const updatedClient = await storage.updateClient(
+        Number(req.params.id),
+        parsedData.data
+      );
+      
+      res.json(updatedClient);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/clients/:id", requirePermission("clients:write"), async (req, res, next) => {
+    try {
+      const client = await storage.getClient(Number(req.params.id));
+      
+      if (!client) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      // Check if user has access to delete this client
+      if (!canAccessRecord(req, client)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Check if client has any invoices
+      const clientInvoices = await storage.getInvoicesByClient(client.id);
+      if (clientInvoices.length > 0) {
+        return res.status(400).json({ 
+          message: "Cannot delete client with existing invoices. Delete client invoices first." 
+        });
+      }
+      
+      await storage.deleteClient(Number(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Vendor routes
+  app.get("/api/vendors", requirePermission("purchases:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const vendors = await storage.getVendors(userId);
+      res.json(vendors);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/vendors/:id", requirePermission("purchases:read"), async (req, res, next) => {
+    try {
+      const vendor = await storage.getVendor(Number(req.params.id));
+      
+      if (!vendor) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+      
+      // Check if user has access to this vendor
+      if (!canAccessRecord(req, vendor)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      res.json(vendor);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/vendors/:id/expenses", requirePermission("purchases:read"), async (req, res, next) => {
+    try {
+      const vendorId = Number(req.params.id);
+      const vendor = await storage.getVendor(vendorId);
+      
+      if (!vendor) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+      
+      // Check if user has access to this vendor's expenses
+      if (!canAccessRecord(req, vendor)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const expenses = await storage.getExpensesByVendor(vendorId);
+      res.json(expenses);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/vendors", requirePermission("purchases:write"), async (req, res, next) => {
+    try {
+      const parsedData = insertVendorSchema.safeParse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid vendor data", 
+          errors: parsedData.error.errors 
+        });
+      }
+
+      // Check if vendor with same name already exists
+      const existingVendor = await storage.getVendorByName(parsedData.data.name);
+      if (existingVendor) {
+        return res.status(409).json({ 
+          message: "Vendor already exists",
+          existingVendor
+        });
+      }
+      
+      const vendor = await storage.createVendor(parsedData.data);
+      res.status(201).json(vendor);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/vendors/:id", requirePermission("purchases:write"), async (req, res, next) => {
+    try {
+      const vendor = await storage.getVendor(Number(req.params.id));
+      
+      if (!vendor) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+      
+      // Check if user has access to update this vendor
+      if (!canAccessRecord(req, vendor)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Validate update data
+      const parsedData = insertVendorSchema.partial().safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid vendor data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const updatedVendor = await storage.updateVendor(
+        Number(req.params.id),
+        parsedData.data
+      );
+      
+      res.json(updatedVendor);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/vendors/:id", requirePermission("purchases:write"), async (req, res, next) => {
+    try {
+      const vendor = await storage.getVendor(Number(req.params.id));
+      
+      if (!vendor) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+      
+      // Check if user has access to delete this vendor
+      if (!canAccessRecord(req, vendor)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Check if vendor has any expenses or bills
+      const vendorExpenses = await storage.getExpensesByVendor(vendor.id);
+      const vendorBills = await storage.getBillsByVendor(vendor.id);
+      if (vendorExpenses.length > 0 || vendorBills.length > 0) {
+        return res.status(400).json({ 
+          message: "Cannot delete vendor with existing expenses or bills. Delete them first." 
+        });
+      }
+      
+      await storage.deleteVendor(Number(req.params.id));
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Expense routes
+  app.get("/api/expenses", requirePermission("purchases:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const expenses = await storage.getExpenses(userId);
+      res.json(expenses);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/expenses/:id", requirePermission("purchases:read"), async (req, res, next) => {
+    try {
+      const expense = await storage.getExpense(Number(req.params.id));
+      
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      
+      // Check if user has access to this expense
+      if (!canAccessRecord(req, expense)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      res.json(expense);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/expenses", requirePermission("purchases:write"), async (req, res, next) => {
+    try {
+      // An expense from a known vendor always carries the vendor's name
+      let vendorName = req.body.vendorName;
+      if (req.body.vendorId) {
+        const vendor = await storage.getVendor(req.body.vendorId);
+        
+        if (!vendor) {
+          return res.status(404).json({ message: "Vendor not found" });
+        }
+        
+        if (!canAccessRecord(req, vendor)) {
+          return res.status(403).json({ message: "Access denied to this vendor" });
+        }
+        
+        vendorName = vendor.name;
+      }
+      
+      const parsedData = insertExpenseSchema.safeParse({
+        ...req.body,
+        vendorName,
+        userId: req.user!.id
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid expense data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      if (!(Number(parsedData.data.amount) > 0) || Number(parsedData.data.taxAmount ?? 0) < 0) {
+        return res.status(400).json({ message: "The amount must be greater than zero and the tax cannot be negative" });
+      }
+      
+      const lockProblem = await checkTaxPeriod(parsedData.data.date);
+      
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
+      }
+      
+      const expense = await storage.createExpense(parsedData.data);
+      res.status(201).json(expense);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/expenses/:id", requirePermission("purchases:write"), async (req, res, next) => {
+    try {
+      const expense = await storage.getExpense(Number(req.params.id));
+      
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      
+      // Check if user has access to update this expense
+      if (!canAccessRecord(req, expense)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      // Validate update data
+      const parsedData = insertExpenseSchema.partial().safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid expense data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const updates = parsedData.data;
+      
+      if (updates.vendorId && updates.vendorId !== expense.vendorId) {
+        const vendor = await storage.getVendor(updates.vendorId);
+        
+        if (!vendor) {
+          return res.status(404).json({ message: "Vendor not found" });
+        }
+        
+        if (!canAccessRecord(req, vendor)) {
+          return res.status(403).json({ message: "Access denied to this vendor" });
+        }
+        
+        updates.vendorName = vendor.name;
+      }
+      
+      if (!(Number(updates.amount ?? expense.amount) > 0) || Number(updates.taxAmount ?? expense.taxAmount) < 0) {
+        return res.status(400).json({ message: "The amount must be greater than zero and the tax cannot be negative" });
+      }
+      
+      const lockProblem = await checkTaxPeriod(expense.date, updates.date);
+      
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
+      }
+      
+      const updatedExpense = await storage.updateExpense(expense.id, updates);
+      res.json(updatedExpense);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/expenses/:id", requirePermission("purchases:write"), async (req, res, next) => {
+    try {
+      const expense = await storage.getExpense(Number(req.params.id));
+      
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      
+      // Check if user has access to delete this expense
+      if (!canAccessRecord(req, expense)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const lockProblem = await checkTaxPeriod(expense.date);
+      
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
+      }
+      
+      await storage.deleteExpense(expense.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Expense receipt routes. The receipt is uploaded as the raw request body
+  // with its own content type, and the file name in the query string.
+  
+  // File names in a Content-Disposition header, encoded as RFC 5987 allows
+  const encodeHeaderFileName = (fileName: string) =>
+    encodeURIComponent(fileName).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  
+  app.get("/api/expenses/:id/receipt", requirePermission("purchases:read"), async (req, res, next) => {
+    try {
+      const expense = await storage.getExpense(Number(req.params.id));
+      
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      
+      if (!canAccessRecord(req, expense)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const receipt = await storage.getExpenseReceipt(expense.id);
+      
+      if (!receipt) {
+        return res.status(404).json({ message: "This expense has no receipt" });
+      }
+      
+      // Only images are shown in the browser, and never as another type
+      const disposition = RECEIPT_IMAGE_CONTENT_TYPES.includes(receipt.contentType) ? "inline" : "attachment";
+      res.setHeader("Content-Type", receipt.contentType);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Content-Disposition", `${disposition}; filename*=UTF-8''${encodeHeaderFileName(receipt.fileName)}`);
+      res.send(Buffer.from(receipt.data, "base64"));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put(
+    "/api/expenses/:id/receipt",
+    requirePermission("purchases:write"),
+    express.raw({ type: () => true, limit: MAX_RECEIPT_BYTES }),
+    async (req, res, next) => {
+      try {
+        const expense = await storage.getExpense(Number(req.params.id));
+        
+        if (!expense) {
+          return res.status(404).json({ message: "Expense not found" });
+        }
+        
+        if (!canAccessRecord(req, expense)) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        
+        const fileName = typeof req.query.fileName === "string" ? req.query.fileName.trim() : "";
+        
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0 || !fileName) {
+          return res.status(400).json({ message: "Upload the receipt file with a fileName" });
+        }
+        
+        const contentType = RECEIPT_CONTENT_TYPES.find(type => type === req.headers["content-type"]?.split(";")[0].trim().toLowerCase());
+        
+        if (!contentType) {
+          return res.status(400).json({ message: "Receipts must be a PNG or JPEG image or a PDF" });
+        }
+        
+        const updatedExpense = await storage.saveExpenseReceipt(expense.id, {
+          fileName,
+          contentType,
+          data: req.body.toString("base64"),
+        });
+        
+        res.json(updatedExpense);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  app.delete("/api/expenses/:id/receipt", requirePermission("purchases:write"), async (req, res, next) => {
+    try {
+      const expense = await storage.getExpense(Number(req.params.id));
+      
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      
+      if (!canAccessRecord(req, expense)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const updatedExpense = await storage.deleteExpenseReceipt(expense.id);
+      res.json(updatedExpense);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Bill routes
+  app.get("/api/bills", requirePermission("purchases:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const bills = await storage.withBillAmounts(await storage.getBills(userId));
+      res.json(bills);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/bills/:id", requirePermission("purchases:read"), async (req, res, next) => {
+    try {
+      const bill = await storage.getBill(Number(req.params.id));
+      
+      if (!bill) {
+        return res.status(404).json({ message: "Bill not found" });
+      }
+      
+      // Check if user has access to this bill
+      if (!canAccessRecord(req, bill)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const [withAmounts] = await storage.withBillAmounts([bill]);
+      res.json(withAmounts);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/bills/:id/line-items", requirePermission("purchases:read"), async (req, res, next) => {
+    try {
+      const bill = await storage.getBill(Number(req.params.id));
+      
+      if (!bill) {
+        return res.status(404).json({ message: "Bill not found" });
+      }
+      
+      // Check if user has access to this bill
+      if (!canAccessRecord(req, bill)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const lineItems = await storage.getBillLineItems(bill.id);
+      res.json(lineItems);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/bills/:id/payments", requirePermission("purchases:read"), async (req, res, next) => {
+    try {
+      const bill = await storage.getBill(Number(req.params.id));
+      
+      if (!bill) {
+        return res.status(404).json({ message: "Bill not found" });
+      }
+      
+      // Check if user has access to this bill's payments
+      if (!canAccessRecord(req, bill)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const payments = await storage.getBillPaymentsByBill(bill.id);
+      res.json(payments);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/bills", requirePermission("purchases:write"), async (req, res, next) => {
+    try {
+      const { lineItems, ...billData } = req.body;
+      
+      const parsedLineItems = z.array(invoiceLineItemInputSchema).optional().safeParse(lineItems);
+      
+      if (!parsedLineItems.success) {
+        return res.status(400).json({ 
+          message: "Invalid line items", 
+          errors: parsedLineItems.error.errors 
+        });
+      }
+      
+      // Verify vendor exists and user has access
+      const vendor = await storage.getVendor(billData.vendorId);
+      
+      if (!vendor) {
+        return res.status(404).json({ message: "Vendor not found" });
+      }
+      
+      if (!canAccessRecord(req, vendor)) {
+        return res.status(403).json({ message: "Access denied to this vendor" });
+      }
+      
+      const parsedData = insertBillSchema.safeParse({
+        ...billData,
+        vendorName: vendor.name,
+        // The total of an itemized bill is always derived from its lines
+        ...(parsedLineItems.data?.length
+          ? { amount: calculateInvoiceTotal(parsedLineItems.data).toFixed(2) }
+          : {}),
+        userId: req.user!.id
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid bill data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      if (parsedData.data.dueDate < parsedData.data.date) {
+        return res.status(400).json({ message: "The due date must be on or after the bill date" });
+      }
+      
+      const lockProblem = await checkTaxPeriod(parsedData.data.date);
+      
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
+      }
+      
+      const bill = await storage.createBill(parsedData.data, parsedLineItems.data);
+      res.status(201).json(bill);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/bills/:id", requirePermission("purchases:write"), async (req, res, next) => {
+    try {
+      const bill = await storage.getBill(Number(req.params.id));
+      
+      if (!bill) {
+        return res.status(404).json({ message: "Bill not found" });
+      }
+      
+      // Check if user has access to update this bill
+      if (!canAccessRecord(req, bill)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const { lineItems, ...billData } = req.body;
+      
+      const parsedLineItems = z.array(invoiceLineItemInputSchema).optional().safeParse(lineItems);
+      
+      if (!parsedLineItems.success) {
+        return res.status(400).json({ 
+          message: "Invalid line items", 
+          errors: parsedLineItems.error.errors 
+        });
+      }
+      
+      // Validate update data
+      const parsedData = insertBillSchema.omit({ userId: true }).partial().safeParse(billData);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid bill data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const updates = parsedData.data;
+      
+      if (updates.vendorId && updates.vendorId !== bill.vendorId) {
+        const vendor = await storage.getVendor(updates.vendorId);
+        
+        if (!vendor) {
+          return res.status(404).json({ message: "Vendor not found" });
+        }
+        
+        if (!canAccessRecord(req, vendor)) {
+          return res.status(403).json({ message: "Access denied to this vendor" });
+        }
+        
+        updates.vendorName = vendor.name;
+      }
+      
+      if ((updates.dueDate ?? bill.dueDate) < (updates.date ?? bill.date)) {
+        return res.status(400).json({ message: "The due date must be on or after the bill date" });
+      }
+      
+      const lockProblem = await checkTaxPeriod(bill.date, updates.date);
+      
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
+      }
+      
+      // A bill cannot be reduced below what has already been paid on it
+      const newAmount = parsedLineItems.data?.length
+        ? calculateInvoiceTotal(parsedLineItems.data)
+        : Number(updates.amount ?? bill.amount);
+      const [{ amountPaid }] = await storage.withBillAmounts([bill]);
+      
+      if (newAmount < amountPaid) {
+        return res.status(409).json({
+          message: `The bill total cannot be less than the ${amountPaid.toFixed(2)} already paid`
+        });
+      }
+      
+      await storage.updateBill(bill.id, updates, parsedLineItems.data);
+      const updatedBill = await storage.refreshBillStatus(bill.id);
+      res.json(updatedBill);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/bills/:id", requirePermission("purchases:write"), async (req, res, next) => {
+    try {
+      const bill = await storage.getBill(Number(req.params.id));
+      
+      if (!bill) {
+        return res.status(404).json({ message: "Bill not found" });
+      }
+      
+      // Check if user has access to delete this bill
+      if (!canAccessRecord(req, bill)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const payments = await storage.getBillPaymentsByBill(bill.id);
+      if (payments.length > 0) {
+        return res.status(409).json({ message: "Bills with payments cannot be deleted. Delete the payments first." });
+      }
+      
+      const lockProblem = await checkTaxPeriod(bill.date);
+      
+      if (lockProblem) {
+        return res.status(409).json({ message: lockProblem });
+      }
+      
+      await storage.deleteBill(bill.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Bill payment routes
+  app.get("/api/bill-payments", requirePermission("purchases:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const payments = await storage.getBillPayments(userId);
+      res.json(payments);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/bill-payments", requirePermission("purchases:write"), async (req, res, next) => {
+    try {
+      // Verify bill exists and user has access
+      const bill = await storage.getBill(req.body.billId);
+      
+      if (!bill) {
+        return res.status(404).json({ message: "Bill not found" });
+      }
+      
+      if (!canAccessRecord(req, bill)) {
+        return res.status(403).json({ message: "Access denied to this bill" });
+      }
+      
+      const parsedData = insertBillPaymentSchema.safeParse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid bill payment data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      // Bills are paid in instalments up to what is still due
+      const amount = Number(parsedData.data.amount);
+      const [{ amountDue }] = await storage.withBillAmounts([bill]);
+      
+      if (!(amount > 0)) {
+        return res.status(400).json({ message: "The payment amount must be greater than zero" });
+      }
+      
+      if (amount > amountDue) {
+        return res.status(400).json({
+          message: `The payment amount cannot exceed the amount due of ${amountDue.toFixed(2)}`
+        });
+      }
+      
+      const payment = await storage.createBillPayment(parsedData.data);
+      await storage.refreshBillStatus(bill.id);
+      
+      res.status(201).json(payment);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/bill-payments/:id", requirePermission("purchases:write"), async (req, res, next) => {
+    try {
+      const payment = await storage.getBillPayment(Number(req.params.id));
+      
+      if (!payment) {
+        return res.status(404).json({ message: "Bill payment not found" });
+      }
+      
+      // Check if user has access to delete this payment
+      if (!canAccessRecord(req, payment)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      await storage.deleteBillPayment(payment.id);
+      await storage.refreshBillStatus(payment.billId);
+      
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Bank account routes
+  app.get("/api/bank-accounts", requirePermission("banking:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const bankAccounts = await storage.getBankAccounts(userId);
+      res.json(bankAccounts);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/bank-accounts/:id", requirePermission("banking:read"), async (req, res, next) => {
+    try {
+      const bankAccount = await storage.getBankAccount(Number(req.params.id));
+      
+      if (!bankAccount) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+      
+      if (!canAccessRecord(req, bankAccount)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      res.json(bankAccount);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/bank-accounts", requirePermission("banking:write"), async (req, res, next) => {
+    try {
+      const parsedData = insertBankAccountSchema.safeParse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid bank account data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const bankAccount = await storage.createBankAccount(parsedData.data);
+      res.status(201).json(bankAccount);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/bank-accounts/:id", requirePermission("banking:write"), async (req, res, next) => {
+    try {
+      const bankAccount = await storage.getBankAccount(Number(req.params.id));
+      
+      if (!bankAccount) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+      
+      if (!canAccessRecord(req, bankAccount)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const parsedData = insertBankAccountSchema.omit({ userId: true }).partial().safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid bank account data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      // Reconciled balances were worked out from the opening balance
+      if (
+        parsedData.data.openingBalance !== undefined &&
+        Number(parsedData.data.openingBalance) !== Number(bankAccount.openingBalance) &&
+        (await getLockedThrough(bankAccount.id)) !== null
+      ) {
+        return res.status(409).json({ message: "The opening balance cannot change once the account has been reconciled" });
+      }
+      
+      const updatedBankAccount = await storage.updateBankAccount(bankAccount.id, parsedData.data);
+      res.json(updatedBankAccount);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Deleting a bank account also deletes its transactions and reconciliations
+  app.delete("/api/bank-accounts/:id", requirePermission("banking:write"), async (req, res, next) => {
+    try {
+      const bankAccount = await storage.getBankAccount(Number(req.params.id));
+      
+      if (!bankAccount) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+      
+      if (!canAccessRecord(req, bankAccount)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      await storage.deleteBankAccount(bankAccount.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/bank-accounts/:id/transactions", requirePermission("banking:read"), async (req, res, next) => {
+    try {
+      const bankAccount = await storage.getBankAccount(Number(req.params.id));
+      
+      if (!bankAccount) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+      
+      if (!canAccessRecord(req, bankAccount)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const transactions = await getBankTransactionsWithMatches(bankAccount.id);
+      res.json(transactions);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Statement line entered by hand
+  app.post("/api/bank-accounts/:id/transactions", requirePermission("banking:write"), async (req, res, next) => {
+    try {
+      const bankAccount = await storage.getBankAccount(Number(req.params.id));
+      
+      if (!bankAccount) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+      
+      if (!canAccessRecord(req, bankAccount)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const parsedData = insertBankTransactionSchema.safeParse({
+        ...req.body,
+        bankAccountId: bankAccount.id,
+        importId: `manual:${randomUUID()}`,
+        source: "manual",
+        category: null,
+        vendorId: null,
+        ruleId: null,
+        userId: bankAccount.userId
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid bank transaction data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      if (Number(parsedData.data.amount) === 0) {
+        return res.status(400).json({ message: "The amount cannot be zero" });
+      }
+      
+      if (isLocked(parsedData.data.date, await getLockedThrough(bankAccount.id))) {
+        return res.status(409).json({ message: "This period has already been reconciled" });
+      }
+      
+      const rules = await storage.getBankRules(bankAccount.userId);
+      const transaction = await storage.createBankTransaction(applyBankRules(rules, parsedData.data));
+      res.status(201).json(transaction);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.delete("/api/bank-transactions/:id", requirePermission("banking:write"), async (req, res, next) => {
+    try {
+      const transaction = await storage.getBankTransaction(Number(req.params.id));
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Bank transaction not found" });
+      }
+      
+      if (!canAccessRecord(req, transaction)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      if (isLocked(transaction.date, await getLockedThrough(transaction.bankAccountId))) {
+        return res.status(409).json({ message: "This period has already been reconciled" });
+      }
+      
+      await storage.deleteBankTransaction(transaction.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Categorize a transaction by hand, overriding any rule. Categories do not
+  // affect reconciliation, so reconciled transactions can still be changed.
+  app.put("/api/bank-transactions/:id", requirePermission("banking:write"), async (req, res, next) => {
+    try {
+      const transaction = await storage.getBankTransaction(Number(req.params.id));
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Bank transaction not found" });
+      }
+      
+      if (!canAccessRecord(req, transaction)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const parsedData = insertBankTransactionSchema
+        .pick({ category: true, vendorId: true })
+        .safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid bank transaction data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      if (parsedData.data.vendorId) {
+        const vendor = await storage.getVendor(parsedData.data.vendorId);
+        
+        if (!vendor || vendor.userId !== transaction.userId) {
+          return res.status(400).json({ message: "Vendor not found" });
+        }
+      }
+      
+      const updated = await storage.updateBankTransaction(transaction.id, { ...parsedData.data, ruleId: null });
+      res.json(updated);
+    } catch (error) {
+      next(error);
+    }
   });
-  
-  app.delete("/api/admin/users/:id", async (req, res, next) => {
+
+  app.get("/api/bank-transactions/:id/suggestions", requirePermission("banking:read"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const transaction = await storage.getBankTransaction(Number(req.params.id));
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Bank transaction not found" });
       }
       
-      // Only administrators can delete users
-      if (req.user?.role !== "admin") {
-        return res.status(403).json({ message: "Access denied. Admin privileges required." });
+      if (!canAccessRecord(req, transaction)) {
+        return res.status(403).json({ message: "Access denied" });
       }
       
-      const userId = Number(req.params.id);
+      const [withMatches] = (await getBankTransactionsWithMatches(transaction.bankAccountId))
+        .filter(candidate => candidate.id === transaction.id);
+      const suggestions = await suggestMatches(withMatches);
+      res.json(suggestions);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Accept recorded payments as the book entries for a bank transaction
+  app.post("/api/bank-transactions/:id/matches", requirePermission("banking:write"), async (req, res, next) => {
+    try {
+      const transaction = await storage.getBankTransaction(Number(req.params.id));
       
-      // Prevent self-deletion
-      if (userId === req.user.id) {
-        return res.status(400).json({ message: "Cannot delete your own account" });
+      if (!transaction) {
+        return res.status(404).json({ message: "Bank transaction not found" });
       }
       
-      const user = await storage.getUser(userId);
+      if (!canAccessRecord(req, transaction)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const parsedData = z.object({ paymentIds: z.array(z.number().int()).min(1) }).safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid match data", 
+          errors: parsedData.error.errors 
+        });
       }
       
-      const deleted = await storage.deleteUser(userId);
+      const transactions = await getBankTransactionsWithMatches(transaction.bankAccountId);
+      const current = transactions.find(candidate => candidate.id === transaction.id)!;
       
-      if (!deleted) {
-        return res.status(500).json({ message: "Failed to delete user" });
+      if (current.locked) {
+        return res.status(409).json({ message: "This period has already been reconciled" });
       }
       
-      res.status(204).end();
+      const paymentIds = Array.from(new Set(parsedData.data.paymentIds));
+      const bankAccount = await storage.getBankAccount(transaction.bankAccountId);
+      let total = 0;
+      
+      for (const paymentId of paymentIds) {
+        const payment = await storage.getPayment(paymentId);
+        
+        if (!payment) {
+          return res.status(404).json({ message: `Payment ${paymentId} not found` });
+        }
+        
+        if (payment.userId !== transaction.userId) {
+          return res.status(403).json({ message: "Access denied to this payment" });
+        }
+        
+        if (await storage.getBankTransactionMatchByPayment(payment.id)) {
+          return res.status(409).json({ message: `Payment ${paymentId} is already matched to a bank transaction` });
+        }
+        
+        if (payment.bankAccountId !== null && payment.bankAccountId !== transaction.bankAccountId) {
+          return res.status(409).json({ message: `Payment ${paymentId} was recorded to another bank account` });
+        }
+        
+        if (payment.currency !== bankAccount?.currency) {
+          return res.status(409).json({ message: `Payment ${paymentId} is in ${payment.currency}, not the ${bankAccount?.currency} of the bank account` });
+        }
+        
+        total += getSignedPaymentAmount(payment);
+      }
+      
+      // Matched payments cannot add up to more than the transaction
+      const amount = Number(transaction.amount);
+      const matched = Math.round((current.matchedAmount + total) * 100) / 100;
+      
+      if (Math.sign(matched) !== Math.sign(amount) || Math.abs(matched) > Math.abs(amount)) {
+        return res.status(400).json({
+          message: `The payments come to ${matched.toFixed(2)}, which does not fit the transaction amount of ${amount.toFixed(2)}`
+        });
+      }
+      
+      await storage.matchBankTransaction(transaction, paymentIds);
+      
+      const [updated] = (await getBankTransactionsWithMatches(transaction.bankAccountId))
+        .filter(candidate => candidate.id === transaction.id);
+      res.status(201).json(updated);
     } catch (error) {
       next(error);
     }
   });
 
-  // Data for dashboard
-  app.get("/api/dashboard", async (req, res, next) => {
+  app.delete("/api/bank-transactions/:id/matches", requirePermission("banking:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const transaction = await storage.getBankTransaction(Number(req.params.id));
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Bank transaction not found" });
       }
       
-      const userId = req.user?.role === "admin" ? undefined : req.user?.id;
-      const invoices = await storage.getInvoices(userId);
-      const payments = await storage.getPayments(userId);
+      if (!canAccessRecord(req, transaction)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
-      // Calculate total revenue, pending invoices, total payments, outstanding balance
-      const totalRevenue = invoices.reduce((sum, inv) => sum + Number(inv.amount), 0);
-      const pendingInvoices = invoices.filter(inv => inv.status === "pending").length;
-      const totalPayments = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
-      const outstandingBalance = totalRevenue - totalPayments;
+      if (isLocked(transaction.date, await getLockedThrough(transaction.bankAccountId))) {
+        return res.status(409).json({ message: "This period has already been reconciled" });
+      }
       
-      // Get recent activity (combine recent invoices and payments)
-      const recentInvoices = invoices
-        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-        .slice(0, 10);
-        
-      res.json({
-        stats: {
-          totalRevenue,
-          pendingInvoices,
-          totalPayments,
-          outstandingBalance
-        },
-        recentInvoices
-      });
+      await storage.unmatchBankTransaction(transaction.id);
+      res.status(204).end();
     } catch (error) {
       next(error);
     }
   });
 
-  // Create HTTP server instance
-  // Client Management Routes
-  app.get("/api/clients", async (req, res, next) => {
+  // Record payments from an unmatched deposit, one per invoice it settles,
+  // and match them to it. A single allocation records a single payment;
+  // several split the deposit across invoices.
+  app.post("/api/bank-transactions/:id/payments", requirePermission("banking:write", "payments:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const transaction = await storage.getBankTransaction(Number(req.params.id));
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Bank transaction not found" });
       }
       
-      const userId = req.user?.role === "admin" ? undefined : req.user?.id;
-      const clients = await storage.getClients(userId);
-      res.json(clients);
+      if (!canAccessRecord(req, transaction)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const parsedData = insertPaymentSchema.pick({ method: true, notes: true }).extend({
+        allocations: z.array(z.object({
+          invoiceId: z.number().int(),
+          amount: z.string().refine(value => Number(value) > 0, "Each amount must be greater than zero"),
+        })).min(1, "Allocate the deposit to at least one invoice"),
+      }).safeParse(req.body);
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid payment data", 
+          errors: parsedData.error.errors 
+        });
+      }
+      
+      const transactions = await getBankTransactionsWithMatches(transaction.bankAccountId);
+      const current = transactions.find(candidate => candidate.id === transaction.id)!;
+      
+      if (current.locked) {
+        return res.status(409).json({ message: "This period has already been reconciled" });
+      }
+      
+      // Payments are money coming in; refunds are matched from the payments list
+      const remaining = Math.round((Number(transaction.amount) - current.matchedAmount) * 100) / 100;
+      const allocated = Math.round(parsedData.data.allocations.reduce((sum, allocation) => sum + Number(allocation.amount), 0) * 100) / 100;
+      
+      if (remaining <= 0) {
+        return res.status(409).json({ message: "Payments can only be recorded from unmatched money coming in" });
+      }
+      
+      if (allocated > remaining) {
+        return res.status(400).json({
+          message: `The allocations come to ${allocated.toFixed(2)}, more than the ${remaining.toFixed(2)} left to match`
+        });
+      }
+      
+      const bankAccount = await storage.getBankAccount(transaction.bankAccountId);
+      
+      for (const allocation of parsedData.data.allocations) {
+        const invoice = await storage.getInvoice(allocation.invoiceId);
+        
+        if (!invoice) {
+          return res.status(404).json({ message: "Invoice not found" });
+        }
+        
+        if (invoice.userId !== transaction.userId) {
+          return res.status(403).json({ message: "Access denied to this invoice" });
+        }
+        
+        if (invoice.status === "void") {
+          return res.status(409).json({ message: "Payments cannot be recorded against a void invoice" });
+        }
+        
+        if (invoice.currency !== bankAccount?.currency) {
+          return res.status(409).json({ message: `Invoice ${getInvoiceNumber(invoice)} is in ${invoice.currency}, not the ${bankAccount?.currency} of the bank account` });
+        }
+      }
+      
+      const today = toDateString(new Date());
+      const paymentIds: number[] = [];
+      
+      for (const allocation of parsedData.data.allocations) {
+        const payment = await storage.createPayment({
+          invoiceId: allocation.invoiceId,
+          type: "payment",
+          refundOfId: null,
+          amount: allocation.amount,
+          date: transaction.date,
+          method: parsedData.data.method ?? "bank_transfer",
+          reference: transaction.reference ?? transaction.description,
+          notes: parsedData.data.notes ?? null,
+          bankAccountId: transaction.bankAccountId,
+          userId: transaction.userId,
+        });
+        paymentIds.push(payment.id);
+        await storage.refreshInvoiceStatus(allocation.invoiceId, today);
+      }
+      
+      await storage.matchBankTransaction(transaction, paymentIds);
+      
+      const [updated] = (await getBankTransactionsWithMatches(transaction.bankAccountId))
+        .filter(candidate => candidate.id === transaction.id);
+      res.status(201).json(updated);
     } catch (error) {
       next(error);
     }
   });
 
-  app.get("/api/clients/:id", async (req, res, next) => {
+  // Reconciliation report as of a date (today by default). The statement
+  // balance is optional; when given, the report shows how far the loaded
+  // statement lines are from it.
+  app.get("/api/bank-accounts/:id/reconciliation", requirePermission("banking:read"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
+      const bankAccount = await storage.getBankAccount(Number(req.params.id));
       
-      const client = await storage.getClient(Number(req.params.id));
-      
-      if (!client) {
-        return res.status(404).json({ message: "Client not found" });
+      if (!bankAccount) {
+        return res.status(404).json({ message: "Bank account not found" });
       }
       
-      // Check if user has access to this client
-      if (req.user?.role !== "admin" && client.userId !== req.user?.id) {
+      if (!canAccessRecord(req, bankAccount)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      res.json(client);
+      const asOf = typeof req.query.asOf === "string" && req.query.asOf ? req.query.asOf : toDateString(new Date());
+      const statementBalance = typeof req.query.statementBalance === "string" && req.query.statementBalance !== ""
+        ? Number(req.query.statementBalance)
+        : null;
+      
+      if (isNaN(Date.parse(asOf)) || (statementBalance !== null && isNaN(statementBalance))) {
+        return res.status(400).json({ message: "Invalid reconciliation date or statement balance" });
+      }
+      
+      const report = await buildReconciliationReport(bankAccount, asOf, statementBalance);
+      res.json(report);
     } catch (error) {
       next(error);
     }
   });
-  
-  app.get("/api/clients/:id/invoices", async (req, res, next) => {
+
+  app.get("/api/bank-accounts/:id/reconciliations", requirePermission("banking:read"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
-      }
+      const bankAccount = await storage.getBankAccount(Number(req.params.id));
       
-      const clientId = Number(req.params.id);
-      const client = await storage.getClient(clientId);
-      
-      if (!client) {
-        return res.status(404).json({ message: "Client not found" });
+      if (!bankAccount) {
+        return res.status(404).json({ message: "Bank account not found" });
       }
       
-      // Check if user has access to this client's invoices
-      if (req.user?.role !== "admin" && client.userId !== req.user?.id) {
+      if (!canAccessRecord(req, bankAccount)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      const invoices = await storage.getInvoicesByClient(clientId);
-      res.json(invoices);
+      const reconciliations = await storage.getBankReconciliations(bankAccount.id);
+      res.json(reconciliations);
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/clients", async (req, res, next) => {
+  // Complete a reconciliation, locking the period up to the statement date.
+  // The statement lines loaded up to that date must add up to the balance
+  // printed on the statement.
+  app.post("/api/bank-accounts/:id/reconciliations", requirePermission("banking:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const bankAccount = await storage.getBankAccount(Number(req.params.id));
+      
+      if (!bankAccount) {
+        return res.status(404).json({ message: "Bank account not found" });
       }
       
-      const parsedData = insertClientSchema.safeParse({
-        ...req.body,
-        userId: req.user.id
-      });
+      if (!canAccessRecord(req, bankAccount)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      const parsedData = insertBankReconciliationSchema
+        .pick({ statementDate: true, statementBalance: true })
+        .safeParse(req.body);
       
       if (!parsedData.success) {
         return res.status(400).json({ 
-          message: "Invalid client data", 
+          message: "Invalid reconciliation data", 
           errors: parsedData.error.errors 
         });
       }
-
-      // Check if client with same name already exists
-      const existingClient = await storage.getClientByName(parsedData.data.name);
-      if (existingClient) {
-        return res.status(409).json({ 
-          message: "Client already exists",
-          existingClient
+      
+      const { statementDate, statementBalance } = parsedData.data;
+      const report = await buildReconciliationReport(bankAccount, statementDate, Number(statementBalance));
+      
+      if (report.lockedThrough !== null && statementDate <= report.lockedThrough) {
+        return res.status(409).json({ message: `The account is already reconciled through ${report.lockedThrough}` });
+      }
+      
+      if (report.difference !== 0) {
+        return res.status(409).json({
+          message: `The statement lines come to ${report.clearedBalance.toFixed(2)}, not the statement balance of ${Number(statementBalance).toFixed(2)}`,
+          report
         });
       }
       
-      const client = await storage.createClient(parsedData.data);
-      res.status(201).json(client);
+      const reconciliation = await storage.createBankReconciliation({
+        bankAccountId: bankAccount.id,
+        statementDate,
+        statementBalance,
+        bookBalance: report.bookBalance.toFixed(2),
+        userId: req.user!.id,
+      });
+      
+      res.status(201).json(reconciliation);
     } catch (error) {
       next(error);
     }
   });
 
-  app.put("/api/clients/:id", async (req, res, next) => {
+  // Only the latest reconciliation of an account can be undone, which
+  // unlocks its period again
+  app.delete("/api/bank-reconciliations/:id", requirePermission("banking:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const reconciliation = await storage.getBankReconciliation(Number(req.params.id));
+      
+      if (!reconciliation) {
+        return res.status(404).json({ message: "Reconciliation not found" });
       }
       
-      const client = await storage.getClient(Number(req.params.id));
+      const bankAccount = await storage.getBankAccount(reconciliation.bankAccountId);
       
-      if (!client) {
-        return res.status(404).json({ message: "Client not found" });
+      if (!bankAccount || !canAccessRecord(req, bankAccount)) {
+        return res.status(403).json({ message: "Access denied" });
       }
       
-      // Check if user has access to update this client
-      if (req.user?.role !== "admin" && client.userId !== req.user?.id) {
-        return res.status(403).json({ message: "Access denied" });
+      const [latest] = await storage.getBankReconciliations(reconciliation.bankAccountId);
+      
+      if (latest?.id !== reconciliation.id) {
+        return res.status(409).json({ message: "Undo the later reconciliations of this account first" });
       }
       
-      // Validate update data
-      const parsedData = insertClientSchema.partial().safeParse(req.body);
+      await storage.deleteBankReconciliation(reconciliation.id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Bank rule routes
+  app.get("/api/bank-rules", requirePermission("banking:read"), async (req, res, next) => {
+    try {
+      const userId = getRecordOwnerId(req);
+      const rules = await storage.getBankRules(userId);
+      res.json(rules);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/bank-rules", requirePermission("banking:write"), async (req, res, next) => {
+    try {
+      const parsedData = insertBankRuleSchema.safeParse({
+        ...req.body,
+        userId: req.user!.id
+      });
       
       if (!parsedData.success) {
         return res.status(400).json({ 
-          message: "Invalid client data", 
+          message: "Invalid bank rule data", 
           errors: parsedData.error.errors 
         });
       }
       
-      const updatedClient = await storage.updateClient(
-        Number(req.params.id),
-        parsedData.data
-      );
+      const problem = await validateBankRule(parsedData.data);
       
-      res.json(updatedClient);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const rule = await storage.createBankRule(parsedData.data);
+      res.status(201).json(rule);
     } catch (error) {
       next(error);
     }
   });
 
-  app.delete("/api/clients/:id", async (req, res, next) => {
+  // Try a rule against past transactions without saving it. Send the ID of
+  // a saved rule with its edited fields to test the edit.
+  app.post("/api/bank-rules/test", requirePermission("banking:write"), async (req, res, next) => {
     try {
-      if (!req.isAuthenticated()) {
-        return res.status(401).json({ message: "Not authenticated" });
+      const { id, ...fields } = req.body;
+      const existing = id ? await storage.getBankRule(Number(id)) : undefined;
+      
+      if (id && !existing) {
+        return res.status(404).json({ message: "Bank rule not found" });
       }
       
-      const client = await storage.getClient(Number(req.params.id));
+      if (existing && !canAccessRecord(req, existing)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
       
-      if (!client) {
-        return res.status(404).json({ message: "Client not found" });
+      const parsedData = insertBankRuleSchema.safeParse({
+        ...fields,
+        userId: existing?.userId ?? req.user!.id
+      });
+      
+      if (!parsedData.success) {
+        return res.status(400).json({ 
+          message: "Invalid bank rule data", 
+          errors: parsedData.error.errors 
+        });
       }
       
-      // Check if user has access to delete this client
-      if (req.user?.role !== "admin" && client.userId !== req.user?.id) {
+      const result = await testBankRule(parsedData.data, existing?.id);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/bank-rules/:id", requirePermission("banking:write"), async (req, res, next) => {
+    try {
+      const rule = await storage.getBankRule(Number(req.params.id));
+      
+      if (!rule) {
+        return res.status(404).json({ message: "Bank rule not found" });
+      }
+      
+      if (!canAccessRecord(req, rule)) {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      // Check if client has any invoices
-      const clientInvoices = await storage.getInvoicesByClient(client.id);
-      if (clientInvoices.length > 0) {
+      const parsedData = insertBankRuleSchema.omit({ userId: true }).partial().safeParse(req.body);
+      
+      if (!parsedData.success) {
         return res.status(400).json({ 
-          message: "Cannot delete client with existing invoices. Delete client invoices first." 
+          message: "Invalid bank rule data", 
+          errors: parsedData.error.errors 
         });
       }
       
-      await storage.deleteClient(Number(req.params.id));
+      const { id, createdAt, ...current } = rule;
+      const problem = await validateBankRule({ ...current, ...parsedData.data });
+      
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const updatedRule = await storage.updateBankRule(rule.id, parsedData.data);
+      res.json(updatedRule);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Transactions the rule categorized keep their category and vendor
+  app.delete("/api/bank-rules/:id", requirePermission("banking:write"), async (req, res, next) => {
+    try {
+      const rule = await storage.getBankRule(Number(req.params.id));
+      
+      if (!rule) {
+        return res.status(404).json({ message: "Bank rule not found" });
+      }
+      
+      if (!canAccessRecord(req, rule)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      
+      await storage.deleteBankRule(rule.id);
       res.status(204).end();
     } catch (error) {
       next(error);
     }
   });
 
+  // Statement import. The file is uploaded as the raw request body with its
+  // name in the query string; the format is taken from ?format= or detected
+  // from the file. Transactions already imported are skipped.
+  app.post(
+    "/api/bank-accounts/:id/import",
+    requirePermission("banking:write"),
+    express.raw({ type: () => true, limit: MAX_STATEMENT_BYTES }),
+    async (req, res, next) => {
+      try {
+        const bankAccount = await storage.getBankAccount(Number(req.params.id));
+        
+        if (!bankAccount) {
+          return res.status(404).json({ message: "Bank account not found" });
+        }
+        
+        if (!canAccessRecord(req, bankAccount)) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Upload the statement file" });
+        }
+        
+        // Older OFX and QIF exports are often Windows-1252 rather than UTF-8
+        const utf8 = req.body.toString("utf8");
+        const text = utf8.includes("\uFFFD") ? req.body.toString("latin1") : utf8;
+        const fileName = typeof req.query.fileName === "string" ? req.query.fileName : "";
+        const requestedFormat = z.enum(bankStatementFormatValues).optional().safeParse(req.query.format || undefined);
+        
+        if (!requestedFormat.success) {
+          return res.status(400).json({ message: "Unknown statement format" });
+        }
+        
+        const format = requestedFormat.data ?? detectStatementFormat(fileName, text);
+        
+        if (!format) {
+          return res.status(400).json({ message: "Could not tell the format of the statement; choose one" });
+        }
+        
+        const result = await importStatement(bankAccount, format, text);
+        res.status(201).json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Audit log routes. Changes to every record are kept, with who made them
+  // and from where; entries can be filtered by record type, user and date.
+  app.get("/api/audit-log", requirePermission("audit:read"), async (req, res, next) => {
+    try {
+      const entityType = z.enum(auditEntityTypeValues).optional().safeParse(req.query.entityType || undefined);
+      
+      if (!entityType.success) {
+        return res.status(400).json({ message: "Unknown record type" });
+      }
+      
+      const userId = typeof req.query.userId === "string" && req.query.userId ? Number(req.query.userId) : undefined;
+      const entries = await storage.getAuditLog({
+        entityType: entityType.data,
+        userId,
+        from: typeof req.query.from === "string" && req.query.from ? req.query.from : undefined,
+        to: typeof req.query.to === "string" && req.query.to ? req.query.to : undefined,
+      });
+      res.json(entries);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,184 @@
+import { storage } from "./storage";
+import { runInOrganization } from "./organization-context";
+import { sendPaymentReminderNotification } from "./email-service";
+import { issueInvoice } from "./invoice-service";
+import { daysBetween, toDateString } from "./report-service";
+import { log } from "./vite";
+import { DEFAULT_REMINDER_DAYS, Estimate, Invoice, RecurringInvoice, advanceRunDate, getInvoiceDueDate } from "@shared/schema";
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+
+let timer: NodeJS.Timeout | undefined;
+let running = false;
+
+// The most recent scheduled reminder that has come due. Reminders missed
+// while the server was down are not sent in a burst, only the latest one.
+const dueReminderDay = (schedule: number[], daysOverdue: number): number | undefined => {
+  const due = schedule.filter(days => days <= daysOverdue);
+  return due.length ? Math.max(...due) : undefined;
+};
+
+// Mark pending invoices overdue once they pass their due date
+export async function markOverdueInvoices(today: string): Promise<Invoice[]> {
+  const invoices = await storage.markInvoicesOverdue(today);
+  if (invoices.length) {
+    log(`marked ${invoices.length} invoice(s) overdue`, "scheduler");
+  }
+  return invoices;
+}
+
+// Expire sent estimates once they pass their expiry date
+export async function markExpiredEstimates(today: string): Promise<Estimate[]> {
+  const estimates = await storage.markEstimatesExpired(today);
+  if (estimates.length) {
+    log(`marked ${estimates.length} estimate(s) expired`, "scheduler");
+  }
+  return estimates;
+}
+
+// Send the reminders that have come due on each client's schedule
+export async function sendPaymentReminders(today: string): Promise<number> {
+  const invoices = await storage.getOverdueInvoices();
+  let sent = 0;
+
+  for (const invoice of invoices) {
+    if (invoice.remindersPaused || !invoice.clientId) continue;
+
+    const client = await storage.getClient(invoice.clientId);
+    if (!client?.email) continue;
+
+    const daysOverdue = daysBetween(getInvoiceDueDate(invoice), today);
+    const reminderDay = dueReminderDay(client.reminderDays ?? DEFAULT_REMINDER_DAYS, daysOverdue);
+    if (reminderDay === undefined) continue;
+
+    // Log the reminder before sending so a concurrent run cannot send it too
+    const reminder = await storage.createInvoiceReminder({
+      invoiceId: invoice.id,
+      daysAfterDue: reminderDay,
+      recipient: client.email,
+    });
+    if (!reminder) continue;
+
+    const user = await storage.getUser(invoice.userId);
+    const emailSent = user
+      ? await sendPaymentReminderNotification(invoice, user, client.email, daysOverdue)
+      : false;
+
+    if (emailSent) {
+      sent++;
+    } else {
+      // Release the slot so the reminder is retried on the next run
+      await storage.deleteInvoiceReminder(reminder.id);
+      console.error(`Failed to send payment reminder for invoice ${invoice.id} to ${client.email}`);
+    }
+  }
+
+  if (sent) {
+    log(`sent ${sent} payment reminder(s)`, "scheduler");
+  }
+  return sent;
+}
+
+// The state of a template after its next run: the following run date, and
+// completed once that date is past the end date
+export const nextRecurringState = (template: RecurringInvoice): Pick<RecurringInvoice, "nextRunDate" | "status"> => {
+  const nextRunDate = advanceRunDate(template.nextRunDate, template.frequency, template.startDate);
+  const completed = template.endDate !== null && nextRunDate > template.endDate;
+  return { nextRunDate, status: completed ? "completed" : template.status };
+};
+
+// Issue the invoices of recurring templates whose run date has come. A
+// template that missed several runs (e.g. while the server was down)
+// catches up with one invoice per missed period.
+export async function generateRecurringInvoices(today: string): Promise<Invoice[]> {
+  const templates = await storage.getDueRecurringInvoices(today);
+  const generated: Invoice[] = [];
+
+  for (let template of templates) {
+    const user = await storage.getUser(template.userId);
+    if (!user) continue;
+
+    while (template.status === "active" && template.nextRunDate <= today) {
+      const runDate = template.nextRunDate;
+
+      // The end date may have been moved before the next run
+      if (template.endDate && runDate > template.endDate) {
+        await storage.updateRecurringInvoice(template.id, { status: "completed" });
+        break;
+      }
+
+      // Advance the template first so a concurrent run cannot issue the same occurrence
+      const claimed = await storage.claimRecurringRun(template.id, runDate, nextRecurringState(template));
+      if (!claimed) break;
+
+      try {
+        const invoice = await issueInvoice({
+          title: template.title,
+          clientName: template.clientName,
+          clientId: template.clientId,
+          amount: template.amount,
+          taxInclusive: template.taxInclusive,
+          date: runDate,
+          status: "pending",
+          userId: template.userId,
+          recurringInvoiceId: template.id,
+        }, template.lineItems, user);
+
+        generated.push(invoice);
+        template = (await storage.updateRecurringInvoice(template.id, { lastInvoiceId: invoice.id })) ?? claimed;
+      } catch (error) {
+        // Put the occurrence back so it is retried on the next run
+        await storage.updateRecurringInvoice(template.id, { nextRunDate: runDate, status: "active" });
+        console.error(`Failed to generate recurring invoice ${template.id} for ${runDate}:`, error);
+        break;
+      }
+    }
+  }
+
+  if (generated.length) {
+    log(`generated ${generated.length} recurring invoice(s)`, "scheduler");
+  }
+  return generated;
+}
+
+export async function runScheduledJobs(): Promise<void> {
+  if (running) return;
+  running = true;
+
+  try {
+    const today = toDateString(new Date());
+
+    // Each organization's books are processed on their own, so that a
+    // failure in one does not hold up the others
+    for (const organization of await storage.getOrganizations()) {
+      try {
+        await runInOrganization(organization.id, async () => {
+          await generateRecurringInvoices(today);
+          await markOverdueInvoices(today);
+          await markExpiredEstimates(today);
+          await sendPaymentReminders(today);
+        });
+      } catch (error) {
+        console.error(`Scheduled job failed for organization ${organization.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Scheduled job failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startScheduler(): void {
+  if (timer) return;
+
+  void runScheduledJobs();
+  timer = setInterval(runScheduledJobs, RUN_INTERVAL_MS);
+}
+
+export function stopScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
@@ -1,30 +1,278 @@
 import { 
-  User, InsertUser, 
-  Invoice, InsertInvoice, 
+  User, InsertUser,
+  Organization, InsertOrganization, OrganizationWithRole, OrganizationMembership, OrganizationMember, MemberRoleData,
+  OrganizationInvitation, PendingInvitation, InvitationWithOrganization,
+  CustomRole, InsertCustomRole,
+  Invoice, InsertInvoice, InvoiceWithAmounts, calculateInvoiceAmounts,
   Payment, InsertPayment, 
   Report, InsertReport,
   Client, InsertClient,
-  users, invoices, payments, reports, clients
+  Vendor, InsertVendor, Expense, InsertExpense, ExpenseReceipt,
+  Bill, InsertBill, BillWithAmounts, BillLineItem, BillPayment, InsertBillPayment, calculateBillAmounts,
+  BankAccount, InsertBankAccount, BankTransaction, InsertBankTransaction,
+  BankTransactionMatchWithPayment, BankReconciliation, InsertBankReconciliation, BankRule, InsertBankRule,
+  ExchangeRate, InsertExchangeRate,
+  TaxRate, InsertTaxRate, TaxGroup, InsertTaxGroup, TaxTable, TaxReturn, InsertTaxReturn, TaxReturnReport,
+  InvoiceLineItem, InsertInvoiceLineItem, InvoiceLineItemInput,
+  InvoiceReminder, InsertInvoiceReminder,
+  CreditNote, InsertCreditNote,
+  Estimate, InsertEstimate, EstimateLineItem,
+  DocumentType, InsertDocumentSequence,
+  RecurringInvoice, InsertRecurringInvoice,
+  Account, InsertAccount, AccountBalance,
+  JournalEntry, InsertJournalEntry, JournalLine, JournalLineInput, JournalEntryWithLines,
+  SYSTEM_ACCOUNTS, SystemAccountKey, FinancialStatement,
+  AuditAction, AuditChanges, AuditEntityType, AuditLogEntryWithUser, AuditLogFilters,
+  TwoFactorCredential,
+  users, twoFactorCredentials, organizations, organizationMemberships, organizationInvitations, customRoles, invoices, payments, reports, clients, invoiceLineItems, invoiceReminders, creditNotes,
+  vendors, expenses, expenseReceipts, bills, billLineItems, billPayments, bankAccounts, bankTransactions,
+  bankTransactionMatches, bankReconciliations, bankRules, exchangeRates, taxRates, taxGroups, taxReturns,
+  estimates, estimateLineItems,
+  documentSequences, documentCounters, recurringInvoices, DEFAULT_NUMBER_PATTERNS, formatDocumentNumber,
+  accounts, journalEntries, journalLines, auditLog,
+  calculateInvoiceTotal, calculateInvoiceTaxes, calculateDueDate, getInvoiceDueDate, getInvoiceNumber, getExpenseTotal,
+  DEFAULT_BASE_CURRENCY, toBaseAmount, getMemberRoleLabel
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, asc, desc, gte, lte, sql, inArray, isNull, type Column } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { client } from "./db";
+import { getOrganizationId, runInOrganization } from "./organization-context";
+import { getAuditActor } from "./audit-context";
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPg(session);
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Tables whose rows belong to an organization. Line items, reminders, bank
+// matches, receipts and journal lines belong to the record they are part of.
+const ORGANIZATION_TABLES = [
+  clients, vendors, invoices, estimates, recurringInvoices, creditNotes, payments, expenses, bills, billPayments,
+  bankAccounts, bankTransactions, bankReconciliations, bankRules, exchangeRates, taxRates, taxGroups, taxReturns,
+  documentSequences, documentCounters, accounts, journalEntries, reports,
+];
+
+// Limits a query to the rows of the organization the request or job runs in
+const inOrganization = (table: { organizationId: Column }) => eq(table.organizationId, getOrganizationId());
+
+// Tables holding the numbers each document sequence has handed out
+const NUMBERED_TABLES = { invoice: invoices, credit_note: creditNotes, estimate: estimates };
+
+// A numbering pattern as a regular expression matching the numbers it
+// produces in a year, with the first counter captured
+const documentNumberPattern = (pattern: string, year: number): string => {
+  let counters = 0;
+  const parts = pattern.split(/(\{YYYY\}|\{YY\}|\{N+\})/).map(part => {
+    if (part === "{YYYY}") return String(year);
+    if (part === "{YY}") return String(year).slice(-2);
+    if (/^\{N+\}$/.test(part)) return counters++ === 0 ? "(\\d+)" : "\\d+";
+    return part.replace(/[\\^$.|?*+()[\]{}]/g, "\\$&");
+  });
+  return `^${parts.join("")}$`;
+};
+
+// Currency new organizations keep their books in unless they choose another
+const DEFAULT_ORGANIZATION_CURRENCY = (process.env.BASE_CURRENCY || DEFAULT_BASE_CURRENCY).toUpperCase();
+
+// Thrown when a journal entry's debits and credits do not balance
+export class UnbalancedEntryError extends Error {
+  status = 422;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "UnbalancedEntryError";
+  }
+}
+
+// Thrown when a document is in a currency with no rate loaded on or
+// before its date
+export class MissingExchangeRateError extends Error {
+  status = 422;
+
+  constructor(currency: string, date: string) {
+    super(`No ${currency} exchange rate is loaded for ${date} or earlier; import rates first`);
+    this.name = "MissingExchangeRateError";
+  }
+}
+
+type PostedDocumentType = "invoice" | "payment" | "refund" | "credit_note" | "expense" | "bill" | "bill_payment" | "exchange_difference";
+
+// Which accounts each kind of document posts to (debit first, then credit)
+const POSTING_RULES: Record<PostedDocumentType, { debit: SystemAccountKey; credit: SystemAccountKey }> = {
+  invoice: { debit: "accountsReceivable", credit: "revenue" },
+  payment: { debit: "cash", credit: "accountsReceivable" },
+  refund: { debit: "accountsReceivable", credit: "cash" },
+  credit_note: { debit: "revenue", credit: "accountsReceivable" },
+  expense: { debit: "expenses", credit: "cash" },
+  bill: { debit: "expenses", credit: "accountsPayable" },
+  bill_payment: { debit: "accountsPayable", credit: "cash" },
+  exchange_difference: { debit: "cash", credit: "realizedExchangeGain" },
+};
+
+const POSTING_LABELS: Record<PostedDocumentType, string> = {
+  invoice: "Invoice",
+  payment: "Payment",
+  refund: "Refund",
+  credit_note: "Credit note",
+  expense: "Expense",
+  bill: "Bill",
+  bill_payment: "Bill payment",
+  exchange_difference: "Exchange difference on payment",
+};
+
+const toCents = (amount: string | number) => Math.round(Number(amount) * 100);
+
+// The ledger is kept in the base currency, so documents are posted at the
+// rate stored with them. A void invoice keeps its amount for the record but
+// has nothing posted.
+const postedInvoiceAmount = (invoice: Invoice) => {
+  return invoice.status === "void" ? 0 : toBaseAmount(invoice.amount, invoice.exchangeRate);
+};
+
+// Payments and refunds clear receivables at the rate the invoice was booked
+// at. What they are worth at their own rate differs from that by a realized
+// exchange gain or loss, posted to cash as the payment's exchange difference.
+const postedPaymentAmount = (payment: Payment, invoice: Invoice | undefined) => {
+  return toBaseAmount(payment.amount, invoice?.exchangeRate ?? payment.exchangeRate);
+};
+
+const realizedExchangeDifference = (payment: Payment, invoice: Invoice | undefined) => {
+  const difference = toCents(toBaseAmount(payment.amount, payment.exchangeRate)) - toCents(postedPaymentAmount(payment, invoice));
+  return (payment.type === "refund" ? -difference : difference) / 100;
+};
+
+// The amount and tax breakdown of an invoice or estimate with line items
+const lineItemTotals = (lineItems: InvoiceLineItemInput[], taxes: TaxTable, inclusive: boolean) => {
+  const { taxBreakdown, total } = calculateInvoiceTaxes(lineItems, taxes, inclusive);
+  return { amount: total.toFixed(2), taxBreakdown };
+};
+
+// Credit notes reverse revenue at the rate the invoice was booked at
+const postedCreditNoteAmount = (creditNote: CreditNote, invoice: Invoice | undefined) => {
+  return toBaseAmount(creditNote.amount, invoice?.exchangeRate ?? 1);
+};
+
+// Entries returned at most by one audit log query
+const AUDIT_LOG_LIMIT = 500;
+
+// A record as written to the audit log
+type AuditedRecord = Record<string, unknown>;
+
+// Fields every record has that say nothing about what changed
+const UNAUDITED_FIELDS = ["id", "organizationId", "createdAt"];
+
+// The fields that differ between two versions of a record. Only the new
+// version is given for a created record, and only the old one for a
+// deleted record.
+const diffRecords = (before: AuditedRecord | undefined, after: AuditedRecord | undefined): AuditChanges => {
+  const previous: AuditedRecord = { ...before };
+  const next: AuditedRecord = { ...after };
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]));
+  
+  const changes: AuditChanges = {};
+  for (const field of fields) {
+    const from = previous[field] ?? null;
+    const to = next[field] ?? null;
+    if (!UNAUDITED_FIELDS.includes(field) && JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { before: from, after: to };
+    }
+  }
+  return changes;
+};
+
+// A user account as written to the audit log, without the password hash
+const auditedUser = ({ password, ...user }: User): AuditedRecord => user;
+
+// Two-factor authentication as written to the audit log. The secret and
+// recovery codes are left out.
+const auditedTwoFactor = (userId: number, credential: TwoFactorCredential | undefined): AuditedRecord => ({
+  id: userId,
+  twoFactorEnabled: !!credential,
+  authenticatorAddedAt: credential?.createdAt ?? null,
+});
+
+// Line items as shown in the audit log, one line of text each
+const describeLineItems = (lineItems: Pick<InvoiceLineItemInput, "description" | "quantity" | "unitPrice" | "discount">[]) => {
+  return lineItems.map(item => {
+    const discount = Number(item.discount ?? 0);
+    const line = `${Number(item.quantity ?? 1)} x ${item.description} at ${Number(item.unitPrice).toFixed(2)}`;
+    return discount ? `${line}, ${discount}% off` : line;
+  });
+};
+
+const describePayment = (payment: Pick<Payment, "type" | "amount" | "currency" | "date">) => {
+  return `${payment.type === "refund" ? "Refund" : "Payment"} of ${Number(payment.amount).toFixed(2)} ${payment.currency} on ${payment.date}`;
+};
+
+const describeExpense = (expense: Pick<Expense, "vendorName" | "date">) => {
+  return `${expense.vendorName} (${expense.date})`;
+};
+
+const describeBill = (bill: Pick<Bill, "number" | "vendorName">) => {
+  return `${bill.number} (${bill.vendorName})`;
+};
+
+const describeBillPayment = (payment: Pick<BillPayment, "amount" | "date">) => {
+  return `Payment of ${Number(payment.amount).toFixed(2)} on ${payment.date}`;
+};
+
+const describeTaxReturn = (taxReturn: Pick<TaxReturn, "periodStart" | "periodEnd">) => {
+  return `${taxReturn.periodStart} to ${taxReturn.periodEnd}`;
+};
+
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  getAllUsers(): Promise<User[]>;
   updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
   
+  // Two-factor authentication methods
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  enableTwoFactor(userId: number, secret: string, recoveryCodes: string[], usedStep: number): Promise<TwoFactorCredential>;
+  replaceTwoFactorRecoveryCodes(userId: number, recoveryCodes: string[]): Promise<TwoFactorCredential | undefined>;
+  disableTwoFactor(userId: number): Promise<boolean>;
+  useTwoFactorStep(userId: number, step: number): Promise<boolean>;
+  useTwoFactorRecoveryCode(userId: number, recoveryCode: string): Promise<boolean>;
+  recordTwoFactorFailure(userId: number): Promise<number>;
+  lockTwoFactor(userId: number, lockedUntil: Date): Promise<void>;
+  clearTwoFactorFailures(userId: number): Promise<void>;
+  
+  // Organization methods
+  getOrganizations(): Promise<Organization[]>;
+  getOrganization(id: number): Promise<Organization | undefined>;
+  getUserOrganizations(userId: number): Promise<OrganizationWithRole[]>;
+  createOrganization(organization: InsertOrganization, ownerId: number): Promise<Organization>;
+  updateOrganization(id: number, organization: Partial<InsertOrganization>): Promise<Organization | undefined>;
+  setActiveOrganization(userId: number, organizationId: number): Promise<User | undefined>;
+  getBaseCurrency(): Promise<string>;
+  getOrganizationMembers(): Promise<OrganizationMember[]>;
+  getOrganizationMembership(userId: number): Promise<OrganizationMembership | undefined>;
+  addOrganizationMember(userId: number, role: MemberRoleData): Promise<OrganizationMembership>;
+  updateOrganizationMember(userId: number, role: MemberRoleData): Promise<OrganizationMembership | undefined>;
+  removeOrganizationMember(userId: number): Promise<boolean>;
+  getOrganizationInvitations(): Promise<PendingInvitation[]>;
+  getUserInvitations(userId: number): Promise<InvitationWithOrganization[]>;
+  getUserInvitation(userId: number, id: number): Promise<OrganizationInvitation | undefined>;
+  createOrganizationInvitation(userId: number, role: MemberRoleData, invitedBy: number): Promise<OrganizationInvitation>;
+  acceptOrganizationInvitation(id: number): Promise<OrganizationMembership | undefined>;
+  deleteOrganizationInvitation(id: number): Promise<boolean>;
+  backfillOrganizations(): Promise<void>;
+  backfillRoles(): Promise<void>;
+  
+  // Custom role methods
+  getCustomRoles(): Promise<CustomRole[]>;
+  getCustomRole(id: number): Promise<CustomRole | undefined>;
+  createCustomRole(role: InsertCustomRole): Promise<CustomRole>;
+  updateCustomRole(id: number, role: Partial<InsertCustomRole>): Promise<CustomRole | undefined>;
+  deleteCustomRole(id: number): Promise<boolean>;
+  isCustomRoleInUse(id: number): Promise<boolean>;
+  
   // Client methods
   getClients(userId?: number): Promise<Client[]>;
   getClient(id: number): Promise<Client | undefined>;
@@ -33,26 +281,175 @@ export interface IStorage {
   updateClient(id: number, client: Partial<InsertClient>): Promise<Client | undefined>;
   deleteClient(id: number): Promise<boolean>;
   
+  // Vendor methods
+  getVendors(userId?: number): Promise<Vendor[]>;
+  getVendor(id: number): Promise<Vendor | undefined>;
+  getVendorByName(name: string): Promise<Vendor | undefined>;
+  createVendor(vendor: InsertVendor): Promise<Vendor>;
+  updateVendor(id: number, vendor: Partial<InsertVendor>): Promise<Vendor | undefined>;
+  deleteVendor(id: number): Promise<boolean>;
+  
   // Invoice methods
   getInvoices(userId?: number): Promise<Invoice[]>;
   getInvoicesByClient(clientId: number): Promise<Invoice[]>;
   getInvoice(id: number): Promise<Invoice | undefined>;
-  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
-  updateInvoice(id: number, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined>;
-  deleteInvoice(id: number): Promise<boolean>;
+  createInvoice(invoice: InsertInvoice, lineItems?: InvoiceLineItemInput[]): Promise<Invoice>;
+  updateInvoice(id: number, invoice: Partial<InsertInvoice>, lineItems?: InvoiceLineItemInput[]): Promise<Invoice | undefined>;
+  voidInvoice(id: number, voidDate: string): Promise<Invoice | undefined>;
+  withInvoiceAmounts(invoices: Invoice[]): Promise<InvoiceWithAmounts[]>;
+  refreshInvoiceStatus(invoiceId: number, asOf: string): Promise<InvoiceWithAmounts | undefined>;
+  getClientCreditBalance(clientId: number): Promise<number>;
+  
+  // Invoice line item methods
+  getInvoiceLineItems(invoiceId: number): Promise<InvoiceLineItem[]>;
+  getInvoiceLineItem(id: number): Promise<InvoiceLineItem | undefined>;
+  createInvoiceLineItem(lineItem: InsertInvoiceLineItem): Promise<InvoiceLineItem>;
+  updateInvoiceLineItem(id: number, lineItem: Partial<InvoiceLineItemInput>): Promise<InvoiceLineItem | undefined>;
+  deleteInvoiceLineItem(id: number): Promise<boolean>;
+  
+  // Estimate methods
+  getEstimates(userId?: number): Promise<Estimate[]>;
+  getEstimate(id: number): Promise<Estimate | undefined>;
+  getEstimateLineItems(estimateId: number): Promise<EstimateLineItem[]>;
+  createEstimate(estimate: InsertEstimate, lineItems?: InvoiceLineItemInput[]): Promise<Estimate>;
+  updateEstimate(id: number, estimate: Partial<Estimate>, lineItems?: InvoiceLineItemInput[]): Promise<Estimate | undefined>;
+  deleteEstimate(id: number): Promise<boolean>;
+  markEstimatesExpired(asOf: string): Promise<Estimate[]>;
+  
+  // Recurring invoice methods
+  getRecurringInvoices(userId?: number): Promise<RecurringInvoice[]>;
+  getRecurringInvoice(id: number): Promise<RecurringInvoice | undefined>;
+  createRecurringInvoice(template: InsertRecurringInvoice): Promise<RecurringInvoice>;
+  updateRecurringInvoice(id: number, template: Partial<RecurringInvoice>): Promise<RecurringInvoice | undefined>;
+  deleteRecurringInvoice(id: number): Promise<boolean>;
+  getDueRecurringInvoices(asOf: string): Promise<RecurringInvoice[]>;
+  claimRecurringRun(id: number, runDate: string, next: Pick<RecurringInvoice, "nextRunDate" | "status">): Promise<RecurringInvoice | undefined>;
+  
+  // Document numbering methods
+  getDocumentSequence(documentType: DocumentType): Promise<InsertDocumentSequence>;
+  updateDocumentSequence(sequence: InsertDocumentSequence): Promise<InsertDocumentSequence>;
+  previewDocumentNumber(documentType: DocumentType, issueDate: string): Promise<string>;
+  
+  // Overdue and reminder methods
+  markInvoicesOverdue(asOf: string): Promise<Invoice[]>;
+  getOverdueInvoices(): Promise<Invoice[]>;
+  getInvoiceReminders(invoiceId: number): Promise<InvoiceReminder[]>;
+  createInvoiceReminder(reminder: InsertInvoiceReminder): Promise<InvoiceReminder | undefined>;
+  deleteInvoiceReminder(id: number): Promise<boolean>;
+  
+  // Credit note methods
+  getCreditNotes(userId?: number): Promise<CreditNote[]>;
+  getCreditNotesByInvoice(invoiceId: number): Promise<CreditNote[]>;
+  getCreditNote(id: number): Promise<CreditNote | undefined>;
+  createCreditNote(creditNote: InsertCreditNote): Promise<CreditNote>;
   
   // Payment methods
   getPayments(userId?: number): Promise<Payment[]>;
   getPaymentsByInvoice(invoiceId: number): Promise<Payment[]>;
+  getRefunds(paymentId: number): Promise<Payment[]>;
   getPayment(id: number): Promise<Payment | undefined>;
   createPayment(payment: InsertPayment): Promise<Payment>;
   updatePayment(id: number, payment: Partial<InsertPayment>): Promise<Payment | undefined>;
   deletePayment(id: number): Promise<boolean>;
   
+  // Expense methods
+  getExpenses(userId?: number): Promise<Expense[]>;
+  getExpensesByVendor(vendorId: number): Promise<Expense[]>;
+  getExpense(id: number): Promise<Expense | undefined>;
+  createExpense(expense: InsertExpense): Promise<Expense>;
+  updateExpense(id: number, expense: Partial<InsertExpense>): Promise<Expense | undefined>;
+  deleteExpense(id: number): Promise<boolean>;
+  getExpenseReceipt(expenseId: number): Promise<ExpenseReceipt | undefined>;
+  saveExpenseReceipt(expenseId: number, receipt: Pick<ExpenseReceipt, "fileName" | "contentType" | "data">): Promise<Expense | undefined>;
+  deleteExpenseReceipt(expenseId: number): Promise<Expense | undefined>;
+  
+  // Bill methods
+  getBills(userId?: number): Promise<Bill[]>;
+  getBillsByVendor(vendorId: number): Promise<Bill[]>;
+  getBill(id: number): Promise<Bill | undefined>;
+  getBillLineItems(billId: number): Promise<BillLineItem[]>;
+  createBill(bill: InsertBill, lineItems?: InvoiceLineItemInput[]): Promise<Bill>;
+  updateBill(id: number, bill: Partial<InsertBill>, lineItems?: InvoiceLineItemInput[]): Promise<Bill | undefined>;
+  deleteBill(id: number): Promise<boolean>;
+  withBillAmounts(bills: Bill[]): Promise<BillWithAmounts[]>;
+  refreshBillStatus(billId: number): Promise<BillWithAmounts | undefined>;
+  
+  // Bill payment methods
+  getBillPayments(userId?: number): Promise<BillPayment[]>;
+  getBillPaymentsByBill(billId: number): Promise<BillPayment[]>;
+  getBillPayment(id: number): Promise<BillPayment | undefined>;
+  createBillPayment(payment: InsertBillPayment): Promise<BillPayment>;
+  deleteBillPayment(id: number): Promise<boolean>;
+  
+  // Bank account methods
+  getBankAccounts(userId?: number): Promise<BankAccount[]>;
+  getBankAccount(id: number): Promise<BankAccount | undefined>;
+  createBankAccount(account: InsertBankAccount): Promise<BankAccount>;
+  updateBankAccount(id: number, account: Partial<InsertBankAccount>): Promise<BankAccount | undefined>;
+  deleteBankAccount(id: number): Promise<boolean>;
+  
+  // Bank transaction methods
+  getBankTransactions(bankAccountId: number): Promise<BankTransaction[]>;
+  getBankTransactionsByUser(userId?: number): Promise<BankTransaction[]>;
+  getBankTransaction(id: number): Promise<BankTransaction | undefined>;
+  createBankTransaction(transaction: InsertBankTransaction): Promise<BankTransaction>;
+  updateBankTransaction(id: number, transaction: Partial<InsertBankTransaction>): Promise<BankTransaction | undefined>;
+  deleteBankTransaction(id: number): Promise<boolean>;
+  importBankTransactions(transactions: InsertBankTransaction[]): Promise<BankTransaction[]>;
+  
+  // Bank reconciliation methods
+  getBankTransactionMatches(bankAccountId: number): Promise<BankTransactionMatchWithPayment[]>;
+  getBankTransactionMatchByPayment(paymentId: number): Promise<BankTransactionMatchWithPayment | undefined>;
+  matchBankTransaction(transaction: BankTransaction, paymentIds: number[]): Promise<void>;
+  unmatchBankTransaction(transactionId: number): Promise<boolean>;
+  getPaymentsByBankAccount(bankAccountId: number): Promise<Payment[]>;
+  getBankReconciliations(bankAccountId: number): Promise<BankReconciliation[]>;
+  getBankReconciliation(id: number): Promise<BankReconciliation | undefined>;
+  createBankReconciliation(reconciliation: InsertBankReconciliation): Promise<BankReconciliation>;
+  deleteBankReconciliation(id: number): Promise<boolean>;
+
+  // Bank rule methods
+  getBankRules(userId?: number): Promise<BankRule[]>;
+  getBankRule(id: number): Promise<BankRule | undefined>;
+  createBankRule(rule: InsertBankRule): Promise<BankRule>;
+  updateBankRule(id: number, rule: Partial<InsertBankRule>): Promise<BankRule | undefined>;
+  deleteBankRule(id: number): Promise<boolean>;
+  
+  // Tax methods
+  getTaxTable(): Promise<TaxTable>;
+  createTaxRate(rate: InsertTaxRate): Promise<TaxRate>;
+  updateTaxRate(id: number, rate: Partial<InsertTaxRate>): Promise<TaxRate | undefined>;
+  createTaxGroup(group: InsertTaxGroup): Promise<TaxGroup>;
+  updateTaxGroup(id: number, group: Partial<InsertTaxGroup>): Promise<TaxGroup | undefined>;
+  getTaxReturns(): Promise<TaxReturn[]>;
+  getTaxReturn(id: number): Promise<TaxReturn | undefined>;
+  createTaxReturn(taxReturn: InsertTaxReturn, data: TaxReturnReport): Promise<TaxReturn>;
+  deleteTaxReturn(id: number): Promise<boolean>;
+  
+  // Exchange rate methods
+  getLatestExchangeRates(): Promise<ExchangeRate[]>;
+  importExchangeRates(rates: InsertExchangeRate[]): Promise<number>;
+  getExchangeRate(currency: string, date: string): Promise<string>;
+  postRevaluations(asOf: string, revaluations: { invoice: Invoice; amount: number }[]): Promise<void>;
+  
+  // Ledger methods
+  getAccounts(): Promise<Account[]>;
+  getAccount(id: number): Promise<Account | undefined>;
+  createAccount(account: InsertAccount): Promise<Account>;
+  getJournalEntries(userId?: number): Promise<JournalEntry[]>;
+  getJournalEntry(id: number): Promise<JournalEntryWithLines | undefined>;
+  createJournalEntry(entry: InsertJournalEntry, lines: JournalLineInput[]): Promise<JournalEntryWithLines>;
+  getAccountBalances(userId?: number, range?: { from?: string; to?: string }): Promise<AccountBalance[]>;
+  backfillLedger(): Promise<void>;
+  
   // Report methods
   getReports(userId?: number): Promise<Report[]>;
   getReport(id: number): Promise<Report | undefined>;
-  createReport(report: InsertReport): Promise<Report>;
+  createReport(report: InsertReport, data?: FinancialStatement): Promise<Report>;
+  
+  // Audit log methods
+  getAuditLog(filters?: AuditLogFilters): Promise<AuditLogEntryWithUser[]>;
+  protectAuditLog(): Promise<void>;
   
   // Session store
   sessionStore: any; // Will be set to the appropriate session store type
@@ -86,147 +483,2555 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return db.select().from(users);
-  }
-
   async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
-    const [updated] = await db.update(users)
-      .set(userData)
-      .where(eq(users.id, id))
-      .returning();
-    return updated;
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(users).where(eq(users.id, id));
+      const [updated] = await tx.update(users)
+        .set(userData)
+        .where(eq(users.id, id))
+        .returning();
+      if (updated) {
+        await this.auditUser(tx, id, updated.name, auditedUser(existing), auditedUser(updated));
+      }
+      return updated;
+    });
   }
 
+  // Called once the user has left the active organization and belongs to no
+  // other, so the deletion is logged in the active one
   async deleteUser(id: number): Promise<boolean> {
-    await db.delete(users).where(eq(users.id, id));
+    await db.transaction(async (tx) => {
+      await tx.delete(organizationMemberships).where(eq(organizationMemberships.userId, id));
+      await tx.delete(organizationInvitations).where(eq(organizationInvitations.userId, id));
+      await tx.delete(twoFactorCredentials).where(eq(twoFactorCredentials.userId, id));
+      const [deleted] = await tx.delete(users).where(eq(users.id, id)).returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "user", deleted.name, auditedUser(deleted));
+      }
+    });
     return true; // In PostgreSQL, if no error is thrown, the delete was successful
   }
+
+  // Two-factor authentication methods. Recovery codes are given hashed.
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    return credential;
+  }
+
+  // Turning it on again replaces the previous authenticator and recovery codes
+  async enableTwoFactor(userId: number, secret: string, recoveryCodes: string[], usedStep: number): Promise<TwoFactorCredential> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+      const [credential] = await tx.insert(twoFactorCredentials)
+        .values({ userId, secret, recoveryCodes, lastUsedStep: usedStep })
+        .onConflictDoUpdate({
+          target: twoFactorCredentials.userId,
+          set: { secret, recoveryCodes, lastUsedStep: usedStep, createdAt: new Date() },
+        })
+        .returning();
+      await this.auditUser(
+        tx,
+        userId,
+        await this.getUserName(tx, userId),
+        auditedTwoFactor(userId, existing),
+        auditedTwoFactor(userId, credential)
+      );
+      return credential;
+    });
+  }
+
+  // The log records how many codes were left and how many replaced them
+  async replaceTwoFactorRecoveryCodes(userId: number, recoveryCodes: string[]): Promise<TwoFactorCredential | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+      const [updated] = await tx.update(twoFactorCredentials)
+        .set({ recoveryCodes })
+        .where(eq(twoFactorCredentials.userId, userId))
+        .returning();
+      if (existing && updated) {
+        await this.auditUser(
+          tx,
+          userId,
+          await this.getUserName(tx, userId),
+          { id: userId, recoveryCodes: `${existing.recoveryCodes.length} left` },
+          { id: userId, recoveryCodes: `${updated.recoveryCodes.length} new` }
+        );
+      }
+      return updated;
+    });
+  }
+
+  async disableTwoFactor(userId: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(twoFactorCredentials)
+        .where(eq(twoFactorCredentials.userId, userId))
+        .returning();
+      if (deleted) {
+        await this.auditUser(
+          tx,
+          userId,
+          await this.getUserName(tx, userId),
+          auditedTwoFactor(userId, deleted),
+          auditedTwoFactor(userId, undefined)
+        );
+      }
+    });
+    return true;
+  }
+
+  // Records that a code for the time step was used. False when a code for
+  // that step or a later one already was, so a code seen by someone else
+  // cannot be entered again.
+  async useTwoFactorStep(userId: number, step: number): Promise<boolean> {
+    const updated = await db.update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        sql`coalesce(${twoFactorCredentials.lastUsedStep}, -1) < ${step}`
+      ))
+      .returning();
+    return updated.length > 0;
+  }
+
+  // Removes the recovery code. False when the user has no such code left.
+  async useTwoFactorRecoveryCode(userId: number, recoveryCode: string): Promise<boolean> {
+    const updated = await db.update(twoFactorCredentials)
+      .set({ recoveryCodes: sql`${twoFactorCredentials.recoveryCodes} - ${recoveryCode}::text` })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        sql`${twoFactorCredentials.recoveryCodes} @> ${JSON.stringify([recoveryCode])}::jsonb`
+      ))
+      .returning();
+    return updated.length > 0;
+  }
+
+  // Counts a wrong code and returns how many have been entered in a row
+  async recordTwoFactorFailure(userId: number): Promise<number> {
+    const [updated] = await db.update(twoFactorCredentials)
+      .set({ failedAttempts: sql`${twoFactorCredentials.failedAttempts} + 1` })
+      .where(eq(twoFactorCredentials.userId, userId))
+      .returning({ failedAttempts: twoFactorCredentials.failedAttempts });
+    return updated?.failedAttempts ?? 0;
+  }
+
+  async lockTwoFactor(userId: number, lockedUntil: Date): Promise<void> {
+    await db.update(twoFactorCredentials)
+      .set({ lockedUntil })
+      .where(eq(twoFactorCredentials.userId, userId));
+  }
+
+  // A right code ends the run of wrong ones
+  async clearTwoFactorFailures(userId: number): Promise<void> {
+    await db.update(twoFactorCredentials)
+      .set({ failedAttempts: 0, lockedUntil: null })
+      .where(eq(twoFactorCredentials.userId, userId));
+  }
+  
+  // Organization methods
+  async getOrganizations(): Promise<Organization[]> {
+    return db.select().from(organizations).orderBy(asc(organizations.id));
+  }
+
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    const [organization] = await db.select().from(organizations).where(eq(organizations.id, id));
+    return organization;
+  }
+
+  // The organizations a user belongs to, in the order they joined them
+  async getUserOrganizations(userId: number): Promise<OrganizationWithRole[]> {
+    const rows = await db.select({
+      organization: organizations,
+      role: organizationMemberships.role,
+      customRoleId: organizationMemberships.customRoleId,
+    })
+      .from(organizationMemberships)
+      .innerJoin(organizations, eq(organizationMemberships.organizationId, organizations.id))
+      .where(eq(organizationMemberships.userId, userId))
+      .orderBy(asc(organizationMemberships.createdAt), asc(organizationMemberships.id));
+    return rows.map(({ organization, role, customRoleId }) => ({ ...organization, role, customRoleId }));
+  }
+
+  // The user who creates an organization owns it and starts working in it
+  async createOrganization(organization: InsertOrganization, ownerId: number): Promise<Organization> {
+    return db.transaction(async (tx) => {
+      const [newOrganization] = await tx.insert(organizations)
+        .values({ baseCurrency: DEFAULT_ORGANIZATION_CURRENCY, ...organization })
+        .returning();
+      await tx.insert(organizationMemberships)
+        .values({ organizationId: newOrganization.id, userId: ownerId, role: "owner" });
+      await tx.update(users)
+        .set({ activeOrganizationId: newOrganization.id })
+        .where(eq(users.id, ownerId));
+      await runInOrganization(newOrganization.id, () => {
+        return this.audit(tx, "create", "organization", newOrganization.name, undefined, newOrganization);
+      });
+      return newOrganization;
+    });
+  }
+
+  async updateOrganization(id: number, organization: Partial<InsertOrganization>): Promise<Organization | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(organizations).where(eq(organizations.id, id));
+      const [updated] = await tx.update(organizations)
+        .set(organization)
+        .where(eq(organizations.id, id))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "organization", updated.name, existing, updated);
+      }
+      return updated;
+    });
+  }
+
+  // The switch is logged in the organization entered, so the others a user
+  // belongs to do not learn where they went
+  async setActiveOrganization(userId: number, organizationId: number): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(users).where(eq(users.id, userId));
+      const [updated] = await tx.update(users)
+        .set({ activeOrganizationId: organizationId })
+        .where(eq(users.id, userId))
+        .returning();
+      if (updated) {
+        await runInOrganization(organizationId, () => {
+          return this.audit(tx, "update", "user", updated.name, auditedUser(existing), auditedUser(updated));
+        });
+      }
+      return updated;
+    });
+  }
+
+  // Currency the active organization's ledger and reports are kept in
+  async getBaseCurrency(): Promise<string> {
+    return this.loadBaseCurrency(db);
+  }
+
+  // Members of the active organization, each with their role in it
+  async getOrganizationMembers(): Promise<OrganizationMember[]> {
+    const rows = await db.select({
+      user: users,
+      role: organizationMemberships.role,
+      customRoleId: organizationMemberships.customRoleId,
+      twoFactorCredentialId: twoFactorCredentials.id,
+    })
+      .from(organizationMemberships)
+      .innerJoin(users, eq(organizationMemberships.userId, users.id))
+      .leftJoin(twoFactorCredentials, eq(twoFactorCredentials.userId, users.id))
+      .where(eq(organizationMemberships.organizationId, getOrganizationId()))
+      .orderBy(asc(users.name));
+    return rows.map(({ user, role, customRoleId, twoFactorCredentialId }) => ({
+      ...user,
+      role,
+      customRoleId,
+      twoFactorEnabled: twoFactorCredentialId !== null,
+    }));
+  }
+
+  async getOrganizationMembership(userId: number): Promise<OrganizationMembership | undefined> {
+    const [membership] = await db.select()
+      .from(organizationMemberships)
+      .where(and(
+        eq(organizationMemberships.organizationId, getOrganizationId()),
+        eq(organizationMemberships.userId, userId)
+      ));
+    return membership;
+  }
+
+  async addOrganizationMember(userId: number, role: MemberRoleData): Promise<OrganizationMembership> {
+    return db.transaction(async (tx) => {
+      const [membership] = await tx.insert(organizationMemberships)
+        .values({ ...role, organizationId: getOrganizationId(), userId })
+        .returning();
+      await this.audit(tx, "create", "member", await this.getUserName(tx, userId), undefined, membership);
+      return membership;
+    });
+  }
+
+  async updateOrganizationMember(userId: number, role: MemberRoleData): Promise<OrganizationMembership | undefined> {
+    const membershipOf = and(
+      eq(organizationMemberships.organizationId, getOrganizationId()),
+      eq(organizationMemberships.userId, userId)
+    );
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(organizationMemberships).where(membershipOf);
+      const [updated] = await tx.update(organizationMemberships)
+        .set(role)
+        .where(membershipOf)
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "member", await this.getUserName(tx, userId), existing, updated);
+      }
+      return updated;
+    });
+  }
+
+  // The user keeps their account and any other organizations. They move on
+  // to another organization the next time they sign in or load a page.
+  async removeOrganizationMember(userId: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [removed] = await tx.delete(organizationMemberships)
+        .where(and(
+          eq(organizationMemberships.organizationId, getOrganizationId()),
+          eq(organizationMemberships.userId, userId)
+        ))
+        .returning();
+      if (removed) {
+        await this.audit(tx, "delete", "member", await this.getUserName(tx, userId), removed);
+      }
+    });
+    return true;
+  }
+
+  // Invitations to the active organization that have not been answered yet
+  async getOrganizationInvitations(): Promise<PendingInvitation[]> {
+    const rows = await db.select({
+      invitation: organizationInvitations,
+      name: users.name,
+      email: users.email,
+    })
+      .from(organizationInvitations)
+      .innerJoin(users, eq(organizationInvitations.userId, users.id))
+      .where(eq(organizationInvitations.organizationId, getOrganizationId()))
+      .orderBy(asc(organizationInvitations.createdAt));
+    return rows.map(({ invitation, name, email }) => ({ ...invitation, name, email }));
+  }
+
+  // Invitations a user has received, from any organization
+  async getUserInvitations(userId: number): Promise<InvitationWithOrganization[]> {
+    const inviters = alias(users, "inviters");
+    const rows = await db.select({
+      invitation: organizationInvitations,
+      organizationName: organizations.name,
+      invitedByName: inviters.name,
+      customRole: customRoles,
+    })
+      .from(organizationInvitations)
+      .innerJoin(organizations, eq(organizationInvitations.organizationId, organizations.id))
+      .innerJoin(inviters, eq(organizationInvitations.invitedBy, inviters.id))
+      .leftJoin(customRoles, eq(organizationInvitations.customRoleId, customRoles.id))
+      .where(eq(organizationInvitations.userId, userId))
+      .orderBy(asc(organizationInvitations.createdAt));
+    return rows.map(({ invitation, organizationName, invitedByName, customRole }) => ({
+      ...invitation,
+      organizationName,
+      invitedByName,
+      roleName: getMemberRoleLabel(invitation, customRole ? [customRole] : []),
+    }));
+  }
+
+  async getUserInvitation(userId: number, id: number): Promise<OrganizationInvitation | undefined> {
+    const [invitation] = await db.select()
+      .from(organizationInvitations)
+      .where(and(eq(organizationInvitations.id, id), eq(organizationInvitations.userId, userId)));
+    return invitation;
+  }
+
+  async createOrganizationInvitation(userId: number, role: MemberRoleData, invitedBy: number): Promise<OrganizationInvitation> {
+    return db.transaction(async (tx) => {
+      const [invitation] = await tx.insert(organizationInvitations)
+        .values({ ...role, organizationId: getOrganizationId(), userId, invitedBy })
+        .returning();
+      await this.audit(tx, "create", "invitation", await this.getUserName(tx, userId), undefined, invitation);
+      return invitation;
+    });
+  }
+
+  // The invited user joins the active organization with the role they were
+  // invited with
+  async acceptOrganizationInvitation(id: number): Promise<OrganizationMembership | undefined> {
+    return db.transaction(async (tx) => {
+      const [invitation] = await tx.delete(organizationInvitations)
+        .where(and(eq(organizationInvitations.id, id), eq(organizationInvitations.organizationId, getOrganizationId())))
+        .returning();
+      if (!invitation) return undefined;
+      
+      const [membership] = await tx.insert(organizationMemberships)
+        .values({
+          organizationId: invitation.organizationId,
+          userId: invitation.userId,
+          role: invitation.role,
+          customRoleId: invitation.customRoleId,
+        })
+        .returning();
+      await this.audit(tx, "create", "member", await this.getUserName(tx, invitation.userId), undefined, membership);
+      return membership;
+    });
+  }
+
+  // Revoked by an administrator or declined by the invited user
+  async deleteOrganizationInvitation(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [removed] = await tx.delete(organizationInvitations)
+        .where(and(eq(organizationInvitations.id, id), eq(organizationInvitations.organizationId, getOrganizationId())))
+        .returning();
+      if (removed) {
+        await this.audit(tx, "delete", "invitation", await this.getUserName(tx, removed.userId), removed);
+      }
+    });
+    return true;
+  }
+
+  // Books kept before organizations were introduced are moved into a first
+  // organization that every existing user belongs to: administrators as
+  // its owners and everyone else as accountants. Runs at startup and does
+  // nothing once an organization exists; on a new installation the first
+  // user to register creates one.
+  async backfillOrganizations(): Promise<void> {
+    const [existing] = await db.select().from(organizations).limit(1);
+    if (existing) return;
+    
+    const allUsers = await db.select().from(users);
+    if (allUsers.length === 0) return;
+    
+    await db.transaction(async (tx) => {
+      const [organization] = await tx.insert(organizations).values({ name: "My Organization", baseCurrency: DEFAULT_ORGANIZATION_CURRENCY }).returning();
+      await tx.insert(organizationMemberships).values(
+        allUsers.map(user => ({
+          organizationId: organization.id,
+          userId: user.id,
+          role: user.role === "admin" ? "owner" as const : "accountant" as const,
+        }))
+      );
+      await tx.update(users).set({ activeOrganizationId: organization.id });
+      
+      for (const table of ORGANIZATION_TABLES) {
+        await tx.update(table)
+          .set({ organizationId: organization.id })
+          .where(isNull(table.organizationId));
+      }
+    });
+  }
+  
+  // Memberships created before roles granted permissions could be
+  // "admin", which is now the owner role. Runs at startup.
+  async backfillRoles(): Promise<void> {
+    await db.update(organizationMemberships)
+      .set({ role: "owner" })
+      .where(sql`${organizationMemberships.role} = 'admin'`);
+  }
+  
+  // Custom role methods
+  async getCustomRoles(): Promise<CustomRole[]> {
+    return db.select().from(customRoles).where(inOrganization(customRoles)).orderBy(asc(customRoles.name));
+  }
+  
+  async getCustomRole(id: number): Promise<CustomRole | undefined> {
+    const [role] = await db.select().from(customRoles).where(and(eq(customRoles.id, id), inOrganization(customRoles)));
+    return role;
+  }
+  
+  async createCustomRole(role: InsertCustomRole): Promise<CustomRole> {
+    return db.transaction(async (tx) => {
+      const [newRole] = await tx.insert(customRoles).values({ ...role, organizationId: getOrganizationId() }).returning();
+      await this.audit(tx, "create", "custom_role", newRole.name, undefined, newRole);
+      return newRole;
+    });
+  }
+  
+  async updateCustomRole(id: number, role: Partial<InsertCustomRole>): Promise<CustomRole | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(customRoles).where(and(eq(customRoles.id, id), inOrganization(customRoles)));
+      const [updated] = await tx.update(customRoles)
+        .set(role)
+        .where(and(eq(customRoles.id, id), inOrganization(customRoles)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "custom_role", updated.name, existing, updated);
+      }
+      return updated;
+    });
+  }
+  
+  async deleteCustomRole(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(customRoles).where(and(eq(customRoles.id, id), inOrganization(customRoles))).returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "custom_role", deleted.name, deleted);
+      }
+    });
+    return true;
+  }
+  
+  async isCustomRoleInUse(id: number): Promise<boolean> {
+    const [membership] = await db.select({ id: organizationMemberships.id })
+      .from(organizationMemberships)
+      .where(and(
+        eq(organizationMemberships.organizationId, getOrganizationId()),
+        eq(organizationMemberships.customRoleId, id)
+      ))
+      .limit(1);
+    return !!membership;
+  }
   
   // Client methods
   async getClients(userId?: number): Promise<Client[]> {
     if (userId) {
-      return db.select().from(clients).where(eq(clients.userId, userId));
+      return db.select().from(clients).where(and(eq(clients.userId, userId), inOrganization(clients)));
     }
-    return db.select().from(clients);
+    return db.select().from(clients).where(inOrganization(clients));
   }
   
   async getClient(id: number): Promise<Client | undefined> {
-    const [client] = await db.select().from(clients).where(eq(clients.id, id));
+    const [client] = await db.select().from(clients).where(and(eq(clients.id, id), inOrganization(clients)));
     return client;
   }
   
   async getClientByName(name: string): Promise<Client | undefined> {
-    const [client] = await db.select().from(clients).where(eq(clients.name, name));
+    const [client] = await db.select().from(clients).where(and(eq(clients.name, name), inOrganization(clients)));
     return client;
   }
   
   async createClient(client: InsertClient): Promise<Client> {
-    const [newClient] = await db.insert(clients).values(client).returning();
-    return newClient;
+    return db.transaction(async (tx) => {
+      const [newClient] = await tx.insert(clients).values({ ...client, organizationId: getOrganizationId() }).returning();
+      await this.audit(tx, "create", "client", newClient.name, undefined, newClient);
+      return newClient;
+    });
   }
   
   async updateClient(id: number, client: Partial<InsertClient>): Promise<Client | undefined> {
-    const [updated] = await db.update(clients)
-      .set(client)
-      .where(eq(clients.id, id))
-      .returning();
-    return updated;
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(clients).where(and(eq(clients.id, id), inOrganization(clients)));
+      const [updated] = await tx.update(clients)
+        .set(client)
+        .where(and(eq(clients.id, id), inOrganization(clients)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "client", updated.name, existing, updated);
+      }
+      return updated;
+    });
   }
   
   async deleteClient(id: number): Promise<boolean> {
-    await db.delete(clients).where(eq(clients.id, id));
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(clients).where(and(eq(clients.id, id), inOrganization(clients))).returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "client", deleted.name, deleted);
+      }
+    });
+    return true;
+  }
+
+  // Vendor methods
+  async getVendors(userId?: number): Promise<Vendor[]> {
+    if (userId) {
+      return db.select().from(vendors).where(and(eq(vendors.userId, userId), inOrganization(vendors)));
+    }
+    return db.select().from(vendors).where(inOrganization(vendors));
+  }
+  
+  async getVendor(id: number): Promise<Vendor | undefined> {
+    const [vendor] = await db.select().from(vendors).where(and(eq(vendors.id, id), inOrganization(vendors)));
+    return vendor;
+  }
+  
+  async getVendorByName(name: string): Promise<Vendor | undefined> {
+    const [vendor] = await db.select().from(vendors).where(and(eq(vendors.name, name), inOrganization(vendors)));
+    return vendor;
+  }
+  
+  async createVendor(vendor: InsertVendor): Promise<Vendor> {
+    return db.transaction(async (tx) => {
+      const [newVendor] = await tx.insert(vendors).values({ ...vendor, organizationId: getOrganizationId() }).returning();
+      await this.audit(tx, "create", "vendor", newVendor.name, undefined, newVendor);
+      return newVendor;
+    });
+  }
+  
+  async updateVendor(id: number, vendor: Partial<InsertVendor>): Promise<Vendor | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(vendors).where(and(eq(vendors.id, id), inOrganization(vendors)));
+      const [updated] = await tx.update(vendors)
+        .set(vendor)
+        .where(and(eq(vendors.id, id), inOrganization(vendors)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "vendor", updated.name, existing, updated);
+      }
+      return updated;
+    });
+  }
+  
+  async deleteVendor(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      await tx.update(bankTransactions).set({ vendorId: null }).where(and(eq(bankTransactions.vendorId, id), inOrganization(bankTransactions)));
+      await tx.update(bankRules).set({ vendorId: null }).where(and(eq(bankRules.vendorId, id), inOrganization(bankRules)));
+      const [deleted] = await tx.delete(vendors).where(and(eq(vendors.id, id), inOrganization(vendors))).returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "vendor", deleted.name, deleted);
+      }
+    });
     return true;
   }
 
   // Invoice methods
   async getInvoices(userId?: number): Promise<Invoice[]> {
     if (userId) {
-      return db.select().from(invoices).where(eq(invoices.userId, userId));
+      return db.select().from(invoices).where(and(eq(invoices.userId, userId), inOrganization(invoices)));
     }
-    return db.select().from(invoices);
+    return db.select().from(invoices).where(inOrganization(invoices));
   }
   
   async getInvoicesByClient(clientId: number): Promise<Invoice[]> {
-    return db.select().from(invoices).where(eq(invoices.clientId, clientId));
+    return db.select().from(invoices).where(and(eq(invoices.clientId, clientId), inOrganization(invoices)));
   }
 
   async getInvoice(id: number): Promise<Invoice | undefined> {
-    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    const [invoice] = await db.select().from(invoices).where(and(eq(invoices.id, id), inOrganization(invoices)));
     return invoice;
   }
 
-  async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
-    const [newInvoice] = await db.insert(invoices).values(invoice).returning();
-    return newInvoice;
+  async createInvoice(invoice: InsertInvoice, lineItems?: InvoiceLineItemInput[]): Promise<Invoice> {
+    return db.transaction(async (tx) => {
+      // When line items are given, the invoice total and taxes are derived
+      // from them
+      const values = lineItems?.length
+        ? { ...invoice, ...lineItemTotals(lineItems, await this.loadTaxTable(tx), invoice.taxInclusive ?? false) }
+        : { ...invoice };
+      
+      const [client] = invoice.clientId
+        ? await tx.select().from(clients).where(and(eq(clients.id, invoice.clientId), inOrganization(clients)))
+        : [];
+      
+      // Without an explicit due date, the client's payment terms apply
+      if (!values.dueDate) {
+        values.dueDate = calculateDueDate(invoice.date, client?.paymentTerms ?? "due_on_receipt");
+      }
+      
+      // Likewise the client's currency, for invoices issued from recurring
+      // templates and estimates
+      const currency = values.currency ?? client?.currency ?? await this.loadBaseCurrency(tx);
+      const exchangeRate = await this.findExchangeRate(tx, currency, invoice.date);
+      const number = await this.allocateDocumentNumber(tx, "invoice", invoice.date);
+      const [newInvoice] = await tx.insert(invoices)
+        .values({ ...values, currency, exchangeRate, number, organizationId: getOrganizationId() })
+        .returning();
+      
+      if (lineItems?.length) {
+        await this.insertLineItems(tx, newInvoice.id, lineItems);
+      }
+      
+      await this.postDocument(tx, "invoice", newInvoice, postedInvoiceAmount(newInvoice));
+      await this.audit(tx, "create", "invoice", getInvoiceNumber(newInvoice), undefined, {
+        ...newInvoice,
+        lineItems: lineItems && describeLineItems(lineItems),
+      });
+      
+      return newInvoice;
+    });
   }
 
-  async updateInvoice(id: number, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined> {
-    const [updated] = await db.update(invoices)
-      .set(invoice)
-      .where(eq(invoices.id, id))
-      .returning();
-    return updated;
+  async updateInvoice(id: number, invoice: Partial<InsertInvoice>, lineItems?: InvoiceLineItemInput[]): Promise<Invoice | undefined> {
+    return db.transaction(async (tx) => {
+      const values: Partial<Invoice> = { ...invoice };
+      const [existing] = await tx.select().from(invoices).where(and(eq(invoices.id, id), inOrganization(invoices)));
+      
+      // The total and taxes follow the line items, which are re-read when
+      // only the tax-inclusive setting changes
+      const items = lineItems ?? (invoice.taxInclusive !== undefined
+        ? await tx.select().from(invoiceLineItems).where(eq(invoiceLineItems.invoiceId, id))
+        : undefined);
+      if (existing && items?.length) {
+        Object.assign(values, lineItemTotals(items, await this.loadTaxTable(tx), invoice.taxInclusive ?? existing.taxInclusive));
+      } else if (existing && lineItems) {
+        // With every line removed nothing is taxed any more, and the total
+        // is the amount given, as for an invoice created without lines
+        Object.assign(values, { taxBreakdown: [], amount: invoice.amount ?? "0.00" });
+      }
+      
+      // A new date or currency means a new rate
+      if (existing && (invoice.date !== undefined || invoice.currency !== undefined)) {
+        values.exchangeRate = await this.findExchangeRate(
+          tx,
+          invoice.currency ?? existing.currency,
+          invoice.date ?? existing.date
+        );
+      }
+      
+      // Line items are replaced as a whole when provided
+      const previousLineItems = lineItems && await this.selectLineItems(tx, id);
+      if (lineItems) {
+        await tx.delete(invoiceLineItems).where(eq(invoiceLineItems.invoiceId, id));
+        if (lineItems.length) {
+          await this.insertLineItems(tx, id, lineItems);
+        }
+      }
+      
+      const [updated] = Object.keys(values).length === 0
+        ? [existing]
+        : await tx.update(invoices)
+          .set(values)
+          .where(and(eq(invoices.id, id), inOrganization(invoices)))
+          .returning();
+      if (updated) {
+        await this.audit(
+          tx,
+          "update",
+          "invoice",
+          getInvoiceNumber(updated),
+          { ...existing, lineItems: previousLineItems && describeLineItems(previousLineItems) },
+          { ...updated, lineItems: lineItems && describeLineItems(lineItems) }
+        );
+      }
+      if (updated && updated !== existing) {
+        await this.postDocument(tx, "invoice", updated, postedInvoiceAmount(updated));
+        
+        if (values.exchangeRate !== undefined) {
+          const invoiceCreditNotes = await tx.select().from(creditNotes).where(and(eq(creditNotes.invoiceId, id), inOrganization(creditNotes)));
+          for (const creditNote of invoiceCreditNotes) {
+            await this.postDocument(tx, "credit_note", creditNote, postedCreditNoteAmount(creditNote, updated));
+          }
+          const invoicePayments = await tx.select().from(payments).where(and(eq(payments.invoiceId, id), inOrganization(payments)));
+          for (const payment of invoicePayments) {
+            await this.postPayment(tx, payment);
+          }
+        }
+      }
+      return updated;
+    });
   }
 
-  async deleteInvoice(id: number): Promise<boolean> {
-    await db.delete(invoices).where(eq(invoices.id, id));
-    return true; // In PostgreSQL, if no error is thrown, the delete was successful
+  // Invoices are never deleted. Voiding keeps the invoice and its line items
+  // and reverses its ledger posting as of the void date.
+  async voidInvoice(id: number, voidDate: string): Promise<Invoice | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(invoices).where(and(eq(invoices.id, id), inOrganization(invoices)));
+      const [voided] = await tx.update(invoices)
+        .set({ status: "void", voidedAt: voidDate })
+        .where(and(eq(invoices.id, id), inOrganization(invoices)))
+        .returning();
+      if (voided) {
+        await this.postDocument(tx, "invoice", { ...voided, date: voidDate }, 0);
+        await this.audit(tx, "void", "invoice", getInvoiceNumber(voided), existing, voided);
+      }
+      return voided;
+    });
   }
 
-  // Payment methods
-  async getPayments(userId?: number): Promise<Payment[]> {
+  // Add what has been paid, credited and is still due to each invoice
+  async withInvoiceAmounts(invoiceList: Invoice[]): Promise<InvoiceWithAmounts[]> {
+    if (invoiceList.length === 0) return [];
+    const ids = invoiceList.map(invoice => invoice.id);
+    
+    const paidRows = await db.select({
+      invoiceId: payments.invoiceId,
+      // Refunds give back part of what was paid
+      total: sql<string>`coalesce(sum(case when ${payments.type} = 'refund' then -${payments.amount} else ${payments.amount} end), 0)`,
+    })
+      .from(payments)
+      .where(inArray(payments.invoiceId, ids))
+      .groupBy(payments.invoiceId);
+    const creditedRows = await db.select({
+      invoiceId: creditNotes.invoiceId,
+      total: sql<string>`coalesce(sum(${creditNotes.amount}), 0)`,
+    })
+      .from(creditNotes)
+      .where(inArray(creditNotes.invoiceId, ids))
+      .groupBy(creditNotes.invoiceId);
+    
+    const paid = new Map(paidRows.map(row => [row.invoiceId, Number(row.total)]));
+    const credited = new Map(creditedRows.map(row => [row.invoiceId, Number(row.total)]));
+    
+    return invoiceList.map(invoice => ({
+      ...invoice,
+      ...calculateInvoiceAmounts(invoice, paid.get(invoice.id) ?? 0, credited.get(invoice.id) ?? 0),
+    }));
+  }
+
+  // Derive an invoice's status from what has been settled on it: paid once
+  // nothing is due, otherwise overdue past the due date, partially paid
+  // when something was received and pending when nothing was. Void
+  // invoices keep their status.
+  async refreshInvoiceStatus(invoiceId: number, asOf: string): Promise<InvoiceWithAmounts | undefined> {
+    const [invoice] = await db.select().from(invoices).where(and(eq(invoices.id, invoiceId), inOrganization(invoices)));
+    if (!invoice) return undefined;
+    
+    const [withAmounts] = await this.withInvoiceAmounts([invoice]);
+    if (invoice.status === "void") return withAmounts;
+    
+    const status: Invoice["status"] = withAmounts.amountDue <= 0
+      ? "paid"
+      : getInvoiceDueDate(invoice) < asOf
+        ? "overdue"
+        : withAmounts.amountPaid + withAmounts.amountCredited > 0
+          ? "partially_paid"
+          : "pending";
+    if (status === invoice.status) return withAmounts;
+    
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(invoices)
+        .set({ status })
+        .where(and(eq(invoices.id, invoiceId), inOrganization(invoices)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "invoice", getInvoiceNumber(updated), invoice, updated);
+      }
+      return { ...withAmounts, ...updated };
+    });
+  }
+
+  // Overpayments on a client's invoices, held as a credit for the client.
+  // Like the client statement, it is in the invoices' currency when they
+  // share one, and converted to the base currency when they do not.
+  async getClientCreditBalance(clientId: number): Promise<number> {
+    const clientInvoices = await this.withInvoiceAmounts(
+      (await this.getInvoicesByClient(clientId)).filter(invoice => invoice.status !== "void")
+    );
+    const mixedCurrencies = new Set(clientInvoices.map(invoice => invoice.currency)).size > 1;
+    return clientInvoices.reduce((sum, invoice) => {
+      const overpaid = mixedCurrencies ? toBaseAmount(invoice.overpaid, invoice.exchangeRate) : invoice.overpaid;
+      return sum + toCents(overpaid);
+    }, 0) / 100;
+  }
+
+  // Invoice line item methods
+  async getInvoiceLineItems(invoiceId: number): Promise<InvoiceLineItem[]> {
+    return db.select()
+      .from(invoiceLineItems)
+      .where(eq(invoiceLineItems.invoiceId, invoiceId))
+      .orderBy(asc(invoiceLineItems.position), asc(invoiceLineItems.id));
+  }
+
+  async getInvoiceLineItem(id: number): Promise<InvoiceLineItem | undefined> {
+    const [lineItem] = await db.select().from(invoiceLineItems).where(eq(invoiceLineItems.id, id));
+    return lineItem;
+  }
+
+  async createInvoiceLineItem(lineItem: InsertInvoiceLineItem): Promise<InvoiceLineItem> {
+    return db.transaction(async (tx) => {
+      const previousLineItems = await this.selectLineItems(tx, lineItem.invoiceId);
+      const [newLineItem] = await tx.insert(invoiceLineItems).values(lineItem).returning();
+      await this.syncInvoiceAmount(tx, newLineItem.invoiceId, previousLineItems);
+      return newLineItem;
+    });
+  }
+
+  async updateInvoiceLineItem(id: number, lineItem: Partial<InvoiceLineItemInput>): Promise<InvoiceLineItem | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(invoiceLineItems).where(eq(invoiceLineItems.id, id));
+      if (!existing) return undefined;
+      
+      const previousLineItems = await this.selectLineItems(tx, existing.invoiceId);
+      const [updated] = await tx.update(invoiceLineItems)
+        .set(lineItem)
+        .where(eq(invoiceLineItems.id, id))
+        .returning();
+      if (updated) {
+        await this.syncInvoiceAmount(tx, updated.invoiceId, previousLineItems);
+      }
+      return updated;
+    });
+  }
+
+  async deleteInvoiceLineItem(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(invoiceLineItems).where(eq(invoiceLineItems.id, id));
+      if (!existing) return;
+      
+      const previousLineItems = await this.selectLineItems(tx, existing.invoiceId);
+      const [deleted] = await tx.delete(invoiceLineItems)
+        .where(eq(invoiceLineItems.id, id))
+        .returning();
+      if (deleted) {
+        await this.syncInvoiceAmount(tx, deleted.invoiceId, previousLineItems);
+      }
+    });
+    return true;
+  }
+
+  private async insertLineItems(tx: Transaction, invoiceId: number, lineItems: InvoiceLineItemInput[]) {
+    await tx.insert(invoiceLineItems).values(
+      lineItems.map((item, index) => ({ ...item, invoiceId, position: index }))
+    );
+  }
+
+  private async selectLineItems(tx: Transaction, invoiceId: number): Promise<InvoiceLineItem[]> {
+    return tx.select()
+      .from(invoiceLineItems)
+      .where(eq(invoiceLineItems.invoiceId, invoiceId))
+      .orderBy(asc(invoiceLineItems.position), asc(invoiceLineItems.id));
+  }
+
+  // Recalculate the stored invoice amount after one of its line items
+  // changed, and record the change on the invoice
+  private async syncInvoiceAmount(tx: Transaction, invoiceId: number, previousLineItems: InvoiceLineItem[]) {
+    const [invoice] = await tx.select().from(invoices).where(and(eq(invoices.id, invoiceId), inOrganization(invoices)));
+    if (!invoice) return;
+    
+    const lineItems = await this.selectLineItems(tx, invoiceId);
+    
+    const [updated] = await tx.update(invoices)
+      .set(lineItemTotals(lineItems, await this.loadTaxTable(tx), invoice.taxInclusive))
+      .where(and(eq(invoices.id, invoiceId), inOrganization(invoices)))
+      .returning();
+    if (updated) {
+      await this.postDocument(tx, "invoice", updated, postedInvoiceAmount(updated));
+      await this.audit(
+        tx,
+        "update",
+        "invoice",
+        getInvoiceNumber(updated),
+        { ...invoice, lineItems: describeLineItems(previousLineItems) },
+        { ...updated, lineItems: describeLineItems(lineItems) }
+      );
+    }
+  }
+
+  // Estimate methods
+  async getEstimates(userId?: number): Promise<Estimate[]> {
     if (userId) {
-      return db.select().from(payments).where(eq(payments.userId, userId));
+      return db.select().from(estimates).where(and(eq(estimates.userId, userId), inOrganization(estimates)));
     }
-    return db.select().from(payments);
+    return db.select().from(estimates).where(inOrganization(estimates));
   }
 
-  async getPaymentsByInvoice(invoiceId: number): Promise<Payment[]> {
+  async getEstimate(id: number): Promise<Estimate | undefined> {
+    const [estimate] = await db.select().from(estimates).where(and(eq(estimates.id, id), inOrganization(estimates)));
+    return estimate;
+  }
+
+  async getEstimateLineItems(estimateId: number): Promise<EstimateLineItem[]> {
     return db.select()
-      .from(payments)
-      .where(eq(payments.invoiceId, invoiceId));
+      .from(estimateLineItems)
+      .where(eq(estimateLineItems.estimateId, estimateId))
+      .orderBy(asc(estimateLineItems.position), asc(estimateLineItems.id));
   }
 
-  async getPayment(id: number): Promise<Payment | undefined> {
-    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
-    return payment;
+  async createEstimate(estimate: InsertEstimate, lineItems?: InvoiceLineItemInput[]): Promise<Estimate> {
+    return db.transaction(async (tx) => {
+      // When line items are given, the estimate total and taxes are derived
+      // from them
+      const values = lineItems?.length
+        ? { ...estimate, ...lineItemTotals(lineItems, await this.loadTaxTable(tx), estimate.taxInclusive ?? false) }
+        : estimate;
+      
+      const number = await this.allocateDocumentNumber(tx, "estimate", estimate.date);
+      const [newEstimate] = await tx.insert(estimates).values({ ...values, number, organizationId: getOrganizationId() }).returning();
+      
+      if (lineItems?.length) {
+        await this.insertEstimateLineItems(tx, newEstimate.id, lineItems);
+      }
+      
+      await this.audit(tx, "create", "estimate", newEstimate.number, undefined, {
+        ...newEstimate,
+        lineItems: lineItems && describeLineItems(lineItems),
+      });
+      
+      return newEstimate;
+    });
   }
 
-  async createPayment(payment: InsertPayment): Promise<Payment> {
-    const [newPayment] = await db.insert(payments).values(payment).returning();
-    return newPayment;
+  async updateEstimate(id: number, estimate: Partial<Estimate>, lineItems?: InvoiceLineItemInput[]): Promise<Estimate | undefined> {
+    return db.transaction(async (tx) => {
+      const values: Partial<Estimate> = { ...estimate };
+      const [existing] = await tx.select().from(estimates).where(and(eq(estimates.id, id), inOrganization(estimates)));
+      
+      const items = lineItems ?? (estimate.taxInclusive !== undefined
+        ? await tx.select().from(estimateLineItems).where(eq(estimateLineItems.estimateId, id))
+        : undefined);
+      if (existing && items?.length) {
+        Object.assign(values, lineItemTotals(items, await this.loadTaxTable(tx), estimate.taxInclusive ?? existing.taxInclusive));
+      } else if (existing && lineItems) {
+        // With every line removed nothing is taxed any more, and the total
+        // is the amount given, as for an estimate created without lines
+        Object.assign(values, { taxBreakdown: [], amount: estimate.amount ?? "0.00" });
+      }
+      
+      // Line items are replaced as a whole when provided
+      const previousLineItems = lineItems && await tx.select()
+        .from(estimateLineItems)
+        .where(eq(estimateLineItems.estimateId, id))
+        .orderBy(asc(estimateLineItems.position), asc(estimateLineItems.id));
+      if (lineItems) {
+        await tx.delete(estimateLineItems).where(eq(estimateLineItems.estimateId, id));
+        if (lineItems.length) {
+          await this.insertEstimateLineItems(tx, id, lineItems);
+        }
+      }
+      
+      const [updated] = Object.keys(values).length === 0
+        ? [existing]
+        : await tx.update(estimates)
+          .set(values)
+          .where(and(eq(estimates.id, id), inOrganization(estimates)))
+          .returning();
+      if (updated) {
+        await this.audit(
+          tx,
+          "update",
+          "estimate",
+          updated.number,
+          { ...existing, lineItems: previousLineItems && describeLineItems(previousLineItems) },
+          { ...updated, lineItems: lineItems && describeLineItems(lineItems) }
+        );
+      }
+      return updated;
+    });
   }
 
-  async updatePayment(id: number, payment: Partial<InsertPayment>): Promise<Payment | undefined> {
-    const [updated] = await db.update(payments)
-      .set(payment)
-      .where(eq(payments.id, id))
-      .returning();
-    return updated;
+  async deleteEstimate(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      await tx.delete(estimateLineItems).where(eq(estimateLineItems.estimateId, id));
+      const [deleted] = await tx.delete(estimates).where(and(eq(estimates.id, id), inOrganization(estimates))).returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "estimate", deleted.number, deleted);
+      }
+    });
+    return true;
   }
 
-  async deletePayment(id: number): Promise<boolean> {
-    await db.delete(payments).where(eq(payments.id, id));
-    return true; // In PostgreSQL, if no error is thrown, the delete was successful
+  // Flag sent estimates whose expiry date is before the given date
+  async markEstimatesExpired(asOf: string): Promise<Estimate[]> {
+    return db.transaction(async (tx) => {
+      const expired = await tx.update(estimates)
+        .set({ status: "expired" })
+        .where(and(
+          inOrganization(estimates),
+          eq(estimates.status, "sent"),
+          sql`${estimates.expiryDate} < ${asOf}`
+        ))
+        .returning();
+      for (const estimate of expired) {
+        await this.audit(tx, "update", "estimate", estimate.number, { ...estimate, status: "sent" }, estimate);
+      }
+      return expired;
+    });
   }
 
-  // Report methods
-  async getReports(userId?: number): Promise<Report[]> {
+  private async insertEstimateLineItems(tx: Transaction, estimateId: number, lineItems: InvoiceLineItemInput[]) {
+    await tx.insert(estimateLineItems).values(
+      lineItems.map((item, index) => ({ ...item, estimateId, position: index }))
+    );
+  }
+
+  // Recurring invoice methods
+  async getRecurringInvoices(userId?: number): Promise<RecurringInvoice[]> {
     if (userId) {
-      return db.select().from(reports).where(eq(reports.userId, userId));
+      return db.select().from(recurringInvoices).where(and(eq(recurringInvoices.userId, userId), inOrganization(recurringInvoices)));
     }
-    return db.select().from(reports);
+    return db.select().from(recurringInvoices).where(inOrganization(recurringInvoices));
   }
 
-  async getReport(id: number): Promise<Report | undefined> {
-    const [report] = await db.select().from(reports).where(eq(reports.id, id));
-    return report;
+  async getRecurringInvoice(id: number): Promise<RecurringInvoice | undefined> {
+    const [template] = await db.select().from(recurringInvoices).where(and(eq(recurringInvoices.id, id), inOrganization(recurringInvoices)));
+    return template;
+  }
+
+  async createRecurringInvoice(template: InsertRecurringInvoice): Promise<RecurringInvoice> {
+    return db.transaction(async (tx) => {
+      const [newTemplate] = await tx.insert(recurringInvoices)
+        .values({ ...template, nextRunDate: template.nextRunDate ?? template.startDate, organizationId: getOrganizationId() })
+        .returning();
+      await this.audit(tx, "create", "recurring_invoice", newTemplate.title, undefined, newTemplate);
+      return newTemplate;
+    });
+  }
+
+  async updateRecurringInvoice(id: number, template: Partial<RecurringInvoice>): Promise<RecurringInvoice | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(recurringInvoices).where(and(eq(recurringInvoices.id, id), inOrganization(recurringInvoices)));
+      const [updated] = await tx.update(recurringInvoices)
+        .set(template)
+        .where(and(eq(recurringInvoices.id, id), inOrganization(recurringInvoices)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "recurring_invoice", updated.title, existing, updated);
+      }
+      return updated;
+    });
+  }
+
+  async deleteRecurringInvoice(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(recurringInvoices)
+        .where(and(eq(recurringInvoices.id, id), inOrganization(recurringInvoices)))
+        .returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "recurring_invoice", deleted.title, deleted);
+      }
+    });
+    return true;
+  }
+
+  async getDueRecurringInvoices(asOf: string): Promise<RecurringInvoice[]> {
+    return db.select()
+      .from(recurringInvoices)
+      .where(and(
+        inOrganization(recurringInvoices),
+        eq(recurringInvoices.status, "active"),
+        lte(recurringInvoices.nextRunDate, asOf)
+      ));
+  }
+
+  // Move a template past the given run date. Returns undefined when the run
+  // was already taken, so each occurrence is issued only once.
+  async claimRecurringRun(
+    id: number,
+    runDate: string,
+    next: Pick<RecurringInvoice, "nextRunDate" | "status">
+  ): Promise<RecurringInvoice | undefined> {
+    return db.transaction(async (tx) => {
+      const [claimed] = await tx.update(recurringInvoices)
+        .set(next)
+        .where(and(
+          eq(recurringInvoices.id, id),
+          inOrganization(recurringInvoices),
+          eq(recurringInvoices.status, "active"),
+          eq(recurringInvoices.nextRunDate, runDate)
+        ))
+        .returning();
+      if (claimed) {
+        await this.audit(
+          tx,
+          "update",
+          "recurring_invoice",
+          claimed.title,
+          { ...claimed, status: "active", nextRunDate: runDate },
+          claimed
+        );
+      }
+      return claimed;
+    });
+  }
+
+  // Document numbering methods
+  async getDocumentSequence(documentType: DocumentType): Promise<InsertDocumentSequence> {
+    const [sequence] = await db.select()
+      .from(documentSequences)
+      .where(and(eq(documentSequences.documentType, documentType), inOrganization(documentSequences)));
+    
+    return sequence
+      ? { documentType, pattern: sequence.pattern, resetYearly: sequence.resetYearly }
+      : { documentType, pattern: DEFAULT_NUMBER_PATTERNS[documentType], resetYearly: true };
+  }
+
+  async updateDocumentSequence(sequence: InsertDocumentSequence): Promise<InsertDocumentSequence> {
+    const previous = await this.getDocumentSequence(sequence.documentType);
+    return db.transaction(async (tx) => {
+      const [saved] = await tx.insert(documentSequences)
+        .values({ ...sequence, organizationId: getOrganizationId() })
+        .onConflictDoUpdate({
+          target: [documentSequences.organizationId, documentSequences.documentType],
+          set: { pattern: sequence.pattern, resetYearly: sequence.resetYearly },
+        })
+        .returning();
+      await this.audit(
+        tx,
+        "update",
+        "document_sequence",
+        `Numbering of ${saved.documentType.replace("_", " ")}s`,
+        { ...previous, id: saved.id },
+        saved
+      );
+      return { documentType: saved.documentType, pattern: saved.pattern, resetYearly: saved.resetYearly };
+    });
+  }
+
+  // The number the next document issued on the given date would receive
+  async previewDocumentNumber(documentType: DocumentType, issueDate: string): Promise<string> {
+    const sequence = await this.getDocumentSequence(documentType);
+    const year = Number(issueDate.slice(0, 4));
+    
+    const [counter] = await db.select()
+      .from(documentCounters)
+      .where(and(
+        inOrganization(documentCounters),
+        eq(documentCounters.documentType, documentType),
+        eq(documentCounters.period, sequence.resetYearly ? year : 0)
+      ));
+    const highestIssued = await this.getHighestIssuedNumber(db, documentType, sequence.pattern, year);
+    
+    return formatDocumentNumber(sequence.pattern, year, Math.max(counter?.lastValue ?? 0, highestIssued) + 1);
+  }
+
+  // Take the next number of a sequence. The counter is incremented with a
+  // single upsert, which locks its row until the surrounding transaction
+  // ends, so concurrent documents never share a number. A counter that is
+  // new, e.g. for a new year or after the yearly reset was switched, or
+  // behind the numbers already issued carries on after the highest of them.
+  private async allocateDocumentNumber(tx: Transaction, documentType: DocumentType, issueDate: string): Promise<string> {
+    const sequence = await this.getDocumentSequence(documentType);
+    const year = Number(issueDate.slice(0, 4));
+    const highestIssued = await this.getHighestIssuedNumber(tx, documentType, sequence.pattern, year);
+    
+    const [counter] = await tx.insert(documentCounters)
+      .values({
+        documentType,
+        period: sequence.resetYearly ? year : 0,
+        lastValue: highestIssued + 1,
+        organizationId: getOrganizationId(),
+      })
+      .onConflictDoUpdate({
+        target: [documentCounters.organizationId, documentCounters.documentType, documentCounters.period],
+        set: { lastValue: sql`greatest(${documentCounters.lastValue}, ${highestIssued}) + 1` },
+      })
+      .returning();
+    
+    return formatDocumentNumber(sequence.pattern, year, counter.lastValue);
+  }
+
+  // The highest counter among the numbers the pattern has produced for the
+  // year, found by matching them against the pattern
+  private async getHighestIssuedNumber(
+    executor: Transaction | typeof db,
+    documentType: DocumentType,
+    pattern: string,
+    year: number
+  ): Promise<number> {
+    const table = NUMBERED_TABLES[documentType];
+    const numberPattern = documentNumberPattern(pattern, year);
+    const [row] = await executor.select({
+      highest: sql<string | null>`max(substring(${table.number} from ${numberPattern})::bigint)`,
+    })
+      .from(table)
+      .where(and(inOrganization(table), sql`${table.number} ~ ${numberPattern}`));
+    return Number(row?.highest ?? 0);
+  }
+
+  // Overdue and reminder methods
+  // Flag pending and partially paid invoices whose due date (or issue date,
+  // when there is none) is before the given date
+  async markInvoicesOverdue(asOf: string): Promise<Invoice[]> {
+    return db.transaction(async (tx) => {
+      const due = await tx.select()
+        .from(invoices)
+        .where(and(
+          inOrganization(invoices),
+          inArray(invoices.status, ["pending", "partially_paid"]),
+          sql`coalesce(${invoices.dueDate}, ${invoices.date}) < ${asOf}`
+        ));
+      if (due.length === 0) return [];
+      
+      const overdue = await tx.update(invoices)
+        .set({ status: "overdue" })
+        .where(and(inArray(invoices.id, due.map(invoice => invoice.id)), inOrganization(invoices)))
+        .returning();
+      for (const invoice of overdue) {
+        await this.audit(tx, "update", "invoice", getInvoiceNumber(invoice), due.find(item => item.id === invoice.id), invoice);
+      }
+      return overdue;
+    });
+  }
+
+  async getOverdueInvoices(): Promise<Invoice[]> {
+    return db.select().from(invoices).where(and(eq(invoices.status, "overdue"), inOrganization(invoices)));
+  }
+
+  async getInvoiceReminders(invoiceId: number): Promise<InvoiceReminder[]> {
+    return db.select()
+      .from(invoiceReminders)
+      .where(eq(invoiceReminders.invoiceId, invoiceId))
+      .orderBy(asc(invoiceReminders.sentAt));
+  }
+
+  // Returns undefined when this reminder was already logged for the invoice
+  async createInvoiceReminder(reminder: InsertInvoiceReminder): Promise<InvoiceReminder | undefined> {
+    const [newReminder] = await db.insert(invoiceReminders)
+      .values(reminder)
+      .onConflictDoNothing()
+      .returning();
+    return newReminder;
+  }
+
+  async deleteInvoiceReminder(id: number): Promise<boolean> {
+    await db.delete(invoiceReminders).where(eq(invoiceReminders.id, id));
+    return true;
+  }
+
+  // Credit note methods
+  async getCreditNotes(userId?: number): Promise<CreditNote[]> {
+    if (userId) {
+      return db.select().from(creditNotes).where(and(eq(creditNotes.userId, userId), inOrganization(creditNotes)));
+    }
+    return db.select().from(creditNotes).where(inOrganization(creditNotes));
+  }
+
+  async getCreditNotesByInvoice(invoiceId: number): Promise<CreditNote[]> {
+    return db.select()
+      .from(creditNotes)
+      .where(and(eq(creditNotes.invoiceId, invoiceId), inOrganization(creditNotes)))
+      .orderBy(asc(creditNotes.date), asc(creditNotes.id));
+  }
+
+  async getCreditNote(id: number): Promise<CreditNote | undefined> {
+    const [creditNote] = await db.select().from(creditNotes).where(and(eq(creditNotes.id, id), inOrganization(creditNotes)));
+    return creditNote;
+  }
+
+  // Credit notes are issued documents with their own number, so like
+  // invoices they cannot be edited or deleted once created
+  async createCreditNote(creditNote: InsertCreditNote): Promise<CreditNote> {
+    return db.transaction(async (tx) => {
+      const number = await this.allocateDocumentNumber(tx, "credit_note", creditNote.date);
+      const [newCreditNote] = await tx.insert(creditNotes).values({ ...creditNote, number, organizationId: getOrganizationId() }).returning();
+      const [invoice] = await tx.select().from(invoices).where(and(eq(invoices.id, creditNote.invoiceId), inOrganization(invoices)));
+      await this.postDocument(tx, "credit_note", newCreditNote, postedCreditNoteAmount(newCreditNote, invoice));
+      await this.audit(tx, "create", "credit_note", newCreditNote.number, undefined, newCreditNote);
+      return newCreditNote;
+    });
+  }
+
+  // Payment methods
+  async getPayments(userId?: number): Promise<Payment[]> {
+    if (userId) {
+      return db.select().from(payments).where(and(eq(payments.userId, userId), inOrganization(payments)));
+    }
+    return db.select().from(payments).where(inOrganization(payments));
+  }
+
+  async getPaymentsByInvoice(invoiceId: number): Promise<Payment[]> {
+    return db.select()
+      .from(payments)
+      .where(and(eq(payments.invoiceId, invoiceId), inOrganization(payments)));
+  }
+
+  async getRefunds(paymentId: number): Promise<Payment[]> {
+    return db.select()
+      .from(payments)
+      .where(and(eq(payments.type, "refund"), eq(payments.refundOfId, paymentId), inOrganization(payments)))
+      .orderBy(asc(payments.date));
+  }
+
+  async getPayment(id: number): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(and(eq(payments.id, id), inOrganization(payments)));
+    return payment;
+  }
+
+  // Payments are in the currency of their invoice, at the rate on the
+  // payment date
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    return db.transaction(async (tx) => {
+      const currencyValues = await this.paymentCurrency(tx, payment.invoiceId, payment.date);
+      const [newPayment] = await tx.insert(payments).values({ ...payment, ...currencyValues, organizationId: getOrganizationId() }).returning();
+      await this.postPayment(tx, newPayment);
+      await this.audit(tx, "create", "payment", describePayment(newPayment), undefined, newPayment);
+      return newPayment;
+    });
+  }
+
+  async updatePayment(id: number, payment: Partial<InsertPayment>): Promise<Payment | undefined> {
+    return db.transaction(async (tx) => {
+      const values: Partial<Payment> = { ...payment };
+      const [existing] = await tx.select().from(payments).where(and(eq(payments.id, id), inOrganization(payments)));
+      
+      if (existing && (payment.date !== undefined || payment.invoiceId !== undefined)) {
+        Object.assign(values, await this.paymentCurrency(
+          tx,
+          payment.invoiceId ?? existing.invoiceId,
+          payment.date ?? existing.date
+        ));
+      }
+      
+      const [updated] = await tx.update(payments)
+        .set(values)
+        .where(and(eq(payments.id, id), inOrganization(payments)))
+        .returning();
+      if (updated) {
+        await this.postPayment(tx, updated);
+        await this.audit(tx, "update", "payment", describePayment(updated), existing, updated);
+      }
+      return updated;
+    });
+  }
+
+  async deletePayment(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [payment] = await tx.select().from(payments).where(and(eq(payments.id, id), inOrganization(payments)));
+      if (payment) {
+        // Reverse whatever the payment posted to the ledger
+        await this.postDocument(tx, payment.type, payment, 0);
+        await this.postDocument(tx, "exchange_difference", payment, 0);
+      }
+      await tx.delete(bankTransactionMatches).where(eq(bankTransactionMatches.paymentId, id));
+      const [deleted] = await tx.delete(payments).where(and(eq(payments.id, id), inOrganization(payments))).returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "payment", describePayment(deleted), deleted);
+      }
+    });
+    return true; // In PostgreSQL, if no error is thrown, the delete was successful
+  }
+
+  // Expense methods
+  async getExpenses(userId?: number): Promise<Expense[]> {
+    if (userId) {
+      return db.select().from(expenses).where(and(eq(expenses.userId, userId), inOrganization(expenses)));
+    }
+    return db.select().from(expenses).where(inOrganization(expenses));
+  }
+
+  async getExpensesByVendor(vendorId: number): Promise<Expense[]> {
+    return db.select().from(expenses).where(and(eq(expenses.vendorId, vendorId), inOrganization(expenses)));
+  }
+
+  async getExpense(id: number): Promise<Expense | undefined> {
+    const [expense] = await db.select().from(expenses).where(and(eq(expenses.id, id), inOrganization(expenses)));
+    return expense;
+  }
+
+  async createExpense(expense: InsertExpense): Promise<Expense> {
+    return db.transaction(async (tx) => {
+      const [newExpense] = await tx.insert(expenses).values({ ...expense, organizationId: getOrganizationId() }).returning();
+      await this.postDocument(tx, "expense", newExpense, getExpenseTotal(newExpense));
+      await this.audit(tx, "create", "expense", describeExpense(newExpense), undefined, newExpense);
+      return newExpense;
+    });
+  }
+
+  async updateExpense(id: number, expense: Partial<InsertExpense>): Promise<Expense | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(expenses).where(and(eq(expenses.id, id), inOrganization(expenses)));
+      const [updated] = await tx.update(expenses)
+        .set(expense)
+        .where(and(eq(expenses.id, id), inOrganization(expenses)))
+        .returning();
+      if (updated) {
+        await this.postDocument(tx, "expense", updated, getExpenseTotal(updated));
+        await this.audit(tx, "update", "expense", describeExpense(updated), existing, updated);
+      }
+      return updated;
+    });
+  }
+
+  async deleteExpense(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [expense] = await tx.select().from(expenses).where(and(eq(expenses.id, id), inOrganization(expenses)));
+      if (expense) {
+        // Reverse whatever the expense posted to the ledger
+        await this.postDocument(tx, "expense", expense, 0);
+      }
+      await tx.delete(expenseReceipts).where(eq(expenseReceipts.expenseId, id));
+      const [deleted] = await tx.delete(expenses).where(and(eq(expenses.id, id), inOrganization(expenses))).returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "expense", describeExpense(deleted), deleted);
+      }
+    });
+    return true;
+  }
+
+  async getExpenseReceipt(expenseId: number): Promise<ExpenseReceipt | undefined> {
+    const [receipt] = await db.select().from(expenseReceipts).where(eq(expenseReceipts.expenseId, expenseId));
+    return receipt;
+  }
+
+  // Attach a receipt to an expense, replacing any earlier one
+  async saveExpenseReceipt(
+    expenseId: number,
+    receipt: Pick<ExpenseReceipt, "fileName" | "contentType" | "data">
+  ): Promise<Expense | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(expenses).where(and(eq(expenses.id, expenseId), inOrganization(expenses)));
+      await tx.insert(expenseReceipts)
+        .values({ ...receipt, expenseId })
+        .onConflictDoUpdate({
+          target: expenseReceipts.expenseId,
+          set: { ...receipt, createdAt: new Date() },
+        });
+      const [updated] = await tx.update(expenses)
+        .set({ receiptFileName: receipt.fileName })
+        .where(and(eq(expenses.id, expenseId), inOrganization(expenses)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "expense", describeExpense(updated), existing, updated);
+      }
+      return updated;
+    });
+  }
+
+  async deleteExpenseReceipt(expenseId: number): Promise<Expense | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(expenses).where(and(eq(expenses.id, expenseId), inOrganization(expenses)));
+      await tx.delete(expenseReceipts).where(eq(expenseReceipts.expenseId, expenseId));
+      const [updated] = await tx.update(expenses)
+        .set({ receiptFileName: null })
+        .where(and(eq(expenses.id, expenseId), inOrganization(expenses)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "expense", describeExpense(updated), existing, updated);
+      }
+      return updated;
+    });
+  }
+
+  // Bill methods
+  async getBills(userId?: number): Promise<Bill[]> {
+    if (userId) {
+      return db.select().from(bills).where(and(eq(bills.userId, userId), inOrganization(bills)));
+    }
+    return db.select().from(bills).where(inOrganization(bills));
+  }
+
+  async getBillsByVendor(vendorId: number): Promise<Bill[]> {
+    return db.select().from(bills).where(and(eq(bills.vendorId, vendorId), inOrganization(bills)));
+  }
+
+  async getBill(id: number): Promise<Bill | undefined> {
+    const [bill] = await db.select().from(bills).where(and(eq(bills.id, id), inOrganization(bills)));
+    return bill;
+  }
+
+  async getBillLineItems(billId: number): Promise<BillLineItem[]> {
+    return db.select()
+      .from(billLineItems)
+      .where(eq(billLineItems.billId, billId))
+      .orderBy(asc(billLineItems.position), asc(billLineItems.id));
+  }
+
+  async createBill(bill: InsertBill, lineItems?: InvoiceLineItemInput[]): Promise<Bill> {
+    return db.transaction(async (tx) => {
+      // When line items are given, the bill total is derived from them
+      const values = lineItems?.length
+        ? { ...bill, amount: calculateInvoiceTotal(lineItems).toFixed(2) }
+        : bill;
+      
+      const [newBill] = await tx.insert(bills).values({ ...values, organizationId: getOrganizationId() }).returning();
+      
+      if (lineItems?.length) {
+        await this.insertBillLineItems(tx, newBill.id, lineItems);
+      }
+      
+      await this.postDocument(tx, "bill", newBill, Number(newBill.amount));
+      await this.audit(tx, "create", "bill", describeBill(newBill), undefined, {
+        ...newBill,
+        lineItems: lineItems && describeLineItems(lineItems),
+      });
+      
+      return newBill;
+    });
+  }
+
+  async updateBill(id: number, bill: Partial<InsertBill>, lineItems?: InvoiceLineItemInput[]): Promise<Bill | undefined> {
+    return db.transaction(async (tx) => {
+      const values = lineItems?.length
+        ? { ...bill, amount: calculateInvoiceTotal(lineItems).toFixed(2) }
+        : bill;
+      const [existing] = await tx.select().from(bills).where(and(eq(bills.id, id), inOrganization(bills)));
+      
+      // Line items are replaced as a whole when provided
+      const previousLineItems = lineItems && await tx.select()
+        .from(billLineItems)
+        .where(eq(billLineItems.billId, id))
+        .orderBy(asc(billLineItems.position), asc(billLineItems.id));
+      if (lineItems) {
+        await tx.delete(billLineItems).where(eq(billLineItems.billId, id));
+        if (lineItems.length) {
+          await this.insertBillLineItems(tx, id, lineItems);
+        }
+      }
+      
+      const [updated] = Object.keys(values).length === 0
+        ? [existing]
+        : await tx.update(bills)
+          .set(values)
+          .where(and(eq(bills.id, id), inOrganization(bills)))
+          .returning();
+      if (updated) {
+        await this.audit(
+          tx,
+          "update",
+          "bill",
+          describeBill(updated),
+          { ...existing, lineItems: previousLineItems && describeLineItems(previousLineItems) },
+          { ...updated, lineItems: lineItems && describeLineItems(lineItems) }
+        );
+      }
+      if (updated && updated !== existing) {
+        await this.postDocument(tx, "bill", updated, Number(updated.amount));
+      }
+      return updated;
+    });
+  }
+
+  async deleteBill(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [bill] = await tx.select().from(bills).where(and(eq(bills.id, id), inOrganization(bills)));
+      if (bill) {
+        // Reverse whatever the bill posted to the ledger
+        await this.postDocument(tx, "bill", bill, 0);
+      }
+      await tx.delete(billLineItems).where(eq(billLineItems.billId, id));
+      const [deleted] = await tx.delete(bills).where(and(eq(bills.id, id), inOrganization(bills))).returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "bill", describeBill(deleted), deleted);
+      }
+    });
+    return true;
+  }
+
+  // Add what has been paid and is still due to each bill
+  async withBillAmounts(billList: Bill[]): Promise<BillWithAmounts[]> {
+    if (billList.length === 0) return [];
+    
+    const paidRows = await db.select({
+      billId: billPayments.billId,
+      total: sql<string>`coalesce(sum(${billPayments.amount}), 0)`,
+    })
+      .from(billPayments)
+      .where(inArray(billPayments.billId, billList.map(bill => bill.id)))
+      .groupBy(billPayments.billId);
+    
+    const paid = new Map(paidRows.map(row => [row.billId, Number(row.total)]));
+    
+    return billList.map(bill => ({
+      ...bill,
+      ...calculateBillAmounts(bill, paid.get(bill.id) ?? 0),
+    }));
+  }
+
+  // Derive a bill's status from what has been paid on it
+  async refreshBillStatus(billId: number): Promise<BillWithAmounts | undefined> {
+    const [bill] = await db.select().from(bills).where(and(eq(bills.id, billId), inOrganization(bills)));
+    if (!bill) return undefined;
+    
+    const [withAmounts] = await this.withBillAmounts([bill]);
+    const status: Bill["status"] = withAmounts.amountDue <= 0
+      ? "paid"
+      : withAmounts.amountPaid > 0
+        ? "partially_paid"
+        : "open";
+    if (status === bill.status) return withAmounts;
+    
+    return db.transaction(async (tx) => {
+      const [updated] = await tx.update(bills)
+        .set({ status })
+        .where(and(eq(bills.id, billId), inOrganization(bills)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "bill", describeBill(updated), bill, updated);
+      }
+      return { ...withAmounts, ...updated };
+    });
+  }
+
+  private async insertBillLineItems(tx: Transaction, billId: number, lineItems: InvoiceLineItemInput[]) {
+    await tx.insert(billLineItems).values(
+      lineItems.map((item, index) => ({ ...item, billId, position: index }))
+    );
+  }
+
+  // Bill payment methods
+  async getBillPayments(userId?: number): Promise<BillPayment[]> {
+    if (userId) {
+      return db.select().from(billPayments).where(and(eq(billPayments.userId, userId), inOrganization(billPayments)));
+    }
+    return db.select().from(billPayments).where(inOrganization(billPayments));
+  }
+
+  async getBillPaymentsByBill(billId: number): Promise<BillPayment[]> {
+    return db.select()
+      .from(billPayments)
+      .where(and(eq(billPayments.billId, billId), inOrganization(billPayments)))
+      .orderBy(asc(billPayments.date));
+  }
+
+  async getBillPayment(id: number): Promise<BillPayment | undefined> {
+    const [payment] = await db.select().from(billPayments).where(and(eq(billPayments.id, id), inOrganization(billPayments)));
+    return payment;
+  }
+
+  async createBillPayment(payment: InsertBillPayment): Promise<BillPayment> {
+    return db.transaction(async (tx) => {
+      const [newPayment] = await tx.insert(billPayments).values({ ...payment, organizationId: getOrganizationId() }).returning();
+      await this.postDocument(tx, "bill_payment", newPayment, Number(newPayment.amount));
+      await this.audit(tx, "create", "bill_payment", describeBillPayment(newPayment), undefined, newPayment);
+      return newPayment;
+    });
+  }
+
+  async deleteBillPayment(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [payment] = await tx.select().from(billPayments).where(and(eq(billPayments.id, id), inOrganization(billPayments)));
+      if (payment) {
+        // Reverse whatever the payment posted to the ledger
+        await this.postDocument(tx, "bill_payment", payment, 0);
+      }
+      const [deleted] = await tx.delete(billPayments).where(and(eq(billPayments.id, id), inOrganization(billPayments))).returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "bill_payment", describeBillPayment(deleted), deleted);
+      }
+    });
+    return true;
+  }
+
+  // Bank account methods
+  async getBankAccounts(userId?: number): Promise<BankAccount[]> {
+    if (userId) {
+      return db.select().from(bankAccounts).where(and(eq(bankAccounts.userId, userId), inOrganization(bankAccounts)));
+    }
+    return db.select().from(bankAccounts).where(inOrganization(bankAccounts));
+  }
+
+  async getBankAccount(id: number): Promise<BankAccount | undefined> {
+    const [account] = await db.select().from(bankAccounts).where(and(eq(bankAccounts.id, id), inOrganization(bankAccounts)));
+    return account;
+  }
+
+  async createBankAccount(account: InsertBankAccount): Promise<BankAccount> {
+    return db.transaction(async (tx) => {
+      const [newAccount] = await tx.insert(bankAccounts).values({ ...account, organizationId: getOrganizationId() }).returning();
+      await this.audit(tx, "create", "bank_account", newAccount.name, undefined, newAccount);
+      return newAccount;
+    });
+  }
+
+  async updateBankAccount(id: number, account: Partial<InsertBankAccount>): Promise<BankAccount | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(bankAccounts).where(and(eq(bankAccounts.id, id), inOrganization(bankAccounts)));
+      const [updated] = await tx.update(bankAccounts)
+        .set(account)
+        .where(and(eq(bankAccounts.id, id), inOrganization(bankAccounts)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "bank_account", updated.name, existing, updated);
+      }
+      return updated;
+    });
+  }
+
+  // Payments keep their amounts but are no longer tied to the account. Rules
+  // for this account only are deleted with it.
+  async deleteBankAccount(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const transactionIds = tx.select({ id: bankTransactions.id })
+        .from(bankTransactions)
+        .where(and(eq(bankTransactions.bankAccountId, id), inOrganization(bankTransactions)));
+      await tx.delete(bankTransactionMatches).where(inArray(bankTransactionMatches.bankTransactionId, transactionIds));
+      await tx.update(payments).set({ bankAccountId: null }).where(and(eq(payments.bankAccountId, id), inOrganization(payments)));
+      await tx.delete(bankReconciliations).where(and(eq(bankReconciliations.bankAccountId, id), inOrganization(bankReconciliations)));
+      await tx.delete(bankRules).where(and(eq(bankRules.bankAccountId, id), inOrganization(bankRules)));
+      await tx.delete(bankTransactions).where(and(eq(bankTransactions.bankAccountId, id), inOrganization(bankTransactions)));
+      const [deleted] = await tx.delete(bankAccounts).where(and(eq(bankAccounts.id, id), inOrganization(bankAccounts))).returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "bank_account", deleted.name, deleted);
+      }
+    });
+    return true;
+  }
+
+  // Bank transaction methods
+  async getBankTransactions(bankAccountId: number): Promise<BankTransaction[]> {
+    return db.select()
+      .from(bankTransactions)
+      .where(and(eq(bankTransactions.bankAccountId, bankAccountId), inOrganization(bankTransactions)))
+      .orderBy(desc(bankTransactions.date), desc(bankTransactions.id));
+  }
+
+  // Across all bank accounts, latest first
+  async getBankTransactionsByUser(userId?: number): Promise<BankTransaction[]> {
+    if (userId) {
+      return db.select()
+        .from(bankTransactions)
+        .where(and(eq(bankTransactions.userId, userId), inOrganization(bankTransactions)))
+        .orderBy(desc(bankTransactions.date), desc(bankTransactions.id));
+    }
+    return db.select()
+      .from(bankTransactions)
+      .where(inOrganization(bankTransactions))
+      .orderBy(desc(bankTransactions.date), desc(bankTransactions.id));
+  }
+
+  async getBankTransaction(id: number): Promise<BankTransaction | undefined> {
+    const [transaction] = await db.select().from(bankTransactions).where(and(eq(bankTransactions.id, id), inOrganization(bankTransactions)));
+    return transaction;
+  }
+
+  async createBankTransaction(transaction: InsertBankTransaction): Promise<BankTransaction> {
+    return db.transaction(async (tx) => {
+      const [newTransaction] = await tx.insert(bankTransactions).values({ ...transaction, organizationId: getOrganizationId() }).returning();
+      await this.audit(tx, "create", "bank_transaction", newTransaction.description, undefined, newTransaction);
+      return newTransaction;
+    });
+  }
+
+  async updateBankTransaction(id: number, transaction: Partial<InsertBankTransaction>): Promise<BankTransaction | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(bankTransactions).where(and(eq(bankTransactions.id, id), inOrganization(bankTransactions)));
+      const [updated] = await tx.update(bankTransactions)
+        .set(transaction)
+        .where(and(eq(bankTransactions.id, id), inOrganization(bankTransactions)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "bank_transaction", updated.description, existing, updated);
+      }
+      return updated;
+    });
+  }
+
+  async deleteBankTransaction(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      await tx.delete(bankTransactionMatches).where(eq(bankTransactionMatches.bankTransactionId, id));
+      const [deleted] = await tx.delete(bankTransactions)
+        .where(and(eq(bankTransactions.id, id), inOrganization(bankTransactions)))
+        .returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "bank_transaction", deleted.description, deleted);
+      }
+    });
+    return true;
+  }
+
+  // Insert statement transactions, skipping any whose import ID is already
+  // loaded for the account. Returns only the transactions that were added.
+  async importBankTransactions(transactions: InsertBankTransaction[]): Promise<BankTransaction[]> {
+    if (transactions.length === 0) {
+      return [];
+    }
+
+    const organizationId = getOrganizationId();
+    return db.transaction(async (tx) => {
+      const imported: BankTransaction[] = [];
+      for (let start = 0; start < transactions.length; start += 1000) {
+        const inserted = await tx.insert(bankTransactions)
+          .values(transactions.slice(start, start + 1000).map(transaction => ({ ...transaction, organizationId })))
+          .onConflictDoNothing({ target: [bankTransactions.bankAccountId, bankTransactions.importId] })
+          .returning();
+        imported.push(...inserted);
+      }
+      if (imported.length > 0) {
+        const [account] = await tx.select().from(bankAccounts).where(eq(bankAccounts.id, imported[0].bankAccountId));
+        await this.audit(tx, "import", "bank_transaction", `${imported.length} statement lines`, undefined, {
+          bankAccount: account?.name,
+          from: imported.reduce((first, transaction) => transaction.date < first ? transaction.date : first, imported[0].date),
+          to: imported.reduce((last, transaction) => transaction.date > last ? transaction.date : last, imported[0].date),
+        });
+      }
+      return imported;
+    });
+  }
+
+  // Bank reconciliation methods
+  async getBankTransactionMatches(bankAccountId: number): Promise<BankTransactionMatchWithPayment[]> {
+    const rows = await db.select({ match: bankTransactionMatches, payment: payments })
+      .from(bankTransactionMatches)
+      .innerJoin(payments, eq(bankTransactionMatches.paymentId, payments.id))
+      .innerJoin(bankTransactions, eq(bankTransactionMatches.bankTransactionId, bankTransactions.id))
+      .where(and(eq(bankTransactions.bankAccountId, bankAccountId), inOrganization(bankTransactions)));
+    return rows.map(({ match, payment }) => ({ ...match, payment }));
+  }
+
+  async getBankTransactionMatchByPayment(paymentId: number): Promise<BankTransactionMatchWithPayment | undefined> {
+    const [row] = await db.select({ match: bankTransactionMatches, payment: payments })
+      .from(bankTransactionMatches)
+      .innerJoin(payments, eq(bankTransactionMatches.paymentId, payments.id))
+      .where(and(eq(bankTransactionMatches.paymentId, paymentId), inOrganization(payments)));
+    return row && { ...row.match, payment: row.payment };
+  }
+
+  // Match payments to a bank transaction. The payments are recorded as
+  // having gone through the transaction's bank account.
+  async matchBankTransaction(transaction: BankTransaction, paymentIds: number[]): Promise<void> {
+    if (paymentIds.length === 0) {
+      return;
+    }
+
+    await db.transaction(async (tx) => {
+      const previousPaymentIds = await this.selectMatchedPaymentIds(tx, transaction.id);
+      await tx.insert(bankTransactionMatches)
+        .values(paymentIds.map(paymentId => ({ bankTransactionId: transaction.id, paymentId })));
+      await tx.update(payments)
+        .set({ bankAccountId: transaction.bankAccountId })
+        .where(and(inArray(payments.id, paymentIds), inOrganization(payments)));
+      await this.audit(
+        tx,
+        "update",
+        "bank_transaction",
+        transaction.description,
+        { id: transaction.id, matchedPaymentIds: previousPaymentIds },
+        { id: transaction.id, matchedPaymentIds: [...previousPaymentIds, ...paymentIds] }
+      );
+    });
+  }
+
+  async unmatchBankTransaction(transactionId: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [transaction] = await tx.select().from(bankTransactions).where(and(eq(bankTransactions.id, transactionId), inOrganization(bankTransactions)));
+      const previousPaymentIds = await this.selectMatchedPaymentIds(tx, transactionId);
+      await tx.delete(bankTransactionMatches).where(eq(bankTransactionMatches.bankTransactionId, transactionId));
+      if (transaction) {
+        await this.audit(
+          tx,
+          "update",
+          "bank_transaction",
+          transaction.description,
+          { id: transactionId, matchedPaymentIds: previousPaymentIds },
+          { id: transactionId, matchedPaymentIds: [] }
+        );
+      }
+    });
+    return true;
+  }
+
+  private async selectMatchedPaymentIds(tx: Transaction, transactionId: number): Promise<number[]> {
+    const matches = await tx.select({ paymentId: bankTransactionMatches.paymentId })
+      .from(bankTransactionMatches)
+      .where(eq(bankTransactionMatches.bankTransactionId, transactionId));
+    return matches.map(match => match.paymentId);
+  }
+
+  async getPaymentsByBankAccount(bankAccountId: number): Promise<Payment[]> {
+    return db.select()
+      .from(payments)
+      .where(and(eq(payments.bankAccountId, bankAccountId), inOrganization(payments)))
+      .orderBy(asc(payments.date));
+  }
+
+  // Latest statement date first
+  async getBankReconciliations(bankAccountId: number): Promise<BankReconciliation[]> {
+    return db.select()
+      .from(bankReconciliations)
+      .where(and(eq(bankReconciliations.bankAccountId, bankAccountId), inOrganization(bankReconciliations)))
+      .orderBy(desc(bankReconciliations.statementDate));
+  }
+
+  async getBankReconciliation(id: number): Promise<BankReconciliation | undefined> {
+    const [reconciliation] = await db.select().from(bankReconciliations).where(and(eq(bankReconciliations.id, id), inOrganization(bankReconciliations)));
+    return reconciliation;
+  }
+
+  async createBankReconciliation(reconciliation: InsertBankReconciliation): Promise<BankReconciliation> {
+    return db.transaction(async (tx) => {
+      const [newReconciliation] = await tx.insert(bankReconciliations).values({ ...reconciliation, organizationId: getOrganizationId() }).returning();
+      await this.audit(tx, "create", "bank_reconciliation", `Statement of ${newReconciliation.statementDate}`, undefined, newReconciliation);
+      return newReconciliation;
+    });
+  }
+
+  async deleteBankReconciliation(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(bankReconciliations)
+        .where(and(eq(bankReconciliations.id, id), inOrganization(bankReconciliations)))
+        .returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "bank_reconciliation", `Statement of ${deleted.statementDate}`, deleted);
+      }
+    });
+    return true;
+  }
+
+  // Bank rule methods, in the order rules are tried
+  async getBankRules(userId?: number): Promise<BankRule[]> {
+    if (userId) {
+      return db.select()
+        .from(bankRules)
+        .where(and(eq(bankRules.userId, userId), inOrganization(bankRules)))
+        .orderBy(asc(bankRules.priority), asc(bankRules.id));
+    }
+    return db.select()
+      .from(bankRules)
+      .where(inOrganization(bankRules))
+      .orderBy(asc(bankRules.priority), asc(bankRules.id));
+  }
+
+  async getBankRule(id: number): Promise<BankRule | undefined> {
+    const [rule] = await db.select().from(bankRules).where(and(eq(bankRules.id, id), inOrganization(bankRules)));
+    return rule;
+  }
+
+  async createBankRule(rule: InsertBankRule): Promise<BankRule> {
+    return db.transaction(async (tx) => {
+      const [newRule] = await tx.insert(bankRules).values({ ...rule, organizationId: getOrganizationId() }).returning();
+      await this.audit(tx, "create", "bank_rule", newRule.name, undefined, newRule);
+      return newRule;
+    });
+  }
+
+  async updateBankRule(id: number, rule: Partial<InsertBankRule>): Promise<BankRule | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(bankRules).where(and(eq(bankRules.id, id), inOrganization(bankRules)));
+      const [updated] = await tx.update(bankRules)
+        .set(rule)
+        .where(and(eq(bankRules.id, id), inOrganization(bankRules)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "bank_rule", updated.name, existing, updated);
+      }
+      return updated;
+    });
+  }
+
+  // Transactions the rule categorized keep their category and vendor
+  async deleteBankRule(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      await tx.update(bankTransactions).set({ ruleId: null }).where(and(eq(bankTransactions.ruleId, id), inOrganization(bankTransactions)));
+      const [deleted] = await tx.delete(bankRules).where(and(eq(bankRules.id, id), inOrganization(bankRules))).returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "bank_rule", deleted.name, deleted);
+      }
+    });
+    return true;
+  }
+
+  // Tax methods
+  async getTaxTable(): Promise<TaxTable> {
+    return db.transaction((tx) => this.loadTaxTable(tx));
+  }
+
+  async createTaxRate(rate: InsertTaxRate): Promise<TaxRate> {
+    return db.transaction(async (tx) => {
+      const [newRate] = await tx.insert(taxRates).values({ ...rate, organizationId: getOrganizationId() }).returning();
+      await this.audit(tx, "create", "tax_rate", newRate.name, undefined, newRate);
+      return newRate;
+    });
+  }
+
+  async updateTaxRate(id: number, rate: Partial<InsertTaxRate>): Promise<TaxRate | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(taxRates).where(and(eq(taxRates.id, id), inOrganization(taxRates)));
+      const [updated] = await tx.update(taxRates)
+        .set(rate)
+        .where(and(eq(taxRates.id, id), inOrganization(taxRates)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "tax_rate", updated.name, existing, updated);
+      }
+      return updated;
+    });
+  }
+
+  async createTaxGroup(group: InsertTaxGroup): Promise<TaxGroup> {
+    return db.transaction(async (tx) => {
+      const [newGroup] = await tx.insert(taxGroups).values({ ...group, organizationId: getOrganizationId() }).returning();
+      await this.audit(tx, "create", "tax_group", newGroup.name, undefined, newGroup);
+      return newGroup;
+    });
+  }
+
+  async updateTaxGroup(id: number, group: Partial<InsertTaxGroup>): Promise<TaxGroup | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(taxGroups).where(and(eq(taxGroups.id, id), inOrganization(taxGroups)));
+      const [updated] = await tx.update(taxGroups)
+        .set(group)
+        .where(and(eq(taxGroups.id, id), inOrganization(taxGroups)))
+        .returning();
+      if (updated) {
+        await this.audit(tx, "update", "tax_group", updated.name, existing, updated);
+      }
+      return updated;
+    });
+  }
+
+  // Latest period first
+  async getTaxReturns(): Promise<TaxReturn[]> {
+    return db.select()
+      .from(taxReturns)
+      .where(inOrganization(taxReturns))
+      .orderBy(desc(taxReturns.periodEnd));
+  }
+
+  async getTaxReturn(id: number): Promise<TaxReturn | undefined> {
+    const [taxReturn] = await db.select().from(taxReturns).where(and(eq(taxReturns.id, id), inOrganization(taxReturns)));
+    return taxReturn;
+  }
+
+  async createTaxReturn(taxReturn: InsertTaxReturn, data: TaxReturnReport): Promise<TaxReturn> {
+    return db.transaction(async (tx) => {
+      const [newTaxReturn] = await tx.insert(taxReturns).values({ ...taxReturn, data, organizationId: getOrganizationId() }).returning();
+      await this.audit(tx, "create", "tax_return", describeTaxReturn(newTaxReturn), undefined, {
+        ...newTaxReturn,
+        data: undefined,
+        netTax: data.netTax,
+      });
+      return newTaxReturn;
+    });
+  }
+
+  async deleteTaxReturn(id: number): Promise<boolean> {
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(taxReturns).where(and(eq(taxReturns.id, id), inOrganization(taxReturns))).returning();
+      if (deleted) {
+        await this.audit(tx, "delete", "tax_return", describeTaxReturn(deleted), {
+          ...deleted,
+          data: undefined,
+          netTax: deleted.data.netTax,
+        });
+      }
+    });
+    return true;
+  }
+
+  private async loadBaseCurrency(executor: Transaction | typeof db): Promise<string> {
+    const [organization] = await executor.select({ baseCurrency: organizations.baseCurrency })
+      .from(organizations)
+      .where(eq(organizations.id, getOrganizationId()));
+    return organization?.baseCurrency ?? DEFAULT_ORGANIZATION_CURRENCY;
+  }
+
+  private async loadTaxTable(tx: Transaction): Promise<TaxTable> {
+    const rates = await tx.select().from(taxRates).where(inOrganization(taxRates)).orderBy(asc(taxRates.name));
+    const groups = await tx.select().from(taxGroups).where(inOrganization(taxGroups)).orderBy(asc(taxGroups.name));
+    return { rates, groups };
+  }
+
+  // Exchange rate methods. Only rates against the base currency are used.
+  async getLatestExchangeRates(): Promise<ExchangeRate[]> {
+    const baseCurrency = await this.getBaseCurrency();
+    return db.selectDistinctOn([exchangeRates.currency])
+      .from(exchangeRates)
+      .where(and(eq(exchangeRates.baseCurrency, baseCurrency), inOrganization(exchangeRates)))
+      .orderBy(asc(exchangeRates.currency), desc(exchangeRates.date));
+  }
+
+  // Rates already loaded for a currency and date are replaced, so a
+  // corrected file can be imported again
+  async importExchangeRates(rates: InsertExchangeRate[]): Promise<number> {
+    const organizationId = getOrganizationId();
+    await db.transaction(async (tx) => {
+      for (let start = 0; start < rates.length; start += 1000) {
+        await tx.insert(exchangeRates)
+          .values(rates.slice(start, start + 1000).map(rate => ({ ...rate, organizationId })))
+          .onConflictDoUpdate({
+            target: [exchangeRates.organizationId, exchangeRates.baseCurrency, exchangeRates.currency, exchangeRates.date],
+            set: { rate: sql`excluded.rate`, source: sql`excluded.source` },
+          });
+      }
+      if (rates.length > 0) {
+        const dates = rates.map(rate => rate.date).sort();
+        await this.audit(tx, "import", "exchange_rate", `${rates.length} exchange rates`, undefined, {
+          currencies: Array.from(new Set(rates.map(rate => rate.currency))).sort(),
+          from: dates[0],
+          to: dates[dates.length - 1],
+        });
+      }
+    });
+    return rates.length;
+  }
+
+  async getExchangeRate(currency: string, date: string): Promise<string> {
+    return db.transaction((tx) => this.findExchangeRate(tx, currency, date));
+  }
+
+  // Unrealized exchange gains and losses on receivables are posted as of
+  // the revaluation date and reversed the next day, so that each period end
+  // is revalued from the amounts the invoices were booked at. Revaluing the
+  // same date again posts only the change.
+  async postRevaluations(asOf: string, revaluations: { invoice: Invoice; amount: number }[]): Promise<void> {
+    const reversalDate = new Date(Date.parse(asOf) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    
+    await db.transaction(async (tx) => {
+      const receivableAccountId = await this.getSystemAccountId(tx, "accountsReceivable");
+      const gainAccountId = await this.getSystemAccountId(tx, "unrealizedExchangeGain");
+      
+      for (const { invoice, amount } of revaluations) {
+        const [posted] = await tx.select({
+          net: sql<string>`coalesce(sum(${journalLines.debit} - ${journalLines.credit}), 0)`,
+        })
+          .from(journalLines)
+          .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+          .where(and(
+            eq(journalEntries.sourceType, "revaluation"),
+            eq(journalEntries.sourceId, invoice.id),
+            eq(journalEntries.date, asOf),
+            eq(journalLines.accountId, receivableAccountId)
+          ));
+        
+        const difference = toCents(amount) - toCents(posted?.net ?? 0);
+        if (difference === 0) continue;
+        
+        const value = (Math.abs(difference) / 100).toFixed(2);
+        const reference = getInvoiceNumber(invoice);
+        await this.audit(
+          tx,
+          "revalue",
+          "invoice",
+          reference,
+          { id: invoice.id, asOf, unrealizedExchangeDifference: Number(posted?.net ?? 0) },
+          { id: invoice.id, asOf, unrealizedExchangeDifference: amount }
+        );
+        const [debitId, creditId] = difference > 0
+          ? [receivableAccountId, gainAccountId]
+          : [gainAccountId, receivableAccountId];
+        
+        await this.insertJournalEntry(tx, {
+          date: asOf,
+          description: toCents(posted?.net ?? 0) === 0
+            ? `Revaluation of ${reference} as of ${asOf}`
+            : `Revaluation of ${reference} as of ${asOf} adjustment`,
+          sourceType: "revaluation",
+          sourceId: invoice.id,
+          userId: invoice.userId,
+        }, [
+          { accountId: debitId, debit: value, credit: "0" },
+          { accountId: creditId, debit: "0", credit: value },
+        ]);
+        await this.insertJournalEntry(tx, {
+          date: reversalDate,
+          description: `Reversal of revaluation of ${reference} as of ${asOf}`,
+          sourceType: "revaluation_reversal",
+          sourceId: invoice.id,
+          userId: invoice.userId,
+        }, [
+          { accountId: creditId, debit: value, credit: "0" },
+          { accountId: debitId, debit: "0", credit: value },
+        ]);
+      }
+    });
+  }
+
+  // The rate of a currency on a date: the latest loaded on or before it
+  private async findExchangeRate(tx: Transaction, currency: string, date: string): Promise<string> {
+    const baseCurrency = await this.loadBaseCurrency(tx);
+    if (currency === baseCurrency) return "1";
+    
+    const [rate] = await tx.select()
+      .from(exchangeRates)
+      .where(and(
+        inOrganization(exchangeRates),
+        eq(exchangeRates.baseCurrency, baseCurrency),
+        eq(exchangeRates.currency, currency),
+        lte(exchangeRates.date, date)
+      ))
+      .orderBy(desc(exchangeRates.date))
+      .limit(1);
+    if (!rate) {
+      throw new MissingExchangeRateError(currency, date);
+    }
+    return rate.rate;
+  }
+
+  private async postPayment(tx: Transaction, payment: Payment) {
+    const [invoice] = await tx.select().from(invoices).where(and(eq(invoices.id, payment.invoiceId), inOrganization(invoices)));
+    await this.postDocument(tx, payment.type, payment, postedPaymentAmount(payment, invoice));
+    await this.postDocument(tx, "exchange_difference", payment, realizedExchangeDifference(payment, invoice));
+  }
+
+  private async paymentCurrency(tx: Transaction, invoiceId: number, date: string) {
+    const [invoice] = await tx.select().from(invoices).where(and(eq(invoices.id, invoiceId), inOrganization(invoices)));
+    const currency = invoice?.currency ?? await this.loadBaseCurrency(tx);
+    return { currency, exchangeRate: await this.findExchangeRate(tx, currency, date) };
+  }
+
+  // Ledger methods
+  async getAccounts(): Promise<Account[]> {
+    return db.select().from(accounts).where(inOrganization(accounts)).orderBy(asc(accounts.code));
+  }
+
+  async getAccount(id: number): Promise<Account | undefined> {
+    const [account] = await db.select().from(accounts).where(and(eq(accounts.id, id), inOrganization(accounts)));
+    return account;
+  }
+
+  async createAccount(account: InsertAccount): Promise<Account> {
+    return db.transaction(async (tx) => {
+      const [newAccount] = await tx.insert(accounts).values({ ...account, organizationId: getOrganizationId() }).returning();
+      await this.audit(tx, "create", "account", `${newAccount.code} ${newAccount.name}`, undefined, newAccount);
+      return newAccount;
+    });
+  }
+
+  async getJournalEntries(userId?: number): Promise<JournalEntry[]> {
+    if (userId) {
+      return db.select()
+        .from(journalEntries)
+        .where(and(eq(journalEntries.userId, userId), inOrganization(journalEntries)))
+        .orderBy(desc(journalEntries.date), desc(journalEntries.id));
+    }
+    return db.select()
+      .from(journalEntries)
+      .where(inOrganization(journalEntries))
+      .orderBy(desc(journalEntries.date), desc(journalEntries.id));
+  }
+
+  async getJournalEntry(id: number): Promise<JournalEntryWithLines | undefined> {
+    const [entry] = await db.select().from(journalEntries).where(and(eq(journalEntries.id, id), inOrganization(journalEntries)));
+    if (!entry) return undefined;
+    
+    const lines = await db.select()
+      .from(journalLines)
+      .where(eq(journalLines.journalEntryId, id))
+      .orderBy(asc(journalLines.id));
+    return { ...entry, lines };
+  }
+
+  // Entries posted by hand. Those posted for documents follow from the
+  // documents, whose changes are recorded instead.
+  async createJournalEntry(entry: InsertJournalEntry, lines: JournalLineInput[]): Promise<JournalEntryWithLines> {
+    return db.transaction(async (tx) => {
+      const newEntry = await this.insertJournalEntry(tx, entry, lines);
+      await this.audit(tx, "create", "journal_entry", newEntry.description, undefined, newEntry);
+      return newEntry;
+    });
+  }
+
+  async getAccountBalances(userId?: number, range: { from?: string; to?: string } = {}): Promise<AccountBalance[]> {
+    const conditions = [inOrganization(journalEntries)];
+    if (userId) conditions.push(eq(journalEntries.userId, userId));
+    if (range.from) conditions.push(gte(journalEntries.date, range.from));
+    if (range.to) conditions.push(lte(journalEntries.date, range.to));
+    
+    const rows = await db.select({
+      accountId: accounts.id,
+      code: accounts.code,
+      name: accounts.name,
+      type: accounts.type,
+      debit: sql<string>`coalesce(sum(${journalLines.debit}), 0)`,
+      credit: sql<string>`coalesce(sum(${journalLines.credit}), 0)`,
+    })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+      .innerJoin(accounts, eq(journalLines.accountId, accounts.id))
+      .where(and(...conditions))
+      .groupBy(accounts.id)
+      .orderBy(asc(accounts.code));
+    
+    return rows.map(row => {
+      const debit = Number(row.debit);
+      const credit = Number(row.credit);
+      const debitNormal = row.type === "asset" || row.type === "expense";
+      return {
+        ...row,
+        debit,
+        credit,
+        balance: Math.round((debitNormal ? debit - credit : credit - debit) * 100) / 100,
+      };
+    });
+  }
+
+  // Post every existing invoice, payment, refund, credit note, expense, bill
+  // and bill payment of the organization that is not yet fully reflected in
+  // the ledger
+  async backfillLedger(): Promise<void> {
+    const allInvoices = await db.select().from(invoices).where(inOrganization(invoices));
+    const allPayments = await db.select().from(payments).where(inOrganization(payments));
+    const allCreditNotes = await db.select().from(creditNotes).where(inOrganization(creditNotes));
+    const allExpenses = await db.select().from(expenses).where(inOrganization(expenses));
+    const allBills = await db.select().from(bills).where(inOrganization(bills));
+    const allBillPayments = await db.select().from(billPayments).where(inOrganization(billPayments));
+    
+    await db.transaction(async (tx) => {
+      for (const invoice of allInvoices) {
+        await this.postDocument(tx, "invoice", invoice, postedInvoiceAmount(invoice));
+      }
+      for (const payment of allPayments) {
+        const invoice = allInvoices.find(item => item.id === payment.invoiceId);
+        await this.postDocument(tx, payment.type, payment, postedPaymentAmount(payment, invoice));
+        await this.postDocument(tx, "exchange_difference", payment, realizedExchangeDifference(payment, invoice));
+      }
+      for (const creditNote of allCreditNotes) {
+        const invoice = allInvoices.find(item => item.id === creditNote.invoiceId);
+        await this.postDocument(tx, "credit_note", creditNote, postedCreditNoteAmount(creditNote, invoice));
+      }
+      for (const expense of allExpenses) {
+        await this.postDocument(tx, "expense", expense, getExpenseTotal(expense));
+      }
+      for (const bill of allBills) {
+        await this.postDocument(tx, "bill", bill, Number(bill.amount));
+      }
+      for (const payment of allBillPayments) {
+        await this.postDocument(tx, "bill_payment", payment, Number(payment.amount));
+      }
+    });
+  }
+
+  private async insertJournalEntry(
+    tx: Transaction,
+    entry: InsertJournalEntry,
+    lines: JournalLineInput[]
+  ): Promise<JournalEntryWithLines> {
+    if (lines.length < 2) {
+      throw new UnbalancedEntryError("A journal entry needs at least two lines");
+    }
+    
+    let totalDebit = 0;
+    let totalCredit = 0;
+    for (const line of lines) {
+      const debit = toCents(line.debit ?? 0);
+      const credit = toCents(line.credit ?? 0);
+      if (debit < 0 || credit < 0 || (debit > 0) === (credit > 0)) {
+        throw new UnbalancedEntryError("Each journal line must have either a debit or a credit");
+      }
+      totalDebit += debit;
+      totalCredit += credit;
+    }
+    
+    if (totalDebit !== totalCredit) {
+      throw new UnbalancedEntryError(
+        `Journal entry does not balance: debits ${(totalDebit / 100).toFixed(2)}, credits ${(totalCredit / 100).toFixed(2)}`
+      );
+    }
+    
+    const [newEntry] = await tx.insert(journalEntries)
+      .values({ ...entry, organizationId: getOrganizationId() })
+      .returning();
+    const newLines = await tx.insert(journalLines)
+      .values(lines.map(line => ({ ...line, journalEntryId: newEntry.id })))
+      .returning();
+    
+    return { ...newEntry, lines: newLines };
+  }
+
+  private async getSystemAccountId(tx: Transaction, key: SystemAccountKey): Promise<number> {
+    const { code, name, type } = SYSTEM_ACCOUNTS[key];
+    const [existing] = await tx.select().from(accounts).where(and(eq(accounts.code, code), inOrganization(accounts)));
+    if (existing) return existing.id;
+    
+    const [created] = await tx.insert(accounts)
+      .values({ code, name, type, isSystem: true, organizationId: getOrganizationId() })
+      .returning();
+    return created.id;
+  }
+
+  // Bring a document's ledger postings in line with its current amount.
+  // Changes are posted as adjusting entries rather than edits, so the
+  // history of every document stays visible in the journal.
+  private async postDocument(
+    tx: Transaction,
+    sourceType: PostedDocumentType,
+    document: { id: number; date: string; userId: number },
+    amount: number
+  ) {
+    const rule = POSTING_RULES[sourceType];
+    const debitAccountId = await this.getSystemAccountId(tx, rule.debit);
+    const creditAccountId = await this.getSystemAccountId(tx, rule.credit);
+    
+    const [posted] = await tx.select({
+      net: sql<string>`coalesce(sum(${journalLines.debit} - ${journalLines.credit}), 0)`,
+    })
+      .from(journalLines)
+      .innerJoin(journalEntries, eq(journalLines.journalEntryId, journalEntries.id))
+      .where(and(
+        eq(journalEntries.sourceType, sourceType),
+        eq(journalEntries.sourceId, document.id),
+        eq(journalLines.accountId, debitAccountId)
+      ));
+    
+    const difference = toCents(amount) - toCents(posted?.net ?? 0);
+    if (difference === 0) return;
+    
+    const value = (Math.abs(difference) / 100).toFixed(2);
+    const label = POSTING_LABELS[sourceType];
+    const [debitId, creditId] = difference > 0
+      ? [debitAccountId, creditAccountId]
+      : [creditAccountId, debitAccountId];
+    
+    await this.insertJournalEntry(tx, {
+      date: document.date,
+      description: toCents(posted?.net ?? 0) === 0
+        ? `${label} #${document.id}`
+        : `${label} #${document.id} adjustment`,
+      sourceType,
+      sourceId: document.id,
+      userId: document.userId,
+    }, [
+      { accountId: debitId, debit: value, credit: "0" },
+      { accountId: creditId, debit: "0", credit: value },
+    ]);
+  }
+
+  // Report methods
+  async getReports(userId?: number): Promise<Report[]> {
+    if (userId) {
+      return db.select().from(reports).where(and(eq(reports.userId, userId), inOrganization(reports)));
+    }
+    return db.select().from(reports).where(inOrganization(reports));
+  }
+
+  async getReport(id: number): Promise<Report | undefined> {
+    const [report] = await db.select().from(reports).where(and(eq(reports.id, id), inOrganization(reports)));
+    return report;
+  }
+
+  async createReport(report: InsertReport, data?: FinancialStatement): Promise<Report> {
+    return db.transaction(async (tx) => {
+      const [newReport] = await tx.insert(reports).values({ ...report, data, organizationId: getOrganizationId() }).returning();
+      await this.audit(tx, "create", "report", newReport.title, undefined, { ...newReport, data: undefined });
+      return newReport;
+    });
+  }
+
+  // Audit log methods, latest first. Changes to one record are found by
+  // its type and id.
+  async getAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogEntryWithUser[]> {
+    const conditions = [inOrganization(auditLog)];
+    if (filters.entityType) {
+      conditions.push(eq(auditLog.entityType, filters.entityType));
+    }
+    if (filters.entityId !== undefined) {
+      conditions.push(eq(auditLog.entityId, filters.entityId));
+    }
+    if (filters.userId !== undefined) {
+      conditions.push(eq(auditLog.userId, filters.userId));
+    }
+    if (filters.from) {
+      conditions.push(sql`${auditLog.createdAt}::date >= ${filters.from}`);
+    }
+    if (filters.to) {
+      conditions.push(sql`${auditLog.createdAt}::date <= ${filters.to}`);
+    }
+    
+    const rows = await db.select({ entry: auditLog, userName: users.name })
+      .from(auditLog)
+      .leftJoin(users, eq(auditLog.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(AUDIT_LOG_LIMIT);
+    return rows.map(({ entry, userName }) => ({ ...entry, userName }));
+  }
+
+  // Entries can only be added. The database refuses to change or remove
+  // them, whatever connects to it.
+  async protectAuditLog(): Promise<void> {
+    await db.execute(sql`
+      create or replace function audit_log_append_only() returns trigger as $$
+      begin
+        raise exception 'The audit log is append-only';
+      end;
+      $$ language plpgsql
+    `);
+    await db.execute(sql`drop trigger if exists audit_log_append_only on audit_log`);
+    await db.execute(sql`
+      create trigger audit_log_append_only
+      before update or delete or truncate on audit_log
+      for each statement execute function audit_log_append_only()
+    `);
+  }
+
+  // Records a change in the same transaction as the change itself, against
+  // the user whose request made it. Updates that changed nothing are left out.
+  private async audit(
+    tx: Transaction,
+    action: AuditAction,
+    entityType: AuditEntityType,
+    entityLabel: string,
+    before?: AuditedRecord,
+    after?: AuditedRecord
+  ) {
+    const changes = diffRecords(before, after);
+    if (action === "update" && Object.keys(changes).length === 0) return;
+    
+    const record = after ?? before;
+    const { userId, ipAddress } = getAuditActor();
+    await tx.insert(auditLog).values({
+      entityType,
+      entityId: typeof record?.id === "number" ? record.id : null,
+      entityLabel,
+      action,
+      changes,
+      userId,
+      ipAddress,
+      organizationId: getOrganizationId(),
+    });
+  }
+
+  // User accounts are shared between organizations, so a change to one is
+  // logged in every organization the user belongs to
+  private async auditUser(
+    tx: Transaction,
+    userId: number,
+    userName: string,
+    before: AuditedRecord,
+    after: AuditedRecord
+  ) {
+    const memberships = await tx.select({ organizationId: organizationMemberships.organizationId })
+      .from(organizationMemberships)
+      .where(eq(organizationMemberships.userId, userId));
+    for (const { organizationId } of memberships) {
+      await runInOrganization(organizationId, () => this.audit(tx, "update", "user", userName, before, after));
+    }
   }
 
-  async createReport(report: InsertReport): Promise<Report> {
-    const [newReport] = await db.insert(reports).values(report).returning();
-    return newReport;
+  private async getUserName(tx: Transaction, userId: number): Promise<string> {
+    const [user] = await tx.select({ name: users.name }).from(users).where(eq(users.id, userId));
+    return user?.name ?? `User ${userId}`;
   }
 }
 
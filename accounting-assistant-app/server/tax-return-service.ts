@@ -0,0 +1,192 @@
+import { storage } from "./storage";
+import { isLocked } from "./reconciliation-service";
+import {
+  Invoice,
+  TaxBreakdownLine,
+  TaxReturnDocument,
+  TaxReturnReport,
+  calculateInvoiceTaxes,
+  getInvoiceNumber,
+  toBaseAmount,
+} from "@shared/schema";
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// The end of the latest filed tax period. Documents dated up to it can no
+// longer be changed.
+export async function getTaxLockedThrough(): Promise<string | null> {
+  const [latest] = await storage.getTaxReturns();
+  return latest?.periodEnd ?? null;
+}
+
+// Why a document with one of these dates cannot be changed, or null when
+// none of them falls in a filed tax period
+export async function checkTaxPeriod(...dates: (string | null | undefined)[]): Promise<string | null> {
+  const lockedThrough = await getTaxLockedThrough();
+  const locked = dates.find(date => date && isLocked(date, lockedThrough));
+  return locked
+    ? `A tax return has been filed through ${lockedThrough}, so documents dated ${locked} can no longer be changed`
+    : null;
+}
+
+// Taxes are totalled per rate, the way calculateInvoiceTaxes does per document
+const addTaxes = (totals: Map<string, TaxBreakdownLine>, breakdown: TaxBreakdownLine[]) => {
+  for (const tax of breakdown) {
+    const key = `${tax.taxRateId ?? "custom"}:${tax.rate}`;
+    const existing = totals.get(key);
+    if (existing) {
+      existing.taxableAmount = round(existing.taxableAmount + tax.taxableAmount);
+      existing.amount = round(existing.amount + tax.amount);
+    } else {
+      totals.set(key, { ...tax });
+    }
+  }
+};
+
+// Part of a breakdown converted to the base currency: a credit note takes
+// its share of the invoice's taxes, and voids and credits count negative
+const scaleTaxes = (breakdown: TaxBreakdownLine[], factor: number, rate: number | string = 1): TaxBreakdownLine[] => {
+  return breakdown.map(tax => ({
+    ...tax,
+    taxableAmount: toBaseAmount(tax.taxableAmount * factor, rate),
+    amount: toBaseAmount(tax.amount * factor, rate),
+  }));
+};
+
+const sumTaxes = (breakdown: TaxBreakdownLine[]) => round(breakdown.reduce((sum, tax) => sum + tax.amount, 0));
+
+const sortTaxes = (totals: Map<string, TaxBreakdownLine>) => {
+  return Array.from(totals.values()).sort((a, b) => a.name.localeCompare(b.name) || a.rate - b.rate);
+};
+
+const sortDocuments = (documents: TaxReturnDocument[]) => {
+  return documents.sort((a, b) => a.date.localeCompare(b.date) || a.reference.localeCompare(b.reference));
+};
+
+// Tax return for a period, on the accrual basis: output tax on invoices
+// dated in the period less credit notes and voids dated in it, and input
+// tax on bills and expenses dated in it. Invoices use the breakdown stored
+// with them and are converted at their own rate; credit notes at the rate
+// of their invoice.
+export async function buildTaxReturn(
+  userId: number | undefined,
+  periodStart: string,
+  periodEnd: string
+): Promise<TaxReturnReport> {
+  const taxes = await storage.getTaxTable();
+  const inPeriod = (date: string | null) => date !== null && date >= periodStart && date <= periodEnd;
+  const outputTax = new Map<string, TaxBreakdownLine>();
+  const inputTax = new Map<string, TaxBreakdownLine>();
+  const sales: TaxReturnDocument[] = [];
+  const purchases: TaxReturnDocument[] = [];
+
+  // Invoices saved before taxes were broken down get one from their lines
+  const breakdowns = new Map<number, TaxBreakdownLine[]>();
+  const getBreakdown = async (invoice: Invoice) => {
+    if (!breakdowns.has(invoice.id)) {
+      breakdowns.set(invoice.id, invoice.taxBreakdown.length > 0
+        ? invoice.taxBreakdown
+        : calculateInvoiceTaxes(await storage.getInvoiceLineItems(invoice.id), taxes, invoice.taxInclusive).taxBreakdown);
+    }
+    return breakdowns.get(invoice.id)!;
+  };
+
+  const addSale = (type: TaxReturnDocument["type"], id: number, reference: string, invoice: Invoice, date: string, amount: number, breakdown: TaxBreakdownLine[]) => {
+    addTaxes(outputTax, breakdown);
+    const taxAmount = sumTaxes(breakdown);
+    sales.push({
+      type,
+      id,
+      reference,
+      partyName: invoice.clientName,
+      date,
+      taxableAmount: round(toBaseAmount(amount, invoice.exchangeRate) - taxAmount),
+      taxAmount,
+    });
+  };
+
+  const invoices = await storage.getInvoices(userId);
+  for (const invoice of invoices) {
+    // Invoices voided before the date they were voided on was recorded
+    // count as voided the day they were issued
+    const voidedAt = invoice.status === "void" ? invoice.voidedAt ?? invoice.date : null;
+    const issued = inPeriod(invoice.date);
+    const voided = inPeriod(voidedAt);
+    if (issued === voided) continue;
+
+    const sign = issued ? 1 : -1;
+    const breakdown = scaleTaxes(await getBreakdown(invoice), sign, invoice.exchangeRate);
+    addSale(issued ? "invoice" : "void", invoice.id, getInvoiceNumber(invoice), invoice, issued ? invoice.date : voidedAt!, sign * Number(invoice.amount), breakdown);
+  }
+
+  const creditNotes = (await storage.getCreditNotes(userId)).filter(creditNote => inPeriod(creditNote.date));
+  for (const creditNote of creditNotes) {
+    const invoice = invoices.find(item => item.id === creditNote.invoiceId) ?? await storage.getInvoice(creditNote.invoiceId);
+    if (!invoice || Number(invoice.amount) === 0) continue;
+
+    const share = Number(creditNote.amount) / Number(invoice.amount);
+    const breakdown = scaleTaxes(await getBreakdown(invoice), -share, invoice.exchangeRate);
+    addSale("credit_note", creditNote.id, creditNote.number, invoice, creditNote.date, -Number(creditNote.amount), breakdown);
+  }
+
+  const bills = (await storage.getBills(userId)).filter(bill => inPeriod(bill.date));
+  for (const bill of bills) {
+    const breakdown = calculateInvoiceTaxes(await storage.getBillLineItems(bill.id)).taxBreakdown;
+    addTaxes(inputTax, breakdown);
+    const taxAmount = sumTaxes(breakdown);
+    purchases.push({
+      type: "bill",
+      id: bill.id,
+      reference: bill.number,
+      partyName: bill.vendorName,
+      date: bill.date,
+      taxableAmount: round(Number(bill.amount) - taxAmount),
+      taxAmount,
+    });
+  }
+
+  // Expenses record the tax paid rather than a rate, so the rate is worked
+  // back out of the amounts
+  const expenses = (await storage.getExpenses(userId)).filter(expense => inPeriod(expense.date));
+  for (const expense of expenses) {
+    const amount = Number(expense.amount);
+    const taxAmount = Number(expense.taxAmount);
+    if (taxAmount !== 0) {
+      addTaxes(inputTax, [{
+        taxRateId: null,
+        name: "Tax",
+        rate: amount ? round(taxAmount / amount * 100) : 0,
+        kind: "standard",
+        taxableAmount: amount,
+        amount: taxAmount,
+      }]);
+    }
+    purchases.push({
+      type: "expense",
+      id: expense.id,
+      reference: expense.reference || expense.description,
+      partyName: expense.vendorName,
+      date: expense.date,
+      taxableAmount: amount,
+      taxAmount,
+    });
+  }
+
+  const outputLines = sortTaxes(outputTax);
+  const inputLines = sortTaxes(inputTax);
+  const totalOutputTax = sumTaxes(outputLines);
+  const totalInputTax = sumTaxes(inputLines);
+
+  return {
+    periodStart,
+    periodEnd,
+    currency: await storage.getBaseCurrency(),
+    outputTax: outputLines,
+    inputTax: inputLines,
+    totalOutputTax,
+    totalInputTax,
+    netTax: round(totalOutputTax - totalInputTax),
+    sales: sortDocuments(sales),
+    purchases: sortDocuments(purchases),
+  };
+}
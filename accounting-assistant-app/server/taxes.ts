@@ -0,0 +1,58 @@
+import { InsertClient, InsertTaxGroup, InsertTaxRate, InvoiceLineItemInput, TaxTable } from "@shared/schema";
+
+// Check a tax rate against the others before saving it. Returns what is
+// wrong, or null when the rate can be saved.
+export function validateTaxRate(rate: InsertTaxRate, taxes: TaxTable, id?: number): string | null {
+  const name = rate.name.trim().toLowerCase();
+  if (taxes.rates.some(other => other.id !== id && other.name.toLowerCase() === name)) {
+    return `A tax rate named ${rate.name} already exists`;
+  }
+  if (rate.kind !== "standard" && Number(rate.rate) !== 0) {
+    return "Exempt and reverse-charge rates charge no tax, so their rate must be 0";
+  }
+  return null;
+}
+
+export function validateTaxGroup(group: InsertTaxGroup, taxes: TaxTable, id?: number): string | null {
+  const name = group.name.trim().toLowerCase();
+  if (taxes.groups.some(other => other.id !== id && other.name.toLowerCase() === name)) {
+    return `A tax group named ${group.name} already exists`;
+  }
+  if (new Set(group.taxRateIds).size !== group.taxRateIds.length) {
+    return "A tax rate can only appear once in a group";
+  }
+  if (group.taxRateIds.some(rateId => !taxes.rates.some(rate => rate.id === rateId))) {
+    return "The group refers to a tax rate that does not exist";
+  }
+  return null;
+}
+
+// A line is taxed by at most one rate or group, and it must exist
+export function validateLineItemTaxes(lineItems: InvoiceLineItemInput[], taxes: TaxTable): string | null {
+  for (const item of lineItems) {
+    if (item.taxRateId && item.taxGroupId) {
+      return `Choose either a tax rate or a tax group for "${item.description}"`;
+    }
+    if (item.taxRateId && !taxes.rates.some(rate => rate.id === item.taxRateId)) {
+      return `The tax rate of "${item.description}" does not exist`;
+    }
+    if (item.taxGroupId && !taxes.groups.some(group => group.id === item.taxGroupId)) {
+      return `The tax group of "${item.description}" does not exist`;
+    }
+  }
+  return null;
+}
+
+// A client's default tax is checked like a line's
+export function validateClientTax(client: Pick<InsertClient, "taxRateId" | "taxGroupId">, taxes: TaxTable): string | null {
+  if (client.taxRateId && client.taxGroupId) {
+    return "Choose either a tax rate or a tax group as the default tax";
+  }
+  if (client.taxRateId && !taxes.rates.some(rate => rate.id === client.taxRateId)) {
+    return "The default tax rate does not exist";
+  }
+  if (client.taxGroupId && !taxes.groups.some(group => group.id === client.taxGroupId)) {
+    return "The default tax group does not exist";
+  }
+  return null;
+}
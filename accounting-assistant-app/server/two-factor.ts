@@ -0,0 +1,155 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import { storage } from "./storage";
+import { TwoFactorCode, TwoFactorCredential, TwoFactorSetup } from "@shared/schema";
+
+// Name authenticator apps list the account under
+const ISSUER = "Accounting Assistant";
+
+// Time-based one-time passwords as authenticator apps generate them
+// (RFC 6238): six digits, a new one every 30 seconds
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+
+// Codes from one step either side are accepted, for clocks that drift
+const ALLOWED_DRIFT_STEPS = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Wrong codes in a row before codes are refused for a while. Each further
+// run of wrong codes doubles the wait, up to a day.
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+const MAX_LOCKOUT_MINUTES = 24 * 60;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const toBase32 = (bytes: Buffer) => {
+  let bits = "";
+  for (const byte of Array.from(bytes)) {
+    bits += byte.toString(2).padStart(8, "0");
+  }
+  let text = "";
+  for (let i = 0; i < bits.length; i += 5) {
+    text += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, "0"), 2)];
+  }
+  return text;
+};
+
+const fromBase32 = (text: string) => {
+  let bits = "";
+  for (const char of text.replace(/=+$/, "").toUpperCase()) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error("Invalid base32 secret");
+    }
+    bits += value.toString(2).padStart(5, "0");
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+};
+
+const currentStep = (now = Date.now()) => Math.floor(now / 1000 / STEP_SECONDS);
+
+// The code an authenticator app shows for a secret during one time step
+export function generateTotp(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", fromBase32(secret)).update(counter).digest();
+
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const value = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(value % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, "0");
+}
+
+// The time step a code was generated for, or null when it matches none of
+// the steps around now
+export function findTotpStep(secret: string, code: string, now = Date.now()): number | null {
+  const step = currentStep(now);
+  for (let drift = -ALLOWED_DRIFT_STEPS; drift <= ALLOWED_DRIFT_STEPS; drift++) {
+    const expected = Buffer.from(generateTotp(secret, step + drift));
+    const supplied = Buffer.from(code);
+    if (supplied.length === expected.length && timingSafeEqual(supplied, expected)) {
+      return step + drift;
+    }
+  }
+  return null;
+}
+
+// A new secret for the user to add to their authenticator app, as text and
+// as a QR code to scan
+export async function createTwoFactorSetup(email: string): Promise<TwoFactorSetup> {
+  const secret = toBase32(randomBytes(20));
+  const label = encodeURIComponent(`${ISSUER}:${email}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}&digits=${CODE_DIGITS}&period=${STEP_SECONDS}`;
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+  return { secret, otpauthUrl, qrCode };
+}
+
+// Recovery codes are compared without the dash and case they are shown with
+export const hashRecoveryCode = (code: string) => {
+  const normalized = code.replace(/[\s-]/g, "").toLowerCase();
+  return createHash("sha256").update(normalized).digest("hex");
+};
+
+// A set of one-time recovery codes, shown to the user once, with the hashes
+// that are stored
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString("hex");
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// Whether a code was accepted, and until when codes are refused when the
+// user has entered too many wrong ones
+export type TwoFactorVerification = { valid: boolean; lockedUntil: Date | null };
+
+const checkCode = async (credential: TwoFactorCredential, { code, recoveryCode }: TwoFactorCode) => {
+  if (recoveryCode) {
+    return storage.useTwoFactorRecoveryCode(credential.userId, hashRecoveryCode(recoveryCode));
+  }
+
+  const step = code ? findTotpStep(credential.secret, code) : null;
+  return step !== null && storage.useTwoFactorStep(credential.userId, step);
+};
+
+// Checks a code from the user's authenticator app, or uses up one of their
+// recovery codes. Each authenticator code is accepted once. No code is
+// checked while the user is locked out.
+export async function verifyTwoFactor(userId: number, code: TwoFactorCode): Promise<TwoFactorVerification> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  if (!credential) return { valid: false, lockedUntil: null };
+
+  if (credential.lockedUntil && credential.lockedUntil > new Date()) {
+    return { valid: false, lockedUntil: credential.lockedUntil };
+  }
+
+  if (await checkCode(credential, code)) {
+    if (credential.failedAttempts > 0) {
+      await storage.clearTwoFactorFailures(userId);
+    }
+    return { valid: true, lockedUntil: null };
+  }
+
+  const failedAttempts = await storage.recordTwoFactorFailure(userId);
+  if (failedAttempts % MAX_FAILED_ATTEMPTS !== 0) {
+    return { valid: false, lockedUntil: null };
+  }
+
+  const lockouts = failedAttempts / MAX_FAILED_ATTEMPTS;
+  const minutes = Math.min(LOCKOUT_MINUTES * 2 ** (lockouts - 1), MAX_LOCKOUT_MINUTES);
+  const lockedUntil = new Date(Date.now() + minutes * 60 * 1000);
+  await storage.lockTwoFactor(userId, lockedUntil);
+  return { valid: false, lockedUntil };
+}
+
+// What the user is told while codes are refused
+export const describeLockout = (lockedUntil: Date) => {
+  const minutes = Math.ceil((lockedUntil.getTime() - Date.now()) / (60 * 1000));
+  return `Too many wrong codes. Try again in ${minutes === 1 ? "1 minute" : `${minutes} minutes`}.`;
+};
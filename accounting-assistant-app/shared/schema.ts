@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, decimal, date, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, decimal, date, boolean, timestamp, jsonb, unique } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -9,13 +9,257 @@ export const users = pgTable("users", {
   name: text("name").notNull(),
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
+  // Role the user had before organizations were introduced. The role in
+  // each organization is kept on its membership and returned here by the API.
   role: text("role", { enum: ["admin", "accountant"] }).notNull().default("accountant"),
+  activeOrganizationId: integer("active_organization_id"), // Organization whose books the user is working in
 });
 
-export const insertUserSchema = createInsertSchema(users).omit({ id: true });
+export const insertUserSchema = createInsertSchema(users).omit({ id: true, activeOrganizationId: true });
 export type InsertUser = z.infer<typeof insertUserSchema>;
+
+// The parts of their account users change themselves, on the profile page
+export const updateProfileSchema = insertUserSchema.pick({ name: true, email: true }).partial();
 export type User = typeof users.$inferSelect;
 
+// A user's authenticator app, once they have turned on two-factor
+// authentication. Recovery codes are kept hashed and removed as they are
+// used; the last time step used stops a code being entered twice. Wrong
+// codes are counted until a right one is entered, and too many lock the
+// user out for a while, however many times they sign in again.
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique(),
+  secret: text("secret").notNull(), // Base32, as shown to authenticator apps
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().notNull().default([]),
+  lastUsedStep: integer("last_used_step"),
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+
+// Base currency of new organizations when none is configured
+export const DEFAULT_BASE_CURRENCY = "USD";
+
+// Organization model: one company whose books are kept in the application.
+// Business records carry the organization they belong to, and are only read
+// and written within the organization the user is working in.
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  // Currency the organization's books are kept in. Invoices and payments in
+  // other currencies are converted to it at a stored rate.
+  baseCurrency: text("base_currency").notNull().default(DEFAULT_BASE_CURRENCY),
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false), // Members must sign in with an authenticator app
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertOrganizationSchema = createInsertSchema(organizations).omit({ id: true, createdAt: true }).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  baseCurrency: z.string().regex(/^[A-Z]{3}$/, "Use a three-letter currency code").optional(),
+});
+export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
+
+// The base currency is chosen when the organization is created. Amounts
+// already converted to it would be wrong in any other.
+export const updateOrganizationSchema = insertOrganizationSchema.omit({ baseCurrency: true }).partial();
+export type Organization = typeof organizations.$inferSelect;
+
+// Permissions a role can grant. Members without "records:all" only see and
+// change the records they created themselves.
+export const permissionValues = [
+  "records:all",
+  "clients:read",
+  "clients:write",
+  "invoices:read",
+  "invoices:write",
+  "payments:read",
+  "payments:write",
+  "payments:void",
+  "purchases:read",
+  "purchases:write",
+  "banking:read",
+  "banking:write",
+  "ledger:read",
+  "ledger:write",
+  "reports:read",
+  "reports:export",
+  "taxes:file",
+  "settings:manage",
+  "users:manage",
+  "audit:read",
+] as const;
+export type Permission = typeof permissionValues[number];
+
+export const PERMISSIONS: { value: Permission; label: string }[] = [
+  { value: "records:all", label: "See and change records created by other members" },
+  { value: "clients:read", label: "View clients" },
+  { value: "clients:write", label: "Create and edit clients" },
+  { value: "invoices:read", label: "View invoices, estimates and credit notes" },
+  { value: "invoices:write", label: "Create, edit and void invoices, estimates and credit notes" },
+  { value: "payments:read", label: "View payments" },
+  { value: "payments:write", label: "Record and edit payments" },
+  { value: "payments:void", label: "Delete and refund payments" },
+  { value: "purchases:read", label: "View vendors, bills and expenses" },
+  { value: "purchases:write", label: "Create and edit vendors, bills and expenses" },
+  { value: "banking:read", label: "View bank accounts and transactions" },
+  { value: "banking:write", label: "Import, categorize and reconcile bank transactions" },
+  { value: "ledger:read", label: "View the chart of accounts and journal" },
+  { value: "ledger:write", label: "Post journal entries and revaluations" },
+  { value: "reports:read", label: "View reports" },
+  { value: "reports:export", label: "Generate and export reports" },
+  { value: "taxes:file", label: "File and reopen tax returns" },
+  { value: "settings:manage", label: "Manage the organization, chart of accounts, numbering, taxes and exchange rates" },
+  { value: "users:manage", label: "Manage users and roles" },
+  { value: "audit:read", label: "View the audit log" },
+];
+
+export const getPermissionLabel = (permission: Permission): string => {
+  return PERMISSIONS.find(item => item.value === permission)?.label ?? permission;
+};
+
+// Roles every organization has. A member has one of these, or a custom role
+// the organization defined.
+const builtInRoleValues = ["owner", "accountant", "bookkeeper", "viewer"] as const;
+export type BuiltInRole = typeof builtInRoleValues[number];
+
+export const BUILT_IN_ROLES: { value: BuiltInRole; label: string; permissions: Permission[] }[] = [
+  {
+    value: "owner",
+    label: "Owner",
+    permissions: [...permissionValues],
+  },
+  {
+    value: "accountant",
+    label: "Accountant",
+    permissions: [
+      "clients:read", "clients:write",
+      "invoices:read", "invoices:write",
+      "payments:read", "payments:write", "payments:void",
+      "purchases:read", "purchases:write",
+      "banking:read", "banking:write",
+      "ledger:read", "ledger:write",
+      "reports:read", "reports:export",
+    ],
+  },
+  {
+    value: "bookkeeper",
+    label: "Bookkeeper",
+    permissions: [
+      "clients:read", "clients:write",
+      "invoices:read", "invoices:write",
+      "payments:read", "payments:write",
+      "purchases:read", "purchases:write",
+      "banking:read", "banking:write",
+      "ledger:read",
+      "reports:read",
+    ],
+  },
+  {
+    value: "viewer",
+    label: "Viewer",
+    // The audit log is left to owners
+    permissions: [
+      "records:all",
+      ...permissionValues.filter(permission => permission.endsWith(":read") && permission !== "audit:read"),
+    ],
+  },
+];
+
+// A role an organization defines for itself, granting the permissions chosen for it
+export const customRoles = pgTable("custom_roles", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  permissions: jsonb("permissions").$type<Permission[]>().notNull().default([]),
+  organizationId: integer("organization_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("custom_roles_organization_name_unique").on(table.organizationId, table.name),
+]);
+
+export const insertCustomRoleSchema = createInsertSchema(customRoles).omit({ id: true, organizationId: true, createdAt: true }).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  permissions: z.array(z.enum(permissionValues)),
+});
+export type InsertCustomRole = z.infer<typeof insertCustomRoleSchema>;
+export type CustomRole = typeof customRoles.$inferSelect;
+
+// A user's access to an organization, with their role in it. Members with
+// the "custom" role get the permissions of the custom role they point at.
+export const organizationMemberships = pgTable("organization_memberships", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  userId: integer("user_id").notNull(),
+  role: text("role", { enum: [...builtInRoleValues, "custom"] }).notNull().default("accountant"),
+  customRoleId: integer("custom_role_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("organization_memberships_organization_user_unique").on(table.organizationId, table.userId),
+]);
+
+export const insertOrganizationMembershipSchema = createInsertSchema(organizationMemberships).omit({ id: true, createdAt: true });
+export type InsertOrganizationMembership = z.infer<typeof insertOrganizationMembershipSchema>;
+export type OrganizationMembership = typeof organizationMemberships.$inferSelect;
+export type MemberRole = OrganizationMembership["role"];
+
+// The role given to a member, as sent by the users page
+export const memberRoleSchema = z.object({
+  role: z.enum([...builtInRoleValues, "custom"]).default("accountant"),
+  customRoleId: z.number().int().positive().nullable().default(null),
+}).refine(data => (data.role === "custom") === (data.customRoleId !== null), {
+  message: "Choose a custom role",
+  path: ["customRoleId"],
+});
+export type MemberRoleData = z.infer<typeof memberRoleSchema>;
+
+// An organization as listed for one of its members
+export type OrganizationWithRole = Organization & { role: MemberRole; customRoleId: number | null };
+
+// A member of the organization, with their role in it and whether they
+// sign in with two-factor authentication
+export type OrganizationMember = Omit<User, "role"> & { role: MemberRole; customRoleId: number | null; twoFactorEnabled: boolean };
+
+// The signed-in user: their role in the organization they are working in,
+// its name and the permissions it grants. Members of an organization that
+// requires two-factor authentication can do nothing there until they have
+// turned it on.
+export type AuthUser = OrganizationMember & { roleName: string; permissions: Permission[]; twoFactorRequired: boolean };
+
+// An existing account asked to join an organization. The user becomes a
+// member, with the role given here, only once they accept.
+export const organizationInvitations = pgTable("organization_invitations", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull(),
+  userId: integer("user_id").notNull(),
+  role: text("role", { enum: [...builtInRoleValues, "custom"] }).notNull().default("accountant"),
+  customRoleId: integer("custom_role_id"),
+  invitedBy: integer("invited_by").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("organization_invitations_organization_user_unique").on(table.organizationId, table.userId),
+]);
+
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+
+// An invitation as listed on the users page, with who was invited
+export type PendingInvitation = OrganizationInvitation & { name: string; email: string };
+
+// An invitation as listed for the invited user, with the organization they
+// would join, who asked them and the name of the role they would have
+export type InvitationWithOrganization = OrganizationInvitation & { organizationName: string; invitedByName: string; roleName: string };
+
+export const getBuiltInRole = (role: MemberRole) => BUILT_IN_ROLES.find(item => item.value === role);
+
+// The name of a member's role, looked up among the organization's custom roles when it is one
+export const getMemberRoleLabel = (member: { role: MemberRole; customRoleId: number | null }, roles: CustomRole[] = []): string => {
+  if (member.role === "custom") {
+    return roles.find(role => role.id === member.customRoleId)?.name ?? "Custom role";
+  }
+  return getBuiltInRole(member.role)?.label ?? member.role;
+};
+
 // Client model
 export const clients = pgTable("clients", {
   id: serial("id").primaryKey(),
@@ -31,42 +275,1077 @@ export const clients = pgTable("clients", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
   currency: text("currency").default("USD"),
   taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).default("0"),
+  taxRateId: integer("tax_rate_id"), // Default tax of new lines; taxRate applies when neither is set
+  taxGroupId: integer("tax_group_id"),
+  paymentTerms: text("payment_terms", { enum: ["due_on_receipt", "net_15", "net_30", "net_60", "end_of_month"] }).notNull().default("net_30"),
+  reminderDays: integer("reminder_days").array(), // Days after the due date to send reminders; null uses DEFAULT_REMINDER_DAYS
   userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
 });
 
-export const insertClientSchema = createInsertSchema(clients).omit({ id: true, createdAt: true });
+export const insertClientSchema = createInsertSchema(clients).omit({ id: true, createdAt: true, organizationId: true });
 export type InsertClient = z.infer<typeof insertClientSchema>;
 export type Client = typeof clients.$inferSelect;
+// Overpayments on the client's invoices, held as credit for the client, in
+// the same currency as the client's statement
+export type ClientWithCreditBalance = Client & { creditBalance: number };
+export type PaymentTerms = Client["paymentTerms"];
+
+export const PAYMENT_TERMS: { value: PaymentTerms; label: string }[] = [
+  { value: "due_on_receipt", label: "Due on receipt" },
+  { value: "net_15", label: "Net 15" },
+  { value: "net_30", label: "Net 30" },
+  { value: "net_60", label: "Net 60" },
+  { value: "end_of_month", label: "End of month" },
+];
+
+// Due date (YYYY-MM-DD) of an invoice issued on the given date under the given terms
+export const calculateDueDate = (issueDate: string, terms: PaymentTerms): string => {
+  const [year, month, day] = issueDate.slice(0, 10).split("-").map(Number);
+  const due = new Date(Date.UTC(year, month - 1, day));
+
+  switch (terms) {
+    case "net_15":
+      due.setUTCDate(due.getUTCDate() + 15);
+      break;
+    case "net_30":
+      due.setUTCDate(due.getUTCDate() + 30);
+      break;
+    case "net_60":
+      due.setUTCDate(due.getUTCDate() + 60);
+      break;
+    case "end_of_month":
+      due.setUTCMonth(due.getUTCMonth() + 1, 0);
+      break;
+  }
+
+  return due.toISOString().slice(0, 10);
+};
+
+// Exchange rate of a currency against a base currency on a date, in units
+// of the currency per one unit of the base currency (as the ECB quotes
+// them). Documents use the latest rate on or before their date.
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  baseCurrency: text("base_currency").notNull(),
+  currency: text("currency").notNull(),
+  date: date("date").notNull(),
+  rate: decimal("rate", { precision: 16, scale: 8 }).notNull(),
+  source: text("source", { enum: ["csv", "ecb"] }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  organizationId: integer("organization_id"),
+}, (table) => ({
+  currencyDate: unique().on(table.organizationId, table.baseCurrency, table.currency, table.date),
+}));
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates).omit({ id: true, createdAt: true, organizationId: true });
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type ExchangeRateSource = ExchangeRate["source"];
 
-// Invoice model
+// Outcome of loading a rates file
+export interface ExchangeRateImportResult {
+  imported: number;
+  currencies: string[];
+  from: string | null;
+  to: string | null;
+}
+
+// Largest rates file that can be imported
+export const MAX_EXCHANGE_RATE_BYTES = 5 * 1024 * 1024;
+
+// The base currency and the latest loaded rate of each other currency
+export interface ExchangeRateSummary {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+}
+
+// An amount in a document's currency converted to the base currency at the
+// rate stored with the document
+export const toBaseAmount = (amount: number | string, exchangeRate: number | string): number => {
+  return Math.round((Number(amount) / Number(exchangeRate)) * 100) / 100;
+};
+
+// Invoice model. The exchange rate is the rate of the invoice currency on
+// the invoice date, looked up when the invoice is saved. The tax breakdown
+// is worked out from the line items whenever they change.
 export const invoices = pgTable("invoices", {
   id: serial("id").primaryKey(),
+  number: text("number"), // Assigned from the invoice sequence on creation
   title: text("title").notNull(),
   clientName: text("client_name").notNull(),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default(DEFAULT_BASE_CURRENCY),
+  exchangeRate: decimal("exchange_rate", { precision: 16, scale: 8 }).notNull().default("1"),
+  taxInclusive: boolean("tax_inclusive").notNull().default(false), // Line prices include tax
+  taxBreakdown: jsonb("tax_breakdown").$type<TaxBreakdownLine[]>().notNull().default([]),
   date: date("date").notNull(),
-  status: text("status", { enum: ["paid", "pending", "overdue"] }).notNull().default("pending"),
+  dueDate: date("due_date"),
+  status: text("status", { enum: ["paid", "partially_paid", "pending", "overdue", "void"] }).notNull().default("pending"),
+  remindersPaused: boolean("reminders_paused").notNull().default(false),
+  voidedAt: date("voided_at"), // Void invoices are kept for the record but no longer owed
   userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
   clientId: integer("client_id"), // Add client reference
-});
+  recurringInvoiceId: integer("recurring_invoice_id"), // Template the invoice was generated from
+  estimateId: integer("estimate_id").unique(), // Estimate the invoice was converted from
+}, (table) => [
+  unique("invoices_organization_number_unique").on(table.organizationId, table.number),
+]);
 
-export const insertInvoiceSchema = createInsertSchema(invoices).omit({ id: true });
-export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export const insertInvoiceSchema = createInsertSchema(invoices)
+  .omit({
+    id: true,
+    number: true,
+    exchangeRate: true,
+    taxBreakdown: true,
+    voidedAt: true,
+    estimateId: true,
+    recurringInvoiceId: true,
+    organizationId: true,
+  })
+  .extend({ currency: z.string().regex(/^[A-Z]{3}$/, "Use a three-letter currency code").optional() });
+// Only the server links an invoice to the estimate or recurring template it
+// was issued from
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema> & Partial<Pick<Invoice, "estimateId" | "recurringInvoiceId">>;
 export type Invoice = typeof invoices.$inferSelect;
 
-// Payment model
+// Invoices created before numbering was introduced are shown by their ID
+export const getInvoiceNumber = (invoice: Pick<Invoice, "id" | "number">): string => {
+  return invoice.number ?? `#${invoice.id}`;
+};
+
+// What has been settled on an invoice and what is still owed, as returned
+// with every invoice by the API
+export interface InvoiceAmounts {
+  amountPaid: number;
+  amountCredited: number;
+  amountDue: number;
+  overpaid: number; // Received beyond the amount, held as client credit
+}
+
+export type InvoiceWithAmounts = Invoice & InvoiceAmounts;
+
+export const calculateInvoiceAmounts = (
+  invoice: Pick<Invoice, "amount" | "status">,
+  amountPaid: number,
+  amountCredited: number
+): InvoiceAmounts => {
+  const owed = invoice.status === "void" ? 0 : Math.round(Number(invoice.amount) * 100);
+  const settled = Math.round(amountPaid * 100) + Math.round(amountCredited * 100);
+
+  return {
+    amountPaid,
+    amountCredited,
+    amountDue: Math.max(0, owed - settled) / 100,
+    overpaid: Math.max(0, settled - owed) / 100,
+  };
+};
+
+// Invoices without a due date are due on their issue date
+export const getInvoiceDueDate = (invoice: Pick<Invoice, "date" | "dueDate">): string => {
+  return invoice.dueDate ?? invoice.date;
+};
+
+// Payment reminder log. The unique key on (invoice, days after due)
+// guarantees each scheduled reminder goes out at most once.
+export const invoiceReminders = pgTable("invoice_reminders", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull(),
+  daysAfterDue: integer("days_after_due").notNull(),
+  recipient: text("recipient").notNull(),
+  sentAt: timestamp("sent_at").notNull().defaultNow(),
+}, (table) => [
+  unique("invoice_reminders_invoice_days_unique").on(table.invoiceId, table.daysAfterDue),
+]);
+
+export const insertInvoiceReminderSchema = createInsertSchema(invoiceReminders).omit({ id: true, sentAt: true });
+export type InsertInvoiceReminder = z.infer<typeof insertInvoiceReminderSchema>;
+export type InvoiceReminder = typeof invoiceReminders.$inferSelect;
+
+export const DEFAULT_REMINDER_DAYS = [3, 7, 14];
+
+// Numbering pattern of each document type. {YYYY} and {YY} are replaced by
+// the issue year and {NNNN} by the counter, zero-padded to the number of Ns.
+export const documentSequences = pgTable("document_sequences", {
+  id: serial("id").primaryKey(),
+  documentType: text("document_type", { enum: ["invoice", "credit_note", "estimate"] }).notNull(),
+  pattern: text("pattern").notNull(),
+  resetYearly: boolean("reset_yearly").notNull().default(true),
+  organizationId: integer("organization_id"),
+}, (table) => [
+  unique("document_sequences_organization_type_unique").on(table.organizationId, table.documentType),
+]);
+
+// Without the year in the number, restarting the counter every year would
+// hand out the numbers of earlier years again
+export const hasYearToken = (pattern: string) => /\{YY(YY)?\}/.test(pattern);
+
+const documentSequenceSchema = createInsertSchema(documentSequences).omit({ id: true, organizationId: true }).extend({
+  pattern: z.string().regex(/\{N+\}/, "The pattern must contain a counter such as {NNNN}"),
+});
+
+export const documentTypeSchema = documentSequenceSchema.shape.documentType;
+
+export const insertDocumentSequenceSchema = documentSequenceSchema.refine(
+  data => !(data.resetYearly ?? true) || hasYearToken(data.pattern),
+  { message: "Add {YYYY} or {YY} to the pattern to restart the counter every year", path: ["resetYearly"] }
+);
+export type InsertDocumentSequence = z.infer<typeof insertDocumentSequenceSchema>;
+export type DocumentSequence = typeof documentSequences.$inferSelect;
+export type DocumentType = DocumentSequence["documentType"];
+
+export const DEFAULT_NUMBER_PATTERNS: Record<DocumentType, string> = {
+  invoice: "INV-{YYYY}-{NNNN}",
+  credit_note: "CN-{YYYY}-{NNNN}",
+  estimate: "EST-{YYYY}-{NNNN}",
+};
+
+// Last number handed out per document type and period. The period is the
+// issue year for yearly sequences and 0 otherwise. Counters only move
+// forward, so a number is never reused even after its document is deleted.
+export const documentCounters = pgTable("document_counters", {
+  id: serial("id").primaryKey(),
+  documentType: text("document_type").notNull(),
+  period: integer("period").notNull(),
+  lastValue: integer("last_value").notNull(),
+  organizationId: integer("organization_id"),
+}, (table) => [
+  unique("document_counters_organization_type_period_unique").on(table.organizationId, table.documentType, table.period),
+]);
+
+export const formatDocumentNumber = (pattern: string, year: number, value: number): string => {
+  return pattern
+    .replace(/\{YYYY\}/g, String(year))
+    .replace(/\{YY\}/g, String(year).slice(-2))
+    .replace(/\{(N+)\}/g, (_, digits: string) => String(value).padStart(digits.length, "0"));
+};
+
+// Named tax rate. Exempt and reverse-charge rates charge nothing but are
+// recorded with the amount they apply to. A compound rate is charged on the
+// net amount plus the taxes before it in its group. Tax rates are never
+// deleted, since documents refer to them; inactive rates can no longer be
+// chosen.
+export const taxRates = pgTable("tax_rates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  rate: decimal("rate", { precision: 6, scale: 3 }).notNull().default("0"), // Percentage
+  kind: text("kind", { enum: ["standard", "exempt", "reverse_charge"] }).notNull().default("standard"),
+  compound: boolean("compound").notNull().default(false),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  organizationId: integer("organization_id"),
+}, (table) => [
+  unique("tax_rates_organization_name_unique").on(table.organizationId, table.name),
+]);
+
+export const insertTaxRateSchema = createInsertSchema(taxRates).omit({ id: true, createdAt: true, organizationId: true }).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  rate: z.coerce.number().min(0, "The rate cannot be negative").max(100, "The rate cannot be over 100%").transform(String),
+});
+export type InsertTaxRate = z.infer<typeof insertTaxRateSchema>;
+export type TaxRate = typeof taxRates.$inferSelect;
+export type TaxKind = TaxRate["kind"];
+
+export const TAX_KINDS: { value: TaxKind; label: string }[] = [
+  { value: "standard", label: "Standard" },
+  { value: "exempt", label: "Exempt" },
+  { value: "reverse_charge", label: "Reverse charge" },
+];
+
+// Several rates charged together, such as GST and PST, in the order they apply
+export const taxGroups = pgTable("tax_groups", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  taxRateIds: integer("tax_rate_ids").array().notNull(),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  organizationId: integer("organization_id"),
+}, (table) => [
+  unique("tax_groups_organization_name_unique").on(table.organizationId, table.name),
+]);
+
+export const insertTaxGroupSchema = createInsertSchema(taxGroups).omit({ id: true, createdAt: true, organizationId: true }).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  taxRateIds: z.array(z.number().int().positive()).min(2, "A group needs at least two tax rates"),
+});
+export type InsertTaxGroup = z.infer<typeof insertTaxGroupSchema>;
+export type TaxGroup = typeof taxGroups.$inferSelect;
+
+// Every tax rate and group, as the line items of a document are calculated with
+export interface TaxTable {
+  rates: TaxRate[];
+  groups: TaxGroup[];
+}
+
+// One tax on a document: what a rate charged over all of its lines
+export interface TaxBreakdownLine {
+  taxRateId: number | null; // Null for a percentage entered on the line itself
+  name: string;
+  rate: number;
+  kind: TaxKind;
+  taxableAmount: number;
+  amount: number;
+}
+
+// Invoice line item model. A line is taxed by a named rate or group when
+// one is chosen, and otherwise by the percentage in taxRate.
+export const invoiceLineItems = pgTable("invoice_line_items", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull(),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default("1"),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  taxRateId: integer("tax_rate_id"),
+  taxGroupId: integer("tax_group_id"),
+  discount: decimal("discount", { precision: 5, scale: 2 }).notNull().default("0"), // Percentage off the line subtotal
+  position: integer("position").notNull().default(0),
+});
+
+export const insertInvoiceLineItemSchema = createInsertSchema(invoiceLineItems).omit({ id: true });
+export type InsertInvoiceLineItem = z.infer<typeof insertInvoiceLineItemSchema>;
+export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
+
+// A quantity, price or percentage on a line item, sent as text or a number
+// and kept as text. Lines are totalled as soon as they are received, so
+// anything that is not a number of zero or more is refused first.
+const lineItemNumber = (label: string, max?: number) => {
+  return z.union([z.string(), z.number()])
+    .refine(value => String(value).trim() !== "" && Number.isFinite(Number(value)) && Number(value) >= 0, `${label} must be a number of zero or more`)
+    .refine(value => max === undefined || Number(value) <= max, `${label} cannot be over ${max}`)
+    .transform(String);
+};
+
+// Line items as submitted with an invoice (the invoice ID is assigned by the server)
+export const invoiceLineItemInputSchema = insertInvoiceLineItemSchema.omit({ invoiceId: true }).extend({
+  quantity: lineItemNumber("Quantity").optional(),
+  unitPrice: lineItemNumber("Unit price"),
+  taxRate: lineItemNumber("Tax rate", 100).optional(),
+  discount: lineItemNumber("Discount", 100).optional(),
+});
+export type InvoiceLineItemInput = z.infer<typeof invoiceLineItemInputSchema>;
+
+type LineItemAmounts = {
+  quantity?: string | number;
+  unitPrice: string | number;
+  taxRate?: string | number;
+  taxRateId?: number | null;
+  taxGroupId?: number | null;
+  discount?: string | number;
+};
+
+type AppliedTax = Omit<TaxBreakdownLine, "taxableAmount" | "amount"> & { compound: boolean };
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+const toAppliedTax = (rate: TaxRate): AppliedTax => ({
+  taxRateId: rate.id,
+  name: rate.name,
+  rate: Number(rate.rate),
+  kind: rate.kind,
+  compound: rate.compound,
+});
+
+// The taxes charged on a line, in the order they apply. Without the tax
+// table only the line's own percentage can be applied.
+export const getLineItemTaxes = (item: LineItemAmounts, taxes?: TaxTable): AppliedTax[] => {
+  if (taxes && item.taxGroupId) {
+    const group = taxes.groups.find(group => group.id === item.taxGroupId);
+    return (group?.taxRateIds ?? [])
+      .map(id => taxes.rates.find(rate => rate.id === id))
+      .filter((rate): rate is TaxRate => rate !== undefined)
+      .map(toAppliedTax);
+  }
+  if (taxes && item.taxRateId) {
+    const rate = taxes.rates.find(rate => rate.id === item.taxRateId);
+    return rate ? [toAppliedTax(rate)] : [];
+  }
+
+  const rate = Number(item.taxRate || 0);
+  return rate ? [{ taxRateId: null, name: "Tax", rate, kind: "standard", compound: false }] : [];
+};
+
+// Short description of a line's tax for tables and PDFs, e.g. "GST + PST"
+// or "8.25%"
+export const describeLineItemTax = (item: LineItemAmounts, taxes?: TaxTable): string => {
+  if (taxes && item.taxGroupId) {
+    return taxes.groups.find(group => group.id === item.taxGroupId)?.name ?? "-";
+  }
+  const applied = getLineItemTaxes(item, taxes);
+  if (applied.length === 0) return "-";
+  return applied.map(tax => tax.taxRateId === null ? `${tax.rate.toFixed(2)}%` : tax.name).join(" + ");
+};
+
+// Split a line into its net amount and taxes. The line amount is quantity x
+// unit price less discount; when prices include tax it is grossed down so
+// that the net amount plus the taxes comes to exactly that amount.
+export const calculateLineItemTaxes = (
+  item: LineItemAmounts,
+  taxes?: TaxTable,
+  inclusive = false
+): { net: number; taxes: TaxBreakdownLine[]; total: number } => {
+  const amount = Number(item.quantity ?? 1) * Number(item.unitPrice) * (1 - Number(item.discount || 0) / 100);
+  const applied = getLineItemTaxes(item, taxes);
+
+  // Compound taxes are charged on the net amount plus the taxes before them
+  const charge = (net: number) => {
+    let charged = 0;
+    return applied.map(tax => {
+      const taxableAmount = tax.compound ? net + charged : net;
+      const taxAmount = tax.kind === "standard" ? taxableAmount * tax.rate / 100 : 0;
+      charged += taxAmount;
+      return { taxableAmount, amount: taxAmount };
+    });
+  };
+
+  const multiplier = 1 + charge(1).reduce((sum, tax) => sum + tax.amount, 0);
+  const net = roundCents(inclusive ? amount / multiplier : amount);
+  const lines: TaxBreakdownLine[] = charge(net).map((charged, index) => ({
+    taxRateId: applied[index].taxRateId,
+    name: applied[index].name,
+    rate: applied[index].rate,
+    kind: applied[index].kind,
+    taxableAmount: roundCents(charged.taxableAmount),
+    amount: roundCents(charged.amount),
+  }));
+
+  // Rounding is absorbed by the last tax charged
+  const totalTax = roundCents(lines.reduce((sum, line) => sum + line.amount, 0));
+  const last = lines.filter(line => line.amount !== 0).pop();
+  if (inclusive && last) {
+    last.amount = roundCents(last.amount + roundCents(amount) - net - totalTax);
+  }
+
+  return {
+    net,
+    taxes: lines,
+    total: roundCents(net + lines.reduce((sum, line) => sum + line.amount, 0)),
+  };
+};
+
+// Calculate a line total: quantity x unit price, less discount, plus tax
+export const calculateLineItemTotal = (item: LineItemAmounts, taxes?: TaxTable, inclusive = false): number => {
+  return calculateLineItemTaxes(item, taxes, inclusive).total;
+};
+
+// The subtotal, taxes and total of a document's line items. Each tax rate
+// appears once in the breakdown, with its amounts summed over the lines.
+export const calculateInvoiceTaxes = (
+  items: LineItemAmounts[],
+  taxes?: TaxTable,
+  inclusive = false
+): { subtotal: number; taxBreakdown: TaxBreakdownLine[]; total: number } => {
+  const breakdown = new Map<string, TaxBreakdownLine>();
+  let subtotal = 0;
+
+  for (const item of items) {
+    const line = calculateLineItemTaxes(item, taxes, inclusive);
+    subtotal = roundCents(subtotal + line.net);
+    for (const tax of line.taxes) {
+      const key = `${tax.taxRateId ?? "custom"}:${tax.rate}`;
+      const existing = breakdown.get(key);
+      if (existing) {
+        existing.taxableAmount = roundCents(existing.taxableAmount + tax.taxableAmount);
+        existing.amount = roundCents(existing.amount + tax.amount);
+      } else {
+        breakdown.set(key, { ...tax });
+      }
+    }
+  }
+
+  const taxBreakdown = Array.from(breakdown.values());
+  return {
+    subtotal,
+    taxBreakdown,
+    total: roundCents(subtotal + taxBreakdown.reduce((sum, tax) => sum + tax.amount, 0)),
+  };
+};
+
+// Calculate an invoice total from its line items
+export const calculateInvoiceTotal = (items: LineItemAmounts[], taxes?: TaxTable, inclusive = false): number => {
+  return calculateInvoiceTaxes(items, taxes, inclusive).total;
+};
+
+// Estimate (quote) model. Estimates have the same shape as invoices but are
+// not posted to the ledger; an accepted estimate is converted into an invoice.
+export const estimates = pgTable("estimates", {
+  id: serial("id").primaryKey(),
+  number: text("number").notNull(), // Assigned from the estimate sequence on creation
+  title: text("title").notNull(),
+  clientName: text("client_name").notNull(),
+  clientId: integer("client_id"),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  taxInclusive: boolean("tax_inclusive").notNull().default(false),
+  taxBreakdown: jsonb("tax_breakdown").$type<TaxBreakdownLine[]>().notNull().default([]),
+  date: date("date").notNull(),
+  expiryDate: date("expiry_date"),
+  status: text("status", { enum: ["draft", "sent", "accepted", "declined", "expired"] }).notNull().default("draft"),
+  invoiceId: integer("invoice_id"), // Set once the estimate is converted
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+}, (table) => [
+  unique("estimates_organization_number_unique").on(table.organizationId, table.number),
+]);
+
+export const insertEstimateSchema = createInsertSchema(estimates).omit({ id: true, number: true, taxBreakdown: true, invoiceId: true, organizationId: true });
+export type InsertEstimate = z.infer<typeof insertEstimateSchema>;
+export type Estimate = typeof estimates.$inferSelect;
+export type EstimateStatus = Estimate["status"];
+
+export const ESTIMATE_STATUSES: { value: EstimateStatus; label: string }[] = [
+  { value: "draft", label: "Draft" },
+  { value: "sent", label: "Sent" },
+  { value: "accepted", label: "Accepted" },
+  { value: "declined", label: "Declined" },
+  { value: "expired", label: "Expired" },
+];
+
+// Estimate line items mirror invoice line items so they can be copied over
+// unchanged on conversion
+export const estimateLineItems = pgTable("estimate_line_items", {
+  id: serial("id").primaryKey(),
+  estimateId: integer("estimate_id").notNull(),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default("1"),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  taxRateId: integer("tax_rate_id"),
+  taxGroupId: integer("tax_group_id"),
+  discount: decimal("discount", { precision: 5, scale: 2 }).notNull().default("0"),
+  position: integer("position").notNull().default(0),
+});
+
+export type EstimateLineItem = typeof estimateLineItems.$inferSelect;
+
+// Recurring invoice template. Each run issues a regular invoice from the
+// template and moves nextRunDate forward by one period.
+export const recurringInvoices = pgTable("recurring_invoices", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  clientName: text("client_name").notNull(),
+  clientId: integer("client_id"),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // Used when the template has no line items
+  lineItems: jsonb("line_items").$type<InvoiceLineItemInput[]>().notNull().default([]),
+  taxInclusive: boolean("tax_inclusive").notNull().default(false),
+  frequency: text("frequency", { enum: ["weekly", "monthly", "quarterly", "yearly"] }).notNull().default("monthly"),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  nextRunDate: date("next_run_date").notNull(),
+  status: text("status", { enum: ["active", "paused", "completed"] }).notNull().default("active"),
+  lastInvoiceId: integer("last_invoice_id"),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertRecurringInvoiceSchema = createInsertSchema(recurringInvoices)
+  .omit({ id: true, createdAt: true, lastInvoiceId: true, organizationId: true })
+  .extend({
+    lineItems: z.array(invoiceLineItemInputSchema).default([]),
+    nextRunDate: z.string().optional(), // Defaults to the start date
+  });
+export type InsertRecurringInvoice = z.infer<typeof insertRecurringInvoiceSchema>;
+export type RecurringInvoice = typeof recurringInvoices.$inferSelect;
+export type RecurringFrequency = RecurringInvoice["frequency"];
+
+export const RECURRING_FREQUENCIES: { value: RecurringFrequency; label: string }[] = [
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "quarterly", label: "Quarterly" },
+  { value: "yearly", label: "Yearly" },
+];
+
+const FREQUENCY_MONTHS: Record<Exclude<RecurringFrequency, "weekly">, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+// The run date one period after the given one. Monthly schedules keep the
+// day of the month of the start date, falling back to the last day of
+// shorter months (a schedule starting Jan 31 runs Feb 28, then Mar 31).
+export const advanceRunDate = (runDate: string, frequency: RecurringFrequency, startDate: string = runDate): string => {
+  const [year, month, day] = runDate.slice(0, 10).split("-").map(Number);
+
+  if (frequency === "weekly") {
+    const next = new Date(Date.UTC(year, month - 1, day + 7));
+    return next.toISOString().slice(0, 10);
+  }
+
+  const anchorDay = Number(startDate.slice(8, 10));
+  const next = new Date(Date.UTC(year, month - 1 + FREQUENCY_MONTHS[frequency], 1));
+  const lastDay = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(anchorDay, lastDay));
+
+  return next.toISOString().slice(0, 10);
+};
+
+// Credit note model. A credit note reduces the open balance of the invoice
+// it references, fully or partly, and is posted as a reversal of revenue.
+export const creditNotes = pgTable("credit_notes", {
+  id: serial("id").primaryKey(),
+  number: text("number").notNull(), // Assigned from the credit note sequence on creation
+  invoiceId: integer("invoice_id").notNull(),
+  clientName: text("client_name").notNull(),
+  clientId: integer("client_id"),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  date: date("date").notNull(),
+  reason: text("reason").notNull(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("credit_notes_organization_number_unique").on(table.organizationId, table.number),
+]);
+
+export const insertCreditNoteSchema = createInsertSchema(creditNotes).omit({ id: true, number: true, createdAt: true, organizationId: true });
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+export type CreditNote = typeof creditNotes.$inferSelect;
+
+// How money was paid, shared by payments and expenses
+const paymentMethodValues = ["bank_transfer", "card", "cheque", "cash", "other"] as const;
+
+// Payment model. Refunds are stored as payments of type "refund" that
+// point at the payment they return money from; their amount is positive
+// and is subtracted from what has been paid on the invoice. A payment is
+// in the currency of its invoice, converted at the rate on the payment date.
 export const payments = pgTable("payments", {
   id: serial("id").primaryKey(),
   invoiceId: integer("invoice_id").notNull(),
+  type: text("type", { enum: ["payment", "refund"] }).notNull().default("payment"),
+  refundOfId: integer("refund_of_id"),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  currency: text("currency").notNull().default(DEFAULT_BASE_CURRENCY),
+  exchangeRate: decimal("exchange_rate", { precision: 16, scale: 8 }).notNull().default("1"),
   date: date("date").notNull(),
+  method: text("method", { enum: paymentMethodValues }).notNull().default("other"),
+  reference: text("reference"), // Bank reference, card transaction ID or cheque number
+  notes: text("notes"),
   receiptGenerated: boolean("receipt_generated").default(false),
+  bankAccountId: integer("bank_account_id"), // Bank account the money went through, when known
   userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
 });
 
-export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true });
+export const insertPaymentSchema = createInsertSchema(payments).omit({ id: true, currency: true, exchangeRate: true, organizationId: true });
 export type InsertPayment = z.infer<typeof insertPaymentSchema>;
 export type Payment = typeof payments.$inferSelect;
+export type PaymentMethod = Payment["method"];
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: "bank_transfer", label: "Bank transfer" },
+  { value: "card", label: "Card" },
+  { value: "cheque", label: "Cheque" },
+  { value: "cash", label: "Cash" },
+  { value: "other", label: "Other" },
+];
+
+export const getPaymentMethodLabel = (method: PaymentMethod): string => {
+  return PAYMENT_METHODS.find(option => option.value === method)?.label ?? method;
+};
+
+// What a payment contributes to the amount paid on its invoice: refunds
+// count against it
+export const getSignedPaymentAmount = (payment: Pick<Payment, "type" | "amount">): number => {
+  return payment.type === "refund" ? -Number(payment.amount) : Number(payment.amount);
+};
+
+// Vendor model: who expenses are paid to
+export const vendors = pgTable("vendors", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  email: text("email"),
+  phone: text("phone"),
+  address: text("address"),
+  taxNumber: text("tax_number"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+});
+
+export const insertVendorSchema = createInsertSchema(vendors).omit({ id: true, createdAt: true, organizationId: true });
+export type InsertVendor = z.infer<typeof insertVendorSchema>;
+export type Vendor = typeof vendors.$inferSelect;
+
+// What money was spent on, shared by expenses and bank transactions
+const expenseCategoryValues = [
+  "advertising", "bank_fees", "equipment", "insurance", "meals", "office_supplies",
+  "professional_services", "rent", "software", "travel", "utilities", "other",
+] as const;
+
+// Expense model. The amount is before tax; the expense costs amount + taxAmount.
+export const expenses = pgTable("expenses", {
+  id: serial("id").primaryKey(),
+  vendorId: integer("vendor_id"),
+  vendorName: text("vendor_name").notNull(),
+  category: text("category", { enum: expenseCategoryValues }).notNull().default("other"),
+  description: text("description").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  date: date("date").notNull(),
+  paymentMethod: text("payment_method", { enum: paymentMethodValues }).notNull().default("other"),
+  reference: text("reference"),
+  receiptFileName: text("receipt_file_name"), // Set while a receipt is attached
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+});
+
+export const insertExpenseSchema = createInsertSchema(expenses).omit({ id: true, receiptFileName: true, createdAt: true, organizationId: true });
+export type InsertExpense = z.infer<typeof insertExpenseSchema>;
+export type Expense = typeof expenses.$inferSelect;
+export type ExpenseCategory = Expense["category"];
+
+export const EXPENSE_CATEGORIES: { value: ExpenseCategory; label: string }[] = [
+  { value: "advertising", label: "Advertising" },
+  { value: "bank_fees", label: "Bank fees" },
+  { value: "equipment", label: "Equipment" },
+  { value: "insurance", label: "Insurance" },
+  { value: "meals", label: "Meals" },
+  { value: "office_supplies", label: "Office supplies" },
+  { value: "professional_services", label: "Professional services" },
+  { value: "rent", label: "Rent" },
+  { value: "software", label: "Software" },
+  { value: "travel", label: "Travel" },
+  { value: "utilities", label: "Utilities" },
+  { value: "other", label: "Other" },
+];
+
+export const getExpenseCategoryLabel = (category: ExpenseCategory): string => {
+  return EXPENSE_CATEGORIES.find(option => option.value === category)?.label ?? category;
+};
+
+// What an expense cost including tax
+export const getExpenseTotal = (expense: Pick<Expense, "amount" | "taxAmount">): number => {
+  return (Math.round(Number(expense.amount) * 100) + Math.round(Number(expense.taxAmount) * 100)) / 100;
+};
+
+// Receipt attached to an expense, kept apart so expense lists stay small.
+// The file content is stored base64-encoded.
+export const expenseReceipts = pgTable("expense_receipts", {
+  id: serial("id").primaryKey(),
+  expenseId: integer("expense_id").notNull().unique(),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  data: text("data").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type ExpenseReceipt = typeof expenseReceipts.$inferSelect;
+
+// Largest receipt file that can be attached to an expense
+export const MAX_RECEIPT_BYTES = 5 * 1024 * 1024;
+
+// File types a receipt can be. Images are shown in the browser; anything
+// else is downloaded.
+export const RECEIPT_CONTENT_TYPES = ["image/png", "image/jpeg", "application/pdf"] as const;
+export const RECEIPT_IMAGE_CONTENT_TYPES: readonly string[] = ["image/png", "image/jpeg"];
+
+// Vendor bill (accounts payable). A bill is owed from its date and paid off
+// by one or more bill payments; its status follows what has been paid.
+export const bills = pgTable("bills", {
+  id: serial("id").primaryKey(),
+  number: text("number").notNull(), // The vendor's own bill number
+  vendorId: integer("vendor_id").notNull(),
+  vendorName: text("vendor_name").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  date: date("date").notNull(),
+  dueDate: date("due_date").notNull(),
+  status: text("status", { enum: ["open", "partially_paid", "paid"] }).notNull().default("open"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+});
+
+export const insertBillSchema = createInsertSchema(bills).omit({ id: true, status: true, createdAt: true, organizationId: true });
+export type InsertBill = z.infer<typeof insertBillSchema>;
+export type Bill = typeof bills.$inferSelect;
+export type BillStatus = Bill["status"];
+
+export const BILL_STATUSES: { value: BillStatus; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "partially_paid", label: "Partially paid" },
+  { value: "paid", label: "Paid" },
+];
+
+// Bill line items have the same shape as invoice line items
+export const billLineItems = pgTable("bill_line_items", {
+  id: serial("id").primaryKey(),
+  billId: integer("bill_id").notNull(),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default("1"),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  discount: decimal("discount", { precision: 5, scale: 2 }).notNull().default("0"),
+  position: integer("position").notNull().default(0),
+});
+
+export type BillLineItem = typeof billLineItems.$inferSelect;
+
+// Payment made to a vendor against a bill
+export const billPayments = pgTable("bill_payments", {
+  id: serial("id").primaryKey(),
+  billId: integer("bill_id").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  date: date("date").notNull(),
+  method: text("method", { enum: paymentMethodValues }).notNull().default("other"),
+  reference: text("reference"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+});
+
+export const insertBillPaymentSchema = createInsertSchema(billPayments).omit({ id: true, createdAt: true, organizationId: true });
+export type InsertBillPayment = z.infer<typeof insertBillPaymentSchema>;
+export type BillPayment = typeof billPayments.$inferSelect;
+
+// What has been paid on a bill and what is still owed, as returned with
+// every bill by the API
+export interface BillAmounts {
+  amountPaid: number;
+  amountDue: number;
+}
+
+export type BillWithAmounts = Bill & BillAmounts;
+
+export const calculateBillAmounts = (bill: Pick<Bill, "amount">, amountPaid: number): BillAmounts => {
+  const owed = Math.round(Number(bill.amount) * 100);
+
+  return {
+    amountPaid,
+    amountDue: Math.max(0, owed - Math.round(amountPaid * 100)) / 100,
+  };
+};
+
+// Where the fields of a bank's CSV export are found, by column header.
+// Amounts come either from one signed column or from separate debit
+// (money out) and credit (money in) columns.
+export const bankCsvMappingSchema = z.object({
+  dateColumn: z.string().min(1, "Name the date column"),
+  dateFormat: z.enum(["YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY"]),
+  descriptionColumn: z.string().min(1, "Name the description column"),
+  amountColumn: z.string().optional(),
+  debitColumn: z.string().optional(),
+  creditColumn: z.string().optional(),
+  payeeColumn: z.string().optional(),
+  referenceColumn: z.string().optional(),
+  delimiter: z.string().max(1).optional(), // Detected when left out
+  decimalSeparator: z.enum([".", ","]).default("."),
+}).refine(mapping => !!mapping.amountColumn || (!!mapping.debitColumn && !!mapping.creditColumn), {
+  message: "Name an amount column, or both a debit and a credit column",
+  path: ["amountColumn"],
+});
+
+export type BankCsvMapping = z.infer<typeof bankCsvMappingSchema>;
+
+// Bank account that statements are imported into
+export const bankAccounts = pgTable("bank_accounts", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  institution: text("institution"),
+  accountNumber: text("account_number"), // As printed on statements, e.g. the IBAN or last digits
+  currency: text("currency").notNull().default("USD"),
+  openingBalance: decimal("opening_balance", { precision: 10, scale: 2 }).notNull().default("0"), // Before the first statement line
+  csvMapping: jsonb("csv_mapping").$type<BankCsvMapping>(), // Used for CSV statement imports
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+});
+
+export const insertBankAccountSchema = createInsertSchema(bankAccounts).omit({ id: true, createdAt: true, organizationId: true }).extend({
+  csvMapping: bankCsvMappingSchema.nullable().optional(),
+});
+export type InsertBankAccount = z.infer<typeof insertBankAccountSchema>;
+export type BankAccount = typeof bankAccounts.$inferSelect;
+
+export const bankStatementFormatValues = ["ofx", "qif", "camt053", "csv"] as const;
+export type BankStatementFormat = typeof bankStatementFormatValues[number];
+
+// Transaction loaded from a bank statement. The amount is signed: money in
+// is positive and money out negative. The import ID is the statement's own
+// transaction ID (the OFX FITID) when the format has one, otherwise a hash
+// of the transaction, and is unique per bank account so that re-importing
+// an overlapping statement skips the transactions already loaded. Lines
+// entered by hand have the source "manual". The category and vendor are
+// set by the first bank rule the transaction matches (ruleId) or by hand.
+export const bankTransactions = pgTable("bank_transactions", {
+  id: serial("id").primaryKey(),
+  bankAccountId: integer("bank_account_id").notNull(),
+  date: date("date").notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  description: text("description").notNull(),
+  payee: text("payee"),
+  reference: text("reference"),
+  importId: text("import_id").notNull(),
+  source: text("source", { enum: [...bankStatementFormatValues, "manual"] }).notNull(),
+  category: text("category", { enum: expenseCategoryValues }),
+  vendorId: integer("vendor_id"),
+  ruleId: integer("rule_id"), // Rule that categorized the transaction; null when set by hand
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+}, (table) => [
+  unique("bank_transactions_account_import_unique").on(table.bankAccountId, table.importId),
+]);
+
+export const insertBankTransactionSchema = createInsertSchema(bankTransactions).omit({ id: true, createdAt: true, organizationId: true });
+export type InsertBankTransaction = z.infer<typeof insertBankTransactionSchema>;
+export type BankTransaction = typeof bankTransactions.$inferSelect;
+export type BankTransactionSource = BankTransaction["source"];
+
+export const BANK_STATEMENT_FORMATS: { value: BankStatementFormat; label: string }[] = [
+  { value: "ofx", label: "OFX / QFX" },
+  { value: "qif", label: "QIF" },
+  { value: "camt053", label: "CAMT.053 (XML)" },
+  { value: "csv", label: "CSV" },
+];
+
+export const getBankTransactionSourceLabel = (source: BankTransactionSource): string => {
+  return BANK_STATEMENT_FORMATS.find(option => option.value === source)?.label ?? "Manual";
+};
+
+// Outcome of importing a statement file into a bank account
+export interface BankImportResult {
+  format: BankStatementFormat;
+  imported: number;
+  skipped: number; // Already loaded by an earlier import
+  locked: number; // Dated in a period that has already been reconciled
+}
+
+// Largest statement file that can be imported
+export const MAX_STATEMENT_BYTES = 5 * 1024 * 1024;
+
+// Payment matched to a bank transaction. A transaction can be matched to
+// several payments (one deposit settling several invoices), but each
+// payment is matched to one transaction at most.
+export const bankTransactionMatches = pgTable("bank_transaction_matches", {
+  id: serial("id").primaryKey(),
+  bankTransactionId: integer("bank_transaction_id").notNull(),
+  paymentId: integer("payment_id").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type BankTransactionMatch = typeof bankTransactionMatches.$inferSelect;
+export type BankTransactionMatchWithPayment = BankTransactionMatch & { payment: Payment };
+
+// How much of a bank transaction is accounted for by matched payments, as
+// returned with every transaction by the API. Locked transactions fall in
+// a reconciled period and can no longer be changed.
+export interface BankTransactionMatchState {
+  matchedAmount: number;
+  paymentIds: number[];
+  status: "unmatched" | "partially_matched" | "matched";
+  locked: boolean;
+}
+
+export type BankTransactionWithMatches = BankTransaction & BankTransactionMatchState;
+
+// A recorded payment that may be the book entry for a bank transaction
+export interface BankMatchSuggestion {
+  payment: Payment;
+  invoiceNumber: string;
+  clientName: string;
+  score: number;
+  reasons: string[];
+}
+
+// Completed reconciliation of a bank account up to a statement date. Once
+// completed, the transactions up to that date and the payments matched to
+// them are locked.
+export const bankReconciliations = pgTable("bank_reconciliations", {
+  id: serial("id").primaryKey(),
+  bankAccountId: integer("bank_account_id").notNull(),
+  statementDate: date("statement_date").notNull(),
+  statementBalance: decimal("statement_balance", { precision: 10, scale: 2 }).notNull(),
+  bookBalance: decimal("book_balance", { precision: 10, scale: 2 }).notNull(),
+  completedAt: timestamp("completed_at").notNull().defaultNow(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+});
+
+export const insertBankReconciliationSchema = createInsertSchema(bankReconciliations).omit({ id: true, completedAt: true, organizationId: true });
+export type InsertBankReconciliation = z.infer<typeof insertBankReconciliationSchema>;
+export type BankReconciliation = typeof bankReconciliations.$inferSelect;
+
+// Statement balance against book balance for a bank account as of a date.
+// The cleared balance is the opening balance plus the statement lines; the
+// book balance is the opening balance plus the payments recorded to the
+// account. They differ by the reconciling items: statement lines not yet
+// matched to a payment, and payments not yet seen on the statement.
+export interface ReconciliationReport {
+  bankAccountId: number;
+  asOf: string;
+  openingBalance: number;
+  statementBalance: number | null; // As printed on the statement, when given
+  clearedBalance: number;
+  bookBalance: number;
+  unmatchedTotal: number;
+  outstandingTotal: number;
+  unmatchedTransactions: BankTransactionWithMatches[];
+  outstandingPayments: Payment[];
+  difference: number | null; // Statement balance less cleared balance
+  lockedThrough: string | null;
+}
+
+// Rule that categorizes bank transactions as they are imported or entered.
+// A transaction matches when every condition that is set holds: the
+// description or payee contains the text (ignoring case) and the signed
+// amount lies between the bounds (inclusive). Active rules are tried in priority order,
+// lowest number first, and the first match sets the category and vendor.
+export const bankRules = pgTable("bank_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  priority: integer("priority").notNull().default(0),
+  bankAccountId: integer("bank_account_id"), // Null for every account
+  descriptionContains: text("description_contains"),
+  amountMin: decimal("amount_min", { precision: 10, scale: 2 }),
+  amountMax: decimal("amount_max", { precision: 10, scale: 2 }),
+  category: text("category", { enum: expenseCategoryValues }),
+  vendorId: integer("vendor_id"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+});
+
+export const insertBankRuleSchema = createInsertSchema(bankRules).omit({ id: true, createdAt: true, organizationId: true });
+export type InsertBankRule = z.infer<typeof insertBankRuleSchema>;
+export type BankRule = typeof bankRules.$inferSelect;
+
+// Past transactions a rule would match, for trying it out before saving
+export interface BankRuleTestResult {
+  matchCount: number;
+  takenByEarlierRules: number; // Matches an active rule of higher priority gets first
+  transactions: BankTransaction[]; // The most recent matches
+}
+
+// A single figure on a financial statement
+export interface StatementLine {
+  accountId?: number;
+  code?: string;
+  name: string;
+  amount: number;
+}
+
+export interface StatementSection {
+  key: string;
+  title: string;
+  lines: StatementLine[];
+  total: number;
+}
+
+// The computed figures of a report, stored with it as a snapshot
+export interface FinancialStatement {
+  kind: "balance_sheet" | "income_statement";
+  currency?: string; // The base currency; missing on reports stored before currencies were added
+  periodStart: string | null; // Balance sheets are as of periodEnd and have no start
+  periodEnd: string;
+  sections: StatementSection[];
+  totals: Record<string, number>;
+}
 
 // Financial report model (for tracking generated reports)
 export const reports = pgTable("reports", {
@@ -74,13 +1353,354 @@ export const reports = pgTable("reports", {
   title: text("title").notNull(),
   type: text("type", { enum: ["monthly", "yearly", "balance_sheet", "income_statement"] }).notNull(),
   generatedAt: timestamp("generated_at").notNull(),
+  periodStart: date("period_start"),
+  periodEnd: date("period_end"),
+  data: jsonb("data").$type<FinancialStatement>(),
   userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
 });
 
-export const insertReportSchema = createInsertSchema(reports).omit({ id: true });
+export const insertReportSchema = createInsertSchema(reports).omit({ id: true, data: true, organizationId: true });
 export type InsertReport = z.infer<typeof insertReportSchema>;
 export type Report = typeof reports.$inferSelect;
 
+// Chart of accounts. Each organization has its own, system accounts included.
+export const accounts = pgTable("accounts", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull(),
+  name: text("name").notNull(),
+  type: text("type", { enum: ["asset", "liability", "equity", "revenue", "expense"] }).notNull(),
+  isSystem: boolean("is_system").notNull().default(false),
+  organizationId: integer("organization_id"),
+}, (table) => [
+  unique("accounts_organization_code_unique").on(table.organizationId, table.code),
+]);
+
+export const insertAccountSchema = createInsertSchema(accounts).omit({ id: true, isSystem: true, organizationId: true });
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type Account = typeof accounts.$inferSelect;
+
+// Accounts the application posts to automatically
+export const SYSTEM_ACCOUNTS = {
+  cash: { code: "1000", name: "Cash", type: "asset" },
+  accountsReceivable: { code: "1100", name: "Accounts Receivable", type: "asset" },
+  revenue: { code: "4000", name: "Revenue", type: "revenue" },
+  accountsPayable: { code: "2000", name: "Accounts Payable", type: "liability" },
+  expenses: { code: "5000", name: "Expenses", type: "expense" },
+  realizedExchangeGain: { code: "4900", name: "Realized Foreign Exchange Gain/Loss", type: "revenue" },
+  unrealizedExchangeGain: { code: "4910", name: "Unrealized Foreign Exchange Gain/Loss", type: "revenue" },
+} as const;
+
+// Exchange gains and losses are shown apart from revenue on the income statement
+export const EXCHANGE_GAIN_ACCOUNT_CODES: string[] = [
+  SYSTEM_ACCOUNTS.realizedExchangeGain.code,
+  SYSTEM_ACCOUNTS.unrealizedExchangeGain.code,
+];
+
+export type SystemAccountKey = keyof typeof SYSTEM_ACCOUNTS;
+
+// Journal entry model (the header of a double-entry transaction)
+export const journalEntries = pgTable("journal_entries", {
+  id: serial("id").primaryKey(),
+  date: date("date").notNull(),
+  description: text("description").notNull(),
+  sourceType: text("source_type", { enum: ["invoice", "payment", "refund", "credit_note", "expense", "bill", "bill_payment", "exchange_difference", "revaluation", "revaluation_reversal", "manual"] }).notNull().default("manual"),
+  sourceId: integer("source_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+});
+
+export const insertJournalEntrySchema = createInsertSchema(journalEntries).omit({ id: true, createdAt: true, organizationId: true });
+export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+
+// Journal line model (one debit or credit against an account)
+export const journalLines = pgTable("journal_lines", {
+  id: serial("id").primaryKey(),
+  journalEntryId: integer("journal_entry_id").notNull(),
+  accountId: integer("account_id").notNull(),
+  debit: decimal("debit", { precision: 12, scale: 2 }).notNull().default("0"),
+  credit: decimal("credit", { precision: 12, scale: 2 }).notNull().default("0"),
+  memo: text("memo"),
+});
+
+export const insertJournalLineSchema = createInsertSchema(journalLines).omit({ id: true });
+export type InsertJournalLine = z.infer<typeof insertJournalLineSchema>;
+export type JournalLine = typeof journalLines.$inferSelect;
+
+// Journal lines as submitted with an entry (the entry ID is assigned by the server)
+export const journalLineInputSchema = insertJournalLineSchema.omit({ journalEntryId: true });
+export type JournalLineInput = z.infer<typeof journalLineInputSchema>;
+
+export type JournalEntryWithLines = JournalEntry & { lines: JournalLine[] };
+
+// Per-account totals, as used by the trial balance and the dashboard
+export interface AccountBalance {
+  accountId: number;
+  code: string;
+  name: string;
+  type: Account["type"];
+  debit: number;
+  credit: number;
+  balance: number; // Debit-normal for assets and expenses, credit-normal otherwise
+}
+
+// Aging buckets by days past due, used by the receivables and payables aging reports
+export const AGING_BUCKETS = [
+  { key: "current", label: "Current", minDays: -Infinity, maxDays: 0 },
+  { key: "1_30", label: "1-30 days", minDays: 1, maxDays: 30 },
+  { key: "31_60", label: "31-60 days", minDays: 31, maxDays: 60 },
+  { key: "61_90", label: "61-90 days", minDays: 61, maxDays: 90 },
+  { key: "90_plus", label: "90+ days", minDays: 91, maxDays: Infinity },
+] as const;
+
+export type AgingBucket = typeof AGING_BUCKETS[number]["key"];
+
+export const getAgingBucket = (daysPastDue: number): AgingBucket => {
+  return AGING_BUCKETS.find(bucket => daysPastDue >= bucket.minDays && daysPastDue <= bucket.maxDays)!.key;
+};
+
+// An open document (an invoice or a bill) in an aging report. Amounts are
+// in the base currency, converted at the document's stored rate; the open
+// balance is also given in the document's own currency.
+export interface AgingDocument {
+  id: number;
+  reference: string;
+  partyId: number | null;
+  partyName: string;
+  date: string;
+  dueDate: string;
+  amount: number;
+  paid: number;
+  credited: number;
+  balance: number;
+  currency: string;
+  currencyBalance: number;
+  daysPastDue: number;
+  bucket: AgingBucket;
+}
+
+// Open balances of one counterparty (a client or a vendor), split by bucket
+export interface AgingRow {
+  partyId: number | null;
+  partyName: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+export interface AgingReport {
+  asOf: string;
+  currency: string;
+  rows: AgingRow[];
+  totals: Record<AgingBucket, number>;
+  total: number;
+  documents: AgingDocument[];
+}
+
+// An open foreign-currency invoice revalued at the rate on the as-of date.
+// The gain or loss is the change in its base currency value since it was
+// booked.
+export interface RevaluationLine {
+  invoiceId: number;
+  reference: string;
+  clientName: string;
+  currency: string;
+  balance: number; // Open balance in the invoice currency
+  bookedRate: number;
+  rate: number;
+  bookedAmount: number;
+  revaluedAmount: number;
+  gainLoss: number;
+}
+
+// The unrealized exchange gains and losses on open receivables as of a
+// date, in the base currency
+export interface ReceivablesRevaluation {
+  asOf: string;
+  currency: string;
+  lines: RevaluationLine[];
+  total: number;
+}
+
+// A sale or purchase that makes up a tax return. Credit notes and voided
+// invoices count against the period they are dated in.
+export interface TaxReturnDocument {
+  type: "invoice" | "credit_note" | "void" | "bill" | "expense";
+  id: number;
+  reference: string;
+  partyName: string;
+  date: string;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export const TAX_RETURN_DOCUMENT_TYPES: { value: TaxReturnDocument["type"]; label: string }[] = [
+  { value: "invoice", label: "Invoice" },
+  { value: "credit_note", label: "Credit note" },
+  { value: "void", label: "Voided invoice" },
+  { value: "bill", label: "Bill" },
+  { value: "expense", label: "Expense" },
+];
+
+export const getTaxReturnDocumentLabel = (type: TaxReturnDocument["type"]): string => {
+  return TAX_RETURN_DOCUMENT_TYPES.find(option => option.value === type)?.label ?? type;
+};
+
+// Output tax charged on sales and input tax paid on purchases in a period,
+// by tax rate, in the base currency. A positive net tax is payable and a
+// negative one refundable.
+export interface TaxReturnReport {
+  periodStart: string;
+  periodEnd: string;
+  currency: string;
+  outputTax: TaxBreakdownLine[];
+  inputTax: TaxBreakdownLine[];
+  totalOutputTax: number;
+  totalInputTax: number;
+  netTax: number;
+  sales: TaxReturnDocument[];
+  purchases: TaxReturnDocument[];
+}
+
+// Filed tax return, kept with the figures as filed. Invoices, credit notes,
+// bills and expenses dated up to the end of the latest filed period can no
+// longer be changed.
+export const taxReturns = pgTable("tax_returns", {
+  id: serial("id").primaryKey(),
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(),
+  data: jsonb("data").$type<TaxReturnReport>().notNull(),
+  filedAt: timestamp("filed_at").notNull().defaultNow(),
+  userId: integer("user_id").notNull(),
+  organizationId: integer("organization_id"),
+});
+
+export const insertTaxReturnSchema = createInsertSchema(taxReturns).omit({ id: true, data: true, filedAt: true, organizationId: true });
+export type InsertTaxReturn = z.infer<typeof insertTaxReturnSchema>;
+export type TaxReturn = typeof taxReturns.$inferSelect;
+
+// One line of a client statement. Invoices and refunds raise the balance,
+// payments and credit notes lower it.
+export interface ClientStatementEntry {
+  type: "invoice" | "payment" | "refund" | "credit_note";
+  id: number;
+  date: string;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface ClientStatement {
+  clientId: number;
+  clientName: string;
+  currency: string;
+  periodStart: string | null;
+  periodEnd: string;
+  openingBalance: number;
+  entries: ClientStatementEntry[];
+  closingBalance: number;
+}
+
+// Records whose changes are kept in the audit log
+export const auditEntityTypeValues = [
+  "client", "vendor", "invoice", "estimate", "recurring_invoice", "credit_note", "payment",
+  "expense", "bill", "bill_payment",
+  "bank_account", "bank_transaction", "bank_reconciliation", "bank_rule",
+  "tax_rate", "tax_group", "tax_return", "exchange_rate", "document_sequence",
+  "account", "journal_entry", "report",
+  "organization", "user", "member", "invitation", "custom_role",
+] as const;
+export type AuditEntityType = typeof auditEntityTypeValues[number];
+
+export const AUDIT_ENTITY_TYPES: { value: AuditEntityType; label: string }[] = [
+  { value: "client", label: "Client" },
+  { value: "vendor", label: "Vendor" },
+  { value: "invoice", label: "Invoice" },
+  { value: "estimate", label: "Estimate" },
+  { value: "recurring_invoice", label: "Recurring invoice" },
+  { value: "credit_note", label: "Credit note" },
+  { value: "payment", label: "Payment" },
+  { value: "expense", label: "Expense" },
+  { value: "bill", label: "Bill" },
+  { value: "bill_payment", label: "Bill payment" },
+  { value: "bank_account", label: "Bank account" },
+  { value: "bank_transaction", label: "Bank transaction" },
+  { value: "bank_reconciliation", label: "Bank reconciliation" },
+  { value: "bank_rule", label: "Bank rule" },
+  { value: "tax_rate", label: "Tax rate" },
+  { value: "tax_group", label: "Tax group" },
+  { value: "tax_return", label: "Tax return" },
+  { value: "exchange_rate", label: "Exchange rates" },
+  { value: "document_sequence", label: "Document numbering" },
+  { value: "account", label: "Account" },
+  { value: "journal_entry", label: "Journal entry" },
+  { value: "report", label: "Report" },
+  { value: "organization", label: "Organization" },
+  { value: "user", label: "User" },
+  { value: "member", label: "Member" },
+  { value: "invitation", label: "Invitation" },
+  { value: "custom_role", label: "Role" },
+];
+
+export const getAuditEntityTypeLabel = (entityType: AuditEntityType): string => {
+  return AUDIT_ENTITY_TYPES.find(option => option.value === entityType)?.label ?? entityType;
+};
+
+export const auditActionValues = ["create", "update", "delete", "void", "revalue", "import"] as const;
+export type AuditAction = typeof auditActionValues[number];
+
+export const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: "create", label: "Created" },
+  { value: "update", label: "Updated" },
+  { value: "delete", label: "Deleted" },
+  { value: "void", label: "Voided" },
+  { value: "revalue", label: "Revalued" },
+  { value: "import", label: "Imported" },
+];
+
+export const getAuditActionLabel = (action: AuditAction): string => {
+  return AUDIT_ACTIONS.find(option => option.value === action)?.label ?? action;
+};
+
+// The fields a change touched, each with its value before and after. Fields
+// of a new record have no value before, and those of a deleted one none after.
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Append-only history of changes to an organization's records: who made
+// each change, when, from which address and what it changed. Entries are
+// never updated or deleted, and the database rejects any attempt to.
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type", { enum: auditEntityTypeValues }).notNull(),
+  entityId: integer("entity_id"), // Unset for imports of many records at once
+  entityLabel: text("entity_label").notNull(), // e.g. the invoice number, so deleted records stay recognizable
+  action: text("action", { enum: auditActionValues }).notNull(),
+  changes: jsonb("changes").$type<AuditChanges>().notNull().default({}),
+  userId: integer("user_id"), // Unset for changes made by scheduled jobs
+  ipAddress: text("ip_address"),
+  organizationId: integer("organization_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+// An audit log entry with the name of the user who made the change, or
+// null when a scheduled job made it
+export type AuditLogEntryWithUser = AuditLogEntry & { userName: string | null };
+
+// Narrows the audit log to one record, one user's changes or a date range
+// (inclusive, as YYYY-MM-DD)
+export interface AuditLogFilters {
+  entityType?: AuditEntityType;
+  entityId?: number;
+  userId?: number;
+  from?: string;
+  to?: string;
+}
+
 // Login schema
 export const loginSchema = z.object({
   email: z.string().email(),
@@ -89,12 +1709,47 @@ export const loginSchema = z.object({
 
 export type LoginCredentials = z.infer<typeof loginSchema>;
 
+// Second login step, and the confirmation asked for when two-factor
+// authentication is turned on or off. Either a six-digit code from the
+// authenticator app or one of the recovery codes is given.
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code").optional(),
+  recoveryCode: z.string().trim().min(1).optional(),
+}).refine(data => !!data.code !== !!data.recoveryCode, {
+  message: "Enter a code from your authenticator app or a recovery code",
+  path: ["code"],
+});
+export type TwoFactorCode = z.infer<typeof twoFactorCodeSchema>;
+
+// What the login endpoint answers when the password was right but the user
+// still has to enter a code
+export interface TwoFactorChallenge {
+  codeRequired: true;
+}
+
+// A new authenticator secret for the user to scan, before it is confirmed
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // Data URL of the QR code image
+}
+
+// Recovery codes in plain text. They are only shown when generated.
+export interface TwoFactorRecoveryCodes {
+  recoveryCodes: string[];
+}
+
 // Define relations
 export const usersRelations = relations(users, ({ many }) => ({
   invoices: many(invoices),
   payments: many(payments),
   reports: many(reports),
   clients: many(clients),
+  vendors: many(vendors),
+  expenses: many(expenses),
+  bills: many(bills),
+  bankAccounts: many(bankAccounts),
+  bankRules: many(bankRules),
 }));
 
 export const clientsRelations = relations(clients, ({ one, many }) => ({
@@ -115,9 +1770,84 @@ export const invoicesRelations = relations(invoices, ({ one, many }) => ({
     references: [clients.id],
   }),
   payments: many(payments),
+  creditNotes: many(creditNotes),
+  lineItems: many(invoiceLineItems),
+  reminders: many(invoiceReminders),
+  recurringInvoice: one(recurringInvoices, {
+    fields: [invoices.recurringInvoiceId],
+    references: [recurringInvoices.id],
+  }),
+  estimate: one(estimates, {
+    fields: [invoices.estimateId],
+    references: [estimates.id],
+  }),
 }));
 
-export const paymentsRelations = relations(payments, ({ one }) => ({
+export const estimatesRelations = relations(estimates, ({ one, many }) => ({
+  user: one(users, {
+    fields: [estimates.userId],
+    references: [users.id],
+  }),
+  client: one(clients, {
+    fields: [estimates.clientId],
+    references: [clients.id],
+  }),
+  invoice: one(invoices, {
+    fields: [estimates.invoiceId],
+    references: [invoices.id],
+  }),
+  lineItems: many(estimateLineItems),
+}));
+
+export const estimateLineItemsRelations = relations(estimateLineItems, ({ one }) => ({
+  estimate: one(estimates, {
+    fields: [estimateLineItems.estimateId],
+    references: [estimates.id],
+  }),
+}));
+
+export const recurringInvoicesRelations = relations(recurringInvoices, ({ one, many }) => ({
+  user: one(users, {
+    fields: [recurringInvoices.userId],
+    references: [users.id],
+  }),
+  client: one(clients, {
+    fields: [recurringInvoices.clientId],
+    references: [clients.id],
+  }),
+  invoices: many(invoices),
+}));
+
+export const invoiceRemindersRelations = relations(invoiceReminders, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoiceReminders.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const invoiceLineItemsRelations = relations(invoiceLineItems, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoiceLineItems.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const creditNotesRelations = relations(creditNotes, ({ one }) => ({
+  user: one(users, {
+    fields: [creditNotes.userId],
+    references: [users.id],
+  }),
+  invoice: one(invoices, {
+    fields: [creditNotes.invoiceId],
+    references: [invoices.id],
+  }),
+  client: one(clients, {
+    fields: [creditNotes.clientId],
+    references: [clients.id],
+  }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one, many }) => ({
   user: one(users, {
     fields: [payments.userId],
     references: [users.id],
@@ -126,6 +1856,153 @@ export const paymentsRelations = relations(payments, ({ one }) => ({
     fields: [payments.invoiceId],
     references: [invoices.id],
   }),
+  refundOf: one(payments, {
+    fields: [payments.refundOfId],
+    references: [payments.id],
+    relationName: "refunds",
+  }),
+  refunds: many(payments, { relationName: "refunds" }),
+}));
+
+export const vendorsRelations = relations(vendors, ({ one, many }) => ({
+  user: one(users, {
+    fields: [vendors.userId],
+    references: [users.id],
+  }),
+  expenses: many(expenses),
+  bills: many(bills),
+  bankRules: many(bankRules),
+}));
+
+export const expensesRelations = relations(expenses, ({ one }) => ({
+  user: one(users, {
+    fields: [expenses.userId],
+    references: [users.id],
+  }),
+  vendor: one(vendors, {
+    fields: [expenses.vendorId],
+    references: [vendors.id],
+  }),
+  receipt: one(expenseReceipts, {
+    fields: [expenses.id],
+    references: [expenseReceipts.expenseId],
+  }),
+}));
+
+export const billsRelations = relations(bills, ({ one, many }) => ({
+  user: one(users, {
+    fields: [bills.userId],
+    references: [users.id],
+  }),
+  vendor: one(vendors, {
+    fields: [bills.vendorId],
+    references: [vendors.id],
+  }),
+  lineItems: many(billLineItems),
+  payments: many(billPayments),
+}));
+
+export const billLineItemsRelations = relations(billLineItems, ({ one }) => ({
+  bill: one(bills, {
+    fields: [billLineItems.billId],
+    references: [bills.id],
+  }),
+}));
+
+export const billPaymentsRelations = relations(billPayments, ({ one }) => ({
+  bill: one(bills, {
+    fields: [billPayments.billId],
+    references: [bills.id],
+  }),
+  user: one(users, {
+    fields: [billPayments.userId],
+    references: [users.id],
+  }),
+}));
+
+export const bankAccountsRelations = relations(bankAccounts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [bankAccounts.userId],
+    references: [users.id],
+  }),
+  transactions: many(bankTransactions),
+  reconciliations: many(bankReconciliations),
+}));
+
+export const bankTransactionsRelations = relations(bankTransactions, ({ one, many }) => ({
+  bankAccount: one(bankAccounts, {
+    fields: [bankTransactions.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  user: one(users, {
+    fields: [bankTransactions.userId],
+    references: [users.id],
+  }),
+  vendor: one(vendors, {
+    fields: [bankTransactions.vendorId],
+    references: [vendors.id],
+  }),
+  rule: one(bankRules, {
+    fields: [bankTransactions.ruleId],
+    references: [bankRules.id],
+  }),
+  matches: many(bankTransactionMatches),
+}));
+
+export const bankTransactionMatchesRelations = relations(bankTransactionMatches, ({ one }) => ({
+  bankTransaction: one(bankTransactions, {
+    fields: [bankTransactionMatches.bankTransactionId],
+    references: [bankTransactions.id],
+  }),
+  payment: one(payments, {
+    fields: [bankTransactionMatches.paymentId],
+    references: [payments.id],
+  }),
+}));
+
+export const bankReconciliationsRelations = relations(bankReconciliations, ({ one }) => ({
+  bankAccount: one(bankAccounts, {
+    fields: [bankReconciliations.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  user: one(users, {
+    fields: [bankReconciliations.userId],
+    references: [users.id],
+  }),
+}));
+
+export const bankRulesRelations = relations(bankRules, ({ one }) => ({
+  bankAccount: one(bankAccounts, {
+    fields: [bankRules.bankAccountId],
+    references: [bankAccounts.id],
+  }),
+  vendor: one(vendors, {
+    fields: [bankRules.vendorId],
+    references: [vendors.id],
+  }),
+  user: one(users, {
+    fields: [bankRules.userId],
+    references: [users.id],
+  }),
+}));
+
+export const journalEntriesRelations = relations(journalEntries, ({ one, many }) => ({
+  user: one(users, {
+    fields: [journalEntries.userId],
+    references: [users.id],
+  }),
+  lines: many(journalLines),
+}));
+
+export const journalLinesRelations = relations(journalLines, ({ one }) => ({
+  entry: one(journalEntries, {
+    fields: [journalLines.journalEntryId],
+    references: [journalEntries.id],
+  }),
+  account: one(accounts, {
+    fields: [journalLines.accountId],
+    references: [accounts.id],
+  }),
 }));
 
 export const reportsRelations = relations(reports, ({ one }) => ({